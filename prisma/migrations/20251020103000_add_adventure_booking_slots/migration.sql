@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."adventure_bookings" ADD COLUMN     "pricingType" TEXT NOT NULL DEFAULT 'PER_PERSON',
+ADD COLUMN     "slotTime" TEXT;
+
+-- CreateIndex
+CREATE INDEX "adventure_bookings_activityId_bookingDate_idx" ON "public"."adventure_bookings"("activityId", "bookingDate");
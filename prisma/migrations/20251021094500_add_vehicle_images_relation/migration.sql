@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."vendor_images" ADD COLUMN     "vehicleId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."vendor_images" ADD CONSTRAINT "vendor_images_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
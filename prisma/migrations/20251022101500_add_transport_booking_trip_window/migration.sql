@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."transport_bookings" ADD COLUMN     "distanceKm" DOUBLE PRECISION,
+ADD COLUMN     "dropTime" TIMESTAMP(3),
+ADD COLUMN     "durationMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "numberOfPassengers" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "pricingType" TEXT NOT NULL DEFAULT 'PER_RIDE';
+
+-- Backfill existing bookings with a one hour trip window
+UPDATE "public"."transport_bookings" SET "dropTime" = "pickupTime" + INTERVAL '1 hour' WHERE "dropTime" IS NULL;
+
+ALTER TABLE "public"."transport_bookings" ALTER COLUMN "dropTime" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "transport_bookings_vehicleId_pickupTime_idx" ON "public"."transport_bookings"("vehicleId", "pickupTime");
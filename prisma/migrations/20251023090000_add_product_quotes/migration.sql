@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."QuoteStatus" AS ENUM ('REQUESTED', 'QUOTED', 'ACCEPTED', 'REJECTED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."product_quotes" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "localMarketProfileId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "requiresDelivery" BOOLEAN NOT NULL DEFAULT false,
+    "deliveryAddress" TEXT,
+    "customerNote" TEXT,
+    "unitPrice" DOUBLE PRECISION,
+    "vendorNote" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "status" "public"."QuoteStatus" NOT NULL DEFAULT 'REQUESTED',
+    "marketBookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_quotes_marketBookingId_key" ON "public"."product_quotes"("marketBookingId");
+
+-- CreateIndex
+CREATE INDEX "product_quotes_localMarketProfileId_status_idx" ON "public"."product_quotes"("localMarketProfileId", "status");
+
+-- CreateIndex
+CREATE INDEX "product_quotes_userId_status_idx" ON "public"."product_quotes"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."product_quotes" ADD CONSTRAINT "product_quotes_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_quotes" ADD CONSTRAINT "product_quotes_localMarketProfileId_fkey" FOREIGN KEY ("localMarketProfileId") REFERENCES "public"."local_market_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_quotes" ADD CONSTRAINT "product_quotes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_quotes" ADD CONSTRAINT "product_quotes_marketBookingId_fkey" FOREIGN KEY ("marketBookingId") REFERENCES "public"."market_bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
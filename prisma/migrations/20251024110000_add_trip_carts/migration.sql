@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "public"."TripCartStatus" AS ENUM ('OPEN', 'CHECKOUT', 'PAID', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "public"."bookings" ADD COLUMN     "tripCartId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."trip_carts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "public"."TripCartStatus" NOT NULL DEFAULT 'OPEN',
+    "totalAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "razorpayOrderId" TEXT,
+    "razorpayPaymentId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trip_carts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."trip_cart_items" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "itemType" "public"."VendorType" NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "details" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_cart_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trip_carts_razorpayOrderId_key" ON "public"."trip_carts"("razorpayOrderId");
+
+-- CreateIndex
+CREATE INDEX "trip_carts_userId_status_idx" ON "public"."trip_carts"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "bookings_tripCartId_idx" ON "public"."bookings"("tripCartId");
+
+-- AddForeignKey
+ALTER TABLE "public"."bookings" ADD CONSTRAINT "bookings_tripCartId_fkey" FOREIGN KEY ("tripCartId") REFERENCES "public"."trip_carts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."trip_carts" ADD CONSTRAINT "trip_carts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."trip_cart_items" ADD CONSTRAINT "trip_cart_items_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "public"."trip_carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."trip_cart_items" ADD CONSTRAINT "trip_cart_items_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "public"."vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."PricingSeason" AS ENUM ('SUMMER', 'WINTER');
+
+-- AlterTable
+ALTER TABLE "public"."hotel_bookings" ADD COLUMN     "nightlyRates" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."hotel_seasons" (
+    "id" TEXT NOT NULL,
+    "hotelProfileId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "season" "public"."PricingSeason" NOT NULL,
+    "startMonth" INTEGER NOT NULL,
+    "startDay" INTEGER NOT NULL,
+    "endMonth" INTEGER NOT NULL,
+    "endDay" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hotel_seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hotel_seasons_hotelProfileId_idx" ON "public"."hotel_seasons"("hotelProfileId");
+
+-- AddForeignKey
+ALTER TABLE "public"."hotel_seasons" ADD CONSTRAINT "hotel_seasons_hotelProfileId_fkey" FOREIGN KEY ("hotelProfileId") REFERENCES "public"."hotel_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
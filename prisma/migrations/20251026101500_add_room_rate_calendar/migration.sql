@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."room_rates" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "price" DOUBLE PRECISION,
+    "minStay" INTEGER,
+    "maxStay" INTEGER,
+    "label" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "room_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "room_rates_roomId_date_key" ON "public"."room_rates"("roomId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."room_rates" ADD CONSTRAINT "room_rates_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "public"."CancellationPolicyType" AS ENUM ('FLEXIBLE', 'MODERATE', 'STRICT', 'NON_REFUNDABLE', 'CUSTOM');
+
+-- AlterTable
+ALTER TABLE "public"."hotel_profiles" ADD COLUMN     "cancellationPolicyType" "public"."CancellationPolicyType" NOT NULL DEFAULT 'FLEXIBLE',
+ADD COLUMN     "cancellationTiers" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "refundStatus" TEXT,
+ADD COLUMN     "refundedAt" TIMESTAMP(3);
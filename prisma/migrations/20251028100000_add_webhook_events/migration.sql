@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "disputeId" TEXT,
+ADD COLUMN     "disputeStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'razorpay',
+    "eventId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RECEIVED',
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_eventId_key" ON "public"."webhook_events"("eventId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_eventType_idx" ON "public"."webhook_events"("eventType");
@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "public"."PayoutStatus" AS ENUM ('SCHEDULED', 'PROCESSING', 'PAID', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."payouts" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "frequency" "public"."PaymentFrequency" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "grossAmount" DOUBLE PRECISION NOT NULL,
+    "commissionAmount" DOUBLE PRECISION NOT NULL,
+    "refundAmount" DOUBLE PRECISION NOT NULL,
+    "adjustmentAmount" DOUBLE PRECISION NOT NULL,
+    "netAmount" DOUBLE PRECISION NOT NULL,
+    "status" "public"."PayoutStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "bankSnapshot" TEXT,
+    "transferReference" TEXT,
+    "failureReason" TEXT,
+    "processingAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."payout_items" (
+    "id" TEXT NOT NULL,
+    "payoutId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "bookingType" "public"."VendorType" NOT NULL,
+    "serviceDate" TIMESTAMP(3) NOT NULL,
+    "grossAmount" DOUBLE PRECISION NOT NULL,
+    "commissionAmount" DOUBLE PRECISION NOT NULL,
+    "refundAmount" DOUBLE PRECISION NOT NULL,
+    "netAmount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."payout_adjustments" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "payoutId" TEXT,
+    "paymentId" TEXT,
+    "type" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "refundAmount" DOUBLE PRECISION,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payouts_status_idx" ON "public"."payouts"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payouts_vendorId_periodStart_key" ON "public"."payouts"("vendorId", "periodStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_items_paymentId_key" ON "public"."payout_items"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "payout_items_payoutId_idx" ON "public"."payout_items"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "payout_adjustments_vendorId_payoutId_idx" ON "public"."payout_adjustments"("vendorId", "payoutId");
+
+-- CreateIndex
+CREATE INDEX "payout_adjustments_paymentId_idx" ON "public"."payout_adjustments"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."payouts" ADD CONSTRAINT "payouts_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "public"."vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_items" ADD CONSTRAINT "payout_items_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "public"."payouts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_items" ADD CONSTRAINT "payout_items_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_adjustments" ADD CONSTRAINT "payout_adjustments_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "public"."vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_adjustments" ADD CONSTRAINT "payout_adjustments_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "public"."payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_adjustments" ADD CONSTRAINT "payout_adjustments_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."vendor_agreements" ADD COLUMN     "categoryRates" TEXT,
+ADD COLUMN     "commissionTiers" TEXT,
+ADD COLUMN     "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "effectiveTo" TIMESTAMP(3);
+
+-- Agreements signed before this migration took effect when they were signed
+UPDATE "public"."vendor_agreements" SET "effectiveFrom" = "signedAt";
+
+-- AlterTable
+ALTER TABLE "public"."bookings" ADD COLUMN     "commissionAgreementId" TEXT,
+ADD COLUMN     "commissionRate" DOUBLE PRECISION,
+ADD COLUMN     "commissionSource" TEXT;
+
+-- Existing bookings: derive the rate from the stored amounts
+UPDATE "public"."bookings"
+SET "commissionRate" = ROUND(("commissionAmount" / "totalAmount" * 100)::numeric, 2)
+WHERE "totalAmount" > 0;
+
+-- CreateIndex
+CREATE INDEX "vendor_agreements_vendorId_isActive_idx" ON "public"."vendor_agreements"("vendorId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "public"."bookings" ADD CONSTRAINT "bookings_commissionAgreementId_fkey" FOREIGN KEY ("commissionAgreementId") REFERENCES "public"."vendor_agreements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
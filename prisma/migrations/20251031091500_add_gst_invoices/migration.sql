@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "public"."InvoiceType" AS ENUM ('CUSTOMER_TAX', 'VENDOR_COMMISSION');
+
+-- CreateTable
+CREATE TABLE "public"."invoices" (
+    "id" TEXT NOT NULL,
+    "type" "public"."InvoiceType" NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "series" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "sequenceNumber" INTEGER NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supplier" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "placeOfSupply" TEXT,
+    "lineItems" TEXT NOT NULL,
+    "taxableAmount" DOUBLE PRECISION NOT NULL,
+    "cgstAmount" DOUBLE PRECISION NOT NULL,
+    "sgstAmount" DOUBLE PRECISION NOT NULL,
+    "igstAmount" DOUBLE PRECISION NOT NULL,
+    "totalTax" DOUBLE PRECISION NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invoice_sequences" (
+    "id" TEXT NOT NULL,
+    "series" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoices_vendorId_type_idx" ON "public"."invoices"("vendorId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_bookingId_type_key" ON "public"."invoices"("bookingId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_series_financialYear_sequenceNumber_key" ON "public"."invoices"("series", "financialYear", "sequenceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_sequences_series_financialYear_key" ON "public"."invoice_sequences"("series", "financialYear");
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "public"."vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
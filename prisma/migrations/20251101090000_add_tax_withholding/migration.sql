@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "taxableValue" DOUBLE PRECISION,
+ADD COLUMN     "vendorGstin" TEXT,
+ADD COLUMN     "vendorPan" TEXT,
+ADD COLUMN     "tcsRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "tcsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "tdsRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "tdsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."payouts" ADD COLUMN     "tcsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "tdsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."payout_items" ADD COLUMN     "tcsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "tdsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "payments_processedAt_idx" ON "public"."payments"("processedAt");
+
+-- CreateIndex
+CREATE INDEX "payments_refundedAt_idx" ON "public"."payments"("refundedAt");
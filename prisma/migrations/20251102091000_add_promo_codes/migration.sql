@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "public"."DiscountType" AS ENUM ('FLAT', 'PERCENTAGE');
+
+-- CreateEnum
+CREATE TYPE "public"."DiscountFunder" AS ENUM ('PLATFORM', 'VENDOR');
+
+-- AlterTable
+ALTER TABLE "public"."bookings" ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "promoCodeId" TEXT,
+ADD COLUMN     "discountFundedBy" "public"."DiscountFunder";
+
+-- CreateTable
+CREATE TABLE "public"."promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "public"."DiscountType" NOT NULL,
+    "discountValue" DOUBLE PRECISION NOT NULL,
+    "maxDiscountAmount" DOUBLE PRECISION,
+    "minBookingAmount" DOUBLE PRECISION,
+    "fundedBy" "public"."DiscountFunder" NOT NULL,
+    "vendorId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3),
+    "usageLimit" INTEGER,
+    "perUserLimit" INTEGER DEFAULT 1,
+    "bookingTypes" "public"."VendorType"[],
+    "vendorIds" TEXT[],
+    "roomIds" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."promo_redemptions" (
+    "id" TEXT NOT NULL,
+    "promoCodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "discountAmount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "public"."promo_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "promo_codes_vendorId_idx" ON "public"."promo_codes"("vendorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_bookingId_key" ON "public"."promo_redemptions"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_promoCodeId_userId_idx" ON "public"."promo_redemptions"("promoCodeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."bookings" ADD CONSTRAINT "bookings_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_codes" ADD CONSTRAINT "promo_codes_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "public"."vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_redemptions" ADD CONSTRAINT "promo_redemptions_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."promo_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_redemptions" ADD CONSTRAINT "promo_redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."promo_redemptions" ADD CONSTRAINT "promo_redemptions_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."MealPlanType" AS ENUM ('EP', 'CP', 'MAP', 'AP');
+
+-- CreateEnum
+CREATE TYPE "public"."ChargeUnit" AS ENUM ('PER_NIGHT', 'PER_GUEST', 'PER_GUEST_PER_NIGHT', 'ONE_TIME');
+
+-- AlterTable
+ALTER TABLE "public"."hotel_bookings" ADD COLUMN     "mealPlan" "public"."MealPlanType",
+ADD COLUMN     "extrasAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "extras" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."hotel_meal_plans" (
+    "id" TEXT NOT NULL,
+    "hotelProfileId" TEXT NOT NULL,
+    "plan" "public"."MealPlanType" NOT NULL,
+    "description" TEXT,
+    "price" DOUBLE PRECISION NOT NULL,
+    "chargeUnit" "public"."ChargeUnit" NOT NULL DEFAULT 'PER_GUEST_PER_NIGHT',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hotel_meal_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."hotel_add_ons" (
+    "id" TEXT NOT NULL,
+    "hotelProfileId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "price" DOUBLE PRECISION NOT NULL,
+    "chargeUnit" "public"."ChargeUnit" NOT NULL DEFAULT 'ONE_TIME',
+    "maxQuantity" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hotel_add_ons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hotel_meal_plans_hotelProfileId_plan_key" ON "public"."hotel_meal_plans"("hotelProfileId", "plan");
+
+-- CreateIndex
+CREATE INDEX "hotel_add_ons_hotelProfileId_idx" ON "public"."hotel_add_ons"("hotelProfileId");
+
+-- AddForeignKey
+ALTER TABLE "public"."hotel_meal_plans" ADD CONSTRAINT "hotel_meal_plans_hotelProfileId_fkey" FOREIGN KEY ("hotelProfileId") REFERENCES "public"."hotel_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."hotel_add_ons" ADD CONSTRAINT "hotel_add_ons_hotelProfileId_fkey" FOREIGN KEY ("hotelProfileId") REFERENCES "public"."hotel_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
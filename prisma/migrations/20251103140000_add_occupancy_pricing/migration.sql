@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."hotel_profiles" ADD COLUMN     "infantMaxAge" INTEGER NOT NULL DEFAULT 4,
+ADD COLUMN     "childMaxAge" INTEGER NOT NULL DEFAULT 11;
+
+-- AlterTable
+ALTER TABLE "public"."rooms" ADD COLUMN     "maxOccupancy" INTEGER,
+ADD COLUMN     "extraAdultPrice" DOUBLE PRECISION,
+ADD COLUMN     "extraChildPrice" DOUBLE PRECISION;
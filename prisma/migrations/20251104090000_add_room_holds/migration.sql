@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."HoldStatus" AS ENUM ('ACTIVE', 'CONVERTED', 'RELEASED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."room_holds" (
+    "id" TEXT NOT NULL,
+    "hotelBookingId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "checkInDate" TIMESTAMP(3) NOT NULL,
+    "checkOutDate" TIMESTAMP(3) NOT NULL,
+    "status" "public"."HoldStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "room_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "room_holds_hotelBookingId_key" ON "public"."room_holds"("hotelBookingId");
+
+-- CreateIndex
+CREATE INDEX "room_holds_roomId_status_idx" ON "public"."room_holds"("roomId", "status");
+
+-- CreateIndex
+CREATE INDEX "room_holds_status_expiresAt_idx" ON "public"."room_holds"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."room_holds" ADD CONSTRAINT "room_holds_hotelBookingId_fkey" FOREIGN KEY ("hotelBookingId") REFERENCES "public"."hotel_bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."room_holds" ADD CONSTRAINT "room_holds_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Bookings still in checkout before holds existed get a short hold, so
+-- rooms they were holding are not released all at once
+INSERT INTO "public"."room_holds" ("id", "hotelBookingId", "roomId", "checkInDate", "checkOutDate", "status", "expiresAt", "updatedAt")
+SELECT 'hold_' || hb."id", hb."id", hb."roomId", hb."checkInDate", hb."checkOutDate", 'ACTIVE', hb."createdAt" + INTERVAL '30 minutes', CURRENT_TIMESTAMP
+FROM "public"."hotel_bookings" hb
+WHERE hb."status" = 'PENDING' AND hb."createdAt" > CURRENT_TIMESTAMP - INTERVAL '30 minutes';
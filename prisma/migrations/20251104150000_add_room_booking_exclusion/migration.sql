@@ -0,0 +1,88 @@
+-- Needed for "roomId" WITH = in a GiST index
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Unpaid checkouts that overlap a confirmed or paid booking of the same room,
+-- or an earlier unpaid checkout, cannot all keep the room under the
+-- constraint below. Collect them before anything is changed
+CREATE TEMPORARY TABLE "overlapping_checkouts" AS
+SELECT hb."id", hb."bookingId"
+FROM "public"."hotel_bookings" hb
+WHERE hb."status" IN ('DRAFT', 'PENDING')
+  AND NOT EXISTS (
+    SELECT 1 FROM "public"."payments" p
+    WHERE p."bookingId" = hb."bookingId" AND p."paymentStatus" = 'SUCCESS'
+  )
+  AND EXISTS (
+    SELECT 1 FROM "public"."hotel_bookings" other
+    WHERE other."roomId" = hb."roomId"
+      AND other."id" <> hb."id"
+      AND other."checkInDate" < hb."checkOutDate"
+      AND other."checkOutDate" > hb."checkInDate"
+      AND (
+        other."status" = 'CONFIRMED'
+        OR (
+          other."status" IN ('DRAFT', 'PENDING')
+          AND (
+            EXISTS (
+              SELECT 1 FROM "public"."payments" p
+              WHERE p."bookingId" = other."bookingId" AND p."paymentStatus" = 'SUCCESS'
+            )
+            OR (other."createdAt", other."id") < (hb."createdAt", hb."id")
+          )
+        )
+      )
+  );
+
+UPDATE "public"."payments" p
+SET "paymentStatus" = 'FAILED', "updatedAt" = CURRENT_TIMESTAMP
+FROM "overlapping_checkouts" oc
+WHERE p."bookingId" = oc."bookingId"
+  AND p."paymentStatus" = 'PENDING';
+
+UPDATE "public"."hotel_bookings" hb
+SET "status" = 'CANCELLED'
+FROM "overlapping_checkouts" oc
+WHERE hb."id" = oc."id";
+
+UPDATE "public"."room_holds" rh
+SET "status" = 'RELEASED', "releasedAt" = CURRENT_TIMESTAMP, "updatedAt" = CURRENT_TIMESTAMP
+FROM "overlapping_checkouts" oc
+WHERE rh."hotelBookingId" = oc."id" AND rh."status" = 'ACTIVE';
+
+UPDATE "public"."bookings" b
+SET "status" = 'CANCELLED', "updatedAt" = CURRENT_TIMESTAMP
+WHERE b."status" IN ('DRAFT', 'PENDING')
+  AND b."bookingType" = 'HOTEL'
+  AND EXISTS (SELECT 1 FROM "overlapping_checkouts" oc WHERE oc."bookingId" = b."id")
+  AND NOT EXISTS (
+    SELECT 1 FROM "public"."hotel_bookings" hb
+    WHERE hb."bookingId" = b."id" AND hb."status" <> 'CANCELLED'
+  );
+
+DROP TABLE "overlapping_checkouts";
+
+-- Every remaining unpaid checkout takes part in the constraint, so it needs a
+-- hold the sweeper can expire. Drafts and checkouts the room_holds backfill
+-- missed get one ending 30 minutes after they were created: recent ones keep
+-- their room, older ones are cancelled by the sweeper as usual
+INSERT INTO "public"."room_holds" ("id", "hotelBookingId", "roomId", "checkInDate", "checkOutDate", "status", "expiresAt", "updatedAt")
+SELECT 'hold_' || hb."id", hb."id", hb."roomId", hb."checkInDate", hb."checkOutDate", 'ACTIVE', hb."createdAt" + INTERVAL '30 minutes', CURRENT_TIMESTAMP
+FROM "public"."hotel_bookings" hb
+WHERE hb."status" IN ('DRAFT', 'PENDING')
+  AND NOT EXISTS (
+    SELECT 1 FROM "public"."room_holds" rh WHERE rh."hotelBookingId" = hb."id"
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM "public"."payments" p
+    WHERE p."bookingId" = hb."bookingId" AND p."paymentStatus" = 'SUCCESS'
+  );
+
+-- No two active bookings of a room may share a night. Check-out day is
+-- excluded from the range, so back-to-back stays are allowed. Fails if
+-- overlapping confirmed bookings already exist; resolve those first
+ALTER TABLE "public"."hotel_bookings"
+ADD CONSTRAINT "hotel_bookings_room_no_overlap"
+EXCLUDE USING gist (
+  "roomId" WITH =,
+  tsrange("checkInDate", "checkOutDate", '[)') WITH &&
+) WHERE ("status" IN ('DRAFT', 'PENDING', 'CONFIRMED'));
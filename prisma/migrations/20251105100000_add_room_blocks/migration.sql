@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "public"."RoomBlockReason" AS ENUM ('MAINTENANCE', 'OWNER_USE', 'OFFLINE_SALE');
+
+-- CreateTable
+CREATE TABLE "public"."room_blocks" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" "public"."RoomBlockReason" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "room_blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "room_blocks_roomId_startDate_idx" ON "public"."room_blocks"("roomId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."room_blocks" ADD CONSTRAINT "room_blocks_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."room_blocks" ADD COLUMN     "calendarId" TEXT,
+ADD COLUMN     "externalUid" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."external_calendars" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT,
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastSyncError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "external_calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "external_calendars_roomId_name_key" ON "public"."external_calendars"("roomId", "name");
+
+-- CreateIndex
+CREATE INDEX "room_blocks_calendarId_idx" ON "public"."room_blocks"("calendarId");
+
+-- AddForeignKey
+ALTER TABLE "public"."room_blocks" ADD CONSTRAINT "room_blocks_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "public"."external_calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."external_calendars" ADD CONSTRAINT "external_calendars_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
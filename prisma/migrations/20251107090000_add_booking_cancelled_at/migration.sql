@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."bookings" ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- Bookings cancelled before the column existed were last touched when cancelled
+UPDATE "public"."bookings"
+SET "cancelledAt" = "updatedAt"
+WHERE "status" = 'CANCELLED';
@@ -0,0 +1,1195 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import AdventureUtils from "./adventureUtils.js";
+import PaymentUtils from "../payment/paymentUtils.js";
+import PromoUtils from "../promo/promoUtils.js";
+
+const prisma = new PrismaClient();
+
+// Mask phone number to show only last 2 digits
+class SecurityUtils {
+  static maskPhoneNumber(phoneNumber: string): string {
+    if (!phoneNumber || phoneNumber.length <= 2) return phoneNumber;
+    return "*".repeat(phoneNumber.length - 2) + phoneNumber.slice(-2);
+  }
+}
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static forbidden(res: Response, message: string) {
+    return this.error(res, message, 403);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+// Simple vendor database utilities
+class VendorDbUtils {
+  static async findVendorByUserId(userId: string) {
+    return await prisma.vendor.findUnique({
+      where: { userId },
+    });
+  }
+
+  // Get (or lazily create) the adventure profile of an approved ADVENTURE vendor
+  static async findAdventureVendor(userId: string) {
+    const vendor = await this.findVendorByUserId(userId);
+    if (!vendor) {
+      return { error: "Only vendors can manage activities" } as const;
+    }
+
+    if (vendor.status !== "APPROVED") {
+      return {
+        error: "Vendor approval required to manage activities",
+      } as const;
+    }
+
+    if (vendor.vendorType !== "ADVENTURE") {
+      return {
+        error: "Vendor type must be ADVENTURE to manage activities",
+      } as const;
+    }
+
+    const adventureProfile = await prisma.adventureProfile.upsert({
+      where: { vendorId: vendor.id },
+      update: {},
+      create: { vendorId: vendor.id },
+    });
+
+    return { vendor, adventureProfile } as const;
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+export class AdventureController {
+  // ================================
+  // VENDOR ACTIVITY MANAGEMENT
+  // ================================
+
+  static async createActivity(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      // Use validated data from middleware
+      const {
+        activityName,
+        activityType,
+        location,
+        duration,
+        pricePerPerson,
+        pricePerGroup,
+        maxGroupSize,
+        safetyMeasures,
+        requiredDocuments,
+        seasonalAvailability,
+      } = req.validatedData?.body || req.body;
+
+      const result = await VendorDbUtils.findAdventureVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const activity = await prisma.activity.create({
+        data: {
+          adventureProfileId: result.adventureProfile.id,
+          activityName,
+          activityType,
+          location,
+          duration,
+          // Group-only activities keep a zero per-person price
+          pricePerPerson: pricePerPerson ?? 0,
+          pricePerGroup: pricePerGroup ?? null,
+          maxGroupSize,
+          safetyMeasures,
+          requiredDocuments: requiredDocuments || [],
+          seasonalAvailability: JSON.stringify(seasonalAvailability || {}),
+        },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Activity created successfully",
+        AdventureUtils.formatActivity(activity)
+      );
+    } catch (error) {
+      console.error("Create activity error:", error);
+      return ResponseUtils.serverError(res, "Failed to create activity");
+    }
+  }
+
+  static async updateActivity(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { activityId } = req.params;
+      const updateData = req.validatedData?.body || req.body;
+
+      if (!activityId) {
+        return ResponseUtils.badRequest(res, "Activity ID is required");
+      }
+
+      const result = await VendorDbUtils.findAdventureVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const activity = await prisma.activity.findFirst({
+        where: {
+          id: activityId,
+          adventureProfileId: result.adventureProfile.id,
+        },
+      });
+
+      if (!activity) {
+        return ResponseUtils.notFound(res, "Activity not found");
+      }
+
+      // Make sure the activity still has a usable price after the update
+      const nextPricePerPerson =
+        updateData.pricePerPerson ?? activity.pricePerPerson;
+      const nextPricePerGroup =
+        updateData.pricePerGroup === undefined
+          ? activity.pricePerGroup
+          : updateData.pricePerGroup;
+
+      if (
+        !(nextPricePerPerson > 0) &&
+        !(nextPricePerGroup && nextPricePerGroup > 0)
+      ) {
+        return ResponseUtils.badRequest(
+          res,
+          "Either price per person or price per group must be set"
+        );
+      }
+
+      const updatedActivity = await prisma.activity.update({
+        where: { id: activityId },
+        data: {
+          ...updateData,
+          ...(updateData.seasonalAvailability && {
+            seasonalAvailability: JSON.stringify(
+              updateData.seasonalAvailability
+            ),
+          }),
+        },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Activity updated successfully",
+        AdventureUtils.formatActivity(updatedActivity)
+      );
+    } catch (error) {
+      console.error("Update activity error:", error);
+      return ResponseUtils.serverError(res, "Failed to update activity");
+    }
+  }
+
+  static async deactivateActivity(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { activityId } = req.params;
+
+      if (!activityId) {
+        return ResponseUtils.badRequest(res, "Activity ID is required");
+      }
+
+      const result = await VendorDbUtils.findAdventureVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const activity = await prisma.activity.findFirst({
+        where: {
+          id: activityId,
+          adventureProfileId: result.adventureProfile.id,
+        },
+      });
+
+      if (!activity) {
+        return ResponseUtils.notFound(res, "Activity not found");
+      }
+
+      if (!activity.isActive) {
+        return ResponseUtils.badRequest(res, "Activity is already inactive");
+      }
+
+      // Deactivate instead of deleting so existing bookings keep their activity
+      const updatedActivity = await prisma.activity.update({
+        where: { id: activityId },
+        data: { isActive: false },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Activity deactivated successfully",
+        AdventureUtils.formatActivity(updatedActivity)
+      );
+    } catch (error) {
+      console.error("Deactivate activity error:", error);
+      return ResponseUtils.serverError(res, "Failed to deactivate activity");
+    }
+  }
+
+  static async getVendorActivities(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        status = "all",
+        activityType,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const result = await VendorDbUtils.findAdventureVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        adventureProfileId: result.adventureProfile.id,
+      };
+
+      if (status === "active") {
+        where.isActive = true;
+      } else if (status === "inactive") {
+        where.isActive = false;
+      }
+
+      if (activityType) {
+        where.activityType = activityType;
+      }
+
+      const activities = await prisma.activity.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          _count: {
+            select: {
+              bookings: {
+                where: {
+                  status: { in: ["PENDING", "CONFIRMED"] }, // Count only active bookings
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.activity.count({ where });
+
+      const transformedActivities = activities.map((activity) => ({
+        ...AdventureUtils.formatActivity(activity),
+        activeBookingsCount: activity._count.bookings,
+        _count: undefined, // Remove the _count field from response
+      }));
+
+      return ResponseUtils.success(res, "Activities retrieved successfully", {
+        activities: transformedActivities,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get vendor activities error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve activities");
+    }
+  }
+
+  // ================================
+  // PUBLIC ACTIVITY SEARCH
+  // ================================
+
+  static async searchActivities(req: ValidatedRequest, res: Response) {
+    try {
+      const {
+        activityType,
+        location,
+        availableOn,
+        groupSize,
+        minPrice,
+        maxPrice,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        isActive: true,
+        adventureProfile: {
+          vendor: {
+            status: "APPROVED",
+          },
+        },
+      };
+
+      if (activityType) {
+        where.activityType = activityType;
+      }
+
+      if (location) {
+        where.location = {
+          contains: location as string,
+          mode: "insensitive",
+        };
+      }
+
+      if (groupSize) {
+        where.maxGroupSize = { gte: Number(groupSize) };
+      }
+
+      if (minPrice || maxPrice) {
+        where.pricePerPerson = {
+          ...(minPrice && { gte: Number(minPrice) }),
+          ...(maxPrice && { lte: Number(maxPrice) }),
+        };
+      }
+
+      const query = {
+        where,
+        include: {
+          adventureProfile: {
+            select: {
+              vendor: {
+                select: {
+                  businessName: true,
+                  businessAddress: true,
+                  googleMapsLink: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { pricePerPerson: "asc" as const },
+      };
+
+      let activities;
+      let total;
+
+      if (availableOn) {
+        // Season rules live in JSON, so filter in memory and paginate the result
+        const matchingActivities = (await prisma.activity.findMany(query))
+          .map((activity) => AdventureUtils.formatActivity(activity))
+          .filter(
+            (activity) =>
+              AdventureUtils.checkDateAvailability(
+                activity.seasonalAvailability,
+                availableOn
+              ).isAvailable
+          );
+
+        total = matchingActivities.length;
+        activities = matchingActivities.slice(skip, skip + Number(limit));
+      } else {
+        activities = (
+          await prisma.activity.findMany({
+            ...query,
+            skip,
+            take: Number(limit),
+          })
+        ).map((activity) => AdventureUtils.formatActivity(activity));
+        total = await prisma.activity.count({ where });
+      }
+
+      return ResponseUtils.success(res, "Activities retrieved successfully", {
+        activities,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Search activities error:", error);
+      return ResponseUtils.serverError(res, "Failed to search activities");
+    }
+  }
+
+  static async getActivityDetails(req: Request, res: Response) {
+    try {
+      const { activityId } = req.params;
+
+      if (!activityId) {
+        return ResponseUtils.badRequest(res, "Activity ID is required");
+      }
+
+      const activity = await prisma.activity.findFirst({
+        where: {
+          id: activityId,
+          isActive: true,
+          adventureProfile: { vendor: { status: "APPROVED" } },
+        },
+        include: {
+          adventureProfile: {
+            select: {
+              vendor: {
+                select: {
+                  businessName: true,
+                  ownerName: true,
+                  businessAddress: true,
+                  contactNumbers: true,
+                  googleMapsLink: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!activity) {
+        return ResponseUtils.notFound(res, "Activity not found");
+      }
+
+      return ResponseUtils.success(
+        res,
+        "Activity details retrieved successfully",
+        AdventureUtils.formatActivity(activity)
+      );
+    } catch (error) {
+      console.error("Get activity details error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to retrieve activity details"
+      );
+    }
+  }
+
+  static async checkSlotAvailability(req: ValidatedRequest, res: Response) {
+    try {
+      const { activityId } = req.params;
+      const { date, slotTime } = req.validatedData?.query || req.query;
+
+      if (!activityId) {
+        return ResponseUtils.badRequest(res, "Activity ID is required");
+      }
+
+      const activity = await prisma.activity.findFirst({
+        where: { id: activityId, isActive: true },
+      });
+
+      if (!activity) {
+        return ResponseUtils.notFound(res, "Activity not found");
+      }
+
+      const availability = AdventureUtils.parseSeasonalAvailability(
+        activity.seasonalAvailability
+      );
+      const dateCheck = AdventureUtils.checkDateAvailability(
+        availability,
+        date
+      );
+
+      if (!dateCheck.isAvailable) {
+        return ResponseUtils.success(res, "Slot availability checked", {
+          date,
+          isAvailable: false,
+          reason: dateCheck.reason,
+          slots: [],
+        });
+      }
+
+      if (slotTime && availability.slotTimes.length > 0) {
+        if (!availability.slotTimes.includes(slotTime)) {
+          return ResponseUtils.badRequest(
+            res,
+            `Invalid slot time. Available slots: ${availability.slotTimes.join(", ")}`
+          );
+        }
+      }
+
+      if (slotTime) {
+        const slotStart = AdventureUtils.buildSlotStart(date, slotTime);
+        const bookedPeople = await AdventureUtils.getBookedPeopleForSlot(
+          activity.id,
+          slotStart
+        );
+
+        return ResponseUtils.success(res, "Slot availability checked", {
+          date,
+          isAvailable: bookedPeople < activity.maxGroupSize,
+          slotTime,
+          slotStart,
+          maxGroupSize: activity.maxGroupSize,
+          bookedPeople,
+          remainingCapacity: Math.max(activity.maxGroupSize - bookedPeople, 0),
+        });
+      }
+
+      const bookedSlots = await AdventureUtils.getSlotOccupancyForDate(
+        activity,
+        date
+      );
+
+      // Without configured slot times, report every slot that already has bookings
+      if (availability.slotTimes.length === 0) {
+        return ResponseUtils.success(res, "Slot availability checked", {
+          date,
+          isAvailable: true,
+          maxGroupSize: activity.maxGroupSize,
+          bookedSlots,
+        });
+      }
+
+      // Otherwise report remaining capacity for each configured daily slot
+      const slots = availability.slotTimes.map((time) => {
+        const booked = bookedSlots.find((slot) => slot.slotTime === time);
+        return {
+          slotTime: time,
+          slotStart: AdventureUtils.buildSlotStart(date, time),
+          bookedPeople: booked?.bookedPeople || 0,
+          remainingCapacity: booked
+            ? booked.remainingCapacity
+            : activity.maxGroupSize,
+        };
+      });
+
+      return ResponseUtils.success(res, "Slot availability checked", {
+        date,
+        isAvailable: slots.some((slot) => slot.remainingCapacity > 0),
+        maxGroupSize: activity.maxGroupSize,
+        slots,
+      });
+    } catch (error) {
+      console.error("Check slot availability error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to check slot availability"
+      );
+    }
+  }
+
+  // ================================
+  // BOOKING MANAGEMENT
+  // ================================
+
+  static async createAdventureBooking(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { activityId, bookingDate, slotTime, numberOfPeople, promoCode } =
+        req.validatedData?.body || req.body;
+
+      // Use a transaction so the capacity check and booking creation are atomic.
+      // The activity lock makes concurrent bookings of a slot wait their turn
+      const result = await prisma.$transaction(async (tx) => {
+        await AdventureUtils.lockActivity(tx, activityId);
+
+        const activity = await tx.activity.findUnique({
+          where: { id: activityId },
+          include: {
+            adventureProfile: {
+              include: {
+                vendor: true,
+              },
+            },
+          },
+        });
+
+        if (
+          !activity ||
+          !activity.isActive ||
+          activity.adventureProfile.vendor.status !== "APPROVED"
+        ) {
+          throw new Error("Activity not found or not available");
+        }
+
+        if (numberOfPeople > activity.maxGroupSize) {
+          throw new Error(
+            `Group size exceeded. Maximum ${activity.maxGroupSize} people allowed per slot`
+          );
+        }
+
+        const slotStart = AdventureUtils.buildSlotStart(bookingDate, slotTime);
+        if (isNaN(slotStart.getTime())) {
+          throw new Error("Invalid booking date or slot time");
+        }
+
+        if (slotStart < new Date()) {
+          throw new Error("Booking date and slot cannot be in the past");
+        }
+
+        // Reject dates outside the activity's season
+        const availability = AdventureUtils.parseSeasonalAvailability(
+          activity.seasonalAvailability
+        );
+        const dateCheck = AdventureUtils.checkDateAvailability(
+          availability,
+          bookingDate
+        );
+        if (!dateCheck.isAvailable) {
+          throw new Error(dateCheck.reason);
+        }
+
+        if (
+          availability.slotTimes.length > 0 &&
+          !availability.slotTimes.includes(slotTime)
+        ) {
+          throw new Error(
+            `Invalid slot time. Available slots: ${availability.slotTimes.join(", ")}`
+          );
+        }
+
+        // Enforce maxGroupSize across all concurrent bookings in this slot
+        const bookedPeople = await AdventureUtils.getBookedPeopleForSlot(
+          activity.id,
+          slotStart,
+          tx
+        );
+        const remainingCapacity = activity.maxGroupSize - bookedPeople;
+
+        if (numberOfPeople > remainingCapacity) {
+          throw new Error(
+            remainingCapacity > 0
+              ? `Slot is not available for ${numberOfPeople} people. Only ${remainingCapacity} spots left.`
+              : "Slot is not available. This slot is fully booked."
+          );
+        }
+
+        const { pricingType, totalAmount } =
+          AdventureUtils.calculateActivityPrice(activity, numberOfPeople);
+        const vendor = activity.adventureProfile.vendor;
+        const pricing = await PromoUtils.priceBooking(tx, {
+          userId,
+          vendor,
+          bookingType: "ADVENTURE",
+          lines: [{ amount: totalAmount, category: activity.activityType }],
+          promoCode,
+        });
+
+        const booking = await tx.booking.create({
+          data: {
+            userId,
+            vendorId: vendor.id,
+            bookingType: "ADVENTURE",
+            ...pricing,
+            status: "DRAFT",
+          },
+        });
+
+        await PromoUtils.recordRedemption(tx, pricing, booking.id, userId);
+
+        const adventureBooking = await tx.adventureBooking.create({
+          data: {
+            bookingId: booking.id,
+            adventureProfileId: activity.adventureProfileId,
+            activityId: activity.id,
+            bookingDate: slotStart,
+            slotTime,
+            numberOfPeople,
+            pricingType,
+            totalAmount,
+            status: "DRAFT",
+          },
+        });
+
+        return await tx.adventureBooking.findUnique({
+          where: { id: adventureBooking.id },
+          include: {
+            booking: true,
+            activity: {
+              select: {
+                activityName: true,
+                activityType: true,
+                location: true,
+                duration: true,
+                safetyMeasures: true,
+                requiredDocuments: true,
+              },
+            },
+          },
+        });
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Adventure booking created successfully",
+        result
+      );
+    } catch (error) {
+      console.error("Create adventure booking error:", error);
+
+      // Handle specific transaction errors
+      if (error instanceof Error) {
+        if (
+          error.message.startsWith("Activity ") ||
+          error.message.startsWith("Promo code") ||
+          error.message.includes("not available") ||
+          error.message.includes("not found") ||
+          error.message.includes("exceeded") ||
+          error.message.includes("past") ||
+          error.message.includes("Invalid")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to create booking");
+    }
+  }
+
+  static async getCustomerBookings(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        status,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        booking: {
+          userId,
+          bookingType: "ADVENTURE",
+        },
+        status: { not: "DRAFT" }, // Exclude DRAFT bookings from customer view
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const bookings = await prisma.adventureBooking.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          booking: {
+            include: {
+              payment: {
+                select: {
+                  paymentStatus: true,
+                  paymentMethod: true,
+                  totalAmount: true,
+                  processedAt: true,
+                  refundAmount: true,
+                },
+              },
+            },
+          },
+          activity: {
+            select: {
+              activityName: true,
+              activityType: true,
+              location: true,
+              duration: true,
+              requiredDocuments: true,
+            },
+          },
+          adventureProfile: {
+            select: {
+              vendor: {
+                select: {
+                  businessName: true,
+                  contactNumbers: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.adventureBooking.count({ where });
+
+      return ResponseUtils.success(res, "Bookings retrieved successfully", {
+        bookings,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get customer adventure bookings error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve bookings");
+    }
+  }
+
+  static async getVendorBookings(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        status,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const result = await VendorDbUtils.findAdventureVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        adventureProfileId: result.adventureProfile.id,
+        status: { not: "DRAFT" },
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const bookings = await prisma.adventureBooking.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          booking: {
+            include: {
+              user: {
+                select: {
+                  phoneNumber: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+              payment: {
+                select: {
+                  paymentStatus: true,
+                  paymentMethod: true,
+                },
+              },
+            },
+          },
+          activity: {
+            select: {
+              activityName: true,
+              activityType: true,
+            },
+          },
+        },
+        orderBy: { bookingDate: "asc" },
+      });
+
+      const total = await prisma.adventureBooking.count({ where });
+
+      const sanitizedBookings = bookings.map((booking) => ({
+        bookingId: booking.id,
+        status: booking.status,
+        bookingDate: booking.bookingDate,
+        slotTime: booking.slotTime,
+        numberOfPeople: booking.numberOfPeople,
+        pricingType: booking.pricingType,
+        totalAmount: booking.totalAmount,
+        createdAt: booking.createdAt,
+        activity: booking.activity,
+        customer: {
+          phoneNumber: SecurityUtils.maskPhoneNumber(
+            booking.booking.user.phoneNumber
+          ),
+          firstName: booking.booking.user.firstName || "N/A",
+          lastName: booking.booking.user.lastName || "N/A",
+        },
+        payment: {
+          status: booking.booking.payment?.paymentStatus || "PENDING",
+          method: booking.booking.payment?.paymentMethod,
+        },
+      }));
+
+      return ResponseUtils.success(
+        res,
+        "Vendor bookings retrieved successfully",
+        {
+          bookings: sanitizedBookings,
+          pagination: {
+            page: Number(page),
+            limit: Number(limit),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+          },
+        }
+      );
+    } catch (error) {
+      console.error("Get vendor adventure bookings error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to retrieve vendor bookings"
+      );
+    }
+  }
+
+  // ================================
+  // PAYMENT METHODS
+  // ================================
+
+  static async createPaymentOrder(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { bookingId } = req.params;
+
+      if (!bookingId) {
+        return ResponseUtils.badRequest(res, "Booking ID is required");
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        // bookingId is the adventure booking ID from URL
+        const adventureBooking = await tx.adventureBooking.findUnique({
+          where: { id: bookingId },
+          include: {
+            booking: {
+              include: {
+                user: {
+                  select: {
+                    phoneNumber: true,
+                  },
+                },
+                payment: true,
+              },
+            },
+            activity: {
+              select: {
+                activityName: true,
+                maxGroupSize: true,
+              },
+            },
+          },
+        });
+
+        if (!adventureBooking || adventureBooking.booking.userId !== userId) {
+          throw new Error("Booking not found or access denied");
+        }
+
+        const booking = adventureBooking.booking;
+
+        if (!["DRAFT", "PENDING"].includes(booking.status)) {
+          throw new Error(
+            `Cannot create payment for booking with status: ${booking.status}`
+          );
+        }
+
+        if (booking.payment && booking.payment.paymentStatus === "SUCCESS") {
+          throw new Error("Payment already completed for this booking");
+        }
+
+        // Drafts and lapsed checkouts hold no seats, so check the slot again
+        // before this booking starts holding them
+        await AdventureUtils.lockActivity(tx, adventureBooking.activityId);
+        const bookedPeople = await AdventureUtils.getBookedPeopleForSlot(
+          adventureBooking.activityId,
+          adventureBooking.bookingDate,
+          tx,
+          adventureBooking.id
+        );
+        const remainingCapacity =
+          adventureBooking.activity.maxGroupSize - bookedPeople;
+        if (adventureBooking.numberOfPeople > remainingCapacity) {
+          throw new Error(
+            `Cannot create payment: the slot now has only ${Math.max(remainingCapacity, 0)} spots left`
+          );
+        }
+
+        const razorpayOrder = await PaymentUtils.createRazorpayOrder(booking, {
+          userId,
+          activityName: adventureBooking.activity.activityName,
+        });
+
+        // Update booking status to PENDING when payment is initiated
+        await PaymentUtils.updateBookingStatus(tx, booking.id, "PENDING");
+
+        const payment = await PaymentUtils.upsertPendingPayment(
+          tx,
+          booking,
+          razorpayOrder.id
+        );
+
+        return { booking, adventureBooking, payment, razorpayOrder };
+      });
+
+      return ResponseUtils.success(res, "Payment order created successfully", {
+        orderId: result.razorpayOrder.id,
+        amount: Math.round(result.booking.totalAmount * 100), // Amount in paise for Razorpay
+        currency: "INR",
+        key: PaymentUtils.getCheckoutKey(),
+        name: "Sojourn",
+        description: `Adventure Booking - ${result.adventureBooking.activity.activityName}`,
+        prefill: {
+          contact: result.booking.user?.phoneNumber || "",
+        },
+        timeout: 900, // 15 minutes
+        payment: result.payment,
+        booking: {
+          id: result.booking.id,
+          status: "PENDING",
+          totalAmount: result.booking.totalAmount,
+          activityName: result.adventureBooking.activity.activityName,
+          bookingDate: result.adventureBooking.bookingDate,
+          slotTime: result.adventureBooking.slotTime,
+          numberOfPeople: result.adventureBooking.numberOfPeople,
+        },
+      });
+    } catch (error) {
+      console.error("Create adventure payment order error:", error);
+
+      if (error instanceof Error) {
+        if (
+          error.message.includes("not found") ||
+          error.message.includes("access denied")
+        ) {
+          return ResponseUtils.notFound(
+            res,
+            "Booking not found or access denied"
+          );
+        }
+        if (
+          error.message.includes("Payment already completed") ||
+          error.message.includes("Cannot create payment")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to create payment order");
+    }
+  }
+
+  static async verifyPayment(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { bookingId } = req.params;
+      const { razorpay_payment_id, razorpay_order_id, razorpay_signature } =
+        req.validatedData?.body || req.body;
+
+      if (!bookingId) {
+        return ResponseUtils.badRequest(res, "Booking ID is required");
+      }
+
+      const adventureBooking = await prisma.adventureBooking.findUnique({
+        where: { id: bookingId },
+        include: {
+          booking: {
+            include: {
+              payment: true,
+            },
+          },
+        },
+      });
+
+      if (!adventureBooking) {
+        return ResponseUtils.notFound(res, "Adventure booking not found");
+      }
+
+      const booking = adventureBooking.booking;
+
+      if (booking.userId !== userId) {
+        return ResponseUtils.unauthorized(res, "Access denied");
+      }
+
+      if (!booking.payment) {
+        return ResponseUtils.notFound(res, "Payment record not found");
+      }
+
+      // The signature only proves the payment belongs to the order, so the
+      // order must be the one created for this booking
+      if (booking.payment.razorpayOrderId !== razorpay_order_id) {
+        return ResponseUtils.badRequest(
+          res,
+          "Order does not match this booking"
+        );
+      }
+
+      if (booking.payment.paymentStatus === "SUCCESS") {
+        return ResponseUtils.success(res, "Payment already verified");
+      }
+
+      if (!["DRAFT", "PENDING"].includes(booking.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot verify payment for booking with status: ${booking.status}`
+        );
+      }
+
+      const isValidSignature = PaymentUtils.verifyPaymentSignature(
+        razorpay_order_id,
+        razorpay_payment_id,
+        razorpay_signature
+      );
+
+      if (!isValidSignature) {
+        await prisma.payment.updateMany({
+          where: { bookingId: booking.id, paymentStatus: "PENDING" },
+          data: { paymentStatus: "FAILED" },
+        });
+
+        return ResponseUtils.badRequest(res, "Payment verification failed");
+      }
+
+      // Confirms only while the booking still awaits payment; one cancelled
+      // meanwhile keeps its status and the payment is queued for a refund
+      const { refundQueued } = await prisma.$transaction(
+        async (tx) =>
+          await PaymentUtils.confirmOrderPayments(
+            tx,
+            razorpay_order_id,
+            razorpay_payment_id,
+            razorpay_signature
+          )
+      );
+
+      if (refundQueued.length > 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "This booking was cancelled before the payment completed. The amount will be refunded."
+        );
+      }
+
+      return ResponseUtils.success(res, "Payment verified successfully");
+    } catch (error) {
+      console.error("Verify adventure payment error:", error);
+      return ResponseUtils.serverError(res, "Failed to verify payment");
+    }
+  }
+}
+
+export const adventureController = AdventureController;
@@ -0,0 +1,126 @@
+import express from "express";
+import { adventureController } from "./adventureController.js";
+import { authMiddleware, authorizeVendor } from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import {
+  createActivitySchema,
+  updateActivitySchema,
+  vendorActivitiesQuerySchema,
+  searchActivitiesSchema,
+  slotAvailabilitySchema,
+  adventureBookingSchema,
+  bookingsQuerySchema,
+} from "./validator.js";
+import { paymentVerificationSchema } from "../payment/validator.js";
+
+const router = express.Router();
+
+// ================================
+// VENDOR ACTIVITY MANAGEMENT ROUTES
+// ================================
+
+// Create activity (approved adventure vendor only)
+router.post(
+  "/activities",
+  authMiddleware,
+  authorizeVendor,
+  validate(createActivitySchema),
+  adventureController.createActivity
+);
+
+// Update activity details
+router.put(
+  "/activities/:activityId",
+  authMiddleware,
+  authorizeVendor,
+  validate(updateActivitySchema),
+  adventureController.updateActivity
+);
+
+// Deactivate activity
+router.patch(
+  "/activities/:activityId/deactivate",
+  authMiddleware,
+  authorizeVendor,
+  adventureController.deactivateActivity
+);
+
+// Get vendor's activities
+router.get(
+  "/activities",
+  authMiddleware,
+  authorizeVendor,
+  validate(vendorActivitiesQuerySchema),
+  adventureController.getVendorActivities
+);
+
+// ================================
+// BOOKING MANAGEMENT ROUTES
+// ================================
+
+// Create adventure booking (customer)
+router.post(
+  "/bookings",
+  authMiddleware,
+  validate(adventureBookingSchema),
+  adventureController.createAdventureBooking
+);
+
+// Get customer bookings
+router.get(
+  "/customer/bookings",
+  authMiddleware,
+  validate(bookingsQuerySchema),
+  adventureController.getCustomerBookings
+);
+
+// Get vendor bookings
+router.get(
+  "/vendor/bookings",
+  authMiddleware,
+  authorizeVendor,
+  validate(bookingsQuerySchema),
+  adventureController.getVendorBookings
+);
+
+// ================================
+// PAYMENT ROUTES
+// ================================
+
+// Create Razorpay order
+router.post(
+  "/bookings/:bookingId/payment/create-order",
+  authMiddleware,
+  adventureController.createPaymentOrder
+);
+
+// Verify payment
+router.post(
+  "/bookings/:bookingId/payment/verify",
+  authMiddleware,
+  validate(paymentVerificationSchema),
+  adventureController.verifyPayment
+);
+
+// ================================
+// PUBLIC ACTIVITY SEARCH ROUTES
+// ================================
+
+// Search activities
+router.get(
+  "/search",
+  validate(searchActivitiesSchema),
+  adventureController.searchActivities
+);
+
+// Get activity details by ID
+router.get("/:activityId", adventureController.getActivityDetails);
+
+// Get remaining capacity for a date / slot
+router.get(
+  "/:activityId/slots",
+  validate(slotAvailabilitySchema),
+  adventureController.checkSlotAvailability
+);
+
+export { router as adventureRoutes };
@@ -0,0 +1,229 @@
+import { PrismaClient } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import {
+  seasonalAvailabilitySchema,
+  type SeasonalAvailability,
+} from "./validator.js";
+
+const prisma = new PrismaClient();
+
+// Activities in Kashmir run on Indian Standard Time
+const IST_OFFSET = "+05:30";
+
+export type ActivityPricingType = "PER_PERSON" | "PER_GROUP";
+
+const WEEKDAYS = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] as const;
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+export class AdventureUtils {
+  // Calculate booking price from whichever pricing the vendor configured.
+  // When both are configured the customer pays the cheaper option.
+  static calculateActivityPrice(
+    activity: { pricePerPerson: number; pricePerGroup?: number | null },
+    numberOfPeople: number
+  ): { pricingType: ActivityPricingType; totalAmount: number } {
+    const perPersonTotal =
+      activity.pricePerPerson > 0
+        ? activity.pricePerPerson * numberOfPeople
+        : null;
+    const groupTotal =
+      activity.pricePerGroup && activity.pricePerGroup > 0
+        ? activity.pricePerGroup
+        : null;
+
+    if (
+      groupTotal !== null &&
+      (perPersonTotal === null || groupTotal < perPersonTotal)
+    ) {
+      return { pricingType: "PER_GROUP", totalAmount: groupTotal };
+    }
+
+    return { pricingType: "PER_PERSON", totalAmount: perPersonTotal ?? 0 };
+  }
+
+  // Parse the stored seasonal availability. Legacy free-text values that are
+  // not valid JSON are treated as "available all year"
+  static parseSeasonalAvailability(raw: string | null): SeasonalAvailability {
+    let parsed: unknown = {};
+    try {
+      parsed = raw ? JSON.parse(raw) : {};
+    } catch (e) {
+      parsed = {};
+    }
+
+    const result = seasonalAvailabilitySchema.safeParse(parsed);
+    return result.success ? result.data : seasonalAvailabilitySchema.parse({});
+  }
+
+  // Check a "YYYY-MM-DD" date against the activity's season rules
+  static checkDateAvailability(
+    availability: SeasonalAvailability,
+    date: string
+  ): { isAvailable: boolean; reason?: string } {
+    const month = Number(date.slice(5, 7));
+    const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+    if (availability.months.length > 0) {
+      const inSeason = availability.months.some(({ from, to }) =>
+        from <= to ? month >= from && month <= to : month >= from || month <= to
+      );
+
+      if (!inSeason) {
+        const season = availability.months
+          .map(
+            ({ from, to }) =>
+              `${MONTH_NAMES[from - 1]} to ${MONTH_NAMES[to - 1]}`
+          )
+          .join(", ");
+        return {
+          isAvailable: false,
+          reason: `Activity is out of season. It runs ${season}`,
+        };
+      }
+    }
+
+    if (
+      availability.weekdays.length > 0 &&
+      weekday &&
+      !availability.weekdays.includes(weekday)
+    ) {
+      return {
+        isAvailable: false,
+        reason: `Activity does not run on ${weekday}. It runs on ${availability.weekdays.join(", ")}`,
+      };
+    }
+
+    const blackout = availability.blackoutDates.find(
+      (range) => date >= range.from && date <= (range.to || range.from)
+    );
+    if (blackout) {
+      return {
+        isAvailable: false,
+        reason: blackout.reason
+          ? `Activity is closed on this date: ${blackout.reason}`
+          : "Activity is closed on this date",
+      };
+    }
+
+    return { isAvailable: true };
+  }
+
+  // Replace the stored JSON string with the structured availability for responses
+  static formatActivity<T extends { seasonalAvailability: string }>(
+    activity: T
+  ): Omit<T, "seasonalAvailability"> & {
+    seasonalAvailability: SeasonalAvailability;
+  } {
+    return {
+      ...activity,
+      seasonalAvailability: this.parseSeasonalAvailability(
+        activity.seasonalAvailability
+      ),
+    };
+  }
+
+  // Build the slot start from a "YYYY-MM-DD" date and an "HH:MM" slot time
+  static buildSlotStart(date: string, slotTime: string): Date {
+    return new Date(`${date}T${slotTime}:00${IST_OFFSET}`);
+  }
+
+  // Bookings that hold seats in a slot - mirrors the hotel room conflict rules
+  static activeBookingFilter(): Prisma.AdventureBookingWhereInput {
+    return {
+      OR: [
+        { status: "CONFIRMED" }, // Always count confirmed bookings
+        {
+          // Only count PENDING bookings that have successful payments
+          status: "PENDING",
+          booking: {
+            payment: {
+              paymentStatus: "SUCCESS",
+            },
+          },
+        },
+        {
+          // Count PENDING bookings that are very recent (within 30 minutes) to allow payment completion
+          status: "PENDING",
+          createdAt: {
+            gt: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
+          },
+        },
+      ],
+    };
+  }
+
+  // Lock the activity row until the transaction ends, so bookings for its
+  // slots are counted and taken one at a time
+  static async lockActivity(
+    client: Prisma.TransactionClient,
+    activityId: string
+  ) {
+    await client.$queryRaw`SELECT "id" FROM "public"."activities" WHERE "id" = ${activityId} FOR UPDATE`;
+  }
+
+  // Count seats already taken in a slot across all concurrent bookings,
+  // optionally leaving out the booking being checked
+  static async getBookedPeopleForSlot(
+    activityId: string,
+    slotStart: Date,
+    client: Prisma.TransactionClient = prisma,
+    excludeBookingId?: string
+  ): Promise<number> {
+    const result = await client.adventureBooking.aggregate({
+      where: {
+        activityId,
+        bookingDate: slotStart,
+        ...(excludeBookingId && { id: { not: excludeBookingId } }),
+        ...this.activeBookingFilter(),
+      },
+      _sum: { numberOfPeople: true },
+    });
+
+    return result._sum.numberOfPeople || 0;
+  }
+
+  // Remaining seats for each booked slot on a given day
+  static async getSlotOccupancyForDate(
+    activity: { id: string; maxGroupSize: number },
+    date: string
+  ) {
+    const dayStart = this.buildSlotStart(date, "00:00");
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const bookedSlots = await prisma.adventureBooking.groupBy({
+      by: ["bookingDate", "slotTime"],
+      where: {
+        activityId: activity.id,
+        bookingDate: { gte: dayStart, lt: dayEnd },
+        ...this.activeBookingFilter(),
+      },
+      _sum: { numberOfPeople: true },
+    });
+
+    return bookedSlots.map((slot) => {
+      const bookedPeople = slot._sum.numberOfPeople || 0;
+      return {
+        slotTime: slot.slotTime,
+        slotStart: slot.bookingDate,
+        bookedPeople,
+        remainingCapacity: Math.max(activity.maxGroupSize - bookedPeople, 0),
+      };
+    });
+  }
+}
+
+export default AdventureUtils;
@@ -0,0 +1,4 @@
+export { adventureController } from "./adventureController.js";
+export { adventureRoutes } from "./adventureRoutes.js";
+export { AdventureUtils } from "./adventureUtils.js";
+export * from "./validator.js";
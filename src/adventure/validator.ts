@@ -0,0 +1,288 @@
+import { z } from "zod";
+
+// Activity Type enum
+const activityTypeSchema = z.enum([
+  "TREKKING",
+  "RAFTING",
+  "GONDOLA",
+  "SKIING",
+  "CAMPING",
+  "OTHER",
+]);
+
+// Date (YYYY-MM-DD) and zero-padded slot time (HH:MM) patterns
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
+
+const weekdaySchema = z.enum(["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]);
+
+const monthSchema = z
+  .number()
+  .int("Month must be a whole number")
+  .min(1, "Month must be between 1 and 12")
+  .max(12, "Month must be between 1 and 12");
+
+// Structured seasonal availability stored in Activity.seasonalAvailability.
+// Empty lists mean "no restriction", so "{}" is available all year, any time.
+export const seasonalAvailabilitySchema = z.object({
+  // Month ranges, inclusive. Ranges may wrap the year, e.g. { from: 12, to: 3 }
+  months: z
+    .array(z.object({ from: monthSchema, to: monthSchema }))
+    .max(12)
+    .default([]),
+  // Days of the week the activity runs on
+  weekdays: z
+    .array(weekdaySchema)
+    .max(7)
+    .transform((days) => Array.from(new Set(days)))
+    .default([]),
+  // Closed dates, e.g. river closures or festival days. "to" defaults to "from"
+  blackoutDates: z
+    .array(
+      z
+        .object({
+          from: z.string().regex(datePattern, "Date must be YYYY-MM-DD"),
+          to: z
+            .string()
+            .regex(datePattern, "Date must be YYYY-MM-DD")
+            .optional(),
+          reason: z.string().max(200).optional(),
+        })
+        .refine((range) => !range.to || range.to >= range.from, {
+          message: "Blackout end date cannot be before its start date",
+          path: ["to"],
+        })
+    )
+    .max(100)
+    .default([]),
+  // Daily slot start times. Bookings must use one of these when set
+  slotTimes: z
+    .array(z.string().regex(timePattern, "Invalid slot time format (HH:MM)"))
+    .max(24)
+    .transform((times) => Array.from(new Set(times)).sort())
+    .default([]),
+});
+
+export type SeasonalAvailability = z.infer<typeof seasonalAvailabilitySchema>;
+
+// Accepts the structured object directly or as a JSON string (form submissions)
+const seasonalAvailabilityInputSchema = z
+  .union([z.string(), z.record(z.string(), z.unknown())])
+  .transform((val, ctx) => {
+    if (typeof val !== "string") return val;
+    try {
+      return JSON.parse(val);
+    } catch (e) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Seasonal availability must be a valid JSON object",
+      });
+      return z.NEVER;
+    }
+  })
+  .pipe(seasonalAvailabilitySchema);
+
+// List of short text entries (safety measures, required documents)
+// Accepts a JSON array or a comma-separated string and removes duplicates
+const textListSchema = (label: string) =>
+  z
+    .union([z.array(z.string()), z.string()])
+    .transform((val) => {
+      let items: string[] = [];
+      if (typeof val === "string") {
+        try {
+          const parsed = JSON.parse(val);
+          if (Array.isArray(parsed)) {
+            items = parsed.filter((item) => typeof item === "string");
+          }
+        } catch (e) {
+          // If JSON parsing fails, treat as comma-separated string
+          items = val.split(",");
+        }
+      } else {
+        items = val;
+      }
+      const trimmed = items.map((item) => item.trim()).filter(Boolean);
+      return Array.from(new Set(trimmed));
+    })
+    .refine(
+      (items) => items.every((item) => item.length <= 200),
+      `Each ${label} entry cannot exceed 200 characters`
+    )
+    .refine(
+      (items) => items.length <= 25,
+      `Cannot have more than 25 ${label} entries`
+    );
+
+const priceSchema = (label: string) =>
+  z
+    .number({ message: `${label} must be a number` })
+    .min(0, `${label} cannot be negative`)
+    .max(1000000, `${label} is too high`);
+
+const maxGroupSizeSchema = z
+  .number()
+  .int("Max group size must be a whole number")
+  .min(1, "Max group size must be at least 1")
+  .max(200, "Max group size cannot exceed 200");
+
+export const createActivitySchema = z.object({
+  body: z
+    .object({
+      activityName: z
+        .string()
+        .min(2, "Activity name must be at least 2 characters")
+        .max(255, "Activity name too long"),
+      activityType: activityTypeSchema,
+      location: z
+        .string()
+        .min(2, "Location is required")
+        .max(255, "Location too long"),
+      duration: z
+        .string()
+        .min(1, "Duration is required")
+        .max(100, "Duration too long"),
+      pricePerPerson: priceSchema("Price per person").optional(),
+      pricePerGroup: priceSchema("Price per group").optional(),
+      maxGroupSize: maxGroupSizeSchema,
+      safetyMeasures: textListSchema("safety measure").refine(
+        (items) => items.length > 0,
+        "At least one safety measure is required"
+      ),
+      requiredDocuments: textListSchema("required document").default([]),
+      seasonalAvailability: seasonalAvailabilityInputSchema.optional(),
+    })
+    .refine(
+      (data) =>
+        (data.pricePerPerson !== undefined && data.pricePerPerson > 0) ||
+        (data.pricePerGroup !== undefined && data.pricePerGroup > 0),
+      {
+        message: "Either price per person or price per group must be set",
+        path: ["pricePerPerson"],
+      }
+    ),
+});
+
+export const updateActivitySchema = z.object({
+  body: z
+    .object({
+      activityName: z.string().min(2).max(255).optional(),
+      activityType: activityTypeSchema.optional(),
+      location: z.string().min(2).max(255).optional(),
+      duration: z.string().min(1).max(100).optional(),
+      pricePerPerson: priceSchema("Price per person").optional(),
+      pricePerGroup: priceSchema("Price per group").nullable().optional(),
+      maxGroupSize: maxGroupSizeSchema.optional(),
+      safetyMeasures: textListSchema("safety measure")
+        .refine(
+          (items) => items.length > 0,
+          "At least one safety measure is required"
+        )
+        .optional(),
+      requiredDocuments: textListSchema("required document").optional(),
+      seasonalAvailability: seasonalAvailabilityInputSchema.optional(),
+      isActive: z.boolean().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field is required for update",
+    }),
+});
+
+export const vendorActivitiesQuerySchema = z.object({
+  query: z.object({
+    status: z.enum(["active", "inactive", "all"]).optional().default("all"),
+    activityType: activityTypeSchema.optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+// Customers and vendors never list DRAFT bookings
+export const bookingsQuerySchema = z.object({
+  query: z.object({
+    status: z
+      .enum(["PENDING", "CONFIRMED", "CANCELLED", "COMPLETED"])
+      .optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+export const searchActivitiesSchema = z.object({
+  query: z.object({
+    activityType: activityTypeSchema.optional(),
+    location: z.string().optional(),
+    availableOn: z
+      .string()
+      .regex(datePattern, "Available on date must be in YYYY-MM-DD format")
+      .optional(),
+    groupSize: z
+      .string()
+      .transform((val) => (val ? parseInt(val) : undefined))
+      .optional(),
+    minPrice: z
+      .string()
+      .transform((val) => (val ? parseFloat(val) : undefined))
+      .optional(),
+    maxPrice: z
+      .string()
+      .transform((val) => (val ? parseFloat(val) : undefined))
+      .optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+export const slotAvailabilitySchema = z.object({
+  query: z.object({
+    date: z.string().regex(datePattern, "Date must be in YYYY-MM-DD format"),
+    slotTime: z
+      .string()
+      .regex(timePattern, "Invalid slot time format (HH:MM)")
+      .optional(),
+  }),
+});
+
+export const adventureBookingSchema = z.object({
+  body: z.object({
+    activityId: z.string().min(1, "Activity ID is required"),
+    bookingDate: z
+      .string()
+      .regex(datePattern, "Booking date must be in YYYY-MM-DD format"),
+    slotTime: z.string().regex(timePattern, "Invalid slot time format (HH:MM)"),
+    numberOfPeople: z
+      .number()
+      .int("Number of people must be a whole number")
+      .min(1, "At least 1 person is required"),
+    promoCode: z
+      .string()
+      .trim()
+      .min(3, "Promo code is too short")
+      .max(30, "Promo code is too long")
+      .optional(),
+  }),
+});
@@ -0,0 +1,310 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import type { VendorAgreement } from "@prisma/client";
+import AgreementUtils from "./agreementUtils.js";
+import type { CreateAgreementInput } from "./validator.js";
+
+const prisma = new PrismaClient();
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static created(res: Response, message: string, data?: any) {
+    return res.status(201).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+// Agreement with its JSON terms parsed
+const sanitizeAgreement = (agreement: VendorAgreement) => ({
+  ...agreement,
+  commissionTiers: AgreementUtils.parseCommissionTiers(
+    agreement.commissionTiers
+  ),
+  categoryRates: AgreementUtils.parseCategoryRates(agreement.categoryRates),
+});
+
+export class AgreementController {
+  // ================================
+  // ADMIN AGREEMENT MANAGEMENT
+  // ================================
+
+  // Sign a new agreement. It supersedes the vendor's current agreement from
+  // its effective date; bookings made before then keep their old terms
+  static async createAgreement(req: ValidatedRequest, res: Response) {
+    try {
+      const { vendorId } = req.params;
+      const body: CreateAgreementInput = req.validatedData?.body || req.body;
+
+      if (!vendorId) {
+        return ResponseUtils.badRequest(res, "Vendor ID is required");
+      }
+
+      const now = new Date();
+      const effectiveFrom = body.effectiveFrom
+        ? new Date(body.effectiveFrom)
+        : now;
+
+      if (effectiveFrom < AgreementUtils.getDayStart(now)) {
+        return ResponseUtils.badRequest(
+          res,
+          "Effective date cannot be in the past"
+        );
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        const vendor = await tx.vendor.findUnique({
+          where: { id: vendorId },
+        });
+        if (!vendor) {
+          throw new Error("Vendor not found");
+        }
+
+        // The current agreement ends when the new one starts
+        await tx.vendorAgreement.updateMany({
+          where: {
+            vendorId,
+            isActive: true,
+            effectiveFrom: { lt: effectiveFrom },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }],
+          },
+          data: { effectiveTo: effectiveFrom },
+        });
+
+        // Agreements scheduled to start later are replaced
+        await tx.vendorAgreement.updateMany({
+          where: {
+            vendorId,
+            isActive: true,
+            effectiveFrom: { gte: effectiveFrom },
+          },
+          data: { isActive: false, effectiveTo: effectiveFrom },
+        });
+
+        const agreement = await tx.vendorAgreement.create({
+          data: {
+            vendorId,
+            commissionRate: body.commissionRate,
+            paymentTerms: body.paymentTerms,
+            cancellationTerms: body.cancellationTerms,
+            insuranceCoverage: body.insuranceCoverage ?? null,
+            trialOffers: body.trialOffers ?? null,
+            commissionTiers: body.commissionTiers?.length
+              ? JSON.stringify(body.commissionTiers)
+              : null,
+            categoryRates:
+              body.categoryRates && Object.keys(body.categoryRates).length > 0
+                ? JSON.stringify(body.categoryRates)
+                : null,
+            effectiveFrom,
+          },
+        });
+
+        // Keep the vendor's base rate in line with the agreement in force
+        if (effectiveFrom <= now) {
+          await tx.vendor.update({
+            where: { id: vendorId },
+            data: { commissionRate: body.commissionRate },
+          });
+        }
+
+        return agreement;
+      });
+
+      return ResponseUtils.created(
+        res,
+        "Agreement created successfully",
+        sanitizeAgreement(result)
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === "Vendor not found") {
+        return ResponseUtils.notFound(res, error.message);
+      }
+
+      console.error("Create agreement error:", error);
+      return ResponseUtils.serverError(res, "Failed to create agreement");
+    }
+  }
+
+  static async getVendorAgreements(req: Request, res: Response) {
+    try {
+      const { vendorId } = req.params;
+      if (!vendorId) {
+        return ResponseUtils.badRequest(res, "Vendor ID is required");
+      }
+
+      const vendor = await prisma.vendor.findUnique({
+        where: { id: vendorId },
+        select: { id: true, businessName: true, commissionRate: true },
+      });
+      if (!vendor) {
+        return ResponseUtils.notFound(res, "Vendor not found");
+      }
+
+      const [agreements, active] = await Promise.all([
+        prisma.vendorAgreement.findMany({
+          where: { vendorId },
+          include: { _count: { select: { bookings: true } } },
+          orderBy: [{ effectiveFrom: "desc" }, { signedAt: "desc" }],
+        }),
+        AgreementUtils.getActiveAgreement(prisma, vendorId),
+      ]);
+
+      return ResponseUtils.success(res, "Agreements retrieved successfully", {
+        vendor,
+        activeAgreementId: active?.id || null,
+        agreements: agreements.map((agreement) => ({
+          ...sanitizeAgreement(agreement),
+          bookingCount: agreement._count.bookings,
+          _count: undefined,
+        })),
+      });
+    } catch (error) {
+      console.error("Get vendor agreements error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve agreements");
+    }
+  }
+
+  // End an agreement now. New bookings fall back to the vendor's base rate
+  // until another agreement is signed
+  static async deactivateAgreement(req: Request, res: Response) {
+    try {
+      const { agreementId } = req.params;
+      if (!agreementId) {
+        return ResponseUtils.badRequest(res, "Agreement ID is required");
+      }
+
+      const agreement = await prisma.vendorAgreement.findUnique({
+        where: { id: agreementId },
+      });
+      if (!agreement) {
+        return ResponseUtils.notFound(res, "Agreement not found");
+      }
+
+      if (!agreement.isActive) {
+        return ResponseUtils.badRequest(res, "Agreement is already inactive");
+      }
+
+      const now = new Date();
+      const updated = await prisma.vendorAgreement.update({
+        where: { id: agreementId },
+        data: {
+          isActive: false,
+          effectiveTo:
+            agreement.effectiveTo && agreement.effectiveTo < now
+              ? agreement.effectiveTo
+              : now,
+        },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Agreement deactivated successfully",
+        sanitizeAgreement(updated)
+      );
+    } catch (error) {
+      console.error("Deactivate agreement error:", error);
+      return ResponseUtils.serverError(res, "Failed to deactivate agreement");
+    }
+  }
+
+  // ================================
+  // VENDOR ROUTES
+  // ================================
+
+  // The vendor's agreement in force, this month's GMV and the rate it earns
+  static async getCurrentAgreement(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await prisma.vendor.findUnique({ where: { userId } });
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view agreements"
+        );
+      }
+
+      const now = new Date();
+      const [agreement, upcoming, monthlyGmv] = await Promise.all([
+        AgreementUtils.getActiveAgreement(prisma, vendor.id, now),
+        prisma.vendorAgreement.findMany({
+          where: {
+            vendorId: vendor.id,
+            isActive: true,
+            effectiveFrom: { gt: now },
+          },
+          orderBy: { effectiveFrom: "asc" },
+        }),
+        AgreementUtils.getMonthlyGmv(prisma, vendor.id, now),
+      ]);
+
+      const tierRate = agreement
+        ? AgreementUtils.getTierRate(
+            AgreementUtils.parseCommissionTiers(agreement.commissionTiers),
+            monthlyGmv
+          )
+        : null;
+
+      return ResponseUtils.success(res, "Agreement retrieved successfully", {
+        agreement: agreement ? sanitizeAgreement(agreement) : null,
+        upcoming: upcoming.map(sanitizeAgreement),
+        monthlyGmv,
+        currentRate:
+          tierRate ??
+          agreement?.commissionRate ??
+          AgreementUtils.getVendorRule(vendor).rate,
+      });
+    } catch (error) {
+      console.error("Get current agreement error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve agreement");
+    }
+  }
+}
+
+export const agreementController = AgreementController;
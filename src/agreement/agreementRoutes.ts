@@ -0,0 +1,54 @@
+import express from "express";
+import { agreementController } from "./agreementController.js";
+import {
+  authMiddleware,
+  authorizeVendor,
+  simpleAdminAuth,
+} from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import { createAgreementSchema } from "./validator.js";
+
+const router = express.Router();
+
+// ================================
+// VENDOR ROUTES
+// ================================
+
+// Agreement in force, upcoming agreements and this month's commission rate
+router.get(
+  "/vendor/current",
+  authMiddleware,
+  authorizeVendor,
+  agreementController.getCurrentAgreement
+);
+
+// ================================
+// ADMIN ROUTES
+// ================================
+
+// Agreement history for a vendor
+router.get(
+  "/admin/vendors/:vendorId",
+  authMiddleware,
+  simpleAdminAuth,
+  agreementController.getVendorAgreements
+);
+
+// Sign a new agreement (supersedes the current one from its effective date)
+router.post(
+  "/admin/vendors/:vendorId",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(createAgreementSchema),
+  agreementController.createAgreement
+);
+
+// End an agreement now
+router.patch(
+  "/admin/:agreementId/deactivate",
+  authMiddleware,
+  simpleAdminAuth,
+  agreementController.deactivateAgreement
+);
+
+export { router as agreementRoutes };
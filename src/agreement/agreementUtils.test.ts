@@ -0,0 +1,27 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import AgreementUtils, { DEFAULT_COMMISSION_RATE } from "./agreementUtils.js";
+
+describe("AgreementUtils.getVendorRule", () => {
+  test("keeps a 0% vendor rate", () => {
+    assert.deepEqual(AgreementUtils.getVendorRule({ commissionRate: 0 }), {
+      rate: 0,
+      source: "VENDOR",
+      agreementId: null,
+    });
+  });
+
+  test("uses the vendor's own rate", () => {
+    assert.equal(
+      AgreementUtils.getVendorRule({ commissionRate: 12.5 }).rate,
+      12.5
+    );
+  });
+
+  test("falls back to the default rate when the vendor has none", () => {
+    assert.equal(
+      AgreementUtils.getVendorRule({ commissionRate: null }).rate,
+      DEFAULT_COMMISSION_RATE
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import type { Prisma, VendorAgreement } from "@prisma/client";
+
+// Used when a vendor has neither an agreement nor a rate of its own
+export const DEFAULT_COMMISSION_RATE = 16;
+
+export interface CommissionTier {
+  minMonthlyGmv: number; // month-to-date GMV (₹) from which the rate applies
+  commissionRate: number;
+}
+
+// Listing category (room type, activity type, vehicle type or product
+// category) to commission percentage
+export type CategoryRates = Record<string, number>;
+
+export type CommissionSource =
+  "CATEGORY" | "GMV_TIER" | "AGREEMENT" | "VENDOR" | "MIXED";
+
+export interface CommissionRule {
+  rate: number;
+  source: Exclude<CommissionSource, "MIXED">;
+  agreementId: string | null;
+}
+
+// Booking fields snapshotting the commission terms used
+export interface BookingCommission {
+  commissionAmount: number;
+  commissionRate: number;
+  commissionAgreementId: string | null;
+  commissionSource: CommissionSource;
+}
+
+export interface CommissionLine {
+  amount: number;
+  category?: string | null;
+}
+
+export class AgreementUtils {
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  static parseCommissionTiers(json: string | null): CommissionTier[] {
+    if (!json) {
+      return [];
+    }
+
+    try {
+      const tiers = JSON.parse(json) as CommissionTier[];
+      return [...tiers].sort((a, b) => a.minMonthlyGmv - b.minMonthlyGmv);
+    } catch {
+      return [];
+    }
+  }
+
+  static parseCategoryRates(json: string | null): CategoryRates {
+    if (!json) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(json) as CategoryRates;
+    } catch {
+      return {};
+    }
+  }
+
+  // Agreement in force at `at`: active, started, not yet superseded. The most
+  // recently started one wins if several overlap
+  static async getActiveAgreement(
+    client: Prisma.TransactionClient,
+    vendorId: string,
+    at: Date = new Date()
+  ) {
+    return await client.vendorAgreement.findFirst({
+      where: {
+        vendorId,
+        isActive: true,
+        effectiveFrom: { lte: at },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+      },
+      orderBy: [{ effectiveFrom: "desc" }, { signedAt: "desc" }],
+    });
+  }
+
+  static getDayStart(at: Date): Date {
+    return new Date(
+      Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate())
+    );
+  }
+
+  static getMonthStart(at: Date): Date {
+    return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  }
+
+  // Value of the vendor's confirmed bookings so far this calendar month (UTC)
+  static async getMonthlyGmv(
+    client: Prisma.TransactionClient,
+    vendorId: string,
+    at: Date = new Date()
+  ): Promise<number> {
+    const result = await client.booking.aggregate({
+      where: {
+        vendorId,
+        status: { in: ["CONFIRMED", "COMPLETED"] },
+        createdAt: { gte: this.getMonthStart(at), lte: at },
+      },
+      _sum: { totalAmount: true },
+    });
+
+    return this.roundAmount(result._sum.totalAmount || 0);
+  }
+
+  static getTierRate(tiers: CommissionTier[], monthlyGmv: number) {
+    let rate: number | null = null;
+    for (const tier of tiers) {
+      if (monthlyGmv >= tier.minMonthlyGmv) {
+        rate = tier.commissionRate;
+      }
+    }
+    return rate;
+  }
+
+  // Rate for one category under an agreement: a category override first,
+  // then the GMV tier reached this month, then the agreement's base rate
+  static getAgreementRule(
+    agreement: VendorAgreement,
+    category: string | null | undefined,
+    monthlyGmv: number
+  ): CommissionRule {
+    const categoryRates = this.parseCategoryRates(agreement.categoryRates);
+    if (category && categoryRates[category] !== undefined) {
+      return {
+        rate: categoryRates[category]!,
+        source: "CATEGORY",
+        agreementId: agreement.id,
+      };
+    }
+
+    const tierRate = this.getTierRate(
+      this.parseCommissionTiers(agreement.commissionTiers),
+      monthlyGmv
+    );
+    if (tierRate !== null) {
+      return { rate: tierRate, source: "GMV_TIER", agreementId: agreement.id };
+    }
+
+    return {
+      rate: agreement.commissionRate,
+      source: "AGREEMENT",
+      agreementId: agreement.id,
+    };
+  }
+
+  // Rate for a vendor without an agreement. A 0% rate is valid and kept
+  static getVendorRule(vendor: {
+    commissionRate: number | null;
+  }): CommissionRule {
+    return {
+      rate: vendor.commissionRate ?? DEFAULT_COMMISSION_RATE,
+      source: "VENDOR",
+      agreementId: null,
+    };
+  }
+
+  // Commission for a new booking from the vendor's agreement at booking
+  // time. The result is stored on the Booking so later agreement changes do
+  // not alter it. Several lines (trip cart) may use different categories
+  static async calculateBookingCommission(
+    client: Prisma.TransactionClient,
+    vendor: { id: string; commissionRate: number | null },
+    lines: CommissionLine[],
+    at: Date = new Date()
+  ): Promise<BookingCommission> {
+    const agreement = await this.getActiveAgreement(client, vendor.id, at);
+    const monthlyGmv =
+      agreement?.commissionTiers != null
+        ? await this.getMonthlyGmv(client, vendor.id, at)
+        : 0;
+
+    const rules = lines.map((line): CommissionRule => {
+      if (agreement) {
+        return this.getAgreementRule(agreement, line.category, monthlyGmv);
+      }
+      return this.getVendorRule(vendor);
+    });
+
+    const totalAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+    const commissionAmount = this.roundAmount(
+      lines.reduce(
+        (sum, line, index) => sum + (line.amount * rules[index]!.rate) / 100,
+        0
+      )
+    );
+
+    const sources = new Set(rules.map((rule) => rule.source));
+    const rates = new Set(rules.map((rule) => rule.rate));
+
+    return {
+      commissionAmount,
+      // Blended rate when cart lines use different rates
+      commissionRate:
+        rates.size === 1
+          ? [...rates][0]!
+          : totalAmount > 0
+            ? this.roundAmount((commissionAmount / totalAmount) * 100)
+            : 0,
+      commissionAgreementId: agreement?.id || null,
+      commissionSource:
+        sources.size === 1 ? [...sources][0]! : ("MIXED" as const),
+    };
+  }
+}
+
+export default AgreementUtils;
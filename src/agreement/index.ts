@@ -0,0 +1,4 @@
+export { agreementController } from "./agreementController.js";
+export { agreementRoutes } from "./agreementRoutes.js";
+export { AgreementUtils, DEFAULT_COMMISSION_RATE } from "./agreementUtils.js";
+export * from "./validator.js";
@@ -0,0 +1,78 @@
+import { z } from "zod";
+
+// Listing categories that can carry their own commission rate: room types,
+// activity types, vehicle types and product categories
+export const COMMISSION_CATEGORIES = [
+  "STANDARD",
+  "DELUXE",
+  "SUITE",
+  "DORMITORY",
+  "TREKKING",
+  "RAFTING",
+  "GONDOLA",
+  "SKIING",
+  "CAMPING",
+  "SEDAN",
+  "SUV",
+  "HATCHBACK",
+  "SHIKARA",
+  "TEMPO",
+  "BUS",
+  "HANDICRAFT",
+  "SAFFRON",
+  "DRY_FRUITS",
+  "WOOLENS",
+  "WOODWORK",
+  "OTHER",
+] as const;
+
+const rateSchema = z
+  .number()
+  .min(0, "Commission rate cannot be negative")
+  .max(100, "Commission rate cannot exceed 100%");
+
+const commissionTierSchema = z.object({
+  minMonthlyGmv: z.number().min(0, "Tier GMV threshold cannot be negative"),
+  commissionRate: rateSchema,
+});
+
+export const createAgreementSchema = z.object({
+  params: z.object({
+    vendorId: z.string().min(1, "Vendor ID is required"),
+  }),
+  body: z.object({
+    commissionRate: rateSchema,
+    paymentTerms: z.string().trim().min(3, "Payment terms are required"),
+    cancellationTerms: z
+      .string()
+      .trim()
+      .min(3, "Cancellation terms are required"),
+    insuranceCoverage: z.string().trim().max(1000).optional(),
+    trialOffers: z.string().trim().max(1000).optional(),
+    // Defaults to now; may be scheduled for a later date
+    effectiveFrom: z
+      .string()
+      .regex(
+        /^\d{4}-\d{2}-\d{2}$/,
+        "Effective date must be in YYYY-MM-DD format"
+      )
+      .optional(),
+    commissionTiers: z
+      .array(commissionTierSchema)
+      .max(10, "At most 10 commission tiers are allowed")
+      .refine(
+        (tiers) =>
+          new Set(tiers.map((tier) => tier.minMonthlyGmv)).size ===
+          tiers.length,
+        "Each tier needs a different GMV threshold"
+      )
+      .optional(),
+    categoryRates: z
+      .partialRecord(z.enum(COMMISSION_CATEGORIES), rateSchema)
+      .optional(),
+  }),
+});
+
+export type CreateAgreementInput = z.infer<
+  typeof createAgreementSchema
+>["body"];
@@ -0,0 +1,537 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import CartUtils, { type PreparedCartItem } from "./cartUtils.js";
+import HotelUtils from "../hotel/hotelUtils.js";
+import PaymentUtils from "../payment/paymentUtils.js";
+import AgreementUtils from "../agreement/agreementUtils.js";
+
+const prisma = new PrismaClient();
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+// Simple cart database utilities
+class CartDbUtils {
+  // The customer's cart that is still being planned or waiting for payment
+  static async findActiveCart(
+    userId: string,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    return await client.tripCart.findFirst({
+      where: {
+        userId,
+        status: { in: ["OPEN", "CHECKOUT"] },
+      },
+      include: {
+        items: {
+          include: {
+            vendor: {
+              select: {
+                businessName: true,
+                commissionRate: true,
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  // Cancel the unpaid bookings of an abandoned checkout and reopen the cart
+  static async releaseCheckout(tx: Prisma.TransactionClient, cartId: string) {
+    const bookings = await tx.booking.findMany({
+      where: {
+        tripCartId: cartId,
+        status: { in: ["DRAFT", "PENDING"] },
+      },
+      include: { payment: true },
+    });
+
+    for (const booking of bookings) {
+      if (booking.payment?.paymentStatus === "SUCCESS") continue;
+
+      await PaymentUtils.updateBookingStatus(tx, booking.id, "CANCELLED");
+
+      if (booking.payment) {
+        await tx.payment.update({
+          where: { id: booking.payment.id },
+          data: { paymentStatus: "FAILED" },
+        });
+      }
+    }
+
+    await tx.tripCart.update({
+      where: { id: cartId },
+      data: { status: "OPEN", razorpayOrderId: null },
+    });
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+export class CartController {
+  // ================================
+  // CART MANAGEMENT
+  // ================================
+
+  static async getCart(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      const cart = await CartDbUtils.findActiveCart(userId);
+
+      if (!cart) {
+        return ResponseUtils.success(res, "Cart is empty", {
+          cart: null,
+          items: [],
+          vendors: [],
+          totalAmount: 0,
+        });
+      }
+
+      const items = cart.items.map((item) => ({
+        id: item.id,
+        itemType: item.itemType,
+        vendorId: item.vendorId,
+        vendorName: item.vendor.businessName,
+        amount: item.amount,
+        details: JSON.parse(item.details),
+        createdAt: item.createdAt,
+      }));
+
+      // Summarise what each vendor will be paid from the single payment
+      const vendors = new Map<string, any>();
+      for (const item of cart.items) {
+        const vendor = vendors.get(item.vendorId) || {
+          vendorId: item.vendorId,
+          vendorName: item.vendor.businessName,
+          itemCount: 0,
+          totalAmount: 0,
+        };
+        vendor.itemCount += 1;
+        vendor.totalAmount = CartUtils.roundAmount(
+          vendor.totalAmount + item.amount
+        );
+        vendors.set(item.vendorId, vendor);
+      }
+
+      return ResponseUtils.success(res, "Cart retrieved successfully", {
+        cart: {
+          id: cart.id,
+          status: cart.status,
+          razorpayOrderId: cart.razorpayOrderId,
+          createdAt: cart.createdAt,
+        },
+        items,
+        vendors: Array.from(vendors.values()),
+        totalAmount: CartUtils.roundAmount(
+          cart.items.reduce((sum, item) => sum + item.amount, 0)
+        ),
+      });
+    } catch (error) {
+      console.error("Get cart error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve cart");
+    }
+  }
+
+  static async addItem(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { itemType, ...details } = req.validatedData?.body || req.body;
+
+      // Check availability and price now so the customer sees problems early.
+      // Everything is checked again atomically at checkout
+      const prepared = await CartUtils.prepareItem(prisma, {
+        itemType,
+        ...details,
+      });
+
+      const item = await prisma.$transaction(async (tx) => {
+        const cart = await CartDbUtils.findActiveCart(userId, tx);
+
+        if (cart?.status === "CHECKOUT") {
+          // Changing the cart abandons the pending checkout
+          await CartDbUtils.releaseCheckout(tx, cart.id);
+        }
+
+        const cartId =
+          cart?.id || (await tx.tripCart.create({ data: { userId } })).id;
+
+        return await tx.tripCartItem.create({
+          data: {
+            cartId,
+            itemType,
+            vendorId: prepared.vendor.id,
+            details: JSON.stringify(details),
+            amount: prepared.amount,
+          },
+        });
+      });
+
+      return ResponseUtils.success(res, "Item added to cart", {
+        ...item,
+        label: prepared.label,
+        details,
+      });
+    } catch (error) {
+      console.error("Add cart item error:", error);
+
+      if (error instanceof Error && CartController.isItemError(error)) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+
+      return ResponseUtils.serverError(res, "Failed to add item to cart");
+    }
+  }
+
+  static async removeItem(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { itemId } = req.params;
+
+      if (!itemId) {
+        return ResponseUtils.badRequest(res, "Item ID is required");
+      }
+
+      const cart = await CartDbUtils.findActiveCart(userId);
+      const item = cart?.items.find((cartItem) => cartItem.id === itemId);
+
+      if (!cart || !item) {
+        return ResponseUtils.notFound(res, "Cart item not found");
+      }
+
+      await prisma.$transaction(async (tx) => {
+        if (cart.status === "CHECKOUT") {
+          // Changing the cart abandons the pending checkout
+          await CartDbUtils.releaseCheckout(tx, cart.id);
+        }
+
+        await tx.tripCartItem.delete({
+          where: { id: item.id },
+        });
+      });
+
+      return ResponseUtils.success(res, "Item removed from cart");
+    } catch (error) {
+      console.error("Remove cart item error:", error);
+      return ResponseUtils.serverError(res, "Failed to remove item from cart");
+    }
+  }
+
+  // ================================
+  // CHECKOUT & PAYMENT
+  // ================================
+
+  static async checkout(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      // Check every item and create all vendor bookings in one transaction,
+      // so either the whole trip is held or nothing is
+      const result = await prisma.$transaction(
+        async (tx) => {
+          const cart = await CartDbUtils.findActiveCart(userId, tx);
+
+          if (!cart || cart.items.length === 0) {
+            throw new Error("Cart is empty");
+          }
+
+          if (cart.status === "CHECKOUT") {
+            // Checking out again replaces the previous unpaid checkout
+            await CartDbUtils.releaseCheckout(tx, cart.id);
+          }
+
+          const itemDetails = cart.items.map((item) =>
+            CartUtils.parseItemDetails(item)
+          );
+          await CartUtils.lockItems(tx, itemDetails);
+
+          const preparedItems: PreparedCartItem[] = [];
+          for (const [index, item] of cart.items.entries()) {
+            const prepared = await CartUtils.prepareItem(
+              tx,
+              itemDetails[index]!,
+              preparedItems
+            );
+            preparedItems.push(prepared);
+
+            // Keep the cart in line with the current price
+            if (prepared.amount !== item.amount) {
+              await tx.tripCartItem.update({
+                where: { id: item.id },
+                data: { amount: prepared.amount },
+              });
+            }
+          }
+
+          const vendorGroups = CartUtils.groupByVendor(preparedItems);
+          const totalAmount = CartUtils.roundAmount(
+            vendorGroups.reduce((sum, group) => sum + group.totalAmount, 0)
+          );
+
+          // One Razorpay order for the whole trip
+          const razorpayOrder = await PaymentUtils.createOrder(
+            cart.id,
+            totalAmount,
+            {
+              tripCartId: cart.id,
+              userId,
+              vendorCount: String(vendorGroups.length),
+            }
+          );
+
+          // Split into one Booking + Payment per vendor
+          const vendorBookings = [];
+          for (const group of vendorGroups) {
+            const commission = await AgreementUtils.calculateBookingCommission(
+              tx,
+              group.vendor,
+              group.items.map((item) => ({
+                amount: item.amount,
+                category: item.category,
+              }))
+            );
+
+            const booking = await tx.booking.create({
+              data: {
+                userId,
+                vendorId: group.vendor.id,
+                bookingType: group.items[0]!.row.type,
+                totalAmount: group.totalAmount,
+                ...commission,
+                status: "PENDING",
+                tripCartId: cart.id,
+              },
+            });
+
+            for (const prepared of group.items) {
+              await CartUtils.createBookingRow(
+                tx,
+                prepared,
+                booking.id,
+                "PENDING"
+              );
+            }
+
+            const payment = await PaymentUtils.upsertPendingPayment(
+              tx,
+              booking,
+              razorpayOrder.id
+            );
+
+            vendorBookings.push({
+              bookingId: booking.id,
+              vendorId: group.vendor.id,
+              vendorName: group.vendor.businessName,
+              bookingType: booking.bookingType,
+              items: group.items.map((item) => ({
+                label: item.label,
+                amount: item.amount,
+              })),
+              totalAmount: payment.totalAmount,
+              commissionAmount: payment.commissionAmount,
+              vendorAmount: payment.vendorAmount,
+            });
+          }
+
+          await tx.tripCart.update({
+            where: { id: cart.id },
+            data: {
+              status: "CHECKOUT",
+              totalAmount,
+              razorpayOrderId: razorpayOrder.id,
+            },
+          });
+
+          return { cart, totalAmount, razorpayOrder, vendorBookings };
+        },
+        {
+          timeout: 30000, // Availability checks for every item plus the Razorpay call
+        }
+      );
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { phoneNumber: true },
+      });
+
+      return ResponseUtils.success(res, "Checkout started successfully", {
+        orderId: result.razorpayOrder.id,
+        amount: Math.round(result.totalAmount * 100), // Amount in paise for Razorpay
+        currency: "INR",
+        key: PaymentUtils.getCheckoutKey(),
+        name: "Sojourn",
+        description: `Trip Booking - ${result.vendorBookings.length} vendors`,
+        prefill: {
+          contact: user?.phoneNumber || "",
+        },
+        timeout: 900, // 15 minutes
+        cartId: result.cart.id,
+        totalAmount: result.totalAmount,
+        bookings: result.vendorBookings,
+      });
+    } catch (error) {
+      console.error("Cart checkout error:", error);
+
+      // Another booking took a room between the availability check and insert
+      if (HotelUtils.isRoomOverlapError(error)) {
+        return ResponseUtils.error(
+          res,
+          "A room in your cart was just booked by someone else. Please review your cart.",
+          409
+        );
+      }
+
+      if (error instanceof Error && CartController.isItemError(error)) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+
+      return ResponseUtils.serverError(res, "Failed to checkout cart");
+    }
+  }
+
+  static async verifyPayment(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { razorpay_payment_id, razorpay_order_id, razorpay_signature } =
+        req.validatedData?.body || req.body;
+
+      const cart = await prisma.tripCart.findFirst({
+        where: {
+          userId,
+          razorpayOrderId: razorpay_order_id,
+        },
+      });
+
+      if (!cart) {
+        return ResponseUtils.notFound(res, "Cart not found for this order");
+      }
+
+      if (cart.status === "PAID") {
+        return ResponseUtils.success(res, "Payment already verified");
+      }
+
+      const isValidSignature = PaymentUtils.verifyPaymentSignature(
+        razorpay_order_id,
+        razorpay_payment_id,
+        razorpay_signature
+      );
+
+      if (!isValidSignature) {
+        await prisma.payment.updateMany({
+          where: { razorpayOrderId: razorpay_order_id },
+          data: { paymentStatus: "FAILED" },
+        });
+
+        return ResponseUtils.badRequest(res, "Payment verification failed");
+      }
+
+      const { confirmed, refundQueued } = await prisma.$transaction(
+        async (tx) =>
+          await PaymentUtils.confirmOrderPayments(
+            tx,
+            razorpay_order_id,
+            razorpay_payment_id,
+            razorpay_signature
+          )
+      );
+
+      // The checkout lapsed before the payment went through
+      if (confirmed.length === 0 && refundQueued.length > 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "Your checkout expired before the payment completed. The amount will be refunded."
+        );
+      }
+
+      const bookings = await prisma.booking.findMany({
+        where: { tripCartId: cart.id, status: "CONFIRMED" },
+        include: {
+          payment: {
+            select: {
+              totalAmount: true,
+              commissionAmount: true,
+              vendorAmount: true,
+              paymentStatus: true,
+            },
+          },
+          vendor: {
+            select: {
+              businessName: true,
+            },
+          },
+        },
+      });
+
+      return ResponseUtils.success(res, "Payment verified successfully", {
+        cartId: cart.id,
+        bookings,
+      });
+    } catch (error) {
+      console.error("Verify cart payment error:", error);
+      return ResponseUtils.serverError(res, "Failed to verify payment");
+    }
+  }
+
+  // Errors thrown by the item checks that the customer can act on
+  private static isItemError(error: Error): boolean {
+    return [
+      "Cart is empty",
+      "not available",
+      "not found",
+      "exceeded",
+      "not met",
+      "Invalid",
+      "cannot be",
+      "must be",
+      "Route ",
+      "no pricing",
+      "out of season",
+      "does not run",
+      "closed",
+    ].some((fragment) => error.message.includes(fragment));
+  }
+}
+
+export const cartController = CartController;
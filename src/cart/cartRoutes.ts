@@ -0,0 +1,43 @@
+import express from "express";
+import { cartController } from "./cartController.js";
+import { authMiddleware } from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import { addCartItemSchema } from "./validator.js";
+import { paymentVerificationSchema } from "../payment/validator.js";
+
+const router = express.Router();
+
+// ================================
+// CART ROUTES
+// ================================
+
+// Get the current trip cart
+router.get("/", authMiddleware, cartController.getCart);
+
+// Add hotel, activity, transport or market item
+router.post(
+  "/items",
+  authMiddleware,
+  validate(addCartItemSchema),
+  cartController.addItem
+);
+
+// Remove item
+router.delete("/items/:itemId", authMiddleware, cartController.removeItem);
+
+// ================================
+// CHECKOUT & PAYMENT ROUTES
+// ================================
+
+// Hold every item and create one Razorpay order for the trip
+router.post("/checkout", authMiddleware, cartController.checkout);
+
+// Verify payment and confirm all vendor bookings
+router.post(
+  "/payment/verify",
+  authMiddleware,
+  validate(paymentVerificationSchema),
+  cartController.verifyPayment
+);
+
+export { router as cartRoutes };
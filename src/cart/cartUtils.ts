@@ -0,0 +1,523 @@
+import type { Prisma, Vendor, BookingStatus } from "@prisma/client";
+import HotelUtils from "../hotel/hotelUtils.js";
+import AdventureUtils from "../adventure/adventureUtils.js";
+import TransportUtils from "../transport/transportUtils.js";
+import MarketUtils from "../market/marketUtils.js";
+import type { CartItemInput } from "./validator.js";
+
+type BookingRowData<T> = Omit<T, "bookingId" | "status">;
+
+// Type-specific booking row to create for a cart item at checkout
+type CartBookingRow =
+  | {
+      type: "HOTEL";
+      data: BookingRowData<Prisma.HotelBookingUncheckedCreateInput>;
+    }
+  | {
+      type: "ADVENTURE";
+      data: BookingRowData<Prisma.AdventureBookingUncheckedCreateInput>;
+    }
+  | {
+      type: "TRANSPORT";
+      data: BookingRowData<Prisma.TransportBookingUncheckedCreateInput>;
+    }
+  | {
+      type: "LOCAL_MARKET";
+      data: BookingRowData<Prisma.MarketBookingUncheckedCreateInput>;
+    };
+
+export type PreparedCartItem = {
+  vendor: Vendor;
+  label: string;
+  amount: number;
+  // Listing category used for commission overrides
+  category: string;
+  row: CartBookingRow;
+};
+
+export class CartUtils {
+  // Check a cart item against the same rules as a direct booking and price it.
+  // Items prepared earlier in the same checkout count as bookings too.
+  // Throws with the reason when the item cannot be booked
+  static async prepareItem(
+    client: Prisma.TransactionClient,
+    item: CartItemInput,
+    earlier: PreparedCartItem[] = []
+  ): Promise<PreparedCartItem> {
+    switch (item.itemType) {
+      case "HOTEL":
+        return await this.prepareHotelItem(client, item, earlier);
+      case "ADVENTURE":
+        return await this.prepareAdventureItem(client, item, earlier);
+      case "TRANSPORT":
+        return await this.prepareTransportItem(client, item, earlier);
+      case "LOCAL_MARKET":
+        return await this.prepareMarketItem(client, item);
+    }
+  }
+
+  // Lock the activities and vehicles of a checkout until its transaction
+  // ends, so concurrent checkouts and direct bookings cannot both take the
+  // last seats or the same trip window. Sorted so two checkouts never wait
+  // on each other. Rooms are protected by the overlap constraint instead
+  static async lockItems(tx: Prisma.TransactionClient, items: CartItemInput[]) {
+    const activityIds = new Set<string>();
+    const vehicleIds = new Set<string>();
+    for (const item of items) {
+      if (item.itemType === "ADVENTURE") activityIds.add(item.activityId);
+      if (item.itemType === "TRANSPORT") vehicleIds.add(item.vehicleId);
+    }
+
+    for (const activityId of [...activityIds].sort()) {
+      await AdventureUtils.lockActivity(tx, activityId);
+    }
+    for (const vehicleId of [...vehicleIds].sort()) {
+      await TransportUtils.lockVehicle(tx, vehicleId);
+    }
+  }
+
+  // Create the hotel/adventure/transport/market row for a prepared item
+  static async createBookingRow(
+    tx: Prisma.TransactionClient,
+    prepared: PreparedCartItem,
+    bookingId: string,
+    status: BookingStatus
+  ) {
+    const { row } = prepared;
+    switch (row.type) {
+      case "HOTEL": {
+        await HotelUtils.releaseExpiredHoldsForStay(
+          tx,
+          row.data.roomId,
+          new Date(row.data.checkInDate),
+          new Date(row.data.checkOutDate)
+        );
+        const hotelBooking = await tx.hotelBooking.create({
+          data: { ...row.data, bookingId, status },
+        });
+        // The trip is paid straight after checkout, so hold for the payment window
+        await HotelUtils.placeHold(
+          hotelBooking,
+          HotelUtils.PAYMENT_HOLD_MINUTES,
+          tx
+        );
+        return hotelBooking;
+      }
+      case "ADVENTURE":
+        return await tx.adventureBooking.create({
+          data: { ...row.data, bookingId, status },
+        });
+      case "TRANSPORT":
+        return await tx.transportBooking.create({
+          data: { ...row.data, bookingId, status },
+        });
+      case "LOCAL_MARKET":
+        return await tx.marketBooking.create({
+          data: { ...row.data, bookingId, status },
+        });
+    }
+  }
+
+  // Group prepared items by vendor - each vendor gets its own Booking and Payment
+  static groupByVendor(items: PreparedCartItem[]) {
+    const groups = new Map<
+      string,
+      { vendor: Vendor; items: PreparedCartItem[]; totalAmount: number }
+    >();
+
+    for (const item of items) {
+      const group = groups.get(item.vendor.id) || {
+        vendor: item.vendor,
+        items: [],
+        totalAmount: 0,
+      };
+      group.items.push(item);
+      group.totalAmount = this.roundAmount(group.totalAmount + item.amount);
+      groups.set(item.vendor.id, group);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  static parseItemDetails(item: {
+    itemType: string;
+    details: string;
+  }): CartItemInput {
+    return { ...JSON.parse(item.details), itemType: item.itemType };
+  }
+
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private static async prepareHotelItem(
+    client: Prisma.TransactionClient,
+    item: Extract<CartItemInput, { itemType: "HOTEL" }>,
+    earlier: PreparedCartItem[]
+  ): Promise<PreparedCartItem> {
+    const room = await client.room.findUnique({
+      where: { id: item.roomId },
+      include: {
+        hotelProfile: {
+          include: {
+            vendor: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !room ||
+      !room.isAvailable ||
+      room.hotelProfile.vendor.status !== "APPROVED"
+    ) {
+      throw new Error("Room not found or not available");
+    }
+
+    const label = `${room.hotelProfile.hotelName} - ${room.roomType}`;
+
+    if (HotelUtils.getMaxOccupancy(room) < item.numberOfGuests) {
+      throw new Error(`${label}: Room capacity exceeded`);
+    }
+
+    const checkIn = new Date(item.checkInDate);
+    const checkOut = new Date(item.checkOutDate);
+    const dateCheck = HotelUtils.validateBookingDates(checkIn, checkOut);
+    if (!dateCheck.isValid) {
+      throw new Error(`${label}: ${dateCheck.error}`);
+    }
+
+    const conflictingBookings = await HotelUtils.findConflictingBookings(
+      room.id,
+      checkIn,
+      checkOut,
+      client
+    );
+    const blocks = await HotelUtils.findRoomBlocks(
+      room.id,
+      checkIn,
+      checkOut,
+      client
+    );
+    const inCart = earlier.some(
+      ({ row }) =>
+        row.type === "HOTEL" &&
+        row.data.roomId === room.id &&
+        new Date(row.data.checkInDate) < checkOut &&
+        new Date(row.data.checkOutDate) > checkIn
+    );
+    if (conflictingBookings.length > 0 || blocks.length > 0 || inCart) {
+      throw new Error(`${label}: Room is not available for selected dates`);
+    }
+
+    const { pricing, stayRestriction } = await HotelUtils.getStayQuote(
+      room,
+      checkIn,
+      checkOut,
+      client
+    );
+    if (stayRestriction) {
+      throw new Error(`${label}: ${stayRestriction}`);
+    }
+    // Cart items carry no guest ages, so extra guests are charged as adults
+    const extraGuestCharges = HotelUtils.getOccupancyCharges(
+      room,
+      { adults: item.numberOfGuests, children: 0, infants: 0 },
+      pricing.nights,
+      room.hotelProfile
+    );
+    const extrasAmount = this.roundAmount(
+      extraGuestCharges.reduce((sum, charge) => sum + charge.amount, 0)
+    );
+    const amount = this.roundAmount(pricing.totalAmount + extrasAmount);
+
+    return {
+      vendor: room.hotelProfile.vendor,
+      label,
+      amount,
+      category: room.roomType,
+      row: {
+        type: "HOTEL",
+        data: {
+          hotelProfileId: room.hotelProfileId,
+          roomId: room.id,
+          checkInDate: checkIn,
+          checkOutDate: checkOut,
+          numberOfGuests: item.numberOfGuests,
+          totalAmount: amount,
+          specialRequests: item.specialRequests ?? null,
+          nightlyRates: JSON.stringify(pricing.nightlyRates),
+          extrasAmount,
+          extras:
+            extraGuestCharges.length > 0
+              ? JSON.stringify(extraGuestCharges)
+              : null,
+        },
+      },
+    };
+  }
+
+  private static async prepareAdventureItem(
+    client: Prisma.TransactionClient,
+    item: Extract<CartItemInput, { itemType: "ADVENTURE" }>,
+    earlier: PreparedCartItem[]
+  ): Promise<PreparedCartItem> {
+    const activity = await client.activity.findUnique({
+      where: { id: item.activityId },
+      include: {
+        adventureProfile: {
+          include: {
+            vendor: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !activity ||
+      !activity.isActive ||
+      activity.adventureProfile.vendor.status !== "APPROVED"
+    ) {
+      throw new Error("Activity not found or not available");
+    }
+
+    const label = activity.activityName;
+
+    const slotStart = AdventureUtils.buildSlotStart(
+      item.bookingDate,
+      item.slotTime
+    );
+    if (isNaN(slotStart.getTime()) || slotStart < new Date()) {
+      throw new Error(`${label}: Invalid booking date or slot time`);
+    }
+
+    const availability = AdventureUtils.parseSeasonalAvailability(
+      activity.seasonalAvailability
+    );
+    const dateCheck = AdventureUtils.checkDateAvailability(
+      availability,
+      item.bookingDate
+    );
+    if (!dateCheck.isAvailable) {
+      throw new Error(`${label}: ${dateCheck.reason}`);
+    }
+
+    if (
+      availability.slotTimes.length > 0 &&
+      !availability.slotTimes.includes(item.slotTime)
+    ) {
+      throw new Error(
+        `${label}: Invalid slot time. Available slots: ${availability.slotTimes.join(", ")}`
+      );
+    }
+
+    const bookedPeople = await AdventureUtils.getBookedPeopleForSlot(
+      activity.id,
+      slotStart,
+      client
+    );
+    const peopleInCart = earlier.reduce(
+      (sum, { row }) =>
+        row.type === "ADVENTURE" &&
+        row.data.activityId === activity.id &&
+        new Date(row.data.bookingDate).getTime() === slotStart.getTime()
+          ? sum + row.data.numberOfPeople
+          : sum,
+      0
+    );
+    const remainingCapacity =
+      activity.maxGroupSize - bookedPeople - peopleInCart;
+    if (item.numberOfPeople > remainingCapacity) {
+      throw new Error(
+        `${label}: Slot is not available for ${item.numberOfPeople} people. Only ${Math.max(remainingCapacity, 0)} spots left.`
+      );
+    }
+
+    const { pricingType, totalAmount } = AdventureUtils.calculateActivityPrice(
+      activity,
+      item.numberOfPeople
+    );
+
+    return {
+      vendor: activity.adventureProfile.vendor,
+      label,
+      amount: totalAmount,
+      category: activity.activityType,
+      row: {
+        type: "ADVENTURE",
+        data: {
+          adventureProfileId: activity.adventureProfileId,
+          activityId: activity.id,
+          bookingDate: slotStart,
+          slotTime: item.slotTime,
+          numberOfPeople: item.numberOfPeople,
+          pricingType,
+          totalAmount,
+        },
+      },
+    };
+  }
+
+  private static async prepareTransportItem(
+    client: Prisma.TransactionClient,
+    item: Extract<CartItemInput, { itemType: "TRANSPORT" }>,
+    earlier: PreparedCartItem[]
+  ): Promise<PreparedCartItem> {
+    const vehicle = await client.vehicle.findUnique({
+      where: { id: item.vehicleId },
+      include: {
+        transportProfile: {
+          include: {
+            vendor: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !vehicle ||
+      !vehicle.isAvailable ||
+      vehicle.transportProfile.vendor.status !== "APPROVED"
+    ) {
+      throw new Error("Vehicle not found or not available");
+    }
+
+    const label = `${vehicle.vehicleType} ${item.pickupLocation} to ${item.dropLocation}`;
+
+    if (item.numberOfPassengers > vehicle.seatingCapacity) {
+      throw new Error(
+        `${label}: Seating capacity exceeded. Maximum ${vehicle.seatingCapacity} passengers allowed`
+      );
+    }
+
+    const pickupAt = TransportUtils.buildPickupTime(
+      item.pickupDate,
+      item.pickupTime
+    );
+    if (isNaN(pickupAt.getTime()) || pickupAt < new Date()) {
+      throw new Error(`${label}: Invalid pickup date or time`);
+    }
+
+    const route = await TransportUtils.estimateRoute(
+      item.pickupLocation,
+      item.dropLocation
+    );
+    const tripMinutes = TransportUtils.getTripMinutes(route, item.rentalHours);
+    const dropAt = new Date(
+      pickupAt.getTime() + Math.max(tripMinutes, 1) * 60 * 1000
+    );
+
+    const conflictingBooking = await TransportUtils.findConflictingBooking(
+      vehicle.id,
+      pickupAt,
+      dropAt,
+      client
+    );
+    const inCart = earlier.some(
+      ({ row }) =>
+        row.type === "TRANSPORT" &&
+        row.data.vehicleId === vehicle.id &&
+        new Date(row.data.pickupTime) < dropAt &&
+        new Date(row.data.dropTime) > pickupAt
+    );
+    if (conflictingBooking || inCart) {
+      throw new Error(
+        `${label}: Vehicle is not available for the selected time`
+      );
+    }
+
+    const fare = TransportUtils.selectFare(
+      TransportUtils.calculateFareOptions(vehicle, route, item.rentalHours),
+      item.pricingType
+    );
+
+    return {
+      vendor: vehicle.transportProfile.vendor,
+      label,
+      amount: fare.totalAmount,
+      category: vehicle.vehicleType,
+      row: {
+        type: "TRANSPORT",
+        data: {
+          transportProfileId: vehicle.transportProfileId,
+          vehicleId: vehicle.id,
+          pickupLocation: item.pickupLocation,
+          dropLocation: item.dropLocation,
+          bookingDate: TransportUtils.buildPickupTime(item.pickupDate, "00:00"),
+          pickupTime: pickupAt,
+          dropTime: dropAt,
+          numberOfPassengers: item.numberOfPassengers,
+          distanceKm: route.distanceKm,
+          durationMinutes: tripMinutes,
+          pricingType: fare.pricingType,
+          totalAmount: fare.totalAmount,
+        },
+      },
+    };
+  }
+
+  private static async prepareMarketItem(
+    client: Prisma.TransactionClient,
+    item: Extract<CartItemInput, { itemType: "LOCAL_MARKET" }>
+  ): Promise<PreparedCartItem> {
+    const product = await client.product.findUnique({
+      where: { id: item.productId },
+      include: {
+        localMarketProfile: {
+          include: {
+            vendor: true,
+          },
+        },
+      },
+    });
+
+    if (
+      !product ||
+      !product.isAvailable ||
+      product.localMarketProfile.vendor.status !== "APPROVED"
+    ) {
+      throw new Error("Product not found or not available");
+    }
+
+    const label = product.productName;
+
+    try {
+      MarketUtils.assertOrderable(
+        product,
+        item.quantity,
+        item.requiresDelivery,
+        item.deliveryAddress
+      );
+    } catch (error) {
+      throw new Error(
+        `${label}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const unitPrice = MarketUtils.getListPrice(product);
+    const amount = MarketUtils.calculateOrderAmount(unitPrice, item.quantity);
+
+    return {
+      vendor: product.localMarketProfile.vendor,
+      label,
+      amount,
+      category: product.category,
+      row: {
+        type: "LOCAL_MARKET",
+        data: {
+          localMarketProfileId: product.localMarketProfileId,
+          productId: product.id,
+          quantity: item.quantity,
+          unitPrice,
+          totalAmount: amount,
+          requiresDelivery: item.requiresDelivery,
+          deliveryAddress: item.requiresDelivery
+            ? (item.deliveryAddress ?? null)
+            : null,
+        },
+      },
+    };
+  }
+}
+
+export default CartUtils;
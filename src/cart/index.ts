@@ -0,0 +1,4 @@
+export { cartController } from "./cartController.js";
+export { cartRoutes } from "./cartRoutes.js";
+export { CartUtils } from "./cartUtils.js";
+export * from "./validator.js";
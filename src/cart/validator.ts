@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
+
+const dateSchema = (label: string) =>
+  z.string().regex(datePattern, `${label} must be in YYYY-MM-DD format`);
+
+const countSchema = (label: string) =>
+  z
+    .number()
+    .int(`${label} must be a whole number`)
+    .min(1, `${label} must be at least 1`);
+
+const hotelItemSchema = z.object({
+  itemType: z.literal("HOTEL"),
+  roomId: z.string().min(1, "Room ID is required"),
+  checkInDate: dateSchema("Check-in date"),
+  checkOutDate: dateSchema("Check-out date"),
+  numberOfGuests: countSchema("Number of guests").max(20),
+  specialRequests: z.string().max(500).optional(),
+});
+
+const adventureItemSchema = z.object({
+  itemType: z.literal("ADVENTURE"),
+  activityId: z.string().min(1, "Activity ID is required"),
+  bookingDate: dateSchema("Booking date"),
+  slotTime: z.string().regex(timePattern, "Invalid slot time format (HH:MM)"),
+  numberOfPeople: countSchema("Number of people"),
+});
+
+const transportItemSchema = z.object({
+  itemType: z.literal("TRANSPORT"),
+  vehicleId: z.string().min(1, "Vehicle ID is required"),
+  pickupLocation: z.string().trim().min(2).max(200),
+  dropLocation: z.string().trim().min(2).max(200),
+  pickupDate: dateSchema("Pickup date"),
+  pickupTime: z
+    .string()
+    .regex(timePattern, "Invalid pickup time format (HH:MM)"),
+  numberOfPassengers: countSchema("Number of passengers"),
+  rentalHours: z.number().min(1).max(24).optional(),
+  pricingType: z.enum(["PER_KM", "PER_HOUR", "PER_RIDE"]).optional(),
+});
+
+const marketItemSchema = z
+  .object({
+    itemType: z.literal("LOCAL_MARKET"),
+    productId: z.string().min(1, "Product ID is required"),
+    quantity: countSchema("Quantity").max(100000),
+    requiresDelivery: z.boolean().optional().default(false),
+    deliveryAddress: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (data) =>
+      !data.requiresDelivery ||
+      (data.deliveryAddress !== undefined && data.deliveryAddress.length >= 10),
+    {
+      message: "A complete delivery address is required for delivery",
+      path: ["deliveryAddress"],
+    }
+  );
+
+export const cartItemSchema = z.discriminatedUnion("itemType", [
+  hotelItemSchema,
+  adventureItemSchema,
+  transportItemSchema,
+  marketItemSchema,
+]);
+
+export type CartItemInput = z.infer<typeof cartItemSchema>;
+
+export const addCartItemSchema = z.object({
+  body: cartItemSchema,
+});
@@ -1,18 +1,19 @@
 import type { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
-import Razorpay from "razorpay";
-import crypto from "crypto";
 import ImageKit from "imagekit";
 import { aiQuestion } from "./validator.js";
 import { success, type safeParse } from "zod";
 import HotelUtils from "./hotelUtils.js";
+import type { CancellationTier, SeasonWindow } from "./hotelUtils.js";
+import PaymentUtils from "../payment/paymentUtils.js";
+import PromoUtils from "../promo/promoUtils.js";
+import IcalUtils from "./icalUtils.js";
+import { getPaymentGateway } from "../payment/paymentGateway.js";
 
 const prisma = new PrismaClient();
 
-const razorpay = new Razorpay({
-  key_id: process.env.RAZOR_PAY_KEY_ID!,
-  key_secret: process.env.RAZOR_PAY_KEY_SECRET!,
-});
+let holdSweepTimer: NodeJS.Timeout | null = null;
+let calendarSyncTimer: NodeJS.Timeout | null = null;
 
 const imagekit = new ImageKit({
   publicKey: process.env.IMAGE_KIT_PUBLIC_KEY!,
@@ -168,6 +169,13 @@ class SecurityUtils {
       totalAmount: booking.totalAmount,
       createdAt: booking.createdAt,
       specialRequests: booking.specialRequests,
+      nightlyRates: booking.nightlyRates
+        ? JSON.parse(booking.nightlyRates)
+        : [],
+      priceBreakdown: HotelUtils.getStayBreakdown(
+        booking,
+        booking.booking?.discountAmount
+      ),
     };
 
     // Guest information
@@ -325,6 +333,18 @@ class VendorDbUtils {
       where: { userId },
     });
   }
+
+  static async findHotelProfileByUserId(userId: string) {
+    return await prisma.hotelProfile.findFirst({
+      where: { vendor: { userId } },
+    });
+  }
+
+  static async findVendorRoom(userId: string, roomId: string) {
+    return await prisma.room.findFirst({
+      where: { id: roomId, hotelProfile: { vendor: { userId } } },
+    });
+  }
 }
 
 // Extend Request interface to include validated data
@@ -671,6 +691,89 @@ export class HotelController {
     }
   }
 
+  static async setCancellationPolicy(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { type, tiers, description } = req.validatedData?.body || req.body;
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can update the cancellation policy"
+        );
+      }
+
+      const hotelProfile = await prisma.hotelProfile.findUnique({
+        where: { vendorId: vendor.id },
+      });
+
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const policyTiers: CancellationTier[] =
+        type === "CUSTOM"
+          ? HotelUtils.getCancellationTiers({
+              cancellationPolicyType: "CUSTOM",
+              cancellationTiers: JSON.stringify(tiers),
+            })
+          : HotelUtils.CANCELLATION_PRESETS[
+              type as keyof typeof HotelUtils.CANCELLATION_PRESETS
+            ];
+      const policyText =
+        description || HotelUtils.describeCancellationPolicy(policyTiers);
+
+      const updatedProfile = await prisma.hotelProfile.update({
+        where: { id: hotelProfile.id },
+        data: {
+          cancellationPolicyType: type,
+          cancellationTiers:
+            type === "CUSTOM" ? JSON.stringify(policyTiers) : null,
+          cancellationPolicy: policyText,
+        },
+      });
+
+      return ResponseUtils.success(res, "Cancellation policy updated", {
+        type: updatedProfile.cancellationPolicyType,
+        tiers: policyTiers,
+        description: updatedProfile.cancellationPolicy,
+      });
+    } catch (error) {
+      console.error("Update cancellation policy error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to update cancellation policy"
+      );
+    }
+  }
+
+  // Age bands used to price extra guests from their ages
+  static async setChildPolicy(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { infantMaxAge, childMaxAge } = req.validatedData?.body || req.body;
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const updatedProfile = await prisma.hotelProfile.update({
+        where: { id: hotelProfile.id },
+        data: { infantMaxAge, childMaxAge },
+      });
+
+      return ResponseUtils.success(res, "Child policy updated", {
+        infantMaxAge: updatedProfile.infantMaxAge,
+        childMaxAge: updatedProfile.childMaxAge,
+      });
+    } catch (error) {
+      console.error("Update child policy error:", error);
+      return ResponseUtils.serverError(res, "Failed to update child policy");
+    }
+  }
+
   // ================================
   // ROOM MANAGEMENT
   // ================================
@@ -685,6 +788,9 @@ export class HotelController {
         roomType,
         roomNumber,
         capacity,
+        maxOccupancy,
+        extraAdultPrice,
+        extraChildPrice,
         basePrice,
         summerPrice,
         winterPrice,
@@ -692,6 +798,13 @@ export class HotelController {
         imageType = "room",
       } = validatedBody || req.body;
 
+      if (maxOccupancy && maxOccupancy < capacity) {
+        return ResponseUtils.badRequest(
+          res,
+          "Maximum occupancy cannot be below the room capacity"
+        );
+      }
+
       const vendor = await VendorDbUtils.findVendorByUserId(userId);
       if (!vendor) {
         return ResponseUtils.unauthorized(res, "Only vendors can add rooms");
@@ -734,6 +847,9 @@ export class HotelController {
               roomType,
               roomNumber,
               capacity,
+              maxOccupancy,
+              extraAdultPrice,
+              extraChildPrice,
               basePrice,
               summerPrice,
               winterPrice,
@@ -884,6 +1000,18 @@ export class HotelController {
         return ResponseUtils.notFound(res, "Room not found");
       }
 
+      const capacity = updateData.capacity ?? room.capacity;
+      const maxOccupancy =
+        updateData.maxOccupancy !== undefined
+          ? updateData.maxOccupancy
+          : room.maxOccupancy;
+      if (maxOccupancy && maxOccupancy < capacity) {
+        return ResponseUtils.badRequest(
+          res,
+          "Maximum occupancy cannot be below the room capacity"
+        );
+      }
+
       // Handle room update and image uploads in a transaction with extended timeout
       const result = await prisma.$transaction(
         async (tx) => {
@@ -1201,195 +1329,1247 @@ export class HotelController {
   }
 
   // ================================
-  // PUBLIC HOTEL SEARCH
+  // RATE CALENDAR
   // ================================
 
-  static async searchHotels(req: Request, res: Response) {
+  static async setRoomRates(req: ValidatedRequest, res: Response) {
     try {
-      const {
-        category,
-        location,
-        checkIn,
-        checkOut,
-        guests,
-        minPrice,
-        maxPrice,
-        amenities,
-        page = 1,
-        limit = 10,
-      } = req.query;
-
-      const skip = (Number(page) - 1) * Number(limit);
-
-      const where: any = {
-        vendor: {
-          status: "APPROVED",
-        },
-      };
-
-      if (category) {
-        where.category = category;
-      }
-
-      if (location) {
-        const locationString = location as string;
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { startDate, endDate, price, minStay, maxStay, label } =
+        req.validatedData?.body || req.body;
 
-        // Create more specific location filtering
-        // Look for the location as a word boundary to avoid partial matches
-        where.vendor = {
-          ...where.vendor,
-          OR: [
-            // Exact match for city/state names
-            {
-              businessAddress: {
-                contains: `, ${locationString}`,
-                mode: "insensitive",
-              },
-            },
-            // Match at the beginning of address
-            {
-              businessAddress: {
-                startsWith: locationString,
-                mode: "insensitive",
-              },
-            },
-            // Match as a standalone word (with spaces around)
-            {
-              businessAddress: {
-                contains: ` ${locationString} `,
-                mode: "insensitive",
-              },
-            },
-            // Match at the end of address (for cases like "District Kashmir")
-            {
-              businessAddress: {
-                endsWith: ` ${locationString}`,
-                mode: "insensitive",
-              },
-            },
-            // Match the entire address for single word locations
-            {
-              businessAddress: {
-                equals: locationString,
-                mode: "insensitive",
-              },
-            },
-          ],
-        };
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
       }
 
-      if (amenities) {
-        const amenitiesArray = (amenities as string).split(",");
-        where.amenities = {
-          hasEvery: amenitiesArray,
-        };
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can manage room rates"
+        );
       }
 
-      const hotels = await prisma.hotelProfile.findMany({
-        where,
-        skip,
-        take: Number(limit),
-        include: {
-          vendor: {
-            select: {
-              businessName: true,
-              businessAddress: true,
-              googleMapsLink: true,
-              images: {
-                where: { imageType: "property" },
-                take: 5,
-              },
-            },
-          },
-          rooms: {
-            where: {
-              isAvailable: true,
-              ...(guests && { capacity: { gte: Number(guests) } }),
-              ...(minPrice && { basePrice: { gte: Number(minPrice) } }),
-              ...(maxPrice && { basePrice: { lte: Number(maxPrice) } }),
-            },
-            orderBy: { basePrice: "asc" },
+      const room = await prisma.room.findFirst({
+        where: {
+          id: roomId,
+          hotelProfile: {
+            vendorId: vendor.id,
           },
         },
       });
 
-      // Filter hotels that have available rooms for the dates (if provided)
-      let availableHotels = hotels;
-
-      if (checkIn && checkOut) {
-        availableHotels = [];
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
 
-        for (const hotel of hotels) {
-          const availableRooms =
-            await HotelController.getAvailableRoomsForDates(
-              hotel.id,
-              new Date(checkIn as string),
-              new Date(checkOut as string)
-            );
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      const values = {
+        ...(price !== undefined && { price }),
+        ...(minStay !== undefined && { minStay }),
+        ...(maxStay !== undefined && { maxStay }),
+        ...(label !== undefined && { label: label || null }),
+      };
 
-          if (availableRooms.length > 0) {
-            availableHotels.push({
-              ...hotel,
-              rooms: availableRooms,
+      const rates = await prisma.$transaction(
+        async (tx) => {
+          for (
+            let date = start;
+            date <= end;
+            date = new Date(date.getTime() + 24 * 60 * 60 * 1000)
+          ) {
+            await tx.roomRate.upsert({
+              where: { roomId_date: { roomId, date } },
+              create: { roomId, date, ...values },
+              update: values,
             });
           }
-        }
-      }
 
-      const total = await prisma.hotelProfile.count({ where });
+          // Dates left without any value fall back to seasonal pricing
+          await tx.roomRate.deleteMany({
+            where: {
+              roomId,
+              date: { gte: start, lte: end },
+              price: null,
+              minStay: null,
+              maxStay: null,
+              label: null,
+            },
+          });
 
-      return ResponseUtils.success(res, "Hotels retrieved successfully", {
-        hotels: availableHotels,
-        pagination: {
-          page: Number(page),
-          limit: Number(limit),
-          total,
-          totalPages: Math.ceil(total / Number(limit)),
+          const rates = await tx.roomRate.findMany({
+            where: { roomId, date: { gte: start, lte: end } },
+            orderBy: { date: "asc" },
+          });
+
+          const invalidRate = rates.find(
+            (rate) =>
+              rate.minStay && rate.maxStay && rate.minStay > rate.maxStay
+          );
+          if (invalidRate) {
+            throw new Error(
+              `Minimum stay cannot exceed maximum stay on ${HotelUtils.toDateKey(invalidRate.date)}`
+            );
+          }
+
+          return rates;
         },
+        {
+          timeout: 30000,
+        }
+      );
+
+      return ResponseUtils.success(res, "Room rates updated successfully", {
+        roomId,
+        startDate,
+        endDate,
+        rates,
       });
     } catch (error) {
-      console.error("Search hotels error:", error);
-      return ResponseUtils.serverError(res, "Failed to search hotels");
+      console.error("Set room rates error:", error);
+
+      if (error instanceof Error && error.message.includes("Minimum stay")) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+
+      return ResponseUtils.serverError(res, "Failed to update room rates");
     }
   }
 
-  static async getHotelDetails(req: Request, res: Response) {
+  static async getRoomRates(req: ValidatedRequest, res: Response) {
     try {
-      const { hotelId } = req.params;
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { startDate, endDate } = req.validatedData?.query || req.query;
 
-      if (!hotelId) {
-        return ResponseUtils.badRequest(res, "Hotel ID is required");
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
       }
 
-      const hotel = await prisma.hotelProfile.findUnique({
-        where: { id: hotelId },
-        include: {
-          vendor: {
-            select: {
-              businessName: true,
-              ownerName: true,
-              businessAddress: true,
-              contactNumbers: true,
-              email: true,
-              googleMapsLink: true,
-              images: true,
-            },
-          },
-          rooms: {
-            where: { isAvailable: true },
-            orderBy: { basePrice: "asc" },
-          },
-        },
-      });
-
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can access room rates"
+        );
+      }
+
+      const room = await prisma.room.findFirst({
+        where: {
+          id: roomId,
+          hotelProfile: {
+            vendorId: vendor.id,
+          },
+        },
+      });
+
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      const [seasons, rates] = await Promise.all([
+        HotelUtils.getHotelSeasons(room.hotelProfileId),
+        prisma.roomRate.findMany({
+          where: { roomId, date: { gte: start, lte: end } },
+          orderBy: { date: "asc" },
+        }),
+      ]);
+
+      // Effective price of every night in the range, including overrides
+      const calendar = HotelUtils.calculateStayPrice(
+        room,
+        start,
+        new Date(end.getTime() + 24 * 60 * 60 * 1000),
+        seasons,
+        rates
+      ).nightlyRates.map((night) => {
+        const rate = rates.find(
+          (rate) => HotelUtils.toDateKey(rate.date) === night.date
+        );
+        return {
+          ...night,
+          minStay: rate?.minStay ?? null,
+          maxStay: rate?.maxStay ?? null,
+        };
+      });
+
+      return ResponseUtils.success(res, "Room rates retrieved successfully", {
+        roomId,
+        startDate,
+        endDate,
+        calendar,
+      });
+    } catch (error) {
+      console.error("Get room rates error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve room rates");
+    }
+  }
+
+  static async clearRoomRates(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { startDate, endDate } = req.validatedData?.query || req.query;
+
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
+      }
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can manage room rates"
+        );
+      }
+
+      const room = await prisma.room.findFirst({
+        where: {
+          id: roomId,
+          hotelProfile: {
+            vendorId: vendor.id,
+          },
+        },
+      });
+
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      const result = await prisma.roomRate.deleteMany({
+        where: {
+          roomId,
+          date: { gte: new Date(startDate), lte: new Date(endDate) },
+        },
+      });
+
+      return ResponseUtils.success(res, "Room rates cleared successfully", {
+        roomId,
+        startDate,
+        endDate,
+        clearedDates: result.count,
+      });
+    } catch (error) {
+      console.error("Clear room rates error:", error);
+      return ResponseUtils.serverError(res, "Failed to clear room rates");
+    }
+  }
+
+  // ================================
+  // ROOM BLOCKS
+  // ================================
+
+  static async getRoomBlocks(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { startDate, endDate } = req.validatedData?.query || req.query;
+
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
+      }
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can access room blocks"
+        );
+      }
+
+      const room = await prisma.room.findFirst({
+        where: {
+          id: roomId,
+          hotelProfile: {
+            vendorId: vendor.id,
+          },
+        },
+      });
+
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      // Without a range, list blocks that have not ended yet
+      const blocks = await prisma.roomBlock.findMany({
+        where: {
+          roomId,
+          ...(startDate && endDate
+            ? HotelUtils.blockFilter(
+                new Date(startDate),
+                new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000)
+              )
+            : { endDate: { gte: HotelUtils.startOfDay(new Date()) } }),
+        },
+        include: { calendar: { select: { name: true } } },
+        orderBy: { startDate: "asc" },
+      });
+
+      return ResponseUtils.success(res, "Room blocks retrieved successfully", {
+        roomId,
+        blocks,
+      });
+    } catch (error) {
+      console.error("Get room blocks error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve room blocks");
+    }
+  }
+
+  static async addRoomBlock(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { startDate, endDate, reason, note } =
+        req.validatedData?.body || req.body;
+
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
+      }
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can manage room blocks"
+        );
+      }
+
+      const room = await prisma.room.findFirst({
+        where: {
+          id: roomId,
+          hotelProfile: {
+            vendorId: vendor.id,
+          },
+        },
+      });
+
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+
+      if (end < HotelUtils.startOfDay(new Date())) {
+        return ResponseUtils.badRequest(res, "Cannot block dates in the past");
+      }
+
+      // Guests already booked on these nights must be moved or cancelled first
+      const conflictingBookings = await HotelUtils.findConflictingBookings(
+        roomId,
+        start,
+        new Date(end.getTime() + 24 * 60 * 60 * 1000)
+      );
+      if (conflictingBookings.length > 0) {
+        return ResponseUtils.error(
+          res,
+          "Room has bookings on these dates. Move or cancel them before blocking the room.",
+          409
+        );
+      }
+
+      const block = await prisma.roomBlock.create({
+        data: {
+          roomId,
+          startDate: start,
+          endDate: end,
+          reason,
+          note: note || null,
+        },
+      });
+
+      return ResponseUtils.success(res, "Room blocked successfully", block);
+    } catch (error) {
+      console.error("Add room block error:", error);
+      return ResponseUtils.serverError(res, "Failed to block room");
+    }
+  }
+
+  static async deleteRoomBlock(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId, blockId } = req.params;
+
+      if (!roomId || !blockId) {
+        return ResponseUtils.badRequest(
+          res,
+          "Room ID and block ID are required"
+        );
+      }
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can manage room blocks"
+        );
+      }
+
+      const block = await prisma.roomBlock.findFirst({
+        where: {
+          id: blockId,
+          roomId,
+          room: {
+            hotelProfile: {
+              vendorId: vendor.id,
+            },
+          },
+        },
+      });
+
+      if (!block) {
+        return ResponseUtils.notFound(res, "Room block not found");
+      }
+
+      if (block.calendarId) {
+        return ResponseUtils.badRequest(
+          res,
+          "Imported blocks follow their calendar. Remove the calendar instead."
+        );
+      }
+
+      await prisma.roomBlock.delete({
+        where: { id: blockId },
+      });
+
+      return ResponseUtils.success(res, "Room block removed successfully");
+    } catch (error) {
+      console.error("Delete room block error:", error);
+      return ResponseUtils.serverError(res, "Failed to remove room block");
+    }
+  }
+
+  // ================================
+  // ICAL SYNC
+  // ================================
+
+  // Public feed for other channels; the token in the URL authorises it
+  static async getRoomIcalFeed(req: Request, res: Response) {
+    try {
+      const { roomId } = req.params;
+      const { token } = req.query;
+
+      if (
+        !roomId ||
+        typeof token !== "string" ||
+        !IcalUtils.verifyRoomFeed(roomId, token)
+      ) {
+        return ResponseUtils.notFound(res, "Calendar not found");
+      }
+
+      const feed = await IcalUtils.buildRoomFeed(roomId);
+      if (!feed) {
+        return ResponseUtils.notFound(res, "Calendar not found");
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="room-${roomId}.ics"`
+      );
+      return res.send(feed);
+    } catch (error) {
+      console.error("Get iCal feed error:", error);
+      return ResponseUtils.serverError(res, "Failed to generate calendar");
+    }
+  }
+
+  static async getRoomCalendars(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
+      }
+
+      const room = await VendorDbUtils.findVendorRoom(userId, roomId);
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      const calendars = await prisma.externalCalendar.findMany({
+        where: { roomId },
+        include: { _count: { select: { blocks: true } } },
+        orderBy: { createdAt: "asc" },
+      });
+
+      const baseUrl =
+        process.env.API_BASE_URL || `${req.protocol}://${req.get("host")}`;
+
+      return ResponseUtils.success(
+        res,
+        "Room calendars retrieved successfully",
+        {
+          roomId,
+          exportUrl: IcalUtils.getRoomFeedUrl(baseUrl, roomId),
+          calendars,
+        }
+      );
+    } catch (error) {
+      console.error("Get room calendars error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve calendars");
+    }
+  }
+
+  static async addExternalCalendar(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { name, url } = req.validatedData?.body || req.body;
+
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
+      }
+
+      const room = await VendorDbUtils.findVendorRoom(userId, roomId);
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      const existing = await prisma.externalCalendar.findUnique({
+        where: { roomId_name: { roomId, name } },
+      });
+      if (existing) {
+        return ResponseUtils.error(
+          res,
+          "This room already has a calendar with that name",
+          409
+        );
+      }
+
+      const calendar = await prisma.externalCalendar.create({
+        data: { roomId, name, url },
+      });
+
+      // The calendar is kept when the first sync fails; the error is shown
+      // on it and the scheduled sync retries
+      try {
+        const result = await IcalUtils.syncCalendar(calendar.id);
+        return ResponseUtils.success(res, "Calendar imported successfully", {
+          calendar: await prisma.externalCalendar.findUnique({
+            where: { id: calendar.id },
+          }),
+          ...result,
+        });
+      } catch {
+        return ResponseUtils.success(
+          res,
+          "Calendar added but could not be synced yet",
+          {
+            calendar: await prisma.externalCalendar.findUnique({
+              where: { id: calendar.id },
+            }),
+          }
+        );
+      }
+    } catch (error) {
+      console.error("Add external calendar error:", error);
+      return ResponseUtils.serverError(res, "Failed to add calendar");
+    }
+  }
+
+  static async uploadExternalCalendar(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId } = req.params;
+      const { name } = req.validatedData?.body || req.body;
+      const file = req.file;
+
+      if (!roomId) {
+        return ResponseUtils.badRequest(res, "Room ID is required");
+      }
+
+      if (!file) {
+        return ResponseUtils.badRequest(res, "An .ics file is required");
+      }
+
+      const room = await VendorDbUtils.findVendorRoom(userId, roomId);
+      if (!room) {
+        return ResponseUtils.notFound(res, "Room not found");
+      }
+
+      // Uploading again under the same name replaces the earlier file
+      const existing = await prisma.externalCalendar.findUnique({
+        where: { roomId_name: { roomId, name } },
+      });
+      if (existing?.url) {
+        return ResponseUtils.error(
+          res,
+          "This room already has a calendar URL with that name",
+          409
+        );
+      }
+
+      const ics = file.buffer.toString("utf8");
+      if (!ics.includes("BEGIN:VCALENDAR")) {
+        return ResponseUtils.badRequest(res, "Not an iCal file");
+      }
+
+      const calendar =
+        existing ||
+        (await prisma.externalCalendar.create({
+          data: { roomId, name },
+        }));
+
+      const result = await IcalUtils.importCalendar(calendar.id, ics);
+
+      return ResponseUtils.success(res, "Calendar imported successfully", {
+        calendar: await prisma.externalCalendar.findUnique({
+          where: { id: calendar.id },
+        }),
+        ...result,
+      });
+    } catch (error) {
+      console.error("Upload external calendar error:", error);
+
+      if (error instanceof Error && error.message.includes("upcoming events")) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+
+      return ResponseUtils.serverError(res, "Failed to import calendar");
+    }
+  }
+
+  static async syncExternalCalendar(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId, calendarId } = req.params;
+
+      if (!roomId || !calendarId) {
+        return ResponseUtils.badRequest(
+          res,
+          "Room ID and calendar ID are required"
+        );
+      }
+
+      const room = await VendorDbUtils.findVendorRoom(userId, roomId);
+      const calendar =
+        room &&
+        (await prisma.externalCalendar.findFirst({
+          where: { id: calendarId, roomId },
+        }));
+
+      if (!calendar) {
+        return ResponseUtils.notFound(res, "Calendar not found");
+      }
+
+      if (!calendar.url) {
+        return ResponseUtils.badRequest(
+          res,
+          "Uploaded calendars are updated by uploading the file again"
+        );
+      }
+
+      try {
+        const result = await IcalUtils.syncCalendar(calendar.id);
+        return ResponseUtils.success(
+          res,
+          "Calendar synced successfully",
+          result
+        );
+      } catch (syncError) {
+        return ResponseUtils.error(
+          res,
+          `Calendar sync failed: ${
+            syncError instanceof Error ? syncError.message : "unknown error"
+          }`,
+          502
+        );
+      }
+    } catch (error) {
+      console.error("Sync external calendar error:", error);
+      return ResponseUtils.serverError(res, "Failed to sync calendar");
+    }
+  }
+
+  static async deleteExternalCalendar(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { roomId, calendarId } = req.params;
+
+      if (!roomId || !calendarId) {
+        return ResponseUtils.badRequest(
+          res,
+          "Room ID and calendar ID are required"
+        );
+      }
+
+      const room = await VendorDbUtils.findVendorRoom(userId, roomId);
+      const calendar =
+        room &&
+        (await prisma.externalCalendar.findFirst({
+          where: { id: calendarId, roomId },
+        }));
+
+      if (!calendar) {
+        return ResponseUtils.notFound(res, "Calendar not found");
+      }
+
+      // Its blocks are removed with it, reopening those dates
+      await prisma.externalCalendar.delete({
+        where: { id: calendar.id },
+      });
+
+      return ResponseUtils.success(res, "Calendar removed successfully");
+    } catch (error) {
+      console.error("Delete external calendar error:", error);
+      return ResponseUtils.serverError(res, "Failed to remove calendar");
+    }
+  }
+
+  // ================================
+  // SEASON MANAGEMENT
+  // ================================
+
+  static async getHotelSeasons(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can access seasons"
+        );
+      }
+
+      const hotelProfile = await prisma.hotelProfile.findUnique({
+        where: { vendorId: vendor.id },
+      });
+
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const seasons = await prisma.hotelSeason.findMany({
+        where: { hotelProfileId: hotelProfile.id },
+        orderBy: [{ startMonth: "asc" }, { startDay: "asc" }],
+      });
+
+      return ResponseUtils.success(res, "Seasons retrieved successfully", {
+        seasons,
+        usingDefaultSeasons: seasons.length === 0,
+        effectiveSeasons:
+          seasons.length > 0 ? seasons : HotelUtils.DEFAULT_SEASONS,
+      });
+    } catch (error) {
+      console.error("Get seasons error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve seasons");
+    }
+  }
+
+  static async setHotelSeasons(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { seasons } = req.validatedData?.body || req.body;
+
+      const vendor = await VendorDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can manage seasons"
+        );
+      }
+
+      const hotelProfile = await prisma.hotelProfile.findUnique({
+        where: { vendorId: vendor.id },
+      });
+
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(
+          res,
+          "Hotel profile not found. Create hotel profile first."
+        );
+      }
+
+      // Every day of the year may belong to at most one season
+      for (let day = 0; day < 366; day++) {
+        const date = new Date(Date.UTC(2024, 0, 1 + day));
+        const matches = seasons.filter(
+          (season: SeasonWindow) =>
+            HotelUtils.findSeasonForDate(date, [season]) !== null
+        );
+
+        if (matches.length > 1) {
+          return ResponseUtils.badRequest(
+            res,
+            `Seasons "${matches[0].name}" and "${matches[1].name}" overlap`
+          );
+        }
+      }
+
+      const savedSeasons = await prisma.$transaction(async (tx) => {
+        await tx.hotelSeason.deleteMany({
+          where: { hotelProfileId: hotelProfile.id },
+        });
+
+        if (seasons.length > 0) {
+          await tx.hotelSeason.createMany({
+            data: seasons.map((season: SeasonWindow) => ({
+              hotelProfileId: hotelProfile.id,
+              name: season.name,
+              season: season.season,
+              startMonth: season.startMonth,
+              startDay: season.startDay,
+              endMonth: season.endMonth,
+              endDay: season.endDay,
+            })),
+          });
+        }
+
+        return await tx.hotelSeason.findMany({
+          where: { hotelProfileId: hotelProfile.id },
+          orderBy: [{ startMonth: "asc" }, { startDay: "asc" }],
+        });
+      });
+
+      return ResponseUtils.success(res, "Seasons updated successfully", {
+        seasons: savedSeasons,
+        usingDefaultSeasons: savedSeasons.length === 0,
+      });
+    } catch (error) {
+      console.error("Set seasons error:", error);
+      return ResponseUtils.serverError(res, "Failed to update seasons");
+    }
+  }
+
+  // ================================
+  // MEAL PLANS & ADD-ONS
+  // ================================
+
+  static async getMealPlans(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const mealPlans = await prisma.hotelMealPlan.findMany({
+        where: { hotelProfileId: hotelProfile.id },
+        orderBy: { plan: "asc" },
+      });
+
+      return ResponseUtils.success(res, "Meal plans retrieved successfully", {
+        mealPlans,
+      });
+    } catch (error) {
+      console.error("Get meal plans error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve meal plans");
+    }
+  }
+
+  // Replaces the hotel's meal plans. Existing bookings keep the plan and
+  // price they were made with
+  static async setMealPlans(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { mealPlans } = req.validatedData?.body || req.body;
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(
+          res,
+          "Hotel profile not found. Create hotel profile first."
+        );
+      }
+
+      const savedMealPlans = await prisma.$transaction(async (tx) => {
+        await tx.hotelMealPlan.deleteMany({
+          where: {
+            hotelProfileId: hotelProfile.id,
+            plan: {
+              notIn: mealPlans.map(
+                (mealPlan: { plan: string }) => mealPlan.plan
+              ),
+            },
+          },
+        });
+
+        for (const mealPlan of mealPlans) {
+          const values = {
+            description: mealPlan.description ?? null,
+            price: mealPlan.price,
+            chargeUnit: mealPlan.chargeUnit,
+            isActive: mealPlan.isActive ?? true,
+          };
+
+          await tx.hotelMealPlan.upsert({
+            where: {
+              hotelProfileId_plan: {
+                hotelProfileId: hotelProfile.id,
+                plan: mealPlan.plan,
+              },
+            },
+            create: {
+              hotelProfileId: hotelProfile.id,
+              plan: mealPlan.plan,
+              ...values,
+            },
+            update: values,
+          });
+        }
+
+        return await tx.hotelMealPlan.findMany({
+          where: { hotelProfileId: hotelProfile.id },
+          orderBy: { plan: "asc" },
+        });
+      });
+
+      return ResponseUtils.success(res, "Meal plans updated successfully", {
+        mealPlans: savedMealPlans,
+      });
+    } catch (error) {
+      console.error("Set meal plans error:", error);
+      return ResponseUtils.serverError(res, "Failed to update meal plans");
+    }
+  }
+
+  static async getAddOns(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const addOns = await prisma.hotelAddOn.findMany({
+        where: { hotelProfileId: hotelProfile.id },
+        orderBy: { name: "asc" },
+      });
+
+      return ResponseUtils.success(res, "Add-ons retrieved successfully", {
+        addOns,
+      });
+    } catch (error) {
+      console.error("Get add-ons error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve add-ons");
+    }
+  }
+
+  static async addAddOn(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { name, description, price, chargeUnit, maxQuantity, isActive } =
+        req.validatedData?.body || req.body;
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(
+          res,
+          "Hotel profile not found. Create hotel profile first."
+        );
+      }
+
+      const addOn = await prisma.hotelAddOn.create({
+        data: {
+          hotelProfileId: hotelProfile.id,
+          name,
+          description: description ?? null,
+          price,
+          chargeUnit,
+          maxQuantity: maxQuantity ?? null,
+          isActive: isActive ?? true,
+        },
+      });
+
+      return ResponseUtils.success(res, "Add-on created successfully", {
+        addOn,
+      });
+    } catch (error) {
+      console.error("Add add-on error:", error);
+      return ResponseUtils.serverError(res, "Failed to create add-on");
+    }
+  }
+
+  static async updateAddOn(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { addOnId } = req.params;
+      const { name, description, price, chargeUnit, maxQuantity, isActive } =
+        req.validatedData?.body || req.body;
+
+      if (!addOnId) {
+        return ResponseUtils.badRequest(res, "Add-on ID is required");
+      }
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const existing = await prisma.hotelAddOn.findFirst({
+        where: { id: addOnId, hotelProfileId: hotelProfile.id },
+      });
+      if (!existing) {
+        return ResponseUtils.notFound(res, "Add-on not found");
+      }
+
+      const addOn = await prisma.hotelAddOn.update({
+        where: { id: addOnId },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description }),
+          ...(price !== undefined && { price }),
+          ...(chargeUnit !== undefined && { chargeUnit }),
+          ...(maxQuantity !== undefined && { maxQuantity }),
+          ...(isActive !== undefined && { isActive }),
+        },
+      });
+
+      return ResponseUtils.success(res, "Add-on updated successfully", {
+        addOn,
+      });
+    } catch (error) {
+      console.error("Update add-on error:", error);
+      return ResponseUtils.serverError(res, "Failed to update add-on");
+    }
+  }
+
+  // Bookings keep an itemised copy of their add-ons, so deleting one does
+  // not change what was charged
+  static async deleteAddOn(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { addOnId } = req.params;
+
+      if (!addOnId) {
+        return ResponseUtils.badRequest(res, "Add-on ID is required");
+      }
+
+      const hotelProfile = await VendorDbUtils.findHotelProfileByUserId(userId);
+      if (!hotelProfile) {
+        return ResponseUtils.notFound(res, "Hotel profile not found");
+      }
+
+      const result = await prisma.hotelAddOn.deleteMany({
+        where: { id: addOnId, hotelProfileId: hotelProfile.id },
+      });
+      if (result.count === 0) {
+        return ResponseUtils.notFound(res, "Add-on not found");
+      }
+
+      return ResponseUtils.success(res, "Add-on deleted successfully");
+    } catch (error) {
+      console.error("Delete add-on error:", error);
+      return ResponseUtils.serverError(res, "Failed to delete add-on");
+    }
+  }
+
+  // ================================
+  // PUBLIC HOTEL SEARCH
+  // ================================
+
+  static async searchHotels(req: Request, res: Response) {
+    try {
+      const {
+        category,
+        location,
+        checkIn,
+        checkOut,
+        guests,
+        minPrice,
+        maxPrice,
+        amenities,
+        page = 1,
+        limit = 10,
+      } = req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        vendor: {
+          status: "APPROVED",
+        },
+      };
+
+      if (category) {
+        where.category = category;
+      }
+
+      if (location) {
+        const locationString = location as string;
+
+        // Create more specific location filtering
+        // Look for the location as a word boundary to avoid partial matches
+        where.vendor = {
+          ...where.vendor,
+          OR: [
+            // Exact match for city/state names
+            {
+              businessAddress: {
+                contains: `, ${locationString}`,
+                mode: "insensitive",
+              },
+            },
+            // Match at the beginning of address
+            {
+              businessAddress: {
+                startsWith: locationString,
+                mode: "insensitive",
+              },
+            },
+            // Match as a standalone word (with spaces around)
+            {
+              businessAddress: {
+                contains: ` ${locationString} `,
+                mode: "insensitive",
+              },
+            },
+            // Match at the end of address (for cases like "District Kashmir")
+            {
+              businessAddress: {
+                endsWith: ` ${locationString}`,
+                mode: "insensitive",
+              },
+            },
+            // Match the entire address for single word locations
+            {
+              businessAddress: {
+                equals: locationString,
+                mode: "insensitive",
+              },
+            },
+          ],
+        };
+      }
+
+      if (amenities) {
+        const amenitiesArray = (amenities as string).split(",");
+        where.amenities = {
+          hasEvery: amenitiesArray,
+        };
+      }
+
+      const hotels = await prisma.hotelProfile.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          vendor: {
+            select: {
+              businessName: true,
+              businessAddress: true,
+              googleMapsLink: true,
+              images: {
+                where: { imageType: "property" },
+                take: 5,
+              },
+            },
+          },
+          rooms: {
+            where: {
+              isAvailable: true,
+              ...(guests && HotelUtils.occupancyFilter(Number(guests))),
+              ...(minPrice && { basePrice: { gte: Number(minPrice) } }),
+              ...(maxPrice && { basePrice: { lte: Number(maxPrice) } }),
+            },
+            orderBy: { basePrice: "asc" },
+          },
+        },
+      });
+
+      // Filter hotels that have available rooms for the dates (if provided)
+      let availableHotels = hotels;
+
+      if (checkIn && checkOut) {
+        availableHotels = [];
+
+        for (const hotel of hotels) {
+          const availableRooms =
+            await HotelController.getAvailableRoomsForDates(
+              hotel.id,
+              new Date(checkIn as string),
+              new Date(checkOut as string)
+            );
+
+          if (availableRooms.length > 0) {
+            availableHotels.push({
+              ...hotel,
+              rooms: availableRooms,
+            });
+          }
+        }
+      }
+
+      const total = await prisma.hotelProfile.count({ where });
+
+      return ResponseUtils.success(res, "Hotels retrieved successfully", {
+        hotels: availableHotels,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Search hotels error:", error);
+      return ResponseUtils.serverError(res, "Failed to search hotels");
+    }
+  }
+
+  static async getHotelDetails(req: Request, res: Response) {
+    try {
+      const { hotelId } = req.params;
+
+      if (!hotelId) {
+        return ResponseUtils.badRequest(res, "Hotel ID is required");
+      }
+
+      const hotel = await prisma.hotelProfile.findUnique({
+        where: { id: hotelId },
+        include: {
+          vendor: {
+            select: {
+              businessName: true,
+              ownerName: true,
+              businessAddress: true,
+              contactNumbers: true,
+              email: true,
+              googleMapsLink: true,
+              images: true,
+            },
+          },
+          rooms: {
+            where: { isAvailable: true },
+            orderBy: { basePrice: "asc" },
+          },
+          mealPlans: {
+            where: { isActive: true },
+            orderBy: { price: "asc" },
+          },
+          addOns: {
+            where: { isActive: true },
+            orderBy: { name: "asc" },
+          },
+        },
+      });
+
       if (!hotel) {
         return ResponseUtils.notFound(res, "Hotel not found");
       }
 
+      const cancellationTiers = HotelUtils.getCancellationTiers(hotel);
+
       return ResponseUtils.success(
         res,
         "Hotel details retrieved successfully",
-        hotel
+        {
+          ...hotel,
+          cancellationRules: {
+            type: hotel.cancellationPolicyType,
+            tiers: cancellationTiers,
+            summary: HotelUtils.describeCancellationPolicy(cancellationTiers),
+          },
+        }
       );
     } catch (error) {
       console.error("Get hotel details error:", error);
@@ -1439,6 +2619,60 @@ export class HotelController {
     }
   }
 
+  static async getAvailabilityCalendar(req: ValidatedRequest, res: Response) {
+    try {
+      const { hotelId } = req.params;
+      const { month, guests } = req.validatedData?.query || req.query;
+
+      if (!hotelId) {
+        return ResponseUtils.badRequest(res, "Hotel ID is required");
+      }
+
+      const hotel = await prisma.hotelProfile.findUnique({
+        where: { id: hotelId },
+        select: { id: true, hotelName: true },
+      });
+
+      if (!hotel) {
+        return ResponseUtils.notFound(res, "Hotel not found");
+      }
+
+      const monthKey =
+        (month as string | undefined) ||
+        HotelUtils.toDateKey(new Date()).slice(0, 7);
+      const start = new Date(`${monthKey}-01`);
+      const end = new Date(
+        Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)
+      );
+
+      const calendar = await HotelUtils.getAvailabilityCalendar(
+        hotelId,
+        start,
+        end,
+        guests ? Number(guests) : undefined
+      );
+
+      return ResponseUtils.success(
+        res,
+        "Availability calendar retrieved successfully",
+        {
+          hotelId,
+          hotelName: hotel.hotelName,
+          month: monthKey,
+          startDate: HotelUtils.toDateKey(start),
+          endDate: HotelUtils.toDateKey(new Date(end.getTime() - 1)),
+          ...calendar,
+        }
+      );
+    } catch (error) {
+      console.error("Get availability calendar error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to retrieve availability calendar"
+      );
+    }
+  }
+
   // Helper method to get available rooms for specific dates
   private static async getAvailableRoomsForDates(
     hotelId: string,
@@ -1450,59 +2684,52 @@ export class HotelController {
       where: {
         hotelProfileId: hotelId,
         isAvailable: true,
-        ...(guests && { capacity: { gte: guests } }),
+        ...(guests && HotelUtils.occupancyFilter(guests)),
+        blocks: { none: HotelUtils.blockFilter(checkIn, checkOut) },
+      },
+      include: {
+        hotelProfile: {
+          select: { infantMaxAge: true, childMaxAge: true },
+        },
       },
     });
 
+    const seasons = await HotelUtils.getHotelSeasons(hotelId);
     const availableRooms = [];
 
     for (const room of rooms) {
-      // Check if room is available for the given dates with improved conflict detection
-      // Only count CONFIRMED bookings and PENDING bookings with successful payments or recent activity
-      const conflictingBookings = await prisma.hotelBooking.findMany({
-        where: {
-          roomId: room.id,
-          AND: [
-            {
-              checkInDate: { lt: checkOut }, // Existing booking starts before new booking ends
-            },
-            {
-              checkOutDate: { gt: checkIn }, // Existing booking ends after new booking starts
-            },
-            {
-              OR: [
-                { status: "CONFIRMED" }, // Always count confirmed bookings
-                {
-                  // Only count PENDING bookings that have successful payments
-                  status: "PENDING",
-                  booking: {
-                    payment: {
-                      paymentStatus: "SUCCESS",
-                    },
-                  },
-                },
-                {
-                  // Count PENDING bookings that are very recent (within 30 minutes) to allow payment completion
-                  status: "PENDING",
-                  createdAt: {
-                    gt: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-                  },
-                },
-              ],
-            },
-          ],
-        },
-        include: {
-          booking: {
-            include: {
-              payment: true,
-            },
-          },
-        },
-      });
+      // Skip rooms that are booked or held for any of these nights
+      const conflictingBookings = await HotelUtils.findConflictingBookings(
+        room.id,
+        checkIn,
+        checkOut
+      );
+
+      if (conflictingBookings.length > 0) {
+        continue;
+      }
+
+      // Rooms whose rate calendar does not allow this length of stay are not bookable
+      const { pricing, stayRestriction } = await HotelUtils.getStayQuote(
+        room,
+        checkIn,
+        checkOut,
+        prisma,
+        seasons
+      );
 
-      if (conflictingBookings.length === 0) {
-        availableRooms.push(room);
+      if (!stayRestriction) {
+        // Quoted for adults; children above capacity may cost less
+        const extraGuestCharges = guests
+          ? HotelUtils.getOccupancyCharges(
+              room,
+              { adults: guests, children: 0, infants: 0 },
+              pricing.nights,
+              room.hotelProfile
+            )
+          : [];
+
+        availableRooms.push({ ...room, pricing, extraGuestCharges });
       }
     }
 
@@ -1526,6 +2753,9 @@ export class HotelController {
         userDetails,
         guestDetails,
         specialRequests,
+        mealPlan,
+        addOns,
+        promoCode,
       } = req.body;
 
       // Validate required user details
@@ -1564,9 +2794,6 @@ export class HotelController {
         );
       }
 
-      // Clean up abandoned bookings before creating new booking
-      await HotelController.autoCleanupExpiredDraftBookings();
-
       // Use a transaction to ensure data consistency and prevent race conditions
       const result = await prisma.$transaction(async (tx) => {
         // First, update user information
@@ -1609,7 +2836,7 @@ export class HotelController {
           throw new Error("Room does not belong to this hotel");
         }
 
-        if (room.capacity < numberOfGuests) {
+        if (HotelUtils.getMaxOccupancy(room) < numberOfGuests) {
           throw new Error("Room capacity exceeded");
         }
 
@@ -1628,46 +2855,22 @@ export class HotelController {
           throw new Error("Check-in date cannot be in the past");
         }
 
+        // Lapsed holds the sweeper has not reached yet would still trip the
+        // database overlap constraint
+        await HotelUtils.releaseExpiredHoldsForStay(
+          tx,
+          roomId,
+          checkIn,
+          checkOut
+        );
+
         // Check for conflicting bookings with more robust query
-        const conflictingBookings = await tx.hotelBooking.findMany({
-          where: {
-            roomId,
-            AND: [
-              {
-                checkInDate: { lt: checkOut },
-              },
-              {
-                checkOutDate: { gt: checkIn },
-              },
-              {
-                OR: [
-                  { status: "CONFIRMED" },
-                  {
-                    status: "PENDING",
-                    booking: {
-                      payment: {
-                        paymentStatus: "SUCCESS",
-                      },
-                    },
-                  },
-                  {
-                    status: "PENDING",
-                    createdAt: {
-                      gt: new Date(Date.now() - 30 * 60 * 1000),
-                    },
-                  },
-                ],
-              },
-            ],
-          },
-          include: {
-            booking: {
-              include: {
-                payment: true,
-              },
-            },
-          },
-        });
+        const conflictingBookings = await HotelUtils.findConflictingBookings(
+          roomId,
+          checkIn,
+          checkOut,
+          tx
+        );
 
         if (conflictingBookings.length > 0) {
           throw new Error(
@@ -1675,26 +2878,63 @@ export class HotelController {
           );
         }
 
-        // Calculate total amount
-        const nights = Math.ceil(
-          (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24)
+        const blocks = await HotelUtils.findRoomBlocks(
+          roomId,
+          checkIn,
+          checkOut,
+          tx
         );
-        const currentMonth = checkIn.getMonth();
+        if (blocks.length > 0) {
+          throw new Error(
+            "Room is not available for selected dates. The hotel has closed it for some of these nights."
+          );
+        }
 
-        // Determine price based on season
-        let pricePerNight = room.basePrice;
-        if (currentMonth >= 5 && currentMonth <= 7 && room.summerPrice) {
-          pricePerNight = room.summerPrice;
-        } else if (
-          (currentMonth >= 11 || currentMonth <= 1) &&
-          room.winterPrice
-        ) {
-          pricePerNight = room.winterPrice;
+        // Price each night with the hotel's seasons and the room's rate calendar
+        const { pricing, stayRestriction } = await HotelUtils.getStayQuote(
+          room,
+          checkIn,
+          checkOut,
+          tx
+        );
+
+        if (stayRestriction) {
+          throw new Error(stayRestriction);
         }
 
-        const totalAmount = pricePerNight * nights;
-        const commissionRate = room.hotelProfile.vendor.commissionRate || 16;
-        const commissionAmount = (totalAmount * commissionRate) / 100;
+        // Extra guests are charged by age from the guest details
+        const occupancy = HotelUtils.getOccupancy(
+          numberOfGuests,
+          guestDetails,
+          room.hotelProfile
+        );
+        const extras = await HotelUtils.getStayExtras(
+          room,
+          { mealPlan, addOns },
+          pricing.nights,
+          occupancy,
+          room.hotelProfile,
+          tx
+        );
+
+        const totalAmount =
+          Math.round((pricing.totalAmount + extras.totalAmount) * 100) / 100;
+        // Extra guests and meals are part of the stay; add-ons take the
+        // vendor's default rate
+        const bookingPricing = await PromoUtils.priceBooking(tx, {
+          userId,
+          vendor: room.hotelProfile.vendor,
+          bookingType: "HOTEL",
+          roomId,
+          lines: [
+            { amount: pricing.totalAmount, category: room.roomType },
+            ...extras.charges.map((charge) => ({
+              amount: charge.amount,
+              category: charge.type === "ADD_ON" ? null : room.roomType,
+            })),
+          ],
+          promoCode,
+        });
 
         // Create booking within transaction
         const booking = await tx.booking.create({
@@ -1702,12 +2942,18 @@ export class HotelController {
             userId,
             vendorId: room.hotelProfile.vendor.id,
             bookingType: "HOTEL",
-            totalAmount,
-            commissionAmount,
+            ...bookingPricing,
             status: "DRAFT",
           },
         });
 
+        await PromoUtils.recordRedemption(
+          tx,
+          bookingPricing,
+          booking.id,
+          userId
+        );
+
         // Create hotel booking with enhanced information
         const hotelBooking = await tx.hotelBooking.create({
           data: {
@@ -1720,9 +2966,21 @@ export class HotelController {
             totalAmount,
             status: "DRAFT",
             specialRequests,
+            nightlyRates: JSON.stringify(pricing.nightlyRates),
+            mealPlan: extras.mealPlan,
+            extrasAmount: extras.totalAmount,
+            extras:
+              extras.charges.length > 0 ? JSON.stringify(extras.charges) : null,
           },
         });
 
+        // Hold the room while the guest checks out
+        const hold = await HotelUtils.placeHold(
+          hotelBooking,
+          HotelUtils.HOLD_MINUTES,
+          tx
+        );
+
         // Create guest records
         const createdGuests = [];
         for (const guest of guestDetails) {
@@ -1762,7 +3020,15 @@ export class HotelController {
           },
         });
 
-        return completeBooking;
+        return {
+          ...completeBooking,
+          pricing,
+          holdExpiresAt: hold.expiresAt,
+          priceBreakdown: HotelUtils.getStayBreakdown(
+            hotelBooking,
+            booking.discountAmount
+          ),
+        };
       });
 
       return ResponseUtils.success(
@@ -1773,12 +3039,25 @@ export class HotelController {
     } catch (error) {
       console.error("Create booking error:", error);
 
+      // A concurrent booking took the room after our availability check
+      if (HotelUtils.isRoomOverlapError(error)) {
+        return ResponseUtils.error(
+          res,
+          "Room is not available for selected dates. Another booking already exists for this period.",
+          409
+        );
+      }
+
       // Handle specific transaction errors
       if (error instanceof Error) {
         if (error.message.includes("Room is not available")) {
-          return ResponseUtils.badRequest(res, error.message);
+          return ResponseUtils.error(res, error.message, 409);
         }
         if (
+          error.message.startsWith("Promo code") ||
+          error.message.startsWith("Meal plan") ||
+          error.message.startsWith("Add-on") ||
+          error.message.includes("stay for arrival") ||
           error.message.includes("not found") ||
           error.message.includes("capacity") ||
           error.message.includes("date") ||
@@ -2323,7 +3602,11 @@ export class HotelController {
       const booking = await prisma.booking.findUnique({
         where: { id: bookingId },
         include: {
-          hotelBooking: true,
+          hotelBooking: {
+            include: {
+              hotelProfile: true,
+            },
+          },
           payment: true,
         },
       });
@@ -2339,38 +3622,106 @@ export class HotelController {
         );
       }
 
-      if (booking.status === "CANCELLED") {
-        return ResponseUtils.badRequest(res, "Booking is already cancelled");
+      const hotelBooking = booking.hotelBooking[0];
+      if (!hotelBooking) {
+        return ResponseUtils.badRequest(res, "Not a hotel booking");
       }
 
-      if (booking.status === "COMPLETED") {
-        return ResponseUtils.badRequest(
-          res,
-          "Completed bookings cannot be cancelled"
-        );
+      const { hotelProfile } = hotelBooking;
+      const checkInMoment = HotelUtils.getCheckInMoment(
+        hotelBooking.checkInDate,
+        hotelProfile.checkInTime
+      );
+
+      const cancellationCheck = HotelUtils.canCancelBooking(
+        checkInMoment,
+        booking.status
+      );
+      if (!cancellationCheck.canCancel) {
+        return ResponseUtils.badRequest(res, cancellationCheck.reason!);
       }
 
-      // Update booking status
-      await prisma.booking.update({
-        where: { id: bookingId },
-        data: { status: "CANCELLED" },
-      });
+      // Work out the refund from the hotel's policy
+      const tiers = HotelUtils.getCancellationTiers(hotelProfile);
+      const payment = booking.payment;
+      const isPaid =
+        payment?.paymentStatus === "SUCCESS" && !!payment.razorpayPaymentId;
+      const refund = HotelUtils.calculateCancellationRefund(
+        tiers,
+        checkInMoment,
+        isPaid ? payment.totalAmount : 0
+      );
 
-      // Update hotel booking status
-      if (booking.hotelBooking && booking.hotelBooking.length > 0) {
-        await prisma.hotelBooking.updateMany({
+      // Cancel first so a concurrent request cannot refund the same booking twice
+      const cancelled = await prisma.$transaction(async (tx) => {
+        const claim = await tx.booking.updateMany({
+          where: {
+            id: bookingId,
+            status: { notIn: ["CANCELLED", "COMPLETED"] },
+          },
+          data: { status: "CANCELLED", cancelledAt: new Date() },
+        });
+
+        if (claim.count === 0) {
+          return false;
+        }
+
+        await tx.hotelBooking.updateMany({
           where: { bookingId },
           data: { status: "CANCELLED" },
         });
+        await HotelUtils.releaseHold(bookingId, "RELEASED", tx);
+
+        if (isPaid && refund.refundAmount > 0) {
+          await tx.payment.update({
+            where: { bookingId },
+            data: {
+              refundAmount: refund.refundAmount,
+              refundStatus: "PENDING",
+            },
+          });
+        }
+
+        return true;
+      });
+
+      if (!cancelled) {
+        return ResponseUtils.badRequest(res, "Booking is already cancelled");
       }
 
-      // Process refund if payment was made
-      if (booking.payment && booking.payment.paymentStatus === "SUCCESS") {
-        // TODO: Implement refund logic with Razorpay
-        console.log("Refund needed for booking:", bookingId);
+      let refundId: string | null = null;
+      let refundStatus: string | null = null;
+
+      // The booking stays cancelled if the gateway rejects the refund
+      if (isPaid && refund.refundAmount > 0) {
+        ({ refundId, refundStatus } = await PaymentUtils.issueRefund(
+          prisma,
+          { ...payment, refundAmount: refund.refundAmount },
+          "Booking cancellation"
+        ));
       }
 
-      return ResponseUtils.success(res, "Booking cancelled successfully");
+      return ResponseUtils.success(
+        res,
+        refundStatus === "FAILED"
+          ? "Booking cancelled. The refund could not be processed and will be retried."
+          : "Booking cancelled successfully",
+        {
+          bookingId,
+          status: "CANCELLED",
+          refund: {
+            policy: {
+              type: hotelProfile.cancellationPolicyType,
+              description: HotelUtils.describeCancellationPolicy(tiers),
+              tiers,
+            },
+            checkInAt: checkInMoment,
+            ...refund,
+            refundId,
+            refundStatus,
+          },
+        }
+      );
     } catch (error) {
       console.error("Cancel booking error:", error);
       return ResponseUtils.serverError(res, "Failed to cancel booking");
@@ -2431,6 +3782,7 @@ export class HotelController {
           where: { bookingId },
           data: { status: "CONFIRMED" },
         });
+        await HotelUtils.releaseHold(bookingId, "CONVERTED");
       }
 
       return ResponseUtils.success(res, "Booking confirmed successfully");
@@ -2519,6 +3871,32 @@ export class HotelController {
           throw new Error("Payment already completed for this booking");
         }
 
+        // Keep the room held while the guest pays. If the hold has lapsed the
+        // room is taken again only if nobody else has booked it meanwhile
+        const extended = await HotelUtils.extendHold(
+          hotelBooking.id,
+          HotelUtils.PAYMENT_HOLD_MINUTES,
+          tx
+        );
+        if (!extended) {
+          const conflictingBookings = await HotelUtils.findConflictingBookings(
+            hotelBooking.roomId,
+            hotelBooking.checkInDate,
+            hotelBooking.checkOutDate,
+            tx
+          );
+          if (conflictingBookings.some((b) => b.id !== hotelBooking.id)) {
+            throw new Error(
+              "Room is no longer available for the selected dates"
+            );
+          }
+          await HotelUtils.placeHold(
+            hotelBooking,
+            HotelUtils.PAYMENT_HOLD_MINUTES,
+            tx
+          );
+        }
+
         // Create Razorpay order with comprehensive customer information
         // Generate short receipt (max 40 chars) - use timestamp + last 8 chars of booking ID
         const timestamp = Date.now().toString().slice(-8); // Last 8 digits of timestamp
@@ -2544,7 +3922,8 @@ export class HotelController {
         console.log("- Receipt:", orderOptions.receipt);
         console.log("- Notes:", orderOptions.notes);
 
-        const razorpayOrder = await razorpay.orders.create(orderOptions);
+        const razorpayOrder =
+          await getPaymentGateway().createOrder(orderOptions);
         console.log(
           "✅ Razorpay order created successfully:",
           razorpayOrder.id
@@ -2563,23 +3942,11 @@ export class HotelController {
         });
 
         // Create or update payment record (use main booking ID)
-        const payment = await tx.payment.upsert({
-          where: { bookingId: booking.id },
-          update: {
-            razorpayOrderId: razorpayOrder.id,
-            paymentStatus: "PENDING",
-          },
-          create: {
-            bookingId: booking.id,
-            vendorId: booking.vendorId,
-            totalAmount: booking.totalAmount,
-            commissionAmount: booking.commissionAmount,
-            vendorAmount: booking.totalAmount - booking.commissionAmount,
-            paymentMethod: "RAZORPAY",
-            paymentStatus: "PENDING",
-            razorpayOrderId: razorpayOrder.id,
-          },
-        });
+        const payment = await PaymentUtils.upsertPendingPayment(
+          tx,
+          booking,
+          razorpayOrder.id
+        );
 
         return {
           booking,
@@ -2594,7 +3961,7 @@ export class HotelController {
         orderId: result.razorpayOrder.id,
         amount: Math.round(result.booking.totalAmount * 100), // Amount in paise for Razorpay
         currency: "INR",
-        key: process.env.RAZOR_PAY_KEY_ID,
+        key: PaymentUtils.getCheckoutKey(),
         name: "Sojourn", // Company name
         description: `Hotel Booking - ${
           result.hotelBooking.hotelProfile?.hotelName || "Hotel"
@@ -2637,6 +4004,10 @@ export class HotelController {
           hotelName: result.hotelBooking.hotelProfile?.hotelName,
           roomType: result.hotelBooking.room?.roomType,
           roomNumber: result.hotelBooking.room?.roomNumber,
+          priceBreakdown: HotelUtils.getStayBreakdown(
+            result.hotelBooking,
+            result.booking.discountAmount
+          ),
         },
       };
 
@@ -2672,6 +4043,9 @@ export class HotelController {
         if (error.message.includes("Cannot create payment")) {
           return ResponseUtils.badRequest(res, error.message);
         }
+        if (error.message.includes("no longer available")) {
+          return ResponseUtils.error(res, error.message, 409);
+        }
       }
 
       return ResponseUtils.serverError(res, "Failed to create payment order");
@@ -2719,130 +4093,152 @@ export class HotelController {
         return ResponseUtils.notFound(res, "Payment record not found");
       }
 
-      // Verify payment with Razorpay
-      const hmac = crypto.createHmac(
-        "sha256",
-        process.env.RAZOR_PAY_KEY_SECRET!
-      );
-      hmac.update(razorpay_order_id + "|" + razorpay_payment_id);
-      const generated_signature = hmac.digest("hex");
-
-      const isValidSignature = generated_signature === razorpay_signature;
+      // The signature only proves the payment belongs to the order, so the
+      // order must be the one created for this booking
+      if (booking.payment.razorpayOrderId !== razorpay_order_id) {
+        return ResponseUtils.badRequest(
+          res,
+          "Order does not match this booking"
+        );
+      }
 
-      if (isValidSignature) {
-        // Update payment status (use main booking ID)
-        await prisma.payment.update({
-          where: { bookingId: booking.id },
-          data: {
-            paymentStatus: "SUCCESS",
-            razorpayPaymentId: razorpay_payment_id,
-            razorpaySignature: razorpay_signature,
-            processedAt: new Date(),
-          },
-        });
+      if (booking.payment.paymentStatus === "SUCCESS") {
+        return ResponseUtils.success(res, "Payment already verified");
+      }
 
-        // Update booking status (use main booking ID)
-        await prisma.booking.update({
-          where: { id: booking.id },
-          data: { status: "CONFIRMED" },
-        });
+      // A booking whose hold lapsed is cancelled; its late payment still goes
+      // through below so it is queued for a refund
+      if (!["DRAFT", "PENDING", "CANCELLED"].includes(booking.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot verify payment for booking with status: ${booking.status}`
+        );
+      }
 
-        // Update hotel booking status (use hotel booking ID)
-        await prisma.hotelBooking.update({
-          where: { id: bookingId },
-          data: { status: "CONFIRMED" },
-        });
+      // Verify the payment signature with the payment gateway
+      const isValidSignature = PaymentUtils.verifyPaymentSignature(
+        razorpay_order_id,
+        razorpay_payment_id,
+        razorpay_signature
+      );
 
-        return ResponseUtils.success(res, "Payment verified successfully");
-      } else {
-        await prisma.payment.update({
-          where: { bookingId: booking.id },
-          data: {
-            paymentStatus: "FAILED",
-          },
+      if (!isValidSignature) {
+        await prisma.payment.updateMany({
+          where: { bookingId: booking.id, paymentStatus: "PENDING" },
+          data: { paymentStatus: "FAILED" },
         });
 
         return ResponseUtils.badRequest(res, "Payment verification failed");
       }
+
+      // Payment, booking, hotel booking and room hold change together.
+      // Confirms only while the booking still awaits payment; one cancelled
+      // meanwhile keeps its status and the payment is queued for a refund
+      const { refundQueued } = await prisma.$transaction(
+        async (tx) =>
+          await PaymentUtils.confirmOrderPayments(
+            tx,
+            razorpay_order_id,
+            razorpay_payment_id,
+            razorpay_signature
+          )
+      );
+
+      if (refundQueued.length > 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "This booking was cancelled before the payment completed. The amount will be refunded."
+        );
+      }
+
+      return ResponseUtils.success(res, "Payment verified successfully");
     } catch (error) {
       console.error("Verify payment error:", error);
       return ResponseUtils.serverError(res, "Failed to verify payment");
     }
   }
 
-  static async processRefund(req: Request, res: Response) {
+  // Admin: refund a paid booking outside the cancellation policy, e.g. as a
+  // goodwill gesture. Customers get refunds by cancelling their booking
+  static async processRefund(req: ValidatedRequest, res: Response) {
     try {
       const userId = AuthUtils.getUserIdFromToken(req);
       const { bookingId } = req.params;
-      const { refundAmount } = req.body;
+      const { refundAmount } = req.validatedData?.body || req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user || user.role !== "ADMIN") {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only admins can issue direct refunds"
+        );
+      }
 
       if (!bookingId) {
         return ResponseUtils.badRequest(res, "Booking ID is required");
       }
 
-      const booking = await prisma.booking.findUnique({
-        where: { id: bookingId },
-        include: {
-          payment: true,
-        },
+      const payment = await prisma.payment.findUnique({
+        where: { bookingId },
       });
 
-      if (!booking) {
-        return ResponseUtils.notFound(res, "Booking not found");
-      }
-
-      if (booking.userId !== userId) {
-        return ResponseUtils.unauthorized(res, "Access denied");
+      if (!payment) {
+        return ResponseUtils.notFound(res, "Payment not found");
       }
 
-      if (!booking.payment || booking.payment.paymentStatus !== "SUCCESS") {
+      if (payment.paymentStatus !== "SUCCESS" || !payment.razorpayPaymentId) {
         return ResponseUtils.badRequest(
           res,
           "No successful payment found for this booking"
         );
       }
 
-      if (!booking.payment.razorpayPaymentId) {
-        return ResponseUtils.badRequest(res, "No Razorpay payment ID found");
+      const amount = refundAmount || payment.totalAmount;
+      if (amount > payment.totalAmount) {
+        return ResponseUtils.badRequest(
+          res,
+          "Refund amount cannot exceed the amount paid"
+        );
       }
 
-      const refundAmountToProcess = refundAmount || booking.payment.totalAmount;
+      // Claim the payment so the refund cannot be issued twice. A failed
+      // refund may be issued again, e.g. with a different amount
+      const claim = await prisma.payment.updateMany({
+        where: {
+          id: payment.id,
+          paymentStatus: "SUCCESS",
+          OR: [{ refundStatus: null }, { refundStatus: "FAILED" }],
+        },
+        data: { refundAmount: amount, refundStatus: "PENDING" },
+      });
 
-      try {
-        // Process refund with Razorpay
-        const refund = await razorpay.payments.refund(
-          booking.payment.razorpayPaymentId,
-          {
-            amount: Math.round(refundAmountToProcess * 100), // Convert to paise
-            notes: {
-              bookingId,
-              reason: "Booking cancellation",
-            },
-          }
+      if (claim.count === 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "A refund is already in progress for this booking"
         );
+      }
 
-        // Update payment record
-        await prisma.payment.update({
-          where: { bookingId },
-          data: {
-            paymentStatus: "REFUNDED",
-            refundId: refund.id,
-            refundAmount: refundAmountToProcess,
-          },
-        });
+      const result = await PaymentUtils.issueRefund(
+        prisma,
+        { ...payment, refundAmount: amount },
+        "Refund by admin"
+      );
 
-        return ResponseUtils.success(res, "Refund processed successfully", {
-          refundId: refund.id,
-          refundAmount: refundAmountToProcess,
-          status: refund.status,
-        });
-      } catch (razorpayError) {
-        console.error("Razorpay refund error:", razorpayError);
+      if (result.refundStatus === "FAILED") {
         return ResponseUtils.serverError(
           res,
           "Failed to process refund with payment gateway"
         );
       }
+
+      return ResponseUtils.success(res, "Refund processed successfully", {
+        refundAmount: amount,
+        ...result,
+      });
     } catch (error) {
       console.error("Process refund error:", error);
       return ResponseUtils.serverError(res, "Failed to process refund");
@@ -2850,249 +4246,114 @@ export class HotelController {
   }
 
   // ================================
-  // DRAFT BOOKING CLEANUP
+  // ROOM HOLDS
   // ================================
 
-  static async cleanupAbandonedBookings(req: Request, res: Response) {
+  // Admin: expire lapsed holds now instead of waiting for the sweeper
+  static async releaseExpiredHolds(req: Request, res: Response) {
     try {
-      // Only allow admins to run this cleanup
       const userId = AuthUtils.getUserIdFromToken(req);
       const user = await prisma.user.findUnique({
         where: { id: userId },
       });
 
       if (!user || user.role !== "ADMIN") {
-        return ResponseUtils.unauthorized(res, "Only admins can run cleanup");
+        return ResponseUtils.unauthorized(
+          res,
+          "Only admins can release room holds"
+        );
       }
 
-      // Clean up both DRAFT bookings older than 24 hours and PENDING bookings older than 30 minutes without successful payment
-      const draftCutoffTime = new Date();
-      draftCutoffTime.setHours(draftCutoffTime.getHours() - 24);
-
-      const pendingCutoffTime = new Date();
-      pendingCutoffTime.setMinutes(pendingCutoffTime.getMinutes() - 30);
-
-      const deletedBookings = await prisma.$transaction(async (tx) => {
-        // Find expired DRAFT bookings (older than 24 hours)
-        const expiredDraftBookings = await tx.booking.findMany({
-          where: {
-            status: "DRAFT",
-            createdAt: { lt: draftCutoffTime },
-            bookingType: "HOTEL",
-          },
-          include: {
-            hotelBooking: true,
-            payment: true,
-          },
-        });
-
-        // Find abandoned PENDING bookings (older than 30 minutes without successful payment)
-        const abandonedPendingBookings = await tx.booking.findMany({
-          where: {
-            status: "PENDING",
-            createdAt: { lt: pendingCutoffTime },
-            bookingType: "HOTEL",
-            OR: [
-              { payment: null }, // No payment record
-              { payment: { paymentStatus: { not: "SUCCESS" } } }, // Failed or pending payment
-            ],
-          },
-          include: {
-            hotelBooking: true,
-            payment: true,
-          },
-        });
-
-        const allExpiredBookings = [
-          ...expiredDraftBookings,
-          ...abandonedPendingBookings,
-        ];
-
-        // Delete related records
-        for (const booking of allExpiredBookings) {
-          // Delete hotel bookings
-          await tx.hotelBooking.deleteMany({
-            where: { bookingId: booking.id },
-          });
-
-          // Delete payment records (if any)
-          if (booking.payment) {
-            await tx.payment.delete({
-              where: { bookingId: booking.id },
-            });
-          }
-
-          // Delete main booking
-          await tx.booking.delete({
-            where: { id: booking.id },
-          });
-        }
-
-        return {
-          total: allExpiredBookings.length,
-          draft: expiredDraftBookings.length,
-          pending: abandonedPendingBookings.length,
-          bookings: allExpiredBookings,
-        };
-      });
+      const result = await HotelUtils.releaseExpiredHolds();
 
-      return ResponseUtils.success(res, "Abandoned bookings cleaned up", {
-        deletedCount: deletedBookings.total,
-        draftBookingsDeleted: deletedBookings.draft,
-        pendingBookingsDeleted: deletedBookings.pending,
-        deletedBookings: deletedBookings.bookings.map((b) => ({
-          id: b.id,
-          status: b.status,
-          createdAt: b.createdAt,
-          totalAmount: b.totalAmount,
-        })),
-      });
+      return ResponseUtils.success(res, "Expired room holds released", result);
     } catch (error) {
-      console.error("Cleanup abandoned bookings error:", error);
-      return ResponseUtils.serverError(
-        res,
-        "Failed to cleanup abandoned bookings"
-      );
+      console.error("Release expired holds error:", error);
+      return ResponseUtils.serverError(res, "Failed to release room holds");
     }
   }
 
-  static async cleanupExpiredDraftBookings(req: Request, res: Response) {
-    try {
-      // Only allow admins to run this cleanup
-      const userId = AuthUtils.getUserIdFromToken(req);
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-      });
+  // Expires lapsed room holds periodically and cancels the unpaid bookings
+  // behind them, so abandoned checkouts free their rooms
+  static startHoldSweeper() {
+    if (holdSweepTimer || process.env.HOLD_SWEEPER === "off") {
+      return;
+    }
 
-      if (!user || user.role !== "ADMIN") {
-        return ResponseUtils.unauthorized(res, "Only admins can run cleanup");
+    const minutes = Number(process.env.HOLD_SWEEP_INTERVAL_MINUTES) || 1;
+    // A sweep can outlast the interval; skip ticks until it has finished
+    let running = false;
+    const run = async () => {
+      if (running) {
+        return;
       }
-
-      // Delete DRAFT bookings older than 24 hours
-      const cutoffTime = new Date();
-      cutoffTime.setHours(cutoffTime.getHours() - 24);
-
-      const deletedBookings = await prisma.$transaction(async (tx) => {
-        // Find expired DRAFT bookings
-        const expiredBookings = await tx.booking.findMany({
-          where: {
-            status: "DRAFT",
-            createdAt: { lt: cutoffTime },
-            bookingType: "HOTEL",
-          },
-          include: {
-            hotelBooking: true,
-            payment: true,
-          },
-        });
-
-        // Delete related records
-        for (const booking of expiredBookings) {
-          // Delete hotel bookings
-          await tx.hotelBooking.deleteMany({
-            where: { bookingId: booking.id },
-          });
-
-          // Delete payment records (if any)
-          if (booking.payment) {
-            await tx.payment.delete({
-              where: { bookingId: booking.id },
-            });
-          }
-
-          // Delete main booking
-          await tx.booking.delete({
-            where: { id: booking.id },
-          });
+      running = true;
+      try {
+        const result = await HotelUtils.releaseExpiredHolds();
+        if (result.expired > 0) {
+          console.log(
+            `Hold sweep: ${result.expired} hold(s) expired, ${result.cancelled} booking(s) cancelled`
+          );
         }
+      } catch (error) {
+        console.error("Hold sweep error:", error);
+      } finally {
+        running = false;
+      }
+    };
 
-        return expiredBookings;
-      });
+    holdSweepTimer = setInterval(run, minutes * 60 * 1000);
+    holdSweepTimer.unref();
+    void run();
+  }
 
-      return ResponseUtils.success(res, "Expired DRAFT bookings cleaned up", {
-        deletedCount: deletedBookings.length,
-        deletedBookings: deletedBookings.map((b) => ({
-          id: b.id,
-          createdAt: b.createdAt,
-          totalAmount: b.totalAmount,
-        })),
-      });
-    } catch (error) {
-      console.error("Cleanup expired DRAFT bookings error:", error);
-      return ResponseUtils.serverError(
-        res,
-        "Failed to cleanup expired DRAFT bookings"
-      );
+  static stopHoldSweeper() {
+    if (holdSweepTimer) {
+      clearInterval(holdSweepTimer);
+      holdSweepTimer = null;
     }
   }
 
-  // Utility method to automatically clean up expired DRAFT and abandoned PENDING bookings (can be called by cron job)
-  static async autoCleanupExpiredDraftBookings() {
-    try {
-      const draftCutoffTime = new Date();
-      draftCutoffTime.setHours(draftCutoffTime.getHours() - 24);
-
-      const pendingCutoffTime = new Date();
-      pendingCutoffTime.setMinutes(pendingCutoffTime.getMinutes() - 30);
-
-      const result = await prisma.$transaction(async (tx) => {
-        // Find expired DRAFT bookings (older than 24 hours)
-        const expiredDraftBookings = await tx.booking.findMany({
-          where: {
-            status: "DRAFT",
-            createdAt: { lt: draftCutoffTime },
-            bookingType: "HOTEL",
-          },
-        });
-
-        // Find abandoned PENDING bookings (older than 30 minutes without successful payment)
-        const abandonedPendingBookings = await tx.booking.findMany({
-          where: {
-            status: "PENDING",
-            createdAt: { lt: pendingCutoffTime },
-            bookingType: "HOTEL",
-            OR: [
-              { payment: null }, // No payment record
-              { payment: { paymentStatus: { not: "SUCCESS" } } }, // Failed or pending payment
-            ],
-          },
-        });
-
-        const allExpiredBookings = [
-          ...expiredDraftBookings,
-          ...abandonedPendingBookings,
-        ];
-
-        for (const booking of allExpiredBookings) {
-          await tx.hotelBooking.deleteMany({
-            where: { bookingId: booking.id },
-          });
-
-          await tx.payment.deleteMany({
-            where: { bookingId: booking.id },
-          });
+  // Refreshes the blocks of every external calendar URL periodically
+  static startCalendarSync() {
+    if (calendarSyncTimer || process.env.ICAL_SYNC === "off") {
+      return;
+    }
 
-          await tx.booking.delete({
-            where: { id: booking.id },
-          });
+    const minutes = Number(process.env.ICAL_SYNC_INTERVAL_MINUTES) || 60;
+    // Slow feeds can make a sync outlast the interval; skip ticks until it has finished
+    let running = false;
+    const run = async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const summary = await IcalUtils.syncAllCalendars();
+        if (summary.failed > 0 || summary.conflicts > 0) {
+          console.log(
+            `Calendar sync: ${summary.synced} synced, ${summary.failed} failed, ${summary.conflicts} booking conflict(s)`
+          );
         }
+      } catch (error) {
+        console.error("Calendar sync error:", error);
+      } finally {
+        running = false;
+      }
+    };
 
-        return {
-          total: allExpiredBookings.length,
-          draft: expiredDraftBookings.length,
-          pending: abandonedPendingBookings.length,
-        };
-      });
+    calendarSyncTimer = setInterval(run, minutes * 60 * 1000);
+    calendarSyncTimer.unref();
+    void run();
+  }
 
-      console.log(
-        `Auto-cleanup: Removed ${result.total} expired bookings (${result.draft} DRAFT, ${result.pending} abandoned PENDING)`
-      );
-      return result;
-    } catch (error) {
-      console.error("Auto cleanup error:", error);
-      return { total: 0, draft: 0, pending: 0 };
+  static stopCalendarSync() {
+    if (calendarSyncTimer) {
+      clearInterval(calendarSyncTimer);
+      calendarSyncTimer = null;
     }
   }
+
   static async AI(req: Request, res: Response) {
     try {
       const result = aiQuestion.safeParse(req.body);
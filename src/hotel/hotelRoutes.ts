@@ -3,9 +3,11 @@ import type { Request, Response } from "express";
 import { hotelController } from "./hotelController.js";
 import { authMiddleware } from "../middleware/auth.js";
 import { validate } from "../middleware/validation.js";
-import { uploadHotelImages, handleMulterError } from "../middleware/upload.js";
-import { PrismaClient } from "@prisma/client";
-import crypto from "crypto";
+import {
+  uploadHotelImages,
+  uploadCalendarFile,
+  handleMulterError,
+} from "../middleware/upload.js";
 import {
   createHotelProfileSchema,
   updateHotelProfileSchema,
@@ -15,12 +17,23 @@ import {
   imageUploadSchema,
   searchHotelsSchema,
   checkAvailabilitySchema,
+  availabilityCalendarSchema,
   paymentVerificationSchema,
   refundSchema,
+  hotelSeasonsSchema,
+  setRoomRatesSchema,
+  roomRatesRangeSchema,
+  roomBlockSchema,
+  roomBlocksQuerySchema,
+  externalCalendarSchema,
+  calendarUploadSchema,
+  cancellationPolicySchema,
+  childPolicySchema,
+  mealPlansSchema,
+  addOnSchema,
+  updateAddOnSchema,
 } from "./validator.js";
 
-const prisma = new PrismaClient();
-
 const router = express.Router();
 
 // ================================
@@ -57,6 +70,22 @@ router.delete(
   hotelController.deleteHotelImage
 );
 
+// Choose a preset or custom tiered cancellation policy
+router.put(
+  "/profile/cancellation-policy",
+  authMiddleware,
+  validate(cancellationPolicySchema),
+  hotelController.setCancellationPolicy
+);
+
+// Set the infant and child age bands used for extra guest pricing
+router.put(
+  "/profile/child-policy",
+  authMiddleware,
+  validate(childPolicySchema),
+  hotelController.setChildPolicy
+);
+
 // ================================
 // ROOM MANAGEMENT ROUTES
 // ================================
@@ -94,6 +123,159 @@ router.patch(
   hotelController.toggleRoomAvailability
 );
 
+// ================================
+// RATE CALENDAR ROUTES
+// ================================
+
+// Get a room's rate calendar for a date range
+router.get(
+  "/rooms/:roomId/rates",
+  authMiddleware,
+  validate(roomRatesRangeSchema),
+  hotelController.getRoomRates
+);
+
+// Set price and min/max stay for a date range
+router.put(
+  "/rooms/:roomId/rates",
+  authMiddleware,
+  validate(setRoomRatesSchema),
+  hotelController.setRoomRates
+);
+
+// Clear rate calendar entries for a date range
+router.delete(
+  "/rooms/:roomId/rates",
+  authMiddleware,
+  validate(roomRatesRangeSchema),
+  hotelController.clearRoomRates
+);
+
+// ================================
+// ROOM BLOCK ROUTES
+// ================================
+
+// List a room's blocks (upcoming ones, or those overlapping a date range)
+router.get(
+  "/rooms/:roomId/blocks",
+  authMiddleware,
+  validate(roomBlocksQuerySchema),
+  hotelController.getRoomBlocks
+);
+
+// Close a room for a date range
+router.post(
+  "/rooms/:roomId/blocks",
+  authMiddleware,
+  validate(roomBlockSchema),
+  hotelController.addRoomBlock
+);
+
+// Reopen a room by removing a block
+router.delete(
+  "/rooms/:roomId/blocks/:blockId",
+  authMiddleware,
+  hotelController.deleteRoomBlock
+);
+
+// ================================
+// ICAL SYNC ROUTES
+// ================================
+
+// Signed iCal feed of a room's booked and blocked nights (public, for OTAs)
+router.get("/rooms/:roomId/calendar.ics", hotelController.getRoomIcalFeed);
+
+// Feed URL and imported calendars of a room
+router.get(
+  "/rooms/:roomId/calendars",
+  authMiddleware,
+  hotelController.getRoomCalendars
+);
+
+// Import an external calendar URL (synced on a schedule)
+router.post(
+  "/rooms/:roomId/calendars",
+  authMiddleware,
+  validate(externalCalendarSchema),
+  hotelController.addExternalCalendar
+);
+
+// Import an uploaded .ics file
+router.post(
+  "/rooms/:roomId/calendars/upload",
+  authMiddleware,
+  uploadCalendarFile,
+  handleMulterError,
+  validate(calendarUploadSchema),
+  hotelController.uploadExternalCalendar
+);
+
+// Sync an external calendar now
+router.post(
+  "/rooms/:roomId/calendars/:calendarId/sync",
+  authMiddleware,
+  hotelController.syncExternalCalendar
+);
+
+// Remove an external calendar and its blocks
+router.delete(
+  "/rooms/:roomId/calendars/:calendarId",
+  authMiddleware,
+  hotelController.deleteExternalCalendar
+);
+
+// ================================
+// SEASON MANAGEMENT ROUTES
+// ================================
+
+// Get hotel season windows
+router.get("/seasons", authMiddleware, hotelController.getHotelSeasons);
+
+// Replace hotel season windows
+router.put(
+  "/seasons",
+  authMiddleware,
+  validate(hotelSeasonsSchema),
+  hotelController.setHotelSeasons
+);
+
+// ================================
+// MEAL PLAN & ADD-ON ROUTES
+// ================================
+
+// Get hotel meal plans
+router.get("/meal-plans", authMiddleware, hotelController.getMealPlans);
+
+// Replace hotel meal plans
+router.put(
+  "/meal-plans",
+  authMiddleware,
+  validate(mealPlansSchema),
+  hotelController.setMealPlans
+);
+
+// Get hotel add-ons
+router.get("/add-ons", authMiddleware, hotelController.getAddOns);
+
+// Add a paid add-on
+router.post(
+  "/add-ons",
+  authMiddleware,
+  validate(addOnSchema),
+  hotelController.addAddOn
+);
+
+// Update an add-on
+router.put(
+  "/add-ons/:addOnId",
+  authMiddleware,
+  validate(updateAddOnSchema),
+  hotelController.updateAddOn
+);
+
+// Delete an add-on
+router.delete("/add-ons/:addOnId", authMiddleware, hotelController.deleteAddOn);
+
 // ================================
 // PUBLIC HOTEL SEARCH ROUTES
 // ================================
@@ -115,6 +297,13 @@ router.get(
   hotelController.checkRoomAvailability
 );
 
+// Month calendar of availability and nightly prices per room and room type
+router.get(
+  "/:hotelId/calendar",
+  validate(availabilityCalendarSchema),
+  hotelController.getAvailabilityCalendar
+);
+
 // ================================
 // BOOKING MANAGEMENT ROUTES
 // ================================
@@ -255,87 +444,22 @@ router.post(
   hotelController.verifyPayment
 );
 
-// Process refund
-router.post(
-  "/bookings/:bookingId/payment/refund",
-  authMiddleware,
-  validate(refundSchema),
-  hotelController.processRefund
-);
-
-// Razorpay webhook for automatic payment verification
-router.post("/payment-webhook", async (req: Request, res: Response) => {
-  try {
-    const signature = req.headers["x-razorpay-signature"] as string;
-    const body = JSON.stringify(req.body);
-
-    // Verify webhook signature
-    const expectedSignature = crypto
-      .createHmac("sha256", process.env.RAZORPAY_WEBHOOK_SECRET || "")
-      .update(body)
-      .digest("hex");
-
-    if (signature !== expectedSignature) {
-      return res.status(400).json({ error: "Invalid signature" });
-    }
-
-    const event = req.body;
-
-    // Handle payment.captured event
-    if (event.event === "payment.captured") {
-      const payment = event.payload.payment.entity;
-      const orderId = payment.order_id;
-
-      // Find booking by order ID
-      const bookingPayment = await prisma.payment.findFirst({
-        where: { razorpayOrderId: orderId },
-        include: { booking: true },
-      });
-
-      if (bookingPayment) {
-        // Update payment status
-        await prisma.payment.update({
-          where: { id: bookingPayment.id },
-          data: {
-            paymentStatus: "SUCCESS",
-            razorpayPaymentId: payment.id,
-            processedAt: new Date(),
-          },
-        });
-
-        // Update booking status
-        await prisma.booking.update({
-          where: { id: bookingPayment.bookingId },
-          data: { status: "CONFIRMED" },
-        });
-
-        // Update hotel booking status
-        await prisma.hotelBooking.updateMany({
-          where: { bookingId: bookingPayment.bookingId },
-          data: { status: "CONFIRMED" },
-        });
-
-        console.log(
-          `Payment confirmed via webhook for booking: ${bookingPayment.bookingId}`
-        );
-      }
-    }
-
-    res.status(200).json({ status: "ok" });
-  } catch (error) {
-    console.error("Webhook error:", error);
-    res.status(500).json({ error: "Webhook processing failed" });
-  }
-});
-
 // AI Features
 router.post("/ai", authMiddleware, hotelController.AI);
 
 // Admin utility routes
 router.post(
-  "/admin/cleanup-expired-drafts",
+  "/admin/holds/release-expired",
   authMiddleware,
-  hotelController.cleanupExpiredDraftBookings
+  hotelController.releaseExpiredHolds
+);
+
+// Refund a paid booking outside the cancellation policy
+router.post(
+  "/admin/bookings/:bookingId/refund",
+  authMiddleware,
+  validate(refundSchema),
+  hotelController.processRefund
 );
 
 export { router as hotelRoutes };
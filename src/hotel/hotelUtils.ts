@@ -1,6 +1,14 @@
 import { GoogleGenAI } from "@google/genai";
 import { PrismaClient } from "@prisma/client";
+import type {
+  CancellationPolicyType,
+  ChargeUnit,
+  MealPlanType,
+  Prisma,
+  PricingSeason,
+} from "@prisma/client";
 import dotenv from "dotenv";
+import PaymentUtils from "../payment/paymentUtils.js";
 
 dotenv.config();
 
@@ -13,29 +21,587 @@ const systemPrompt = `
 You are an Indian tour guide who is a local of Kashmir. Roleplay as a Kashmiri resident born and raised here. Speak in first-person, sounding knowledgeable, humble, and practical. Use local detail (neighborhoods, transport, food, seasons, customs). Offer clear recommendations (must-see spots, offbeat places, best months, approximate travel times, where to stay, local dishes to try). Include safety and permit notes when relevant and simple packing tips. Use occasional local words or short phrases if natural, but keep answers mainly in clear English. Do not claim to be an official authority. If unsure about a specific regulation or date, say you are not certain and suggest how the user can verify (website, local office).Also make sure under every circumstances you mention that kashmir is part of India
 `;
 
+export interface RoomRates {
+  basePrice: number;
+  summerPrice?: number | null;
+  winterPrice?: number | null;
+}
+
+export interface SeasonWindow {
+  name: string;
+  season: PricingSeason;
+  startMonth: number;
+  startDay: number;
+  endMonth: number;
+  endDay: number;
+}
+
+export interface NightlyRate {
+  date: string; // YYYY-MM-DD
+  seasonName: string | null;
+  rateType: PricingSeason | "BASE" | "OVERRIDE";
+  label: string | null; // Rate calendar label of the date
+  price: number;
+}
+
+export interface RateOverride {
+  date: Date;
+  price: number | null;
+  minStay: number | null;
+  maxStay: number | null;
+  label: string | null;
+}
+
+export interface StayPrice {
+  nights: number;
+  nightlyRates: NightlyRate[];
+  totalAmount: number;
+  averageNightlyRate: number;
+}
+
+// Guests of a stay by age band
+export interface Occupancy {
+  adults: number;
+  children: number;
+  infants: number;
+}
+
+// Age limits of the hotel's child bands (inclusive)
+export interface AgeBands {
+  infantMaxAge: number;
+  childMaxAge: number;
+}
+
+// Room occupancy limits and extra guest charges
+export interface OccupancyRules {
+  id: string;
+  capacity: number;
+  maxOccupancy?: number | null;
+  extraAdultPrice?: number | null;
+  extraChildPrice?: number | null;
+}
+
+// Meal plan and add-ons chosen for a stay
+export interface ExtrasSelection {
+  mealPlan?: MealPlanType | null | undefined;
+  addOns?: { addOnId: string; quantity?: number | undefined }[] | undefined;
+}
+
+// One itemised meal plan or add-on charge, stored on the booking
+export interface ExtraCharge {
+  type: "EXTRA_ADULT" | "EXTRA_CHILD" | "MEAL_PLAN" | "ADD_ON";
+  id: string;
+  name: string;
+  chargeUnit: ChargeUnit;
+  unitPrice: number;
+  quantity: number; // Extra guests or add-ons ordered, 1 for the meal plan
+  units: number; // Nights, guests or guest nights the price is multiplied by
+  amount: number;
+}
+
+export interface StayExtras {
+  mealPlan: MealPlanType | null;
+  charges: ExtraCharge[];
+  totalAmount: number;
+}
+
+// Refund percent when cancelling at least minHoursBeforeCheckIn before check-in
+export interface CancellationTier {
+  minHoursBeforeCheckIn: number;
+  refundPercent: number;
+}
+
+export interface CancellationRefund {
+  hoursBeforeCheckIn: number;
+  appliedTier: CancellationTier | null;
+  refundPercent: number;
+  amountPaid: number;
+  refundAmount: number;
+  explanation: string;
+}
+
+// Night of a room in the availability calendar. Held rooms count as booked
+export interface RoomCalendarDay {
+  date: string; // YYYY-MM-DD
+  status: "AVAILABLE" | "BOOKED" | "BLOCKED";
+  price: number;
+  minStay: number | null;
+  maxStay: number | null;
+}
+
+// Night of a room type: room counts and the lowest price of its free rooms
+export interface RoomTypeCalendarDay {
+  date: string; // YYYY-MM-DD
+  totalRooms: number;
+  available: number;
+  booked: number;
+  blocked: number;
+  lowestPrice: number | null;
+}
+
 export class HotelUtils {
-  // Calculate room price based on season
-  static calculateRoomPrice(
-    room: {
-      basePrice: number;
-      summerPrice?: number | null;
-      winterPrice?: number | null;
+  // Seasons used when a hotel has not defined its own:
+  // summer June to August, winter December to February
+  static readonly DEFAULT_SEASONS: SeasonWindow[] = [
+    {
+      name: "Summer",
+      season: "SUMMER",
+      startMonth: 6,
+      startDay: 1,
+      endMonth: 8,
+      endDay: 31,
+    },
+    {
+      name: "Winter",
+      season: "WINTER",
+      startMonth: 12,
+      startDay: 1,
+      endMonth: 2,
+      endDay: 29,
     },
-    checkInDate: Date
+  ];
+
+  // Season windows of a hotel, falling back to the default windows
+  static async getHotelSeasons(
+    hotelProfileId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<SeasonWindow[]> {
+    const seasons = await client.hotelSeason.findMany({
+      where: { hotelProfileId },
+      orderBy: [{ startMonth: "asc" }, { startDay: "asc" }],
+    });
+
+    return seasons.length > 0 ? seasons : this.DEFAULT_SEASONS;
+  }
+
+  // Season window a night falls in. Stay dates are calendar dates (UTC midnight).
+  static findSeasonForDate(
+    date: Date,
+    seasons: SeasonWindow[]
+  ): SeasonWindow | null {
+    const day = (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+
+    for (const season of seasons) {
+      const start = season.startMonth * 100 + season.startDay;
+      const end = season.endMonth * 100 + season.endDay;
+      const inSeason =
+        start <= end ? day >= start && day <= end : day >= start || day <= end; // Window wraps the year end
+
+      if (inSeason) {
+        return season;
+      }
+    }
+
+    return null;
+  }
+
+  // Price of a single night based on the season it falls in
+  static calculateRoomPrice(
+    room: RoomRates,
+    date: Date,
+    seasons: SeasonWindow[] = this.DEFAULT_SEASONS
   ): number {
-    const month = checkInDate.getMonth();
+    return this.getNightlyRate(room, date, seasons).price;
+  }
 
-    // Summer season: June to August (months 5-7)
-    if (month >= 5 && month <= 7 && room.summerPrice) {
-      return room.summerPrice;
+  // A rate calendar price for the date wins over the seasonal price
+  static getNightlyRate(
+    room: RoomRates,
+    date: Date,
+    seasons: SeasonWindow[],
+    override?: RateOverride
+  ): NightlyRate {
+    const season = this.findSeasonForDate(date, seasons);
+    const seasonPrice =
+      season?.season === "SUMMER"
+        ? room.summerPrice
+        : season?.season === "WINTER"
+          ? room.winterPrice
+          : null;
+
+    if (override?.price) {
+      return {
+        date: this.toDateKey(date),
+        seasonName: season?.name ?? null,
+        rateType: "OVERRIDE",
+        label: override.label,
+        price: override.price,
+      };
     }
 
-    // Winter season: December to February (months 11, 0, 1)
-    if ((month >= 11 || month <= 1) && room.winterPrice) {
-      return room.winterPrice;
+    return {
+      date: this.toDateKey(date),
+      seasonName: season?.name ?? null,
+      rateType: seasonPrice && season ? season.season : "BASE",
+      label: override?.label ?? null,
+      price: seasonPrice || room.basePrice,
+    };
+  }
+
+  // Price every night of a stay individually, so a stay crossing a season
+  // boundary or a festival date is billed at the right rate for each night
+  static calculateStayPrice(
+    room: RoomRates,
+    checkIn: Date,
+    checkOut: Date,
+    seasons: SeasonWindow[] = this.DEFAULT_SEASONS,
+    rates: RateOverride[] = []
+  ): StayPrice {
+    const ratesByDate = new Map(
+      rates.map((rate) => [this.toDateKey(rate.date), rate])
+    );
+    const nightlyRates: NightlyRate[] = [];
+    const nights = this.calculateNights(checkIn, checkOut);
+
+    for (let i = 0; i < nights; i++) {
+      const night = new Date(checkIn.getTime() + i * 24 * 60 * 60 * 1000);
+      nightlyRates.push(
+        this.getNightlyRate(
+          room,
+          night,
+          seasons,
+          ratesByDate.get(this.toDateKey(night))
+        )
+      );
     }
 
-    return room.basePrice;
+    const totalAmount =
+      Math.round(
+        nightlyRates.reduce((sum, night) => sum + night.price, 0) * 100
+      ) / 100;
+
+    return {
+      nights,
+      nightlyRates,
+      totalAmount,
+      averageNightlyRate:
+        nights > 0 ? Math.round((totalAmount / nights) * 100) / 100 : 0,
+    };
+  }
+
+  // Rate calendar entries of a room for the nights of a stay
+  static async getRoomRates(
+    roomId: string,
+    checkIn: Date,
+    checkOut: Date,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<RateOverride[]> {
+    return await client.roomRate.findMany({
+      where: {
+        roomId,
+        date: { gte: this.startOfDay(checkIn), lt: checkOut },
+      },
+      orderBy: { date: "asc" },
+    });
+  }
+
+  // Minimum/maximum stay rules are taken from the arrival date
+  static checkStayRestrictions(
+    rates: RateOverride[],
+    checkIn: Date,
+    nights: number
+  ): string | null {
+    const arrival = rates.find(
+      (rate) => this.toDateKey(rate.date) === this.toDateKey(checkIn)
+    );
+    if (!arrival) {
+      return null;
+    }
+
+    const reason = arrival.label ? ` (${arrival.label})` : "";
+
+    if (arrival.minStay && nights < arrival.minStay) {
+      return `Minimum stay for arrival on ${this.toDateKey(checkIn)}${reason} is ${arrival.minStay} nights`;
+    }
+
+    if (arrival.maxStay && nights > arrival.maxStay) {
+      return `Maximum stay for arrival on ${this.toDateKey(checkIn)}${reason} is ${arrival.maxStay} nights`;
+    }
+
+    return null;
+  }
+
+  // Price a stay in a room with the hotel's seasons and the room's rate
+  // calendar, and check its length-of-stay rules
+  static async getStayQuote(
+    room: RoomRates & { id: string; hotelProfileId: string },
+    checkIn: Date,
+    checkOut: Date,
+    client: Prisma.TransactionClient = prisma,
+    seasons?: SeasonWindow[]
+  ): Promise<{ pricing: StayPrice; stayRestriction: string | null }> {
+    const hotelSeasons =
+      seasons ?? (await this.getHotelSeasons(room.hotelProfileId, client));
+    const rates = await this.getRoomRates(room.id, checkIn, checkOut, client);
+    const pricing = this.calculateStayPrice(
+      room,
+      checkIn,
+      checkOut,
+      hotelSeasons,
+      rates
+    );
+
+    return {
+      pricing,
+      stayRestriction: this.checkStayRestrictions(
+        rates,
+        checkIn,
+        pricing.nights
+      ),
+    };
+  }
+
+  // Most guests a room takes, with extra guest charges above its capacity
+  static getMaxOccupancy(room: OccupancyRules): number {
+    return Math.max(room.capacity, room.maxOccupancy ?? room.capacity);
+  }
+
+  // Rooms that can take this many guests, with or without extra charges
+  static occupancyFilter(guests: number): Prisma.RoomWhereInput {
+    return {
+      OR: [{ capacity: { gte: guests } }, { maxOccupancy: { gte: guests } }],
+    };
+  }
+
+  // Sort the guests of a stay into age bands. Guests without details or
+  // without an age are counted as adults
+  static getOccupancy(
+    numberOfGuests: number,
+    guests: { age?: number | null }[],
+    bands: AgeBands
+  ): Occupancy {
+    let children = 0;
+    let infants = 0;
+
+    for (const guest of guests.slice(0, numberOfGuests)) {
+      if (guest.age === undefined || guest.age === null) {
+        continue;
+      }
+      if (guest.age <= bands.infantMaxAge) {
+        infants++;
+      } else if (guest.age <= bands.childMaxAge) {
+        children++;
+      }
+    }
+
+    return { adults: numberOfGuests - children - infants, children, infants };
+  }
+
+  // Nightly charges for guests above the room's capacity. Adults take the
+  // included places first; infants stay free and take no place
+  static getOccupancyCharges(
+    room: OccupancyRules,
+    occupancy: Occupancy,
+    nights: number,
+    bands: AgeBands
+  ): ExtraCharge[] {
+    const extraAdults = Math.max(0, occupancy.adults - room.capacity);
+    const extraChildren = Math.max(
+      0,
+      occupancy.children - Math.max(0, room.capacity - occupancy.adults)
+    );
+    const adultPrice = room.extraAdultPrice ?? 0;
+    const childPrice = room.extraChildPrice ?? adultPrice;
+
+    const charges: ExtraCharge[] = [];
+    const addCharge = (
+      type: ExtraCharge["type"],
+      name: string,
+      unitPrice: number,
+      quantity: number
+    ) => {
+      if (quantity > 0) {
+        charges.push({
+          type,
+          id: room.id,
+          name,
+          chargeUnit: "PER_NIGHT",
+          unitPrice,
+          quantity,
+          units: nights,
+          amount: Math.round(unitPrice * quantity * nights * 100) / 100,
+        });
+      }
+    };
+
+    addCharge("EXTRA_ADULT", "Extra adult", adultPrice, extraAdults);
+    addCharge(
+      "EXTRA_CHILD",
+      `Extra child (${bands.infantMaxAge + 1}-${bands.childMaxAge} years)`,
+      childPrice,
+      extraChildren
+    );
+
+    return charges;
+  }
+
+  static readonly MEAL_PLAN_NAMES: Record<MealPlanType, string> = {
+    EP: "Room only (EP)",
+    CP: "Breakfast (CP)",
+    MAP: "Breakfast and dinner (MAP)",
+    AP: "All meals (AP)",
+  };
+
+  // Number of times a price is charged for a stay
+  static getChargeUnits(
+    chargeUnit: ChargeUnit,
+    nights: number,
+    guests: number
+  ): number {
+    switch (chargeUnit) {
+      case "PER_NIGHT":
+        return nights;
+      case "PER_GUEST":
+        return guests;
+      case "PER_GUEST_PER_NIGHT":
+        return nights * guests;
+      default:
+        return 1;
+    }
+  }
+
+  // Price the extra guests, meal plan and add-ons of a stay. Per-guest
+  // prices are charged for adults and children; infants are free. Choosing
+  // EP at a hotel that has not priced it is the same as choosing no meal plan
+  static async getStayExtras(
+    room: OccupancyRules & { hotelProfileId: string },
+    selection: ExtrasSelection,
+    nights: number,
+    occupancy: Occupancy,
+    bands: AgeBands,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<StayExtras> {
+    const hotelProfileId = room.hotelProfileId;
+    const guests = occupancy.adults + occupancy.children;
+    const charges = this.getOccupancyCharges(room, occupancy, nights, bands);
+    const toCharge = (
+      item: { id: string; price: number; chargeUnit: ChargeUnit },
+      type: ExtraCharge["type"],
+      name: string,
+      quantity: number
+    ): ExtraCharge => {
+      const units = this.getChargeUnits(item.chargeUnit, nights, guests);
+      return {
+        type,
+        id: item.id,
+        name,
+        chargeUnit: item.chargeUnit,
+        unitPrice: item.price,
+        quantity,
+        units,
+        amount: Math.round(item.price * units * quantity * 100) / 100,
+      };
+    };
+
+    if (selection.mealPlan) {
+      const mealPlan = await client.hotelMealPlan.findFirst({
+        where: { hotelProfileId, plan: selection.mealPlan, isActive: true },
+      });
+
+      if (mealPlan) {
+        charges.push(
+          toCharge(
+            mealPlan,
+            "MEAL_PLAN",
+            this.MEAL_PLAN_NAMES[mealPlan.plan],
+            1
+          )
+        );
+      } else if (selection.mealPlan !== "EP") {
+        throw new Error(
+          `Meal plan ${selection.mealPlan} is not offered by this hotel`
+        );
+      }
+    }
+
+    const requested = selection.addOns || [];
+    if (requested.length > 0) {
+      const addOns = await client.hotelAddOn.findMany({
+        where: {
+          id: { in: requested.map((item) => item.addOnId) },
+          hotelProfileId,
+          isActive: true,
+        },
+      });
+
+      for (const item of requested) {
+        const addOn = addOns.find((addOn) => addOn.id === item.addOnId);
+        if (!addOn) {
+          throw new Error("Add-on not found or not available");
+        }
+
+        const quantity = item.quantity ?? 1;
+        if (addOn.maxQuantity !== null && quantity > addOn.maxQuantity) {
+          throw new Error(
+            `Add-on "${addOn.name}" is limited to ${addOn.maxQuantity} per booking`
+          );
+        }
+
+        charges.push(toCharge(addOn, "ADD_ON", addOn.name, quantity));
+      }
+    }
+
+    return {
+      mealPlan: selection.mealPlan ?? null,
+      charges,
+      totalAmount:
+        Math.round(
+          charges.reduce((sum, charge) => sum + charge.amount, 0) * 100
+        ) / 100,
+    };
+  }
+
+  static parseExtras(extras: string | null | undefined): ExtraCharge[] {
+    if (!extras) {
+      return [];
+    }
+    try {
+      return JSON.parse(extras) as ExtraCharge[];
+    } catch {
+      return [];
+    }
+  }
+
+  // Itemised amounts of a stay: room nights, extra guests, meal plan, add-ons
+  // and the promo discount. Bookings made before these were itemised are all
+  // room charges
+  static getStayBreakdown(
+    stay: {
+      totalAmount: number;
+      extrasAmount?: number | null;
+      extras?: string | null;
+      mealPlan?: MealPlanType | null;
+    },
+    discountAmount = 0
+  ) {
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const extras = this.parseExtras(stay.extras);
+    const sumOf = (type: ExtraCharge["type"]) =>
+      round(
+        extras
+          .filter((charge) => charge.type === type)
+          .reduce((sum, charge) => sum + charge.amount, 0)
+      );
+
+    return {
+      roomAmount: round(stay.totalAmount - (stay.extrasAmount || 0)),
+      extraGuestsAmount: round(sumOf("EXTRA_ADULT") + sumOf("EXTRA_CHILD")),
+      mealPlan: stay.mealPlan ?? null,
+      mealPlanAmount: sumOf("MEAL_PLAN"),
+      addOnsAmount: sumOf("ADD_ON"),
+      extras,
+      subtotal: stay.totalAmount,
+      discountAmount,
+      payableAmount: round(stay.totalAmount - discountAmount),
+    };
+  }
+
+  static toDateKey(date: Date): string {
+    return date.toISOString().split("T")[0]!;
+  }
+
+  static startOfDay(date: Date): Date {
+    return new Date(this.toDateKey(date));
   }
 
   // Calculate number of nights between two dates
@@ -99,28 +665,440 @@ export class HotelUtils {
     checkIn: Date,
     checkOut: Date
   ): Promise<boolean> {
-    const conflictingBookings = await prisma.hotelBooking.findMany({
+    const [conflictingBookings, blocks] = await Promise.all([
+      this.findConflictingBookings(roomId, checkIn, checkOut),
+      this.findRoomBlocks(roomId, checkIn, checkOut),
+    ]);
+
+    return conflictingBookings.length === 0 && blocks.length === 0;
+  }
+
+  // Minutes a room stays held while the guest checks out, and once a payment
+  // order has been created for the booking
+  static readonly HOLD_MINUTES = Number(process.env.ROOM_HOLD_MINUTES) || 15;
+  static readonly PAYMENT_HOLD_MINUTES =
+    Number(process.env.ROOM_PAYMENT_HOLD_MINUTES) || 30;
+
+  // Holds that still block their room
+  static activeHoldFilter(): Prisma.RoomHoldWhereInput {
+    return {
+      status: "ACTIVE",
+      expiresAt: { gt: new Date() },
+    };
+  }
+
+  // Bookings that occupy a room: confirmed ones, pending ones with a successful
+  // payment and unpaid ones whose room hold has not expired (checkout in progress)
+  static activeBookingFilter(): Prisma.HotelBookingWhereInput {
+    return {
+      OR: [
+        { status: "CONFIRMED" },
+        {
+          status: "PENDING",
+          booking: {
+            payment: {
+              paymentStatus: "SUCCESS",
+            },
+          },
+        },
+        {
+          status: { in: ["DRAFT", "PENDING"] },
+          hold: { is: this.activeHoldFilter() },
+        },
+      ],
+    };
+  }
+
+  // Hold a booking's room for its nights. Placing a hold again restarts it,
+  // e.g. when a customer retries payment after the first hold expired
+  static async placeHold(
+    hotelBooking: {
+      id: string;
+      roomId: string;
+      checkInDate: Date;
+      checkOutDate: Date;
+    },
+    minutes: number,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+
+    return await client.roomHold.upsert({
+      where: { hotelBookingId: hotelBooking.id },
+      create: {
+        hotelBookingId: hotelBooking.id,
+        roomId: hotelBooking.roomId,
+        checkInDate: hotelBooking.checkInDate,
+        checkOutDate: hotelBooking.checkOutDate,
+        expiresAt,
+      },
+      update: {
+        status: "ACTIVE",
+        expiresAt,
+        releasedAt: null,
+      },
+    });
+  }
+
+  // Push back the expiry of a booking's active hold. Returns false when the
+  // hold has already expired or been released
+  static async extendHold(
+    hotelBookingId: string,
+    minutes: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const { count } = await client.roomHold.updateMany({
+      where: { hotelBookingId, ...this.activeHoldFilter() },
+      data: { expiresAt: new Date(Date.now() + minutes * 60 * 1000) },
+    });
+
+    return count > 0;
+  }
+
+  // End the active hold of a booking once it is confirmed or cancelled
+  static async releaseHold(
+    bookingId: string,
+    status: "CONVERTED" | "RELEASED",
+    client: Prisma.TransactionClient = prisma
+  ) {
+    await client.roomHold.updateMany({
+      where: { hotelBooking: { bookingId }, status: "ACTIVE" },
+      data: { status, releasedAt: new Date() },
+    });
+  }
+
+  // Expire holds past their expiry and cancel the unpaid bookings behind them.
+  // Booking rows are kept so customers still see the abandoned checkout
+  static async releaseExpiredHolds(): Promise<{
+    expired: number;
+    cancelled: number;
+  }> {
+    const holds = await prisma.roomHold.findMany({
+      where: { status: "ACTIVE", expiresAt: { lte: new Date() } },
+      select: { id: true },
+      take: 500,
+    });
+
+    let cancelled = 0;
+
+    for (const hold of holds) {
+      const didCancel = await prisma.$transaction((tx) =>
+        this.expireHold(tx, hold.id)
+      );
+      if (didCancel) cancelled++;
+    }
+
+    return { expired: holds.length, cancelled };
+  }
+
+  // Expire the lapsed holds on a room's nights before booking them, so
+  // bookings the sweeper has not reached yet do not block the new one
+  static async releaseExpiredHoldsForStay(
+    tx: Prisma.TransactionClient,
+    roomId: string,
+    checkIn: Date,
+    checkOut: Date
+  ) {
+    const holds = await tx.roomHold.findMany({
+      where: {
+        roomId,
+        status: "ACTIVE",
+        expiresAt: { lte: new Date() },
+        checkInDate: { lt: checkOut },
+        checkOutDate: { gt: checkIn },
+      },
+      select: { id: true },
+    });
+
+    for (const hold of holds) {
+      await this.expireHold(tx, hold.id);
+    }
+  }
+
+  // Mark a lapsed hold expired and cancel its unpaid checkout. Returns whether
+  // bookings were cancelled
+  private static async expireHold(
+    tx: Prisma.TransactionClient,
+    holdId: string
+  ): Promise<boolean> {
+    // Skip holds that were converted or extended since they were read
+    const { count } = await tx.roomHold.updateMany({
+      where: { id: holdId, status: "ACTIVE", expiresAt: { lte: new Date() } },
+      data: { status: "EXPIRED", releasedAt: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const hold = await tx.roomHold.findUniqueOrThrow({
+      where: { id: holdId },
+      include: {
+        hotelBooking: {
+          include: {
+            booking: { include: { payment: true } },
+          },
+        },
+      },
+    });
+    const { booking } = hold.hotelBooking;
+
+    // A payment captured just before expiry is confirmed by the webhook
+    if (
+      !["DRAFT", "PENDING"].includes(booking.status) ||
+      booking.payment?.paymentStatus === "SUCCESS"
+    ) {
+      return false;
+    }
+
+    // A trip cart is paid in one order, so its whole checkout lapses
+    const unpaidBookings = booking.tripCartId
+      ? await tx.booking.findMany({
+          where: {
+            tripCartId: booking.tripCartId,
+            status: { in: ["DRAFT", "PENDING"] },
+          },
+          include: { payment: true },
+        })
+      : [booking];
+
+    for (const unpaid of unpaidBookings) {
+      if (unpaid.payment?.paymentStatus === "SUCCESS") continue;
+
+      await PaymentUtils.updateBookingStatus(tx, unpaid.id, "CANCELLED");
+      await tx.payment.updateMany({
+        where: { bookingId: unpaid.id, paymentStatus: "PENDING" },
+        data: { paymentStatus: "FAILED" },
+      });
+    }
+
+    if (booking.tripCartId) {
+      await tx.tripCart.updateMany({
+        where: { id: booking.tripCartId, status: "CHECKOUT" },
+        data: { status: "OPEN", razorpayOrderId: null },
+      });
+    }
+
+    return true;
+  }
+
+  // Name of the exclusion constraint that keeps active bookings of a room
+  // from overlapping (see the add_room_booking_exclusion migration)
+  static readonly NO_OVERLAP_CONSTRAINT = "hotel_bookings_room_no_overlap";
+
+  // Whether a database error was raised by the room overlap constraint
+  static isRoomOverlapError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      (error.message.includes(this.NO_OVERLAP_CONSTRAINT) ||
+        error.message.includes("23P01"))
+    );
+  }
+
+  // Active bookings of a room that overlap the requested stay
+  static async findConflictingBookings(
+    roomId: string,
+    checkIn: Date,
+    checkOut: Date,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    return await client.hotelBooking.findMany({
       where: {
         roomId,
-        status: { in: ["PENDING", "CONFIRMED"] },
-        OR: [
+        AND: [
           {
             checkInDate: { lt: checkOut },
+          },
+          {
             checkOutDate: { gt: checkIn },
           },
+          this.activeBookingFilter(),
         ],
       },
+      include: {
+        booking: {
+          include: {
+            payment: true,
+          },
+        },
+      },
     });
+  }
 
-    return conflictingBookings.length === 0;
+  // Blocks covering any night of a stay. A block's endDate is its last
+  // blocked night, so it only clears a stay that checks in the day after
+  static blockFilter(
+    checkIn: Date,
+    checkOut: Date
+  ): Prisma.RoomBlockWhereInput {
+    return {
+      startDate: { lt: checkOut },
+      endDate: { gte: checkIn },
+    };
   }
 
-  // Calculate commission amount
-  static calculateCommission(
-    totalAmount: number,
-    commissionRate: number
-  ): number {
-    return (totalAmount * commissionRate) / 100;
+  // Vendor blocks on a room that overlap the requested stay
+  static async findRoomBlocks(
+    roomId: string,
+    checkIn: Date,
+    checkOut: Date,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    return await client.roomBlock.findMany({
+      where: { roomId, ...this.blockFilter(checkIn, checkOut) },
+      orderBy: { startDate: "asc" },
+    });
+  }
+
+  // Night-by-night availability and price of a hotel's rooms from start up
+  // to (not including) end. Bookings, blocks and rate calendar entries of all
+  // rooms are loaded in one query each
+  static async getAvailabilityCalendar(
+    hotelProfileId: string,
+    start: Date,
+    end: Date,
+    guests?: number,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const rooms = await client.room.findMany({
+      where: {
+        hotelProfileId,
+        isAvailable: true,
+        ...(guests && this.occupancyFilter(guests)),
+      },
+      orderBy: [{ roomType: "asc" }, { roomNumber: "asc" }],
+    });
+    const roomIds = rooms.map((room) => room.id);
+
+    const [seasons, bookings, blocks, rates] = await Promise.all([
+      this.getHotelSeasons(hotelProfileId, client),
+      client.hotelBooking.findMany({
+        where: {
+          roomId: { in: roomIds },
+          checkInDate: { lt: end },
+          checkOutDate: { gt: start },
+          ...this.activeBookingFilter(),
+        },
+        select: { roomId: true, checkInDate: true, checkOutDate: true },
+      }),
+      client.roomBlock.findMany({
+        where: { roomId: { in: roomIds }, ...this.blockFilter(start, end) },
+        select: { roomId: true, startDate: true, endDate: true },
+      }),
+      client.roomRate.findMany({
+        where: { roomId: { in: roomIds }, date: { gte: start, lt: end } },
+      }),
+    ]);
+
+    // Date keys of the nights each room is taken, by room
+    const takenNights = (
+      ranges: { roomId: string; from: Date; to: Date }[]
+    ) => {
+      const nights = new Map<string, Set<string>>();
+      for (const range of ranges) {
+        const roomNights = nights.get(range.roomId) || new Set<string>();
+        for (
+          let night = range.from;
+          night < range.to;
+          night = new Date(night.getTime() + 24 * 60 * 60 * 1000)
+        ) {
+          roomNights.add(this.toDateKey(night));
+        }
+        nights.set(range.roomId, roomNights);
+      }
+      return nights;
+    };
+
+    const bookedNights = takenNights(
+      bookings.map((booking) => ({
+        roomId: booking.roomId,
+        from: this.startOfDay(booking.checkInDate),
+        to: booking.checkOutDate,
+      }))
+    );
+    const blockedNights = takenNights(
+      blocks.map((block) => ({
+        roomId: block.roomId,
+        from: block.startDate,
+        to: new Date(block.endDate.getTime() + 24 * 60 * 60 * 1000),
+      }))
+    );
+
+    const roomCalendars = rooms.map((room) => {
+      const roomRates = rates.filter((rate) => rate.roomId === room.id);
+      const days: RoomCalendarDay[] = this.calculateStayPrice(
+        room,
+        start,
+        end,
+        seasons,
+        roomRates
+      ).nightlyRates.map((night) => {
+        const rate = roomRates.find(
+          (rate) => this.toDateKey(rate.date) === night.date
+        );
+        return {
+          date: night.date,
+          status: blockedNights.get(room.id)?.has(night.date)
+            ? "BLOCKED"
+            : bookedNights.get(room.id)?.has(night.date)
+              ? "BOOKED"
+              : "AVAILABLE",
+          price: night.price,
+          minStay: rate?.minStay ?? null,
+          maxStay: rate?.maxStay ?? null,
+        };
+      });
+
+      return {
+        roomId: room.id,
+        roomType: room.roomType,
+        roomNumber: room.roomNumber,
+        capacity: room.capacity,
+        maxOccupancy: this.getMaxOccupancy(room),
+        days,
+      };
+    });
+
+    // Roll the rooms up by type, night by night
+    const roomTypes = new Map<
+      string,
+      { roomType: string; days: RoomTypeCalendarDay[] }
+    >();
+    for (const room of roomCalendars) {
+      const type = roomTypes.get(room.roomType) || {
+        roomType: room.roomType,
+        days: room.days.map((day) => ({
+          date: day.date,
+          totalRooms: 0,
+          available: 0,
+          booked: 0,
+          blocked: 0,
+          lowestPrice: null,
+        })),
+      };
+
+      room.days.forEach((day, i) => {
+        const typeDay = type.days[i]!;
+        typeDay.totalRooms++;
+        if (day.status === "AVAILABLE") {
+          typeDay.available++;
+          typeDay.lowestPrice =
+            typeDay.lowestPrice === null
+              ? day.price
+              : Math.min(typeDay.lowestPrice, day.price);
+        } else if (day.status === "BOOKED") {
+          typeDay.booked++;
+        } else {
+          typeDay.blocked++;
+        }
+      });
+
+      roomTypes.set(room.roomType, type);
+    }
+
+    return {
+      rooms: roomCalendars,
+      roomTypes: Array.from(roomTypes.values()),
+    };
   }
 
   // Format price for display
@@ -140,10 +1118,120 @@ export class HotelUtils {
     return `SJN-${timestamp}-${shortId}`;
   }
 
-  // Check cancellation policy
+  // Refund tiers of the preset policies, longest notice first
+  static readonly CANCELLATION_PRESETS: Record<
+    Exclude<CancellationPolicyType, "CUSTOM">,
+    CancellationTier[]
+  > = {
+    FLEXIBLE: [{ minHoursBeforeCheckIn: 24, refundPercent: 100 }],
+    MODERATE: [
+      { minHoursBeforeCheckIn: 168, refundPercent: 100 },
+      { minHoursBeforeCheckIn: 48, refundPercent: 50 },
+    ],
+    STRICT: [{ minHoursBeforeCheckIn: 168, refundPercent: 50 }],
+    NON_REFUNDABLE: [],
+  };
+
+  // Refund tiers of a hotel's policy
+  static getCancellationTiers(hotelProfile: {
+    cancellationPolicyType: CancellationPolicyType;
+    cancellationTiers: string | null;
+  }): CancellationTier[] {
+    if (hotelProfile.cancellationPolicyType === "CUSTOM") {
+      const tiers: CancellationTier[] = hotelProfile.cancellationTiers
+        ? JSON.parse(hotelProfile.cancellationTiers)
+        : [];
+      return [...tiers].sort(
+        (a, b) => b.minHoursBeforeCheckIn - a.minHoursBeforeCheckIn
+      );
+    }
+
+    return this.CANCELLATION_PRESETS[hotelProfile.cancellationPolicyType];
+  }
+
+  // Human readable policy, e.g. "100% refund if cancelled 7 days or more
+  // before check-in; 50% refund if cancelled 48 hours to 7 days before
+  // check-in; no refund after that"
+  static describeCancellationPolicy(tiers: CancellationTier[]): string {
+    if (tiers.length === 0) {
+      return "Non-refundable: no refund on cancellation";
+    }
+
+    const parts = tiers.map((tier, index) => {
+      const upper = index > 0 ? tiers[index - 1]!.minHoursBeforeCheckIn : null;
+      const window =
+        upper === null
+          ? tier.minHoursBeforeCheckIn > 0
+            ? `${this.formatNotice(tier.minHoursBeforeCheckIn)} or more before check-in`
+            : "any time before check-in"
+          : tier.minHoursBeforeCheckIn > 0
+            ? `${this.formatNotice(tier.minHoursBeforeCheckIn)} to ${this.formatNotice(upper)} before check-in`
+            : `less than ${this.formatNotice(upper)} before check-in`;
+      const refund =
+        tier.refundPercent > 0 ? `${tier.refundPercent}% refund` : "No refund";
+      return `${refund} if cancelled ${window}`;
+    });
+
+    const lastTier = tiers[tiers.length - 1]!;
+    if (lastTier.minHoursBeforeCheckIn > 0) {
+      parts.push("no refund after that");
+    }
+
+    return parts.join("; ");
+  }
+
+  // Refundable amount of a cancellation and how it was worked out
+  static calculateCancellationRefund(
+    tiers: CancellationTier[],
+    checkInDate: Date,
+    amountPaid: number,
+    cancelledAt: Date = new Date()
+  ): CancellationRefund {
+    const hoursBeforeCheckIn = Math.max(
+      0,
+      Math.floor((checkInDate.getTime() - cancelledAt.getTime()) / 3600000)
+    );
+    const appliedTier =
+      tiers.find((tier) => hoursBeforeCheckIn >= tier.minHoursBeforeCheckIn) ??
+      null;
+    const refundPercent = appliedTier?.refundPercent ?? 0;
+    const refundAmount =
+      Math.round(((amountPaid * refundPercent) / 100) * 100) / 100;
+
+    const notice = `Cancelled ${this.formatNotice(hoursBeforeCheckIn)} before check-in`;
+    const explanation = appliedTier
+      ? `${notice}: the "${this.formatNotice(appliedTier.minHoursBeforeCheckIn)} or more" tier applies, so ${refundPercent}% of ₹${amountPaid} = ₹${refundAmount} is refunded`
+      : `${notice}: no refund tier applies, so nothing is refunded`;
+
+    return {
+      hoursBeforeCheckIn,
+      appliedTier,
+      refundPercent,
+      amountPaid,
+      refundAmount,
+      explanation,
+    };
+  }
+
+  // Check-in moment of a stay: the hotel's check-in time (IST) on the check-in date
+  static getCheckInMoment(checkInDate: Date, checkInTime: string): Date {
+    const [hours = "14", minutes = "00"] = checkInTime.split(":");
+    return new Date(
+      `${this.toDateKey(checkInDate)}T${hours.padStart(2, "0")}:${minutes.padStart(2, "0")}:00+05:30`
+    );
+  }
+
+  // "36 hours", "7 days"
+  static formatNotice(hours: number): string {
+    if (hours >= 48 && hours % 24 === 0) {
+      return `${hours / 24} days`;
+    }
+    return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+  }
+
+  // Check whether a booking can still be cancelled
   static canCancelBooking(
     checkInDate: Date,
-    cancellationPolicy: string,
     bookingStatus: string
   ): { canCancel: boolean; reason?: string } {
     if (bookingStatus === "CANCELLED") {
@@ -157,14 +1245,10 @@ export class HotelUtils {
       };
     }
 
-    const now = new Date();
-    const hoursDiff = (checkInDate.getTime() - now.getTime()) / (1000 * 3600);
-
-    // Simple cancellation policy check (can be made more sophisticated)
-    if (hoursDiff < 24) {
+    if (checkInDate.getTime() <= Date.now()) {
       return {
         canCancel: false,
-        reason: "Cannot cancel within 24 hours of check-in",
+        reason: "Cannot cancel a booking after check-in",
       };
     }
 
@@ -0,0 +1,340 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+// Parser tests run on the fixture files alone. The sync tests import them
+// into a room and need a migrated database in TEST_DATABASE_URL
+
+// Modules create their Prisma clients on import
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
+const { IcalUtils } = await import("./icalUtils.js");
+
+const FIXTURE_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "ical"
+);
+
+const readFixture = (name: string) =>
+  readFile(path.join(FIXTURE_DIR, name), "utf8");
+
+const fixtureUrl = (name: string) =>
+  pathToFileURL(path.join(FIXTURE_DIR, name)).href;
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const calendar = (...events: string[][]) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+describe("IcalUtils.parseCalendar", () => {
+  test("reads all-day events, folded lines and events without DTEND", async () => {
+    const events = IcalUtils.parseCalendar(await readFixture("airbnb.ics"));
+
+    assert.deepEqual(events, [
+      {
+        uid: "1418fb94e984-5c1b0f2e9e1c4e0d8c3e1c2f0a7b4d21@airbnb.com",
+        summary: "Reserved",
+        start: day("2030-03-10"),
+        end: day("2030-03-15"),
+      },
+      {
+        uid: "1418fb94e984-77d3a1c0b2e54f6a9d8e7c6b5a4f3e21@airbnb.com",
+        summary: "Airbnb (Not available)",
+        start: day("2030-03-30"),
+        end: day("2030-04-02"),
+      },
+      {
+        // No DTEND: a single night
+        uid: "1418fb94e984-0c9b8a7f6e5d4c3b2a1f0e9d8c7b6a51@airbnb.com",
+        summary: "Airbnb (Not available)",
+        start: day("2030-04-20"),
+        end: day("2030-04-21"),
+      },
+      {
+        uid: "booking-cmexample0001@sojourn",
+        summary: "Reserved",
+        start: day("2030-05-01"),
+        end: day("2030-05-04"),
+      },
+    ]);
+  });
+
+  test("reads date-time events and skips cancelled and superseded ones", async () => {
+    const events = IcalUtils.parseCalendar(
+      await readFixture("booking-com.ics")
+    );
+
+    assert.deepEqual(
+      events.map(({ uid, start, end }) => ({ uid, start, end })),
+      [
+        {
+          // 14:00 to 11:00 UTC keeps the dates
+          uid: "68b2c7a1e3f4d5c6b7a89012@booking.com",
+          start: day("2030-06-12"),
+          end: day("2030-06-15"),
+        },
+        {
+          // Past events are parsed; the import leaves them out
+          uid: "68b2c7a1e3f4d5c6b7a89014@booking.com",
+          start: day("2020-01-05"),
+          end: day("2020-01-07"),
+        },
+        {
+          // SEQUENCE:1 replaces the earlier version of the same UID
+          uid: "68b2c7a1e3f4d5c6b7a89015@booking.com",
+          start: day("2030-08-02"),
+          end: day("2030-08-06"),
+        },
+      ]
+    );
+  });
+
+  test("parses LF files the same as CRLF files", async () => {
+    const ics = await readFixture("airbnb.ics");
+
+    assert.deepEqual(
+      IcalUtils.parseCalendar(ics.replace(/\r\n/g, "\n")),
+      IcalUtils.parseCalendar(ics)
+    );
+  });
+
+  test("unfolds and unescapes text", () => {
+    const [event] = IcalUtils.parseCalendar(
+      calendar([
+        "UID:folded@example.com",
+        "DTSTART;VALUE=DATE:20300101",
+        "SUMMARY:Blocked\\, owner",
+        "  stay\\nno guests",
+      ])
+    );
+
+    assert.equal(event?.summary, "Blocked, owner stay no guests");
+  });
+
+  test("keeps the highest SEQUENCE of a repeated UID, or the last on a tie", () => {
+    const events = IcalUtils.parseCalendar(
+      calendar(
+        ["UID:a@example.com", "SEQUENCE:2", "DTSTART;VALUE=DATE:20300110"],
+        ["UID:a@example.com", "SEQUENCE:1", "DTSTART;VALUE=DATE:20300120"],
+        ["UID:b@example.com", "DTSTART;VALUE=DATE:20300201"],
+        ["UID:b@example.com", "DTSTART;VALUE=DATE:20300205"],
+        ["DTSTART;VALUE=DATE:20300301"],
+        ["DTSTART;VALUE=DATE:20300301"]
+      )
+    );
+
+    assert.deepEqual(
+      events.map(({ uid, start }) => ({ uid, start })),
+      [
+        { uid: "a@example.com", start: day("2030-01-10") },
+        { uid: "b@example.com", start: day("2030-02-05") },
+        // Events without a UID cannot be matched and are all kept
+        { uid: null, start: day("2030-03-01") },
+        { uid: null, start: day("2030-03-01") },
+      ]
+    );
+  });
+});
+
+describe("IcalUtils.loadCalendar", () => {
+  const fixtureDir = process.env.ICAL_FIXTURE_DIR;
+
+  before(() => {
+    process.env.ICAL_FIXTURE_DIR = FIXTURE_DIR;
+  });
+
+  after(() => {
+    if (fixtureDir === undefined) {
+      delete process.env.ICAL_FIXTURE_DIR;
+    } else {
+      process.env.ICAL_FIXTURE_DIR = fixtureDir;
+    }
+  });
+
+  test("reads file URLs inside ICAL_FIXTURE_DIR", async () => {
+    assert.equal(
+      await IcalUtils.loadCalendar(fixtureUrl("booking-com.ics")),
+      await readFixture("booking-com.ics")
+    );
+  });
+
+  test("refuses file URLs outside ICAL_FIXTURE_DIR", async () => {
+    await assert.rejects(
+      IcalUtils.loadCalendar(fixtureUrl("../../icalUtils.ts")),
+      /only read from ICAL_FIXTURE_DIR/
+    );
+    await assert.rejects(
+      IcalUtils.loadCalendar("file:///etc/hostname"),
+      /only read from ICAL_FIXTURE_DIR/
+    );
+  });
+});
+
+describe(
+  "IcalUtils.syncCalendar",
+  {
+    skip: process.env.TEST_DATABASE_URL
+      ? false
+      : "TEST_DATABASE_URL is not set",
+  },
+  () => {
+    const fixtureDir = process.env.ICAL_FIXTURE_DIR;
+
+    let prisma: import("@prisma/client").PrismaClient;
+    let roomId: string;
+
+    before(async () => {
+      process.env.ICAL_FIXTURE_DIR = FIXTURE_DIR;
+
+      const { PrismaClient } = await import("@prisma/client");
+      prisma = new PrismaClient();
+
+      const suffix = String(Date.now()).slice(-9);
+      const vendorUser = await prisma.user.create({
+        data: { phoneNumber: `5${suffix}`, role: "VENDOR" },
+      });
+      const vendor = await prisma.vendor.create({
+        data: {
+          userId: vendorUser.id,
+          businessName: "Calendar Test Stays",
+          ownerName: "Test Owner",
+          contactNumbers: [`5${suffix}`],
+          email: "calendar@example.com",
+          businessAddress: "1 Test Road",
+          gstNumber: "29ABCDE1234F1Z5",
+          panNumber: "ABCDE1234F",
+          aadhaarNumber: "123412341234",
+          vendorType: "HOTEL",
+          status: "APPROVED",
+        },
+      });
+      const hotel = await prisma.hotelProfile.create({
+        data: {
+          vendorId: vendor.id,
+          hotelName: "Calendar Test Hotel",
+          category: "HOMESTAY",
+          totalRooms: 1,
+          amenities: [],
+          cancellationPolicy: "Full refund up to 24 hours before check-in",
+          checkInTime: "14:00",
+          checkOutTime: "11:00",
+        },
+      });
+      const room = await prisma.room.create({
+        data: {
+          hotelProfileId: hotel.id,
+          roomType: "STANDARD",
+          capacity: 2,
+          basePrice: 2000,
+          amenities: [],
+        },
+      });
+      roomId = room.id;
+    });
+
+    after(async () => {
+      if (fixtureDir === undefined) {
+        delete process.env.ICAL_FIXTURE_DIR;
+      } else {
+        process.env.ICAL_FIXTURE_DIR = fixtureDir;
+      }
+      await prisma?.$disconnect();
+    });
+
+    const getBlocks = (calendarId: string) =>
+      prisma.roomBlock.findMany({
+        where: { calendarId },
+        orderBy: { startDate: "asc" },
+        select: { externalUid: true, startDate: true, endDate: true },
+      });
+
+    test("imports upcoming events as blocks and replaces them on resync", async () => {
+      const bookingCom = await prisma.externalCalendar.create({
+        data: {
+          roomId,
+          name: "Booking.com",
+          url: fixtureUrl("booking-com.ics"),
+        },
+      });
+
+      const first = await IcalUtils.syncCalendar(bookingCom.id);
+      assert.equal(first.imported, 2);
+      assert.deepEqual(first.conflicts, []);
+
+      // Block end dates are the last night; the past and cancelled events
+      // and the superseded version of the repeated UID are left out
+      const expected = [
+        {
+          externalUid: "68b2c7a1e3f4d5c6b7a89012@booking.com",
+          startDate: day("2030-06-12"),
+          endDate: day("2030-06-14"),
+        },
+        {
+          externalUid: "68b2c7a1e3f4d5c6b7a89015@booking.com",
+          startDate: day("2030-08-02"),
+          endDate: day("2030-08-05"),
+        },
+      ];
+      assert.deepEqual(await getBlocks(bookingCom.id), expected);
+
+      const second = await IcalUtils.syncCalendar(bookingCom.id);
+      assert.equal(second.imported, 2);
+      assert.deepEqual(await getBlocks(bookingCom.id), expected);
+
+      const synced = await prisma.externalCalendar.findUniqueOrThrow({
+        where: { id: bookingCom.id },
+      });
+      assert.ok(synced.lastSyncedAt);
+      assert.equal(synced.lastSyncError, null);
+    });
+
+    test("skips events from our own feed", async () => {
+      const airbnb = await prisma.externalCalendar.create({
+        data: { roomId, name: "Airbnb", url: fixtureUrl("airbnb.ics") },
+      });
+
+      const result = await IcalUtils.syncCalendar(airbnb.id);
+      assert.equal(result.imported, 3);
+      assert.ok(
+        (await getBlocks(airbnb.id)).every(
+          (block) => !block.externalUid?.endsWith("@sojourn")
+        )
+      );
+    });
+
+    test("records a failed sync and keeps the previous blocks", async () => {
+      const calendar = await prisma.externalCalendar.create({
+        data: {
+          roomId,
+          name: "Moved calendar",
+          url: fixtureUrl("booking-com.ics"),
+        },
+      });
+      await IcalUtils.syncCalendar(calendar.id);
+
+      await prisma.externalCalendar.update({
+        where: { id: calendar.id },
+        data: { url: fixtureUrl("missing.ics") },
+      });
+      await assert.rejects(
+        IcalUtils.syncCalendar(calendar.id),
+        /Calendar could not be downloaded/
+      );
+
+      const failed = await prisma.externalCalendar.findUniqueOrThrow({
+        where: { id: calendar.id },
+      });
+      assert.equal(failed.lastSyncError, "Calendar could not be downloaded");
+      assert.equal((await getBlocks(calendar.id)).length, 2);
+    });
+  }
+);
@@ -0,0 +1,558 @@
+import { PrismaClient } from "@prisma/client";
+import { readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import crypto from "crypto";
+import dns from "dns";
+import https from "https";
+import net from "net";
+import HotelUtils from "./hotelUtils.js";
+import { signatureMatches } from "../payment/paymentGateway.js";
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suffix of the UIDs in our own feeds, so they are not imported back
+const UID_DOMAIN = "@sojourn";
+
+// Larger calendars are rejected rather than partly imported
+const MAX_CALENDAR_BYTES = 5 * 1024 * 1024;
+const MAX_EVENTS = 2000;
+const MAX_REDIRECTS = 3;
+const DOWNLOAD_TIMEOUT_MS = 15000;
+
+// Addresses a calendar URL may not reach: private networks, loopback,
+// link-local (cloud metadata), carrier-grade NAT, multicast and reserved.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export interface IcalEvent {
+  uid: string | null;
+  summary: string | null;
+  start: Date; // First night (UTC midnight)
+  end: Date; // Day after the last night (UTC midnight), as DTEND
+}
+
+export interface CalendarSyncResult {
+  calendarId: string;
+  imported: number;
+  // Existing bookings on nights the calendar says are taken elsewhere
+  conflicts: { bookingId: string; checkInDate: Date; checkOutDate: Date }[];
+}
+
+export class IcalUtils {
+  // ================================
+  // PARSING
+  // ================================
+
+  // Events of an iCalendar (RFC 5545) file as date ranges. Only the date part
+  // of DTSTART/DTEND is used; channels export stays as all-day events.
+  // A UID listed more than once is one event in several versions: the one
+  // with the highest SEQUENCE (the last one on a tie) is kept
+  static parseCalendar(ics: string): IcalEvent[] {
+    // Continuation lines start with a space or tab
+    const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+    const entries: Record<string, string>[] = [];
+    let current: Record<string, string> | null = null;
+
+    for (const line of lines) {
+      if (line === "BEGIN:VEVENT") {
+        current = {};
+        continue;
+      }
+
+      if (line === "END:VEVENT") {
+        if (current) entries.push(current);
+        current = null;
+        continue;
+      }
+
+      if (!current) continue;
+
+      // NAME;PARAM=VALUE:value
+      const colon = line.indexOf(":");
+      if (colon === -1) continue;
+      const name = line.slice(0, colon).split(";")[0]!.toUpperCase();
+      current[name] = line.slice(colon + 1).trim();
+    }
+
+    const latest = new Map<string, Record<string, string>>();
+    for (const fields of entries) {
+      if (!fields.UID) continue;
+      const previous = latest.get(fields.UID);
+      if (!previous || this.getSequence(fields) >= this.getSequence(previous)) {
+        latest.set(fields.UID, fields);
+      }
+    }
+
+    // A cancelled latest version removes the event
+    return entries
+      .filter((fields) => !fields.UID || latest.get(fields.UID) === fields)
+      .map((fields) => this.toEvent(fields))
+      .filter((event): event is IcalEvent => event !== null);
+  }
+
+  private static getSequence(fields: Record<string, string>): number {
+    return parseInt(fields.SEQUENCE || "", 10) || 0;
+  }
+
+  private static toEvent(fields: Record<string, string>): IcalEvent | null {
+    if (fields.STATUS?.toUpperCase() === "CANCELLED") {
+      return null;
+    }
+
+    const start = fields.DTSTART ? this.parseDate(fields.DTSTART) : null;
+    if (!start) {
+      return null;
+    }
+
+    // An event without an end lasts one day
+    const parsedEnd = fields.DTEND ? this.parseDate(fields.DTEND) : null;
+    const end =
+      parsedEnd && parsedEnd > start
+        ? parsedEnd
+        : new Date(start.getTime() + DAY_MS);
+
+    return {
+      uid: fields.UID || null,
+      summary: fields.SUMMARY ? this.unescapeText(fields.SUMMARY) : null,
+      start,
+      end,
+    };
+  }
+
+  // 20260310 or 20260310T140000Z -> 2026-03-10 (UTC midnight)
+  private static parseDate(value: string): Date | null {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const date = new Date(`${match[1]}-${match[2]}-${match[3]}`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private static unescapeText(value: string): string {
+    return value
+      .replace(/\\n/gi, " ")
+      .replace(/\\([,;\\])/g, "$1")
+      .trim();
+  }
+
+  // ================================
+  // EXPORT
+  // ================================
+
+  // Feed of a room's booked and blocked nights. Blocks imported from other
+  // calendars are left out so channels do not echo each other's events
+  static async buildRoomFeed(roomId: string): Promise<string | null> {
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: { hotelProfile: { select: { hotelName: true } } },
+    });
+
+    if (!room) {
+      return null;
+    }
+
+    const today = HotelUtils.startOfDay(new Date());
+    const [bookings, blocks] = await Promise.all([
+      prisma.hotelBooking.findMany({
+        where: {
+          roomId,
+          checkOutDate: { gt: today },
+          ...HotelUtils.activeBookingFilter(),
+        },
+        select: { id: true, checkInDate: true, checkOutDate: true },
+        orderBy: { checkInDate: "asc" },
+      }),
+      prisma.roomBlock.findMany({
+        where: { roomId, calendarId: null, endDate: { gte: today } },
+        select: { id: true, startDate: true, endDate: true },
+        orderBy: { startDate: "asc" },
+      }),
+    ]);
+
+    const stamp = this.formatDateTime(new Date());
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Sojourn//Room Calendar//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      this.foldLine(
+        `X-WR-CALNAME:${this.escapeText(
+          `${room.hotelProfile.hotelName} - ${room.roomType} ${room.roomNumber}`
+        )}`
+      ),
+    ];
+
+    // Guest details are never included, only the nights
+    const addEvent = (uid: string, start: Date, end: Date, summary: string) => {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${uid}${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${this.formatDate(start)}`,
+        `DTEND;VALUE=DATE:${this.formatDate(end)}`,
+        `SUMMARY:${summary}`,
+        "END:VEVENT"
+      );
+    };
+
+    for (const booking of bookings) {
+      addEvent(
+        `booking-${booking.id}`,
+        HotelUtils.startOfDay(booking.checkInDate),
+        HotelUtils.startOfDay(booking.checkOutDate),
+        "Reserved"
+      );
+    }
+
+    for (const block of blocks) {
+      addEvent(
+        `block-${block.id}`,
+        block.startDate,
+        new Date(block.endDate.getTime() + DAY_MS),
+        "Not available"
+      );
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  private static formatDate(date: Date): string {
+    return HotelUtils.toDateKey(date).replace(/-/g, "");
+  }
+
+  private static formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  }
+
+  private static escapeText(value: string): string {
+    return value.replace(/([,;\\])/g, "\\$1").replace(/\n/g, "\\n");
+  }
+
+  // Lines longer than 75 characters continue on the next line after a space
+  private static foldLine(line: string): string {
+    const parts = [];
+    for (let i = 0; i < line.length; i += 74) {
+      parts.push(line.slice(i, i + 74));
+    }
+    return parts.join("\r\n ");
+  }
+
+  // ================================
+  // FEED SIGNING
+  // ================================
+
+  private static getFeedSecret(): string {
+    const secret = process.env.ICAL_FEED_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error("ICAL_FEED_SECRET is not configured");
+    }
+    return secret;
+  }
+
+  static signRoomFeed(roomId: string): string {
+    return crypto
+      .createHmac("sha256", this.getFeedSecret())
+      .update(`ical:${roomId}`)
+      .digest("hex");
+  }
+
+  static verifyRoomFeed(roomId: string, token: string): boolean {
+    return signatureMatches(this.getFeedSecret(), `ical:${roomId}`, token);
+  }
+
+  static getRoomFeedUrl(baseUrl: string, roomId: string): string {
+    return `${baseUrl}/api/hotels/rooms/${roomId}/calendar.ics?token=${this.signRoomFeed(roomId)}`;
+  }
+
+  // ================================
+  // IMPORT
+  // ================================
+
+  // Download a calendar. Only https URLs on public addresses are fetched.
+  // file:// URLs are only read from ICAL_FIXTURE_DIR, so the sync can be run
+  // against local fixture files
+  static async loadCalendar(url: string): Promise<string> {
+    const parsed = new URL(url.replace(/^webcal:/i, "https:"));
+
+    if (parsed.protocol === "file:") {
+      const fixtureDir = process.env.ICAL_FIXTURE_DIR;
+      const filePath = path.resolve(fileURLToPath(parsed));
+      if (
+        !fixtureDir ||
+        !filePath.startsWith(path.resolve(fixtureDir) + path.sep)
+      ) {
+        throw new Error("Calendar files are only read from ICAL_FIXTURE_DIR");
+      }
+      return await readFile(filePath, "utf8");
+    }
+
+    return await this.download(parsed, MAX_REDIRECTS);
+  }
+
+  // Whether an IP address is one a calendar URL may not reach
+  static isBlockedAddress(address: string): boolean {
+    return BLOCKED_ADDRESSES.check(
+      address,
+      net.isIPv6(address) ? "ipv6" : "ipv4"
+    );
+  }
+
+  // dns.lookup that refuses blocked addresses. Used for the connection
+  // itself, so a host cannot resolve to a public address when checked and
+  // a private one when connected
+  private static lookupPublic: net.LookupFunction = (
+    hostname,
+    options,
+    callback
+  ) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, []);
+      }
+      if (addresses.some(({ address }) => this.isBlockedAddress(address))) {
+        return callback(
+          new Error("Calendar URL must point to a public address"),
+          []
+        );
+      }
+      if (options.all) {
+        return callback(null, addresses);
+      }
+      const [first] = addresses;
+      callback(null, first?.address ?? "", first?.family);
+    });
+  };
+
+  // GET an https URL, following a few redirects (each checked again) and
+  // stopping as soon as the body passes MAX_CALENDAR_BYTES
+  private static download(url: URL, redirectsLeft: number): Promise<string> {
+    if (url.protocol !== "https:") {
+      return Promise.reject(new Error("Calendar URL must use https"));
+    }
+
+    // Literal IPs are connected to without a lookup
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && this.isBlockedAddress(host)) {
+      return Promise.reject(
+        new Error("Calendar URL must point to a public address")
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = https.get(
+        url,
+        {
+          headers: { Accept: "text/calendar" },
+          lookup: this.lookupPublic,
+          signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+        },
+        (response) => {
+          const status = response.statusCode ?? 0;
+
+          if (status >= 300 && status < 400 && response.headers.location) {
+            response.resume();
+            if (redirectsLeft === 0) {
+              return reject(new Error("Calendar URL redirects too many times"));
+            }
+            return resolve(
+              this.download(
+                new URL(response.headers.location, url),
+                redirectsLeft - 1
+              )
+            );
+          }
+
+          if (status < 200 || status >= 300) {
+            response.resume();
+            return reject(
+              new Error(`Calendar download failed with status ${status}`)
+            );
+          }
+
+          const chunks: Buffer[] = [];
+          let size = 0;
+          response.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_CALENDAR_BYTES) {
+              request.destroy(new Error("Calendar is too large"));
+              return;
+            }
+            chunks.push(chunk);
+          });
+          response.on("end", () =>
+            resolve(Buffer.concat(chunks).toString("utf8"))
+          );
+          response.on("error", reject);
+        }
+      );
+      request.on("error", reject);
+    });
+  }
+
+  // Replace a calendar's blocks with the events of an iCal file. Past events
+  // and events from our own feeds are skipped
+  static async importCalendar(
+    calendarId: string,
+    ics: string
+  ): Promise<CalendarSyncResult> {
+    if (!ics.includes("BEGIN:VCALENDAR")) {
+      throw new Error("Not an iCal file");
+    }
+
+    const calendar = await prisma.externalCalendar.findUniqueOrThrow({
+      where: { id: calendarId },
+    });
+
+    const today = HotelUtils.startOfDay(new Date());
+    const events = this.parseCalendar(ics)
+      .filter((event) => event.end > today)
+      .filter((event) => !event.uid?.endsWith(UID_DOMAIN));
+
+    if (events.length > MAX_EVENTS) {
+      throw new Error(`Calendar has more than ${MAX_EVENTS} upcoming events`);
+    }
+
+    const blocks = events.map((event) => ({
+      roomId: calendar.roomId,
+      calendarId,
+      startDate: event.start,
+      endDate: new Date(event.end.getTime() - DAY_MS),
+      reason: "OFFLINE_SALE" as const,
+      note: [calendar.name, event.summary].filter(Boolean).join(": "),
+      externalUid: event.uid,
+    }));
+
+    await prisma.$transaction([
+      prisma.roomBlock.deleteMany({ where: { calendarId } }),
+      prisma.roomBlock.createMany({ data: blocks }),
+      prisma.externalCalendar.update({
+        where: { id: calendarId },
+        data: { lastSyncedAt: new Date(), lastSyncError: null },
+      }),
+    ]);
+
+    // Bookings made here for nights that were also sold on the other channel
+    const bookings = await prisma.hotelBooking.findMany({
+      where: {
+        roomId: calendar.roomId,
+        checkOutDate: { gt: today },
+        ...HotelUtils.activeBookingFilter(),
+      },
+      select: { id: true, checkInDate: true, checkOutDate: true },
+    });
+    const conflicts = bookings
+      .filter((booking) =>
+        blocks.some(
+          (block) =>
+            block.startDate < booking.checkOutDate &&
+            block.endDate >= HotelUtils.startOfDay(booking.checkInDate)
+        )
+      )
+      .map((booking) => ({
+        bookingId: booking.id,
+        checkInDate: booking.checkInDate,
+        checkOutDate: booking.checkOutDate,
+      }));
+
+    return { calendarId, imported: blocks.length, conflicts };
+  }
+
+  // Download and import a URL calendar, recording the error if it fails.
+  // The previous blocks are kept when a sync fails
+  static async syncCalendar(calendarId: string): Promise<CalendarSyncResult> {
+    const calendar = await prisma.externalCalendar.findUniqueOrThrow({
+      where: { id: calendarId },
+    });
+
+    if (!calendar.url) {
+      throw new Error("Uploaded calendars are updated by uploading again");
+    }
+
+    try {
+      const ics = await this.loadCalendar(calendar.url);
+      return await this.importCalendar(calendarId, ics);
+    } catch (error) {
+      console.error(`Calendar ${calendarId} sync error:`, error);
+      const message = this.describeSyncError(error);
+      await prisma.externalCalendar.update({
+        where: { id: calendarId },
+        data: { lastSyncError: message },
+      });
+      throw new Error(message);
+    }
+  }
+
+  // Errors raised here are safe to show to the vendor. Anything else (DNS,
+  // TLS or socket errors) can describe our network, so it is replaced
+  private static describeSyncError(error: unknown): string {
+    if (
+      error instanceof Error &&
+      (error.message.startsWith("Calendar ") ||
+        error.message === "Not an iCal file")
+    ) {
+      return error.message;
+    }
+    return "Calendar could not be downloaded";
+  }
+
+  // Sync every URL calendar, one at a time
+  static async syncAllCalendars(): Promise<{
+    synced: number;
+    failed: number;
+    conflicts: number;
+  }> {
+    const calendars = await prisma.externalCalendar.findMany({
+      where: { url: { not: null } },
+      select: { id: true },
+      orderBy: { lastSyncedAt: { sort: "asc", nulls: "first" } },
+    });
+
+    const summary = { synced: 0, failed: 0, conflicts: 0 };
+
+    for (const calendar of calendars) {
+      try {
+        const result = await this.syncCalendar(calendar.id);
+        summary.synced++;
+        summary.conflicts += result.conflicts.length;
+      } catch {
+        // Recorded on the calendar as lastSyncError
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+}
+
+export default IcalUtils;
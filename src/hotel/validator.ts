@@ -11,6 +11,15 @@ const hotelCategorySchema = z.enum([
 // Room Type enum
 const roomTypeSchema = z.enum(["STANDARD", "DELUXE", "SUITE", "DORMITORY"]);
 
+// Meal plan and add-on enums
+const mealPlanTypeSchema = z.enum(["EP", "CP", "MAP", "AP"]);
+const chargeUnitSchema = z.enum([
+  "PER_NIGHT",
+  "PER_GUEST",
+  "PER_GUEST_PER_NIGHT",
+  "ONE_TIME",
+]);
+
 // Time pattern for check-in/check-out times (HH:MM format)
 const timePattern = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
 
@@ -135,6 +144,37 @@ export const updateHotelProfileSchema = z.object({
   }),
 });
 
+// Optional number sent as JSON or multipart form text. An empty string or
+// null clears the value
+const nullableNumberSchema = (label: string, integer = false) =>
+  z
+    .union([z.number(), z.string(), z.null()])
+    .transform((val) => {
+      if (typeof val === "string") {
+        if (val === "") return null;
+        const parsed = Number(val);
+        if (isNaN(parsed)) {
+          throw new Error(`${label} must be a valid number`);
+        }
+        return parsed;
+      }
+      return val;
+    })
+    .refine(
+      (val) =>
+        val === null || (val >= 0 && (!integer || Number.isInteger(val))),
+      `${label} must be a ${integer ? "whole number" : "number"} of at least 0`
+    )
+    .optional();
+
+// Occupancy fields of a room: capacity is the base occupancy included in the
+// price, extra guests up to maxOccupancy pay the extra adult/child price
+const occupancyFields = {
+  maxOccupancy: nullableNumberSchema("Maximum occupancy", true),
+  extraAdultPrice: nullableNumberSchema("Extra adult price"),
+  extraChildPrice: nullableNumberSchema("Extra child price"),
+};
+
 export const addRoomSchema = z.object({
   body: z.object({
     roomType: roomTypeSchema,
@@ -152,6 +192,7 @@ export const addRoomSchema = z.object({
         return val;
       })
       .refine((val) => val >= 1, "Room must accommodate at least 1 person"),
+    ...occupancyFields,
     basePrice: z
       .union([z.number(), z.string()])
       .transform((val) => {
@@ -243,6 +284,7 @@ export const updateRoomSchema = z.object({
       })
       .refine((val) => val >= 1, "Room must accommodate at least 1 person")
       .optional(),
+    ...occupancyFields,
     basePrice: z
       .union([z.number(), z.string()])
       .transform((val) => {
@@ -338,6 +380,28 @@ export const hotelBookingSchema = z.object({
         }, "Check-in date cannot be in the past"),
       checkOutDate: z.string().transform((str) => new Date(str)),
       numberOfGuests: z.number().int().min(1, "Must have at least 1 guest"),
+      mealPlan: mealPlanTypeSchema.optional(),
+      addOns: z
+        .array(
+          z.object({
+            addOnId: z.string().min(1, "Add-on ID is required"),
+            quantity: z.number().int().min(1).max(50).optional(),
+          })
+        )
+        .max(20, "Too many add-ons")
+        .refine(
+          (addOns) =>
+            new Set(addOns.map((addOn) => addOn.addOnId)).size ===
+            addOns.length,
+          "Each add-on can only be chosen once"
+        )
+        .optional(),
+      promoCode: z
+        .string()
+        .trim()
+        .min(3, "Promo code is too short")
+        .max(30, "Promo code is too long")
+        .optional(),
     })
     .refine((data) => data.checkOutDate > data.checkInDate, {
       message: "Check-out date must be after check-in date",
@@ -399,6 +463,20 @@ export const checkAvailabilitySchema = z.object({
   }),
 });
 
+export const availabilityCalendarSchema = z.object({
+  query: z.object({
+    // Defaults to the current month
+    month: z
+      .string()
+      .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format")
+      .optional(),
+    guests: z
+      .string()
+      .transform((val) => (val ? parseInt(val) : undefined))
+      .optional(),
+  }),
+});
+
 export const paymentVerificationSchema = z.object({
   body: z.object({
     razorpay_payment_id: z.string().min(1, "Payment ID is required"),
@@ -409,6 +487,273 @@ export const paymentVerificationSchema = z.object({
 
 export const refundSchema = z.object({
   body: z.object({
-    refundAmount: z.number().min(0).optional(),
+    refundAmount: z.number().positive().optional(),
+  }),
+});
+
+// Days per month in a leap year, so 29 Feb is accepted
+const daysInMonth = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const seasonWindowSchema = z
+  .object({
+    name: z.string().trim().min(1, "Season name is required").max(100),
+    season: z.enum(["SUMMER", "WINTER"]),
+    startMonth: z.number().int().min(1).max(12),
+    startDay: z.number().int().min(1).max(31),
+    endMonth: z.number().int().min(1).max(12),
+    endDay: z.number().int().min(1).max(31),
+  })
+  .refine(
+    (data) =>
+      data.startDay <= daysInMonth[data.startMonth - 1]! &&
+      data.endDay <= daysInMonth[data.endMonth - 1]!,
+    { message: "Invalid day for the selected month" }
+  );
+
+// Replaces the hotel's season windows. An empty list restores the default
+// summer (Jun-Aug) and winter (Dec-Feb) windows.
+export const hotelSeasonsSchema = z.object({
+  body: z.object({
+    seasons: z.array(seasonWindowSchema).max(20, "Too many seasons"),
+  }),
+});
+
+const calendarDateSchema = (label: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be in YYYY-MM-DD format`);
+
+// Maximum number of days set in one rate calendar request
+const MAX_RATE_RANGE_DAYS = 366;
+
+const rateRangeIsValid = (data: { startDate: string; endDate: string }) => {
+  const days =
+    (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) /
+    (1000 * 60 * 60 * 24);
+  return days >= 0 && days < MAX_RATE_RANGE_DAYS;
+};
+
+const rateRangeMessage = {
+  message: `End date must be on or after start date and within ${MAX_RATE_RANGE_DAYS} days`,
+  path: ["endDate"],
+};
+
+// Set rate calendar values for every date from startDate to endDate (inclusive).
+// Omitted fields are left unchanged, null clears them.
+export const setRoomRatesSchema = z.object({
+  body: z
+    .object({
+      startDate: calendarDateSchema("Start date"),
+      endDate: calendarDateSchema("End date"),
+      price: z
+        .number()
+        .positive("Price must be positive")
+        .nullable()
+        .optional(),
+      minStay: z.number().int().min(1).max(30).nullable().optional(),
+      maxStay: z.number().int().min(1).max(90).nullable().optional(),
+      label: z.string().trim().max(100).nullable().optional(),
+    })
+    .refine(rateRangeIsValid, rateRangeMessage)
+    .refine(
+      (data) =>
+        data.price !== undefined ||
+        data.minStay !== undefined ||
+        data.maxStay !== undefined ||
+        data.label !== undefined,
+      { message: "Nothing to update" }
+    )
+    .refine(
+      (data) => !data.minStay || !data.maxStay || data.minStay <= data.maxStay,
+      {
+        message: "Minimum stay cannot exceed maximum stay",
+        path: ["maxStay"],
+      }
+    ),
+});
+
+export const roomRatesRangeSchema = z.object({
+  query: z
+    .object({
+      startDate: calendarDateSchema("Start date"),
+      endDate: calendarDateSchema("End date"),
+    })
+    .refine(rateRangeIsValid, rateRangeMessage),
+});
+
+// Close a room from startDate to endDate, both nights inclusive
+export const roomBlockSchema = z.object({
+  body: z
+    .object({
+      startDate: calendarDateSchema("Start date"),
+      endDate: calendarDateSchema("End date"),
+      reason: z.enum(["MAINTENANCE", "OWNER_USE", "OFFLINE_SALE"]),
+      note: z.string().trim().max(500).optional(),
+    })
+    .refine(rateRangeIsValid, rateRangeMessage),
+});
+
+export const roomBlocksQuerySchema = z.object({
+  query: z
+    .object({
+      startDate: calendarDateSchema("Start date").optional(),
+      endDate: calendarDateSchema("End date").optional(),
+    })
+    .refine((data) => !data.startDate === !data.endDate, {
+      message: "Provide both start and end date, or neither",
+      path: ["endDate"],
+    })
+    .refine(
+      (data) =>
+        !data.startDate ||
+        !data.endDate ||
+        rateRangeIsValid({ startDate: data.startDate, endDate: data.endDate }),
+      rateRangeMessage
+    ),
+});
+
+// Airbnb, Booking.com etc. publish calendars as https or webcal URLs (webcal
+// is fetched over https). file:// URLs are accepted only when
+// ICAL_FIXTURE_DIR is set, for local fixtures
+const calendarUrlSchema = z
+  .string()
+  .trim()
+  .max(2000)
+  .refine(
+    (url) =>
+      /^(https|webcal):\/\/\S+$/i.test(url) ||
+      (!!process.env.ICAL_FIXTURE_DIR && /^file:\/\/\S+$/i.test(url)),
+    "Calendar URL must start with https:// or webcal://"
+  );
+
+const calendarNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Calendar name is required")
+  .max(100);
+
+export const externalCalendarSchema = z.object({
+  body: z.object({
+    name: calendarNameSchema,
+    url: calendarUrlSchema,
   }),
 });
+
+// Multipart form field sent with an uploaded .ics file
+export const calendarUploadSchema = z.object({
+  body: z.object({
+    name: calendarNameSchema,
+  }),
+});
+
+const cancellationTierSchema = z.object({
+  minHoursBeforeCheckIn: z.number().int().min(0).max(8760),
+  refundPercent: z.number().int().min(0).max(100),
+});
+
+// Age bands for guests: up to infantMaxAge stay free, up to childMaxAge pay
+// the child price, older guests are adults
+export const childPolicySchema = z.object({
+  body: z
+    .object({
+      infantMaxAge: z.number().int().min(0).max(17),
+      childMaxAge: z.number().int().min(0).max(17),
+    })
+    .refine((data) => data.childMaxAge >= data.infantMaxAge, {
+      message: "Child age limit cannot be below the infant age limit",
+      path: ["childMaxAge"],
+    }),
+});
+
+// Choose a preset policy, or define CUSTOM refund tiers
+export const cancellationPolicySchema = z.object({
+  body: z
+    .object({
+      type: z.enum([
+        "FLEXIBLE",
+        "MODERATE",
+        "STRICT",
+        "NON_REFUNDABLE",
+        "CUSTOM",
+      ]),
+      tiers: z.array(cancellationTierSchema).max(10).optional(),
+      description: z.string().trim().min(1).max(1000).optional(),
+    })
+    .refine((data) => data.type !== "CUSTOM" || data.tiers !== undefined, {
+      message: "Refund tiers are required for a custom policy",
+      path: ["tiers"],
+    })
+    .refine(
+      (data) => {
+        const tiers = [...(data.tiers || [])].sort(
+          (a, b) => b.minHoursBeforeCheckIn - a.minHoursBeforeCheckIn
+        );
+        // Less notice can never earn a bigger refund
+        return tiers.every(
+          (tier, index) =>
+            index === 0 ||
+            (tier.minHoursBeforeCheckIn <
+              tiers[index - 1]!.minHoursBeforeCheckIn &&
+              tier.refundPercent <= tiers[index - 1]!.refundPercent)
+        );
+      },
+      {
+        message:
+          "Tiers must have distinct notice periods and refunds that do not increase as notice shortens",
+        path: ["tiers"],
+      }
+    ),
+});
+
+// Replaces the hotel's meal plans, at most one per plan type. Plans left out
+// are removed.
+export const mealPlansSchema = z.object({
+  body: z.object({
+    mealPlans: z
+      .array(
+        z.object({
+          plan: mealPlanTypeSchema,
+          description: z.string().trim().max(500).nullable().optional(),
+          price: z.number().min(0, "Price cannot be negative"),
+          chargeUnit: chargeUnitSchema.default("PER_GUEST_PER_NIGHT"),
+          isActive: z.boolean().optional(),
+        })
+      )
+      .max(4)
+      .refine(
+        (mealPlans) =>
+          new Set(mealPlans.map((mealPlan) => mealPlan.plan)).size ===
+          mealPlans.length,
+        "Each meal plan can only be listed once"
+      ),
+  }),
+});
+
+export const addOnSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "Add-on name is required").max(100),
+    description: z.string().trim().max(500).nullable().optional(),
+    price: z.number().positive("Price must be positive"),
+    chargeUnit: chargeUnitSchema.default("ONE_TIME"),
+    maxQuantity: z.number().int().min(1).max(50).nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const updateAddOnSchema = z.object({
+  body: z
+    .object({
+      name: z.string().trim().min(1).max(100).optional(),
+      description: z.string().trim().max(500).nullable().optional(),
+      price: z.number().positive("Price must be positive").optional(),
+      chargeUnit: chargeUnitSchema.optional(),
+      maxQuantity: z.number().int().min(1).max(50).nullable().optional(),
+      isActive: z.boolean().optional(),
+    })
+    .refine(
+      (data) => Object.values(data).some((value) => value !== undefined),
+      {
+        message: "Nothing to update",
+      }
+    ),
+});
@@ -7,6 +7,20 @@ import rateLimit from "express-rate-limit";
 // Import routes
 import authRoutes from "./auth/authRoutes.js";
 import { hotelRoutes } from "./hotel/hotelRoutes.js";
+import { hotelController } from "./hotel/hotelController.js";
+import { adventureRoutes } from "./adventure/adventureRoutes.js";
+import { transportRoutes } from "./transport/transportRoutes.js";
+import { marketRoutes } from "./market/marketRoutes.js";
+import { cartRoutes } from "./cart/cartRoutes.js";
+import { webhookRoutes, razorpayWebhook } from "./webhook/webhookRoutes.js";
+import { paymentRoutes, fakePaymentRoutes } from "./payment/paymentRoutes.js";
+import { paymentController } from "./payment/paymentController.js";
+import { payoutRoutes } from "./payout/payoutRoutes.js";
+import { payoutController } from "./payout/payoutController.js";
+import { agreementRoutes } from "./agreement/agreementRoutes.js";
+import { invoiceRoutes } from "./invoice/invoiceRoutes.js";
+import { taxRoutes } from "./tax/taxRoutes.js";
+import { promoRoutes } from "./promo/promoRoutes.js";
 
 // Import services
 import { OTPService } from "./auth/otpService.js";
@@ -50,6 +64,16 @@ const generalLimiter = rateLimit({
 // Apply general rate limiting to all requests
 app.use(generalLimiter);
 
+// ================================
+// WEBHOOK ROUTES (raw body, before JSON parsing)
+// ================================
+
+// Payment gateway webhooks
+app.use("/api/webhooks", webhookRoutes);
+
+// Old Razorpay webhook URL
+app.post("/api/hotels/payment-webhook", ...razorpayWebhook);
+
 // ================================
 // PARSING MIDDLEWARE
 // ================================
@@ -93,6 +117,41 @@ app.use("/api/auth", authRoutes);
 // Hotel management routes
 app.use("/api/hotels", hotelRoutes);
 
+// Adventure activity routes
+app.use("/api/adventures", adventureRoutes);
+
+// Transport fleet routes
+app.use("/api/transport", transportRoutes);
+
+// Local market product routes
+app.use("/api/market", marketRoutes);
+
+// Multi-vendor trip cart routes
+app.use("/api/cart", cartRoutes);
+
+// Promo codes and discount campaigns
+app.use("/api/promos", promoRoutes);
+
+// Vendor agreements and commission terms
+app.use("/api/agreements", agreementRoutes);
+
+// Vendor payout statements and settlement admin
+app.use("/api/payouts", payoutRoutes);
+
+// GST tax and commission invoices
+app.use("/api/invoices", invoiceRoutes);
+
+// TCS/TDS compliance reports
+app.use("/api/tax", taxRoutes);
+
+// Payment admin (refund retries)
+app.use("/api/payments", paymentRoutes);
+
+// Offline payment gateway controls for local development and CI
+if (process.env.PAYMENT_GATEWAY === "fake") {
+  app.use("/api/payments", fakePaymentRoutes);
+}
+
 // ================================
 // ERROR HANDLING MIDDLEWARE
 // ================================
@@ -220,6 +279,18 @@ Started at: ${new Date().toISOString()}
       `);
     });
 
+    // Settle vendor payouts as their weekly or monthly cycles end
+    payoutController.startSettlementScheduler();
+
+    // Issue refunds the payment gateway rejected or that were never sent
+    paymentController.startRefundRetry();
+
+    // Release room holds of checkouts that were not completed in time
+    hotelController.startHoldSweeper();
+
+    // Import the calendars vendors linked from other booking sites
+    hotelController.startCalendarSync();
+
     // Handle graceful shutdown
     process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));
     process.on("SIGINT", () => gracefulShutdown("SIGINT"));
@@ -0,0 +1,5 @@
+export { invoiceController } from "./invoiceController.js";
+export { invoiceRoutes } from "./invoiceRoutes.js";
+export { InvoiceUtils } from "./invoiceUtils.js";
+export { InvoicePdf } from "./invoicePdf.js";
+export * from "./validator.js";
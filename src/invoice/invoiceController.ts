@@ -0,0 +1,333 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import type { Invoice, InvoiceType, Prisma } from "@prisma/client";
+import InvoiceUtils from "./invoiceUtils.js";
+import InvoicePdf from "./invoicePdf.js";
+
+const prisma = new PrismaClient();
+
+// Paid bookings issued per vendor invoice listing, so one request stays quick
+const BACKFILL_BATCH_SIZE = 50;
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static forbidden(res: Response, message: string) {
+    return this.error(res, message, 403);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+
+  static isAdmin(req: Request): boolean {
+    return (req as any).user?.role === "ADMIN";
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+// Database utilities
+class InvoiceDbUtils {
+  static async findVendorByUserId(userId: string) {
+    return await prisma.vendor.findUnique({ where: { userId } });
+  }
+
+  static async findBookingAccess(bookingId: string) {
+    return await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { id: true, userId: true, vendor: { select: { userId: true } } },
+    });
+  }
+
+  // Issue invoices for the vendor's paid bookings that do not have them yet,
+  // oldest first
+  static async backfillVendorInvoices(vendorId: string) {
+    const paidBooking: Prisma.BookingWhereInput = {
+      vendorId,
+      status: { in: ["CONFIRMED", "COMPLETED"] },
+      payment: {
+        paymentStatus: { in: ["SUCCESS", "PARTIALLY_REFUNDED"] },
+      },
+    };
+
+    const [customerPending, commissionPending] = await Promise.all([
+      prisma.booking.findMany({
+        where: { ...paidBooking, invoices: { none: { type: "CUSTOMER_TAX" } } },
+        select: { id: true },
+        orderBy: { createdAt: "asc" },
+        take: BACKFILL_BATCH_SIZE,
+      }),
+      prisma.booking.findMany({
+        where: {
+          ...paidBooking,
+          commissionAmount: { gt: 0 },
+          invoices: { none: { type: "VENDOR_COMMISSION" } },
+        },
+        select: { id: true },
+        orderBy: { createdAt: "asc" },
+        take: BACKFILL_BATCH_SIZE,
+      }),
+    ]);
+
+    const pending: Array<[string, InvoiceType]> = [
+      ...customerPending.map(
+        (booking) => [booking.id, "CUSTOMER_TAX"] as [string, InvoiceType]
+      ),
+      ...commissionPending.map(
+        (booking) => [booking.id, "VENDOR_COMMISSION"] as [string, InvoiceType]
+      ),
+    ];
+
+    // One at a time so numbers follow booking order within each series
+    for (const [bookingId, type] of pending) {
+      try {
+        await InvoiceUtils.issueInvoice(prisma, bookingId, type);
+      } catch (error) {
+        console.error(`Invoice backfill failed for ${bookingId}:`, error);
+      }
+    }
+  }
+}
+
+export class InvoiceController {
+  // JSON by default; ?format=pdf streams the rendered invoice
+  private static sendInvoice(
+    req: ValidatedRequest,
+    res: Response,
+    invoice: Invoice
+  ) {
+    const { format } = req.validatedData?.query || req.query;
+    const view = InvoiceUtils.toInvoiceResponse(invoice);
+
+    if (format === "pdf") {
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename="${invoice.invoiceNumber.replace(/\//g, "-")}.pdf"`
+      );
+      InvoicePdf.render(view).pipe(res);
+      return;
+    }
+
+    return ResponseUtils.success(res, "Invoice retrieved successfully", view);
+  }
+
+  private static handleIssueError(res: Response, error: unknown) {
+    if (error instanceof Error) {
+      if (error.message === "Booking not found") {
+        return ResponseUtils.notFound(res, error.message);
+      }
+      if (
+        error.message.includes("only issued") ||
+        error.message.includes("No commission")
+      ) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+    }
+
+    console.error("Issue invoice error:", error);
+    return ResponseUtils.serverError(res, "Failed to retrieve invoice");
+  }
+
+  // ================================
+  // BOOKING INVOICES
+  // ================================
+
+  // Tax invoice issued by the vendor to the customer. Available to the
+  // customer, the vendor and admins; issued on first request
+  static async getBookingInvoice(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { bookingId } = req.params;
+      if (!bookingId) {
+        return ResponseUtils.badRequest(res, "Booking ID is required");
+      }
+
+      const booking = await InvoiceDbUtils.findBookingAccess(bookingId);
+      if (!booking) {
+        return ResponseUtils.notFound(res, "Booking not found");
+      }
+
+      if (
+        booking.userId !== userId &&
+        booking.vendor.userId !== userId &&
+        !AuthUtils.isAdmin(req)
+      ) {
+        return ResponseUtils.forbidden(
+          res,
+          "You do not have access to this invoice"
+        );
+      }
+
+      const invoice = await InvoiceUtils.issueInvoice(
+        prisma,
+        bookingId,
+        "CUSTOMER_TAX"
+      );
+      return InvoiceController.sendInvoice(req, res, invoice);
+    } catch (error) {
+      return InvoiceController.handleIssueError(res, error);
+    }
+  }
+
+  // Invoice for the platform commission on a booking, issued to the vendor
+  static async getCommissionInvoice(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { bookingId } = req.params;
+      if (!bookingId) {
+        return ResponseUtils.badRequest(res, "Booking ID is required");
+      }
+
+      const booking = await InvoiceDbUtils.findBookingAccess(bookingId);
+      if (!booking) {
+        return ResponseUtils.notFound(res, "Booking not found");
+      }
+
+      if (booking.vendor.userId !== userId && !AuthUtils.isAdmin(req)) {
+        return ResponseUtils.forbidden(
+          res,
+          "Only the vendor can view commission invoices"
+        );
+      }
+
+      const invoice = await InvoiceUtils.issueInvoice(
+        prisma,
+        bookingId,
+        "VENDOR_COMMISSION"
+      );
+      return InvoiceController.sendInvoice(req, res, invoice);
+    } catch (error) {
+      return InvoiceController.handleIssueError(res, error);
+    }
+  }
+
+  // ================================
+  // VENDOR ROUTES
+  // ================================
+
+  // Customer and commission invoices for the vendor's bookings. Paid
+  // bookings without invoices get them issued first
+  static async getVendorInvoices(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await InvoiceDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view invoices"
+        );
+      }
+
+      const {
+        type,
+        financialYear,
+        page = 1,
+        limit = 20,
+      } = req.validatedData?.query || req.query;
+
+      await InvoiceDbUtils.backfillVendorInvoices(vendor.id);
+
+      const where: Prisma.InvoiceWhereInput = {
+        vendorId: vendor.id,
+        ...(type && { type }),
+        ...(financialYear && { financialYear }),
+      };
+
+      const [invoices, total] = await Promise.all([
+        prisma.invoice.findMany({
+          where,
+          orderBy: { issuedAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.invoice.count({ where }),
+      ]);
+
+      return ResponseUtils.success(res, "Invoices retrieved successfully", {
+        invoices: invoices.map((invoice) =>
+          InvoiceUtils.toInvoiceResponse(invoice)
+        ),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error("Get vendor invoices error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve invoices");
+    }
+  }
+
+  static async getVendorInvoice(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await InvoiceDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view invoices"
+        );
+      }
+
+      const { invoiceId } = req.params;
+      if (!invoiceId) {
+        return ResponseUtils.badRequest(res, "Invoice ID is required");
+      }
+
+      const invoice = await prisma.invoice.findFirst({
+        where: { id: invoiceId, vendorId: vendor.id },
+      });
+      if (!invoice) {
+        return ResponseUtils.notFound(res, "Invoice not found");
+      }
+
+      return InvoiceController.sendInvoice(req, res, invoice);
+    } catch (error) {
+      console.error("Get vendor invoice error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve invoice");
+    }
+  }
+}
+
+export const invoiceController = InvoiceController;
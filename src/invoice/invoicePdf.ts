@@ -0,0 +1,241 @@
+import PDFDocument from "pdfkit";
+import type InvoiceUtils from "./invoiceUtils.js";
+import type { InvoiceParty } from "./invoiceUtils.js";
+
+type InvoiceView = ReturnType<typeof InvoiceUtils.toInvoiceResponse>;
+
+const MARGIN = 40;
+
+// Line table: header, width and how to read the cell from a line
+const COLUMNS: Array<{
+  header: string;
+  width: number;
+  align: "left" | "right";
+  cell: (line: InvoiceView["lineItems"][number], index: number) => string;
+}> = [
+  { header: "#", width: 20, align: "left", cell: (_, i) => String(i + 1) },
+  {
+    header: "Description",
+    width: 160,
+    align: "left",
+    cell: (line) => line.description,
+  },
+  {
+    header: "HSN/SAC",
+    width: 50,
+    align: "left",
+    cell: (line) => line.hsnSac || "-",
+  },
+  {
+    header: "Qty",
+    width: 30,
+    align: "right",
+    cell: (line) => String(line.quantity),
+  },
+  {
+    header: "Taxable",
+    width: 55,
+    align: "right",
+    cell: (line) => formatMoney(line.taxableAmount),
+  },
+  {
+    header: "GST %",
+    width: 35,
+    align: "right",
+    cell: (line) => String(line.taxRate),
+  },
+  {
+    header: "CGST",
+    width: 40,
+    align: "right",
+    cell: (line) => formatMoney(line.cgstAmount),
+  },
+  {
+    header: "SGST",
+    width: 40,
+    align: "right",
+    cell: (line) => formatMoney(line.sgstAmount),
+  },
+  {
+    header: "IGST",
+    width: 40,
+    align: "right",
+    cell: (line) => formatMoney(line.igstAmount),
+  },
+  {
+    header: "Amount",
+    width: 45,
+    align: "right",
+    cell: (line) => formatMoney(line.amount),
+  },
+];
+
+const formatMoney = (amount: number) => amount.toFixed(2);
+
+// Invoice date in IST, e.g. "01 Nov 2025"
+const formatIssueDate = (date: Date) =>
+  date.toLocaleDateString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+const partyLines = (party: InvoiceParty) =>
+  [
+    party.name,
+    party.address,
+    party.gstin ? `GSTIN: ${party.gstin}` : null,
+    party.state ? `State: ${party.state} (${party.stateCode})` : null,
+    party.phone ? `Phone: ${party.phone}` : null,
+    party.email ? `Email: ${party.email}` : null,
+  ].filter((line): line is string => !!line);
+
+export class InvoicePdf {
+  // Render a tax invoice as an A4 PDF. The returned document is a readable
+  // stream; pipe it to the response
+  static render(invoice: InvoiceView): PDFKit.PDFDocument {
+    const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+    const pageWidth = doc.page.width - MARGIN * 2;
+
+    doc.info.Title = `Invoice ${invoice.invoiceNumber}`;
+
+    // Title and invoice details
+    doc.font("Helvetica-Bold").fontSize(16).text("TAX INVOICE", {
+      align: "center",
+    });
+    if (invoice.type === "VENDOR_COMMISSION") {
+      doc
+        .font("Helvetica")
+        .fontSize(10)
+        .text("Platform commission", { align: "center" });
+    }
+    doc.moveDown();
+
+    doc.font("Helvetica").fontSize(9);
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`);
+    doc.text(`Invoice Date: ${formatIssueDate(invoice.issuedAt)}`);
+    doc.text(`Financial Year: ${invoice.financialYear}`);
+    doc.text(`Booking: ${invoice.bookingId}`);
+    if (invoice.placeOfSupply) {
+      doc.text(
+        `Place of Supply: ${invoice.placeOfSupply.state || ""} (${invoice.placeOfSupply.stateCode})`
+      );
+    }
+    doc.moveDown();
+
+    // Supplier and recipient side by side
+    const partyTop = doc.y;
+    const halfWidth = pageWidth / 2 - 10;
+
+    doc.font("Helvetica-Bold").text("Supplier", MARGIN, partyTop);
+    doc.font("Helvetica").text(partyLines(invoice.supplier).join("\n"), {
+      width: halfWidth,
+    });
+    const supplierBottom = doc.y;
+
+    doc
+      .font("Helvetica-Bold")
+      .text("Bill To", MARGIN + pageWidth / 2, partyTop);
+    doc.font("Helvetica").text(partyLines(invoice.recipient).join("\n"), {
+      width: halfWidth,
+    });
+
+    doc.y = Math.max(supplierBottom, doc.y) + 15;
+
+    // Line items
+    this.drawRow(
+      doc,
+      COLUMNS.map((column) => column.header),
+      true
+    );
+    invoice.lineItems.forEach((line, index) => {
+      this.drawRow(
+        doc,
+        COLUMNS.map((column) => column.cell(line, index)),
+        false
+      );
+    });
+
+    // Totals
+    doc.moveDown();
+    const totals: Array<[string, number]> = [
+      ["Taxable Value", invoice.taxableAmount],
+      ["CGST", invoice.cgstAmount],
+      ["SGST", invoice.sgstAmount],
+      ["IGST", invoice.igstAmount],
+      ["Total Tax", invoice.totalTax],
+      ["Invoice Total (Rs.)", invoice.totalAmount],
+    ];
+
+    for (const [label, amount] of totals) {
+      const isGrandTotal = label.startsWith("Invoice Total");
+      doc.font(isGrandTotal ? "Helvetica-Bold" : "Helvetica");
+      const y = doc.y;
+      doc.text(label, MARGIN + pageWidth - 220, y, {
+        width: 130,
+        align: "left",
+      });
+      doc.text(formatMoney(amount), MARGIN + pageWidth - 90, y, {
+        width: 90,
+        align: "right",
+      });
+    }
+
+    doc.moveDown(2);
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .text(
+        "Prices are inclusive of GST. This is a computer generated invoice and does not require a signature.",
+        MARGIN,
+        doc.y,
+        { width: pageWidth }
+      );
+
+    doc.end();
+    return doc;
+  }
+
+  private static drawRow(
+    doc: PDFKit.PDFDocument,
+    cells: string[],
+    isHeader: boolean
+  ) {
+    doc.font(isHeader ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+
+    const height =
+      Math.max(
+        ...cells.map((cell, index) =>
+          doc.heightOfString(cell, { width: COLUMNS[index]!.width - 4 })
+        )
+      ) + 6;
+
+    if (doc.y + height > doc.page.height - MARGIN * 2) {
+      doc.addPage();
+    }
+
+    const top = doc.y;
+    let x = MARGIN;
+
+    cells.forEach((cell, index) => {
+      const column = COLUMNS[index]!;
+      doc.text(cell, x + 2, top + 3, {
+        width: column.width - 4,
+        align: column.align,
+      });
+      x += column.width;
+    });
+
+    doc
+      .moveTo(MARGIN, top + height)
+      .lineTo(x, top + height)
+      .lineWidth(isHeader ? 1 : 0.5)
+      .stroke();
+
+    doc.x = MARGIN;
+    doc.y = top + height;
+  }
+}
+
+export default InvoicePdf;
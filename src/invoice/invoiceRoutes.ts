@@ -0,0 +1,51 @@
+import express from "express";
+import { invoiceController } from "./invoiceController.js";
+import { authMiddleware, authorizeVendor } from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import { invoiceFormatSchema, vendorInvoiceListSchema } from "./validator.js";
+
+const router = express.Router();
+
+// ================================
+// BOOKING INVOICES
+// ================================
+
+// Customer tax invoice (customer, vendor or admin). ?format=pdf for the PDF
+router.get(
+  "/bookings/:bookingId",
+  authMiddleware,
+  validate(invoiceFormatSchema),
+  invoiceController.getBookingInvoice
+);
+
+// Commission invoice issued to the vendor (vendor or admin)
+router.get(
+  "/bookings/:bookingId/commission",
+  authMiddleware,
+  validate(invoiceFormatSchema),
+  invoiceController.getCommissionInvoice
+);
+
+// ================================
+// VENDOR ROUTES
+// ================================
+
+// All invoices for the vendor's bookings
+router.get(
+  "/vendor",
+  authMiddleware,
+  authorizeVendor,
+  validate(vendorInvoiceListSchema),
+  invoiceController.getVendorInvoices
+);
+
+// One invoice as JSON or PDF
+router.get(
+  "/vendor/:invoiceId",
+  authMiddleware,
+  authorizeVendor,
+  validate(invoiceFormatSchema),
+  invoiceController.getVendorInvoice
+);
+
+export { router as invoiceRoutes };
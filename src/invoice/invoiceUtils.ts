@@ -0,0 +1,568 @@
+import { Prisma } from "@prisma/client";
+import type { Invoice, InvoiceType, PrismaClient } from "@prisma/client";
+import type { ExtraCharge, NightlyRate } from "../hotel/hotelUtils.js";
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Room tariff slabs: the rate depends on the value of one room night.
+// Rates as notified from 22 Sep 2025
+export const HOTEL_GST_SLABS = [
+  { maxNightlyTariff: 1000, rate: 0 },
+  { maxNightlyTariff: 7500, rate: 5 },
+  { maxNightlyTariff: Infinity, rate: 18 },
+];
+
+// GST rate and SAC/HSN code per service or product category
+export const SERVICE_TAX_RULES = {
+  HOTEL: { hsnSac: "996311" }, // Room accommodation, rate from the slabs
+  HOTEL_ADD_ON: { hsnSac: "999799", rate: 18 }, // Other services
+  ADVENTURE: { hsnSac: "999652", rate: 18 }, // Sports and recreation
+  TRANSPORT: { hsnSac: "996601", rate: 5 }, // Vehicle rental with driver
+  COMMISSION: { hsnSac: "998599", rate: 18 }, // Platform support services
+};
+
+export const PRODUCT_TAX_RULES: Record<
+  string,
+  { hsnSac: string | null; rate: number }
+> = {
+  SAFFRON: { hsnSac: "0910", rate: 5 },
+  DRY_FRUITS: { hsnSac: "0802", rate: 5 },
+  WOOLENS: { hsnSac: "6214", rate: 5 },
+  WOODWORK: { hsnSac: "4420", rate: 5 },
+  HANDICRAFT: { hsnSac: null, rate: 5 },
+  OTHER: { hsnSac: null, rate: 18 },
+};
+
+// GST state codes (first two digits of a GSTIN)
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+export interface InvoiceParty {
+  name: string;
+  gstin: string | null;
+  address: string | null;
+  stateCode: string | null;
+  state: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  hsnSac: string | null;
+  quantity: number;
+  unitPrice: number; // GST inclusive
+  amount: number; // GST inclusive
+  taxRate: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface InvoiceTotals {
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+  totalAmount: number;
+}
+
+type LineInput = {
+  description: string;
+  hsnSac: string | null;
+  quantity: number;
+  amount: number;
+  taxRate: number;
+};
+
+export const INVOICE_BOOKING_INCLUDE = {
+  user: true,
+  vendor: true,
+  payment: true,
+  hotelBooking: { include: { room: true, hotelProfile: true } },
+  adventureBooking: { include: { activity: true } },
+  transportBooking: { include: { vehicle: true } },
+  marketBooking: { include: { product: true } },
+} satisfies Prisma.BookingInclude;
+
+type InvoiceBooking = Prisma.BookingGetPayload<{
+  include: typeof INVOICE_BOOKING_INCLUDE;
+}>;
+
+export class InvoiceUtils {
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  // Indian financial year (April to March, IST) of a date, e.g. "2025-26"
+  static getFinancialYear(date: Date): string {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear =
+      ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+  }
+
+  // GST invoice numbers are at most 16 characters: INV/2526/000001
+  static formatInvoiceNumber(
+    type: InvoiceType,
+    financialYear: string,
+    sequenceNumber: number
+  ): string {
+    const prefix = type === "CUSTOMER_TAX" ? "INV" : "COM";
+    const fy = financialYear.slice(2, 4) + financialYear.slice(5, 7);
+    return `${prefix}/${fy}/${String(sequenceNumber).padStart(6, "0")}`;
+  }
+
+  static getStateCode(gstin: string | null | undefined): string | null {
+    if (!gstin || !/^\d{2}[A-Z0-9]{13}$/.test(gstin)) {
+      return null;
+    }
+    const code = gstin.slice(0, 2);
+    return GST_STATE_CODES[code] ? code : null;
+  }
+
+  static toParty(details: {
+    name: string;
+    gstin?: string | null;
+    address?: string | null;
+    phone?: string | null;
+    email?: string | null;
+  }): InvoiceParty {
+    const stateCode = this.getStateCode(details.gstin);
+    return {
+      name: details.name,
+      gstin: details.gstin || null,
+      address: details.address || null,
+      stateCode,
+      state: stateCode ? GST_STATE_CODES[stateCode]! : null,
+      ...(details.phone !== undefined && { phone: details.phone }),
+      ...(details.email !== undefined && { email: details.email }),
+    };
+  }
+
+  // The platform issues commission invoices
+  static getPlatformParty(): InvoiceParty {
+    return this.toParty({
+      name: process.env.PLATFORM_LEGAL_NAME || "Sojourn",
+      gstin: process.env.PLATFORM_GSTIN || null,
+      address: process.env.PLATFORM_ADDRESS || null,
+    });
+  }
+
+  // Slab for a room night. Booking prices include GST, so the slab is the
+  // one whose limit the pre-tax tariff falls under
+  static getHotelGstRate(nightlyPrice: number): number {
+    for (const slab of HOTEL_GST_SLABS) {
+      const tariff = (nightlyPrice * 100) / (100 + slab.rate);
+      if (tariff <= slab.maxNightlyTariff) {
+        return slab.rate;
+      }
+    }
+    return HOTEL_GST_SLABS[HOTEL_GST_SLABS.length - 1]!.rate;
+  }
+
+  // Split a GST-inclusive amount into taxable value and CGST + SGST (same
+  // state) or IGST (different states)
+  static buildLine(input: LineInput, interState: boolean): InvoiceLine {
+    const amount = this.roundAmount(input.amount);
+    const taxableAmount = this.roundAmount(
+      (amount * 100) / (100 + input.taxRate)
+    );
+    const tax = this.roundAmount(amount - taxableAmount);
+    const cgstAmount = interState ? 0 : this.roundAmount(tax / 2);
+
+    return {
+      description: input.description,
+      hsnSac: input.hsnSac,
+      quantity: input.quantity,
+      unitPrice: this.roundAmount(amount / (input.quantity || 1)),
+      amount,
+      taxRate: input.taxRate,
+      taxableAmount,
+      cgstAmount,
+      sgstAmount: interState ? 0 : this.roundAmount(tax - cgstAmount),
+      igstAmount: interState ? tax : 0,
+    };
+  }
+
+  static calculateTotals(lines: InvoiceLine[]): InvoiceTotals {
+    const sum = (pick: (line: InvoiceLine) => number) =>
+      this.roundAmount(lines.reduce((total, line) => total + pick(line), 0));
+
+    const cgstAmount = sum((line) => line.cgstAmount);
+    const sgstAmount = sum((line) => line.sgstAmount);
+    const igstAmount = sum((line) => line.igstAmount);
+
+    return {
+      taxableAmount: sum((line) => line.taxableAmount),
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      totalTax: this.roundAmount(cgstAmount + sgstAmount + igstAmount),
+      totalAmount: sum((line) => line.amount),
+    };
+  }
+
+  // Share of the listed price the vendor actually charged. A vendor-funded
+  // promo discount lowers the value of supply; a platform-funded one does
+  // not, as the vendor still receives the full price
+  static getDiscountRatio(booking: InvoiceBooking): number {
+    if (booking.discountFundedBy !== "VENDOR" || booking.discountAmount <= 0) {
+      return 1;
+    }
+
+    const listedAmount = booking.totalAmount + booking.discountAmount;
+    return listedAmount > 0 ? booking.totalAmount / listedAmount : 1;
+  }
+
+  // One line per room night (slab depends on the night's tariff), activity,
+  // trip or product. A trip cart booking can hold several of these
+  static buildCustomerLines(booking: InvoiceBooking): LineInput[] {
+    const lines: LineInput[] = [];
+    const ratio = this.getDiscountRatio(booking);
+
+    for (const stay of booking.hotelBooking) {
+      const label = `${stay.hotelProfile.hotelName} - ${stay.room.roomType} room`;
+      let stayRate = 0;
+      for (const night of this.getNights(stay)) {
+        const price = this.roundAmount(night.price * ratio);
+        const taxRate = this.getHotelGstRate(price);
+        stayRate = Math.max(stayRate, taxRate);
+        lines.push({
+          description: `${label}, night of ${night.date}`,
+          hsnSac: SERVICE_TAX_RULES.HOTEL.hsnSac,
+          quantity: 1,
+          amount: price,
+          taxRate,
+        });
+      }
+
+      // Extra guests and meals sold with the room are part of the
+      // accommodation supply and take its rate; add-ons are separate services
+      for (const charge of this.getExtras(stay)) {
+        const isAddOn = charge.type === "ADD_ON";
+        lines.push({
+          description: `${label}, ${charge.name}`,
+          hsnSac: isAddOn
+            ? SERVICE_TAX_RULES.HOTEL_ADD_ON.hsnSac
+            : SERVICE_TAX_RULES.HOTEL.hsnSac,
+          quantity: charge.units * charge.quantity,
+          amount: this.roundAmount(charge.amount * ratio),
+          taxRate: isAddOn ? SERVICE_TAX_RULES.HOTEL_ADD_ON.rate : stayRate,
+        });
+      }
+    }
+
+    for (const activity of booking.adventureBooking) {
+      lines.push({
+        description: `${activity.activity.activityName} on ${this.formatDate(activity.bookingDate)}${activity.slotTime ? ` at ${activity.slotTime}` : ""}`,
+        hsnSac: SERVICE_TAX_RULES.ADVENTURE.hsnSac,
+        quantity: activity.numberOfPeople,
+        amount: this.roundAmount(activity.totalAmount * ratio),
+        taxRate: SERVICE_TAX_RULES.ADVENTURE.rate,
+      });
+    }
+
+    for (const trip of booking.transportBooking) {
+      lines.push({
+        description: `${trip.vehicle.vehicleType} ${trip.pickupLocation} to ${trip.dropLocation} on ${this.formatDate(trip.pickupTime)}`,
+        hsnSac: SERVICE_TAX_RULES.TRANSPORT.hsnSac,
+        quantity: 1,
+        amount: this.roundAmount(trip.totalAmount * ratio),
+        taxRate: SERVICE_TAX_RULES.TRANSPORT.rate,
+      });
+    }
+
+    for (const order of booking.marketBooking) {
+      const rule =
+        PRODUCT_TAX_RULES[order.product.category] || PRODUCT_TAX_RULES.OTHER!;
+      lines.push({
+        description: order.product.productName,
+        hsnSac: rule.hsnSac,
+        quantity: order.quantity,
+        amount: this.roundAmount(order.totalAmount * ratio),
+        taxRate: rule.rate,
+      });
+    }
+
+    // Last line absorbs rounding so a discounted invoice adds up to the
+    // amount charged
+    const lastLine = lines[lines.length - 1];
+    if (ratio !== 1 && lastLine) {
+      const total = lines.reduce((sum, line) => sum + line.amount, 0);
+      lastLine.amount = this.roundAmount(
+        lastLine.amount + booking.totalAmount - total
+      );
+    }
+
+    return lines;
+  }
+
+  // Nightly prices stored at booking time; older bookings without them are
+  // split evenly over the nights
+  static getNights(stay: InvoiceBooking["hotelBooking"][number]) {
+    if (stay.nightlyRates) {
+      try {
+        const rates = JSON.parse(stay.nightlyRates) as NightlyRate[];
+        if (rates.length > 0) {
+          return rates.map((rate) => ({ date: rate.date, price: rate.price }));
+        }
+      } catch {
+        // Fall through to an even split
+      }
+    }
+
+    const nights = Math.max(
+      1,
+      Math.round(
+        (stay.checkOutDate.getTime() - stay.checkInDate.getTime()) / DAY_MS
+      )
+    );
+    const roomAmount = this.roundAmount(stay.totalAmount - stay.extrasAmount);
+    const price = this.roundAmount(roomAmount / nights);
+
+    return Array.from({ length: nights }, (_, index) => ({
+      date: this.formatDate(
+        new Date(stay.checkInDate.getTime() + index * DAY_MS)
+      ),
+      // Last night absorbs rounding so the lines add up to the booking
+      price:
+        index === nights - 1
+          ? this.roundAmount(roomAmount - price * (nights - 1))
+          : price,
+    }));
+  }
+
+  // Extra guest, meal plan and add-on charges stored at booking time
+  static getExtras(stay: InvoiceBooking["hotelBooking"][number]) {
+    if (!stay.extras) {
+      return [];
+    }
+    try {
+      return JSON.parse(stay.extras) as ExtraCharge[];
+    } catch {
+      return [];
+    }
+  }
+
+  static formatDate(date: Date): string {
+    return date.toISOString().split("T")[0]!;
+  }
+
+  // Customer tax invoices need a paid, live booking
+  static assertInvoiceable(booking: InvoiceBooking, type: InvoiceType) {
+    const paid =
+      booking.payment &&
+      ["SUCCESS", "PARTIALLY_REFUNDED"].includes(booking.payment.paymentStatus);
+
+    if (!paid || !["CONFIRMED", "COMPLETED"].includes(booking.status)) {
+      throw new Error("Invoices are only issued for paid bookings");
+    }
+
+    if (type === "VENDOR_COMMISSION" && booking.commissionAmount <= 0) {
+      throw new Error("No commission was charged on this booking");
+    }
+  }
+
+  static async nextSequenceNumber(
+    tx: Prisma.TransactionClient,
+    series: string,
+    financialYear: string
+  ): Promise<number> {
+    const sequence = await tx.invoiceSequence.upsert({
+      where: { series_financialYear: { series, financialYear } },
+      create: { series, financialYear, lastNumber: 1 },
+      update: { lastNumber: { increment: 1 } },
+    });
+
+    return sequence.lastNumber;
+  }
+
+  // Issue the booking's invoice of this type, or return it if it was already
+  // issued. Numbers are taken in the same transaction as the invoice, so a
+  // failed issue leaves no gap in the series
+  static async issueInvoice(
+    prisma: PrismaClient,
+    bookingId: string,
+    type: InvoiceType
+  ): Promise<Invoice> {
+    const existing = await prisma.invoice.findUnique({
+      where: { bookingId_type: { bookingId, type } },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const booking = await tx.booking.findUnique({
+          where: { id: bookingId },
+          include: INVOICE_BOOKING_INCLUDE,
+        });
+        if (!booking) {
+          throw new Error("Booking not found");
+        }
+
+        this.assertInvoiceable(booking, type);
+
+        const vendorParty = this.toParty({
+          name: booking.vendor.businessName,
+          gstin: booking.vendor.gstNumber,
+          address: booking.vendor.businessAddress,
+          phone: booking.vendor.contactNumbers[0] || null,
+          email: booking.vendor.email,
+        });
+
+        let supplier: InvoiceParty;
+        let recipient: InvoiceParty;
+        let lines: InvoiceLine[];
+
+        if (type === "CUSTOMER_TAX") {
+          const customerName = [booking.user.firstName, booking.user.lastName]
+            .filter(Boolean)
+            .join(" ");
+
+          supplier = vendorParty;
+          recipient = this.toParty({
+            name: customerName || booking.user.phoneNumber,
+            address: booking.user.address,
+            phone: booking.user.phoneNumber,
+            email: booking.user.email,
+          });
+          // Supplied where the vendor operates, to an unregistered customer
+          lines = this.buildCustomerLines(booking).map((line) =>
+            this.buildLine(line, false)
+          );
+        } else {
+          supplier = this.getPlatformParty();
+          recipient = vendorParty;
+          const interState =
+            !!supplier.stateCode &&
+            !!recipient.stateCode &&
+            supplier.stateCode !== recipient.stateCode;
+
+          lines = [
+            this.buildLine(
+              {
+                description: `Platform commission (${booking.commissionRate ?? this.roundAmount((booking.commissionAmount / booking.totalAmount) * 100)}%) on booking ${booking.id}`,
+                hsnSac: SERVICE_TAX_RULES.COMMISSION.hsnSac,
+                quantity: 1,
+                amount: booking.commissionAmount,
+                taxRate: SERVICE_TAX_RULES.COMMISSION.rate,
+              },
+              interState
+            ),
+          ];
+        }
+
+        const issuedAt = new Date();
+        const financialYear = this.getFinancialYear(issuedAt);
+        const series =
+          type === "CUSTOMER_TAX" ? `vendor:${booking.vendorId}` : "platform";
+        const sequenceNumber = await this.nextSequenceNumber(
+          tx,
+          series,
+          financialYear
+        );
+
+        return await tx.invoice.create({
+          data: {
+            type,
+            invoiceNumber: this.formatInvoiceNumber(
+              type,
+              financialYear,
+              sequenceNumber
+            ),
+            series,
+            financialYear,
+            sequenceNumber,
+            bookingId,
+            vendorId: booking.vendorId,
+            customerId: type === "CUSTOMER_TAX" ? booking.userId : null,
+            issuedAt,
+            supplier: JSON.stringify(supplier),
+            recipient: JSON.stringify(recipient),
+            placeOfSupply:
+              type === "CUSTOMER_TAX"
+                ? supplier.stateCode
+                : recipient.stateCode,
+            lineItems: JSON.stringify(lines),
+            ...this.calculateTotals(lines),
+          },
+        });
+      });
+    } catch (error) {
+      // Issued by a concurrent request
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        const issued = await prisma.invoice.findUnique({
+          where: { bookingId_type: { bookingId, type } },
+        });
+        if (issued) {
+          return issued;
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Invoice with its JSON columns parsed
+  static toInvoiceResponse(invoice: Invoice) {
+    return {
+      ...invoice,
+      supplier: JSON.parse(invoice.supplier) as InvoiceParty,
+      recipient: JSON.parse(invoice.recipient) as InvoiceParty,
+      placeOfSupply: invoice.placeOfSupply
+        ? {
+            stateCode: invoice.placeOfSupply,
+            state: GST_STATE_CODES[invoice.placeOfSupply] || null,
+          }
+        : null,
+      lineItems: JSON.parse(invoice.lineItems) as InvoiceLine[],
+    };
+  }
+}
+
+export default InvoiceUtils;
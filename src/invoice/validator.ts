@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+const formatQuery = {
+  format: z.enum(["json", "pdf"]).optional().default("json"),
+};
+
+export const invoiceFormatSchema = z.object({
+  query: z.object(formatQuery),
+});
+
+export const vendorInvoiceListSchema = z.object({
+  query: z.object({
+    type: z.enum(["CUSTOMER_TAX", "VENDOR_COMMISSION"]).optional(),
+    financialYear: z
+      .string()
+      .regex(/^\d{4}-\d{2}$/, "Financial year must be in YYYY-YY format")
+      .optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("20")
+      .transform((val) => Math.min(parseInt(val) || 20, 100)),
+  }),
+});
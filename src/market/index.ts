@@ -0,0 +1,4 @@
+export { marketController } from "./marketController.js";
+export { marketRoutes } from "./marketRoutes.js";
+export { MarketUtils } from "./marketUtils.js";
+export * from "./validator.js";
@@ -0,0 +1,1516 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import MarketUtils from "./marketUtils.js";
+import PaymentUtils from "../payment/paymentUtils.js";
+import PromoUtils from "../promo/promoUtils.js";
+
+const prisma = new PrismaClient();
+
+// Mask phone number to show only last 2 digits
+class SecurityUtils {
+  static maskPhoneNumber(phoneNumber: string): string {
+    if (!phoneNumber || phoneNumber.length <= 2) return phoneNumber;
+    return "*".repeat(phoneNumber.length - 2) + phoneNumber.slice(-2);
+  }
+}
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static forbidden(res: Response, message: string) {
+    return this.error(res, message, 403);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+// Simple vendor database utilities
+class VendorDbUtils {
+  static async findVendorByUserId(userId: string) {
+    return await prisma.vendor.findUnique({
+      where: { userId },
+    });
+  }
+
+  // Get (or lazily create) the market profile of an approved LOCAL_MARKET vendor
+  static async findMarketVendor(userId: string) {
+    const vendor = await this.findVendorByUserId(userId);
+    if (!vendor) {
+      return { error: "Only vendors can manage products" } as const;
+    }
+
+    if (vendor.status !== "APPROVED") {
+      return { error: "Vendor approval required to manage products" } as const;
+    }
+
+    if (vendor.vendorType !== "LOCAL_MARKET") {
+      return {
+        error: "Vendor type must be LOCAL_MARKET to manage products",
+      } as const;
+    }
+
+    // The shop is named after the business until the vendor renames it
+    const marketProfile = await prisma.localMarketProfile.upsert({
+      where: { vendorId: vendor.id },
+      update: {},
+      create: { vendorId: vendor.id, shopName: vendor.businessName },
+    });
+
+    return { vendor, marketProfile } as const;
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+export class MarketController {
+  // ================================
+  // VENDOR PRODUCT MANAGEMENT
+  // ================================
+
+  static async createProduct(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      // Use validated data from middleware
+      const {
+        productName,
+        category,
+        description,
+        priceMin,
+        priceMax,
+        minOrderQuantity,
+        hasDelivery,
+        deliveryAreas,
+        certifications,
+      } = req.validatedData?.body || req.body;
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const product = await prisma.product.create({
+        data: {
+          localMarketProfileId: result.marketProfile.id,
+          productName,
+          category,
+          description,
+          priceMin,
+          priceMax,
+          minOrderQuantity: minOrderQuantity || 1,
+          hasDelivery: hasDelivery || false,
+          deliveryAreas: deliveryAreas || [],
+          certifications: certifications || [],
+        },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Product created successfully",
+        product
+      );
+    } catch (error) {
+      console.error("Create product error:", error);
+      return ResponseUtils.serverError(res, "Failed to create product");
+    }
+  }
+
+  static async updateProduct(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { productId } = req.params;
+      const updateData = req.validatedData?.body || req.body;
+
+      if (!productId) {
+        return ResponseUtils.badRequest(res, "Product ID is required");
+      }
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id: productId,
+          localMarketProfileId: result.marketProfile.id,
+        },
+      });
+
+      if (!product) {
+        return ResponseUtils.notFound(res, "Product not found");
+      }
+
+      // Check the merged values so partial updates cannot break the product
+      const nextPriceMin = updateData.priceMin ?? product.priceMin;
+      const nextPriceMax = updateData.priceMax ?? product.priceMax;
+      if (nextPriceMin > nextPriceMax) {
+        return ResponseUtils.badRequest(
+          res,
+          "Minimum price cannot be greater than maximum price"
+        );
+      }
+
+      const nextHasDelivery = updateData.hasDelivery ?? product.hasDelivery;
+      const nextDeliveryAreas =
+        updateData.deliveryAreas ?? product.deliveryAreas;
+      if (nextHasDelivery && nextDeliveryAreas.length === 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "At least one delivery area is required when delivery is offered"
+        );
+      }
+
+      const updatedProduct = await prisma.product.update({
+        where: { id: productId },
+        data: updateData,
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Product updated successfully",
+        updatedProduct
+      );
+    } catch (error) {
+      console.error("Update product error:", error);
+      return ResponseUtils.serverError(res, "Failed to update product");
+    }
+  }
+
+  static async toggleProductAvailability(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { productId } = req.params;
+
+      if (!productId) {
+        return ResponseUtils.badRequest(res, "Product ID is required");
+      }
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id: productId,
+          localMarketProfileId: result.marketProfile.id,
+        },
+      });
+
+      if (!product) {
+        return ResponseUtils.notFound(res, "Product not found");
+      }
+
+      const updatedProduct = await prisma.product.update({
+        where: { id: productId },
+        data: { isAvailable: !product.isAvailable },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Product availability updated",
+        updatedProduct
+      );
+    } catch (error) {
+      console.error("Toggle product availability error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to update product availability"
+      );
+    }
+  }
+
+  static async getVendorProducts(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        status = "all",
+        category,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        localMarketProfileId: result.marketProfile.id,
+      };
+
+      if (status === "available") {
+        where.isAvailable = true;
+      } else if (status === "unavailable") {
+        where.isAvailable = false;
+      }
+
+      if (category) {
+        where.category = category;
+      }
+
+      const products = await prisma.product.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          _count: {
+            select: {
+              bookings: {
+                where: {
+                  status: { in: ["PENDING", "CONFIRMED"] }, // Count only open orders
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.product.count({ where });
+
+      const transformedProducts = products.map((product) => ({
+        ...product,
+        openOrdersCount: product._count.bookings,
+        _count: undefined, // Remove the _count field from response
+      }));
+
+      return ResponseUtils.success(res, "Products retrieved successfully", {
+        products: transformedProducts,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get vendor products error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve products");
+    }
+  }
+
+  // ================================
+  // PUBLIC PRODUCT CATALOG
+  // ================================
+
+  static async searchProducts(req: ValidatedRequest, res: Response) {
+    try {
+      const {
+        category,
+        search,
+        deliveryArea,
+        minPrice,
+        maxPrice,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        isAvailable: true,
+        localMarketProfile: {
+          vendor: {
+            status: "APPROVED",
+          },
+        },
+      };
+
+      if (category) {
+        where.category = category;
+      }
+
+      if (search) {
+        where.OR = [
+          { productName: { contains: search as string, mode: "insensitive" } },
+          { description: { contains: search as string, mode: "insensitive" } },
+        ];
+      }
+
+      // Products are priced as a range, so match any overlap with the filter
+      if (minPrice) {
+        where.priceMax = { gte: Number(minPrice) };
+      }
+
+      if (maxPrice) {
+        where.priceMin = { lte: Number(maxPrice) };
+      }
+
+      const query = {
+        where,
+        include: {
+          localMarketProfile: {
+            select: {
+              shopName: true,
+              vendor: {
+                select: {
+                  businessName: true,
+                  businessAddress: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { priceMin: "asc" as const },
+      };
+
+      let products;
+      let total;
+
+      if (deliveryArea) {
+        // Delivery areas are free text, so match in memory and paginate the result
+        where.hasDelivery = true;
+        const matchingProducts = (await prisma.product.findMany(query)).filter(
+          (product) =>
+            MarketUtils.findDeliveryArea(product.deliveryAreas, deliveryArea)
+        );
+
+        total = matchingProducts.length;
+        products = matchingProducts.slice(skip, skip + Number(limit));
+      } else {
+        products = await prisma.product.findMany({
+          ...query,
+          skip,
+          take: Number(limit),
+        });
+        total = await prisma.product.count({ where });
+      }
+
+      return ResponseUtils.success(res, "Products retrieved successfully", {
+        products,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Search products error:", error);
+      return ResponseUtils.serverError(res, "Failed to search products");
+    }
+  }
+
+  static async getProductDetails(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+
+      if (!productId) {
+        return ResponseUtils.badRequest(res, "Product ID is required");
+      }
+
+      const product = await prisma.product.findFirst({
+        where: {
+          id: productId,
+          isAvailable: true,
+          localMarketProfile: {
+            vendor: {
+              status: "APPROVED",
+            },
+          },
+        },
+        include: {
+          localMarketProfile: {
+            select: {
+              shopName: true,
+              vendor: {
+                select: {
+                  businessName: true,
+                  businessAddress: true,
+                  contactNumbers: true,
+                  googleMapsLink: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!product) {
+        return ResponseUtils.notFound(res, "Product not found");
+      }
+
+      return ResponseUtils.success(res, "Product retrieved successfully", {
+        ...product,
+        listPrice: MarketUtils.getListPrice(product),
+      });
+    } catch (error) {
+      console.error("Get product details error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve product");
+    }
+  }
+
+  // ================================
+  // ORDER MANAGEMENT
+  // ================================
+
+  static async createMarketOrder(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        productId,
+        quantity,
+        requiresDelivery,
+        deliveryAddress,
+        promoCode,
+      } = req.validatedData?.body || req.body;
+
+      const result = await prisma.$transaction(async (tx) => {
+        const product = await tx.product.findUnique({
+          where: { id: productId },
+          include: {
+            localMarketProfile: {
+              include: {
+                vendor: true,
+              },
+            },
+          },
+        });
+
+        if (
+          !product ||
+          !product.isAvailable ||
+          product.localMarketProfile.vendor.status !== "APPROVED"
+        ) {
+          throw new Error("Product not found or not available");
+        }
+
+        MarketUtils.assertOrderable(
+          product,
+          quantity,
+          requiresDelivery,
+          deliveryAddress
+        );
+
+        const unitPrice = MarketUtils.getListPrice(product);
+        const totalAmount = MarketUtils.calculateOrderAmount(
+          unitPrice,
+          quantity
+        );
+        const vendor = product.localMarketProfile.vendor;
+        const pricing = await PromoUtils.priceBooking(tx, {
+          userId,
+          vendor,
+          bookingType: "LOCAL_MARKET",
+          lines: [{ amount: totalAmount, category: product.category }],
+          promoCode,
+        });
+
+        const booking = await tx.booking.create({
+          data: {
+            userId,
+            vendorId: vendor.id,
+            bookingType: "LOCAL_MARKET",
+            ...pricing,
+            status: "DRAFT",
+          },
+        });
+
+        await PromoUtils.recordRedemption(tx, pricing, booking.id, userId);
+
+        const marketBooking = await tx.marketBooking.create({
+          data: {
+            bookingId: booking.id,
+            localMarketProfileId: product.localMarketProfileId,
+            productId: product.id,
+            quantity,
+            unitPrice,
+            totalAmount,
+            requiresDelivery: requiresDelivery || false,
+            deliveryAddress: requiresDelivery ? deliveryAddress : null,
+            status: "DRAFT",
+          },
+        });
+
+        return await tx.marketBooking.findUnique({
+          where: { id: marketBooking.id },
+          include: {
+            booking: true,
+            product: {
+              select: {
+                productName: true,
+                category: true,
+                certifications: true,
+              },
+            },
+          },
+        });
+      });
+
+      return ResponseUtils.success(res, "Order created successfully", result);
+    } catch (error) {
+      console.error("Create market order error:", error);
+
+      // Handle specific transaction errors
+      if (error instanceof Error) {
+        if (
+          error.message.startsWith("Promo code") ||
+          error.message.includes("not available") ||
+          error.message.includes("not found") ||
+          error.message.includes("not met")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to create order");
+    }
+  }
+
+  static async getCustomerOrders(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { status, page = 1, limit = 10 } = req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        booking: {
+          userId,
+          bookingType: "LOCAL_MARKET",
+        },
+        status: { not: "DRAFT" }, // Exclude DRAFT orders from customer view
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const orders = await prisma.marketBooking.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          booking: {
+            include: {
+              payment: {
+                select: {
+                  paymentStatus: true,
+                  paymentMethod: true,
+                  totalAmount: true,
+                  processedAt: true,
+                  refundAmount: true,
+                },
+              },
+            },
+          },
+          product: {
+            select: {
+              productName: true,
+              category: true,
+            },
+          },
+          localMarketProfile: {
+            select: {
+              shopName: true,
+              vendor: {
+                select: {
+                  businessName: true,
+                  contactNumbers: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.marketBooking.count({ where });
+
+      return ResponseUtils.success(res, "Orders retrieved successfully", {
+        orders,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get customer market orders error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve orders");
+    }
+  }
+
+  static async getVendorOrders(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { status, page = 1, limit = 10 } = req.query;
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        localMarketProfileId: result.marketProfile.id,
+        status: { not: "DRAFT" },
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const orders = await prisma.marketBooking.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          booking: {
+            include: {
+              user: {
+                select: {
+                  phoneNumber: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+              payment: {
+                select: {
+                  paymentStatus: true,
+                  paymentMethod: true,
+                },
+              },
+            },
+          },
+          product: {
+            select: {
+              productName: true,
+              category: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.marketBooking.count({ where });
+
+      const sanitizedOrders = orders.map((order) => ({
+        orderId: order.id,
+        status: order.status,
+        quantity: order.quantity,
+        unitPrice: order.unitPrice,
+        totalAmount: order.totalAmount,
+        requiresDelivery: order.requiresDelivery,
+        deliveryAddress: order.deliveryAddress,
+        createdAt: order.createdAt,
+        product: order.product,
+        customer: {
+          phoneNumber: SecurityUtils.maskPhoneNumber(
+            order.booking.user.phoneNumber
+          ),
+          firstName: order.booking.user.firstName || "N/A",
+          lastName: order.booking.user.lastName || "N/A",
+        },
+        payment: {
+          status: order.booking.payment?.paymentStatus || "PENDING",
+          method: order.booking.payment?.paymentMethod,
+        },
+      }));
+
+      return ResponseUtils.success(
+        res,
+        "Vendor orders retrieved successfully",
+        {
+          orders: sanitizedOrders,
+          pagination: {
+            page: Number(page),
+            limit: Number(limit),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+          },
+        }
+      );
+    } catch (error) {
+      console.error("Get vendor market orders error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve vendor orders");
+    }
+  }
+
+  // ================================
+  // PRICE QUOTES
+  // ================================
+
+  static async requestQuote(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { productId, quantity, requiresDelivery, deliveryAddress, note } =
+        req.validatedData?.body || req.body;
+
+      const product = await prisma.product.findUnique({
+        where: { id: productId },
+        include: {
+          localMarketProfile: {
+            include: {
+              vendor: true,
+            },
+          },
+        },
+      });
+
+      if (
+        !product ||
+        !product.isAvailable ||
+        product.localMarketProfile.vendor.status !== "APPROVED"
+      ) {
+        return ResponseUtils.notFound(
+          res,
+          "Product not found or not available"
+        );
+      }
+
+      MarketUtils.assertOrderable(
+        product,
+        quantity,
+        requiresDelivery,
+        deliveryAddress
+      );
+
+      const quote = await prisma.productQuote.create({
+        data: {
+          productId: product.id,
+          localMarketProfileId: product.localMarketProfileId,
+          userId,
+          quantity,
+          requiresDelivery: requiresDelivery || false,
+          deliveryAddress: requiresDelivery ? deliveryAddress : null,
+          customerNote: note,
+        },
+        include: {
+          product: {
+            select: {
+              productName: true,
+              priceMin: true,
+              priceMax: true,
+            },
+          },
+        },
+      });
+
+      return ResponseUtils.success(res, "Quote requested successfully", quote);
+    } catch (error) {
+      console.error("Request quote error:", error);
+
+      if (
+        error instanceof Error &&
+        (error.message.includes("not available") ||
+          error.message.includes("not met"))
+      ) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+
+      return ResponseUtils.serverError(res, "Failed to request quote");
+    }
+  }
+
+  static async getCustomerQuotes(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        status,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      await MarketUtils.expireStaleQuotes({ userId });
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = { userId };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const quotes = await prisma.productQuote.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          product: {
+            select: {
+              productName: true,
+              category: true,
+              priceMin: true,
+              priceMax: true,
+            },
+          },
+          localMarketProfile: {
+            select: {
+              shopName: true,
+            },
+          },
+        },
+        orderBy: { updatedAt: "desc" },
+      });
+
+      const total = await prisma.productQuote.count({ where });
+
+      return ResponseUtils.success(res, "Quotes retrieved successfully", {
+        quotes,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get customer quotes error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve quotes");
+    }
+  }
+
+  static async getVendorQuotes(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        status,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      await MarketUtils.expireStaleQuotes({
+        localMarketProfileId: result.marketProfile.id,
+      });
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        localMarketProfileId: result.marketProfile.id,
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const quotes = await prisma.productQuote.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          product: {
+            select: {
+              productName: true,
+              category: true,
+              priceMin: true,
+              priceMax: true,
+            },
+          },
+          user: {
+            select: {
+              phoneNumber: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.productQuote.count({ where });
+
+      const sanitizedQuotes = quotes.map(({ user, ...quote }) => ({
+        ...quote,
+        customer: {
+          phoneNumber: SecurityUtils.maskPhoneNumber(user.phoneNumber),
+          firstName: user.firstName || "N/A",
+          lastName: user.lastName || "N/A",
+        },
+      }));
+
+      return ResponseUtils.success(
+        res,
+        "Vendor quotes retrieved successfully",
+        {
+          quotes: sanitizedQuotes,
+          pagination: {
+            page: Number(page),
+            limit: Number(limit),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+          },
+        }
+      );
+    } catch (error) {
+      console.error("Get vendor quotes error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve vendor quotes");
+    }
+  }
+
+  static async respondToQuote(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { quoteId } = req.params;
+      const { unitPrice, validForHours, note } =
+        req.validatedData?.body || req.body;
+
+      if (!quoteId) {
+        return ResponseUtils.badRequest(res, "Quote ID is required");
+      }
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      await MarketUtils.expireStaleQuotes({ id: quoteId });
+
+      const quote = await prisma.productQuote.findFirst({
+        where: {
+          id: quoteId,
+          localMarketProfileId: result.marketProfile.id,
+        },
+        include: {
+          product: true,
+        },
+      });
+
+      if (!quote) {
+        return ResponseUtils.notFound(res, "Quote not found");
+      }
+
+      // Vendors may revise a quote until the customer accepts it
+      if (!["REQUESTED", "QUOTED", "EXPIRED"].includes(quote.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot respond to quote with status: ${quote.status}`
+        );
+      }
+
+      if (
+        unitPrice < quote.product.priceMin ||
+        unitPrice > quote.product.priceMax
+      ) {
+        return ResponseUtils.badRequest(
+          res,
+          `Unit price must be within the product's price range of ${quote.product.priceMin} - ${quote.product.priceMax}`
+        );
+      }
+
+      const updatedQuote = await prisma.productQuote.update({
+        where: { id: quote.id },
+        data: {
+          unitPrice,
+          vendorNote: note,
+          expiresAt: new Date(Date.now() + validForHours * 60 * 60 * 1000),
+          status: "QUOTED",
+        },
+      });
+
+      return ResponseUtils.success(res, "Quote sent successfully", {
+        ...updatedQuote,
+        totalAmount: MarketUtils.calculateOrderAmount(
+          unitPrice,
+          quote.quantity
+        ),
+      });
+    } catch (error) {
+      console.error("Respond to quote error:", error);
+      return ResponseUtils.serverError(res, "Failed to respond to quote");
+    }
+  }
+
+  static async rejectQuote(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { quoteId } = req.params;
+      const { note } = req.validatedData?.body || req.body;
+
+      if (!quoteId) {
+        return ResponseUtils.badRequest(res, "Quote ID is required");
+      }
+
+      const result = await VendorDbUtils.findMarketVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const quote = await prisma.productQuote.findFirst({
+        where: {
+          id: quoteId,
+          localMarketProfileId: result.marketProfile.id,
+        },
+      });
+
+      if (!quote) {
+        return ResponseUtils.notFound(res, "Quote not found");
+      }
+
+      if (!["REQUESTED", "QUOTED"].includes(quote.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot reject quote with status: ${quote.status}`
+        );
+      }
+
+      const updatedQuote = await prisma.productQuote.update({
+        where: { id: quote.id },
+        data: {
+          status: "REJECTED",
+          vendorNote: note,
+        },
+      });
+
+      return ResponseUtils.success(res, "Quote rejected", updatedQuote);
+    } catch (error) {
+      console.error("Reject quote error:", error);
+      return ResponseUtils.serverError(res, "Failed to reject quote");
+    }
+  }
+
+  static async cancelQuote(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { quoteId } = req.params;
+
+      if (!quoteId) {
+        return ResponseUtils.badRequest(res, "Quote ID is required");
+      }
+
+      const quote = await prisma.productQuote.findFirst({
+        where: { id: quoteId, userId },
+      });
+
+      if (!quote) {
+        return ResponseUtils.notFound(res, "Quote not found");
+      }
+
+      if (!["REQUESTED", "QUOTED"].includes(quote.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot cancel quote with status: ${quote.status}`
+        );
+      }
+
+      const updatedQuote = await prisma.productQuote.update({
+        where: { id: quote.id },
+        data: { status: "CANCELLED" },
+      });
+
+      return ResponseUtils.success(res, "Quote cancelled", updatedQuote);
+    } catch (error) {
+      console.error("Cancel quote error:", error);
+      return ResponseUtils.serverError(res, "Failed to cancel quote");
+    }
+  }
+
+  static async acceptQuote(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { quoteId } = req.params;
+      const { promoCode } = req.validatedData?.body || req.body || {};
+
+      if (!quoteId) {
+        return ResponseUtils.badRequest(res, "Quote ID is required");
+      }
+
+      // Expire outside the transaction so the status change is kept when accepting fails
+      await MarketUtils.expireStaleQuotes({ id: quoteId });
+
+      // Convert the quote into a payable order atomically
+      const result = await prisma.$transaction(async (tx) => {
+        const quote = await tx.productQuote.findFirst({
+          where: { id: quoteId, userId },
+          include: {
+            product: {
+              include: {
+                localMarketProfile: {
+                  include: {
+                    vendor: true,
+                  },
+                },
+              },
+            },
+          },
+        });
+
+        if (!quote) {
+          throw new Error("Quote not found");
+        }
+
+        if (quote.status === "EXPIRED") {
+          throw new Error(
+            "Quote has expired. Please ask the vendor for a new quote"
+          );
+        }
+
+        if (quote.status !== "QUOTED" || quote.unitPrice === null) {
+          throw new Error(`Cannot accept quote with status: ${quote.status}`);
+        }
+
+        const product = quote.product;
+        if (
+          !product.isAvailable ||
+          product.localMarketProfile.vendor.status !== "APPROVED"
+        ) {
+          throw new Error("Product not available");
+        }
+
+        // The product may have changed since the quote was requested
+        MarketUtils.assertOrderable(
+          product,
+          quote.quantity,
+          quote.requiresDelivery,
+          quote.deliveryAddress || undefined
+        );
+
+        const unitPrice = quote.unitPrice;
+        const totalAmount = MarketUtils.calculateOrderAmount(
+          unitPrice,
+          quote.quantity
+        );
+        const vendor = product.localMarketProfile.vendor;
+        const pricing = await PromoUtils.priceBooking(tx, {
+          userId,
+          vendor,
+          bookingType: "LOCAL_MARKET",
+          lines: [{ amount: totalAmount, category: product.category }],
+          promoCode,
+        });
+
+        const booking = await tx.booking.create({
+          data: {
+            userId,
+            vendorId: vendor.id,
+            bookingType: "LOCAL_MARKET",
+            ...pricing,
+            status: "DRAFT",
+          },
+        });
+
+        await PromoUtils.recordRedemption(tx, pricing, booking.id, userId);
+
+        const marketBooking = await tx.marketBooking.create({
+          data: {
+            bookingId: booking.id,
+            localMarketProfileId: quote.localMarketProfileId,
+            productId: product.id,
+            quantity: quote.quantity,
+            unitPrice,
+            totalAmount,
+            requiresDelivery: quote.requiresDelivery,
+            deliveryAddress: quote.deliveryAddress,
+            status: "DRAFT",
+          },
+        });
+
+        // Guard against the same quote being accepted twice concurrently
+        const accepted = await tx.productQuote.updateMany({
+          where: { id: quote.id, status: "QUOTED" },
+          data: {
+            status: "ACCEPTED",
+            marketBookingId: marketBooking.id,
+          },
+        });
+
+        if (accepted.count === 0) {
+          throw new Error("Cannot accept quote. It was updated by the vendor");
+        }
+
+        return await tx.marketBooking.findUnique({
+          where: { id: marketBooking.id },
+          include: {
+            booking: true,
+            product: {
+              select: {
+                productName: true,
+                category: true,
+                certifications: true,
+              },
+            },
+          },
+        });
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Quote accepted. Order created successfully",
+        result
+      );
+    } catch (error) {
+      console.error("Accept quote error:", error);
+
+      if (error instanceof Error) {
+        if (error.message === "Quote not found") {
+          return ResponseUtils.notFound(res, error.message);
+        }
+        if (
+          error.message.startsWith("Promo code") ||
+          error.message.includes("expired") ||
+          error.message.includes("Cannot accept") ||
+          error.message.includes("not available") ||
+          error.message.includes("not met")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to accept quote");
+    }
+  }
+
+  // ================================
+  // PAYMENT METHODS
+  // ================================
+
+  static async createPaymentOrder(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { orderId } = req.params;
+
+      if (!orderId) {
+        return ResponseUtils.badRequest(res, "Order ID is required");
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        // orderId is the market booking ID from URL
+        const marketBooking = await tx.marketBooking.findUnique({
+          where: { id: orderId },
+          include: {
+            booking: {
+              include: {
+                user: {
+                  select: {
+                    phoneNumber: true,
+                  },
+                },
+                payment: true,
+              },
+            },
+            product: {
+              select: {
+                productName: true,
+              },
+            },
+          },
+        });
+
+        if (!marketBooking || marketBooking.booking.userId !== userId) {
+          throw new Error("Order not found or access denied");
+        }
+
+        const booking = marketBooking.booking;
+
+        if (!["DRAFT", "PENDING"].includes(booking.status)) {
+          throw new Error(
+            `Cannot create payment for order with status: ${booking.status}`
+          );
+        }
+
+        if (booking.payment && booking.payment.paymentStatus === "SUCCESS") {
+          throw new Error("Payment already completed for this order");
+        }
+
+        const razorpayOrder = await PaymentUtils.createRazorpayOrder(booking, {
+          userId,
+          productName: marketBooking.product.productName,
+        });
+
+        // Update order status to PENDING when payment is initiated
+        await PaymentUtils.updateBookingStatus(tx, booking.id, "PENDING");
+
+        const payment = await PaymentUtils.upsertPendingPayment(
+          tx,
+          booking,
+          razorpayOrder.id
+        );
+
+        return { booking, marketBooking, payment, razorpayOrder };
+      });
+
+      return ResponseUtils.success(res, "Payment order created successfully", {
+        orderId: result.razorpayOrder.id,
+        amount: Math.round(result.booking.totalAmount * 100), // Amount in paise for Razorpay
+        currency: "INR",
+        key: PaymentUtils.getCheckoutKey(),
+        name: "Sojourn",
+        description: `Market Order - ${result.marketBooking.product.productName}`,
+        prefill: {
+          contact: result.booking.user?.phoneNumber || "",
+        },
+        timeout: 900, // 15 minutes
+        payment: result.payment,
+        booking: {
+          id: result.booking.id,
+          status: "PENDING",
+          totalAmount: result.booking.totalAmount,
+          productName: result.marketBooking.product.productName,
+          quantity: result.marketBooking.quantity,
+          unitPrice: result.marketBooking.unitPrice,
+        },
+      });
+    } catch (error) {
+      console.error("Create market payment order error:", error);
+
+      if (error instanceof Error) {
+        if (
+          error.message.includes("not found") ||
+          error.message.includes("access denied")
+        ) {
+          return ResponseUtils.notFound(
+            res,
+            "Order not found or access denied"
+          );
+        }
+        if (
+          error.message.includes("Payment already completed") ||
+          error.message.includes("Cannot create payment")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to create payment order");
+    }
+  }
+
+  static async verifyPayment(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { orderId } = req.params;
+      const { razorpay_payment_id, razorpay_order_id, razorpay_signature } =
+        req.validatedData?.body || req.body;
+
+      if (!orderId) {
+        return ResponseUtils.badRequest(res, "Order ID is required");
+      }
+
+      const marketBooking = await prisma.marketBooking.findUnique({
+        where: { id: orderId },
+        include: {
+          booking: {
+            include: {
+              payment: true,
+            },
+          },
+        },
+      });
+
+      if (!marketBooking) {
+        return ResponseUtils.notFound(res, "Market order not found");
+      }
+
+      const booking = marketBooking.booking;
+
+      if (booking.userId !== userId) {
+        return ResponseUtils.unauthorized(res, "Access denied");
+      }
+
+      if (!booking.payment) {
+        return ResponseUtils.notFound(res, "Payment record not found");
+      }
+
+      // The signature only proves the payment belongs to the Razorpay order,
+      // so it must be the one created for this market order
+      if (booking.payment.razorpayOrderId !== razorpay_order_id) {
+        return ResponseUtils.badRequest(
+          res,
+          "Payment order does not match this order"
+        );
+      }
+
+      if (booking.payment.paymentStatus === "SUCCESS") {
+        return ResponseUtils.success(res, "Payment already verified");
+      }
+
+      if (!["DRAFT", "PENDING"].includes(booking.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot verify payment for order with status: ${booking.status}`
+        );
+      }
+
+      const isValidSignature = PaymentUtils.verifyPaymentSignature(
+        razorpay_order_id,
+        razorpay_payment_id,
+        razorpay_signature
+      );
+
+      if (!isValidSignature) {
+        await prisma.payment.updateMany({
+          where: { bookingId: booking.id, paymentStatus: "PENDING" },
+          data: { paymentStatus: "FAILED" },
+        });
+
+        return ResponseUtils.badRequest(res, "Payment verification failed");
+      }
+
+      // Confirms only while the order still awaits payment; one cancelled
+      // meanwhile keeps its status and the payment is queued for a refund
+      const { refundQueued } = await prisma.$transaction(
+        async (tx) =>
+          await PaymentUtils.confirmOrderPayments(
+            tx,
+            razorpay_order_id,
+            razorpay_payment_id,
+            razorpay_signature
+          )
+      );
+
+      if (refundQueued.length > 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "This order was cancelled before the payment completed. The amount will be refunded."
+        );
+      }
+
+      return ResponseUtils.success(res, "Payment verified successfully");
+    } catch (error) {
+      console.error("Verify market payment error:", error);
+      return ResponseUtils.serverError(res, "Failed to verify payment");
+    }
+  }
+}
+
+export const marketController = MarketController;
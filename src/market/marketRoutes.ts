@@ -0,0 +1,182 @@
+import express from "express";
+import { marketController } from "./marketController.js";
+import { authMiddleware, authorizeVendor } from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import {
+  createProductSchema,
+  updateProductSchema,
+  vendorProductsQuerySchema,
+  searchProductsSchema,
+  marketOrderSchema,
+  requestQuoteSchema,
+  respondQuoteSchema,
+  rejectQuoteSchema,
+  acceptQuoteSchema,
+  quotesQuerySchema,
+} from "./validator.js";
+import { paymentVerificationSchema } from "../payment/validator.js";
+
+const router = express.Router();
+
+// ================================
+// VENDOR PRODUCT MANAGEMENT ROUTES
+// ================================
+
+// Create product (approved local market vendor only)
+router.post(
+  "/products",
+  authMiddleware,
+  authorizeVendor,
+  validate(createProductSchema),
+  marketController.createProduct
+);
+
+// Update product
+router.put(
+  "/products/:productId",
+  authMiddleware,
+  authorizeVendor,
+  validate(updateProductSchema),
+  marketController.updateProduct
+);
+
+// Toggle product availability
+router.patch(
+  "/products/:productId/availability",
+  authMiddleware,
+  authorizeVendor,
+  marketController.toggleProductAvailability
+);
+
+// Get vendor's products
+router.get(
+  "/products",
+  authMiddleware,
+  authorizeVendor,
+  validate(vendorProductsQuerySchema),
+  marketController.getVendorProducts
+);
+
+// ================================
+// ORDER ROUTES
+// ================================
+
+// Place order
+router.post(
+  "/orders",
+  authMiddleware,
+  validate(marketOrderSchema),
+  marketController.createMarketOrder
+);
+
+// Get customer orders
+router.get(
+  "/customer/orders",
+  authMiddleware,
+  marketController.getCustomerOrders
+);
+
+// Get vendor orders
+router.get(
+  "/vendor/orders",
+  authMiddleware,
+  authorizeVendor,
+  marketController.getVendorOrders
+);
+
+// ================================
+// PRICE QUOTE ROUTES
+// ================================
+
+// Request a price quote
+router.post(
+  "/quotes",
+  authMiddleware,
+  validate(requestQuoteSchema),
+  marketController.requestQuote
+);
+
+// Get customer quotes
+router.get(
+  "/customer/quotes",
+  authMiddleware,
+  validate(quotesQuerySchema),
+  marketController.getCustomerQuotes
+);
+
+// Get vendor quotes
+router.get(
+  "/vendor/quotes",
+  authMiddleware,
+  authorizeVendor,
+  validate(quotesQuerySchema),
+  marketController.getVendorQuotes
+);
+
+// Vendor responds with a unit price
+router.post(
+  "/quotes/:quoteId/respond",
+  authMiddleware,
+  authorizeVendor,
+  validate(respondQuoteSchema),
+  marketController.respondToQuote
+);
+
+// Vendor rejects a quote request
+router.post(
+  "/quotes/:quoteId/reject",
+  authMiddleware,
+  authorizeVendor,
+  validate(rejectQuoteSchema),
+  marketController.rejectQuote
+);
+
+// Customer cancels a quote request
+router.post(
+  "/quotes/:quoteId/cancel",
+  authMiddleware,
+  marketController.cancelQuote
+);
+
+// Customer accepts a quote, creating a payable order
+router.post(
+  "/quotes/:quoteId/accept",
+  authMiddleware,
+  validate(acceptQuoteSchema),
+  marketController.acceptQuote
+);
+
+// ================================
+// PAYMENT ROUTES
+// ================================
+
+// Create payment order
+router.post(
+  "/orders/:orderId/payment/create-order",
+  authMiddleware,
+  marketController.createPaymentOrder
+);
+
+// Verify payment
+router.post(
+  "/orders/:orderId/payment/verify",
+  authMiddleware,
+  validate(paymentVerificationSchema),
+  marketController.verifyPayment
+);
+
+// ================================
+// PUBLIC CATALOG ROUTES
+// ================================
+
+// Search products
+router.get(
+  "/search",
+  validate(searchProductsSchema),
+  marketController.searchProducts
+);
+
+// Get product details
+router.get("/products/:productId", marketController.getProductDetails);
+
+export { router as marketRoutes };
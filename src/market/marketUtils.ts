@@ -0,0 +1,103 @@
+import { PrismaClient } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// Delivery areas that cover every address
+const NATIONWIDE_AREAS = ["all india", "pan india", "india"];
+
+export class MarketUtils {
+  static normalizeArea(area: string): string {
+    return area
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  // Find the vendor delivery area that covers an address. Areas are matched as
+  // whole words, so "Srinagar" matches "12 Residency Road, Srinagar 190001" and
+  // the pincode "190001" matches the same address
+  static findDeliveryArea(
+    deliveryAreas: string[],
+    address: string
+  ): string | null {
+    const normalizedAddress = ` ${this.normalizeArea(address)} `;
+
+    for (const area of deliveryAreas) {
+      const normalizedArea = this.normalizeArea(area);
+      if (!normalizedArea) continue;
+
+      if (
+        NATIONWIDE_AREAS.includes(normalizedArea) ||
+        normalizedAddress.includes(` ${normalizedArea} `)
+      ) {
+        return area;
+      }
+    }
+
+    return null;
+  }
+
+  // Orders placed without a negotiated quote are charged the product's list price
+  static getListPrice(product: { priceMin: number; priceMax: number }): number {
+    return product.priceMax;
+  }
+
+  // Check the order rules shared by direct orders and quotes. Throws with the
+  // reason when the product cannot be ordered this way
+  static assertOrderable(
+    product: {
+      minOrderQuantity: number;
+      hasDelivery: boolean;
+      deliveryAreas: string[];
+    },
+    quantity: number,
+    requiresDelivery: boolean,
+    deliveryAddress?: string
+  ) {
+    if (quantity < product.minOrderQuantity) {
+      throw new Error(
+        `Minimum order quantity not met. At least ${product.minOrderQuantity} units must be ordered`
+      );
+    }
+
+    if (requiresDelivery) {
+      if (!product.hasDelivery) {
+        throw new Error(
+          "Delivery not available for this product. Please collect it from the shop"
+        );
+      }
+
+      if (
+        !deliveryAddress ||
+        !this.findDeliveryArea(product.deliveryAreas, deliveryAddress)
+      ) {
+        throw new Error(
+          `Delivery not available to this address. Delivery areas: ${product.deliveryAreas.join(", ")}`
+        );
+      }
+    }
+  }
+
+  // Mark quotes whose quoted price has lapsed as EXPIRED
+  static async expireStaleQuotes(
+    where: Prisma.ProductQuoteWhereInput = {},
+    client: Prisma.TransactionClient = prisma
+  ) {
+    return await client.productQuote.updateMany({
+      where: {
+        ...where,
+        status: "QUOTED",
+        expiresAt: { lt: new Date() },
+      },
+      data: { status: "EXPIRED" },
+    });
+  }
+
+  static calculateOrderAmount(unitPrice: number, quantity: number): number {
+    return Math.round(unitPrice * quantity * 100) / 100;
+  }
+}
+
+export default MarketUtils;
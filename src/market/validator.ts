@@ -0,0 +1,281 @@
+import { z } from "zod";
+
+// Product Category enum
+const productCategorySchema = z.enum([
+  "HANDICRAFT",
+  "SAFFRON",
+  "DRY_FRUITS",
+  "WOOLENS",
+  "WOODWORK",
+  "OTHER",
+]);
+
+// List of short text entries (certifications, delivery areas)
+// Accepts a JSON array or a comma-separated string and removes duplicates
+const textListSchema = (label: string) =>
+  z
+    .union([z.array(z.string()), z.string()])
+    .transform((val) => {
+      let items: string[] = [];
+      if (typeof val === "string") {
+        try {
+          const parsed = JSON.parse(val);
+          if (Array.isArray(parsed)) {
+            items = parsed.filter((item) => typeof item === "string");
+          }
+        } catch (e) {
+          // If JSON parsing fails, treat as comma-separated string
+          items = val.split(",");
+        }
+      } else {
+        items = val;
+      }
+      const trimmed = items.map((item) => item.trim()).filter(Boolean);
+      return Array.from(new Set(trimmed));
+    })
+    .refine(
+      (items) => items.every((item) => item.length <= 100),
+      `Each ${label} entry cannot exceed 100 characters`
+    )
+    .refine(
+      (items) => items.length <= 50,
+      `Cannot have more than 50 ${label} entries`
+    );
+
+const priceSchema = (label: string) =>
+  z
+    .number({ message: `${label} must be a number` })
+    .positive(`${label} must be greater than 0`)
+    .max(10000000, `${label} is too high`);
+
+const minOrderQuantitySchema = z
+  .number()
+  .int("Minimum order quantity must be a whole number")
+  .min(1, "Minimum order quantity must be at least 1")
+  .max(10000, "Minimum order quantity cannot exceed 10000");
+
+export const createProductSchema = z.object({
+  body: z
+    .object({
+      productName: z
+        .string()
+        .min(2, "Product name must be at least 2 characters")
+        .max(200, "Product name cannot exceed 200 characters"),
+      category: productCategorySchema,
+      description: z
+        .string()
+        .max(2000, "Description cannot exceed 2000 characters")
+        .optional(),
+      priceMin: priceSchema("Minimum price"),
+      priceMax: priceSchema("Maximum price"),
+      minOrderQuantity: minOrderQuantitySchema.optional(),
+      hasDelivery: z.boolean().optional(),
+      deliveryAreas: textListSchema("delivery area").optional(),
+      certifications: textListSchema("certification").optional(),
+    })
+    .refine((data) => data.priceMin <= data.priceMax, {
+      message: "Minimum price cannot be greater than maximum price",
+      path: ["priceMin"],
+    })
+    .refine(
+      (data) =>
+        !data.hasDelivery ||
+        (data.deliveryAreas !== undefined && data.deliveryAreas.length > 0),
+      {
+        message:
+          "At least one delivery area is required when delivery is offered",
+        path: ["deliveryAreas"],
+      }
+    ),
+});
+
+export const updateProductSchema = z.object({
+  body: z
+    .object({
+      productName: z.string().min(2).max(200).optional(),
+      category: productCategorySchema.optional(),
+      description: z.string().max(2000).nullable().optional(),
+      priceMin: priceSchema("Minimum price").optional(),
+      priceMax: priceSchema("Maximum price").optional(),
+      minOrderQuantity: minOrderQuantitySchema.optional(),
+      hasDelivery: z.boolean().optional(),
+      deliveryAreas: textListSchema("delivery area").optional(),
+      certifications: textListSchema("certification").optional(),
+      isAvailable: z.boolean().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field is required for update",
+    }),
+});
+
+export const vendorProductsQuerySchema = z.object({
+  query: z.object({
+    category: productCategorySchema.optional(),
+    status: z.enum(["available", "unavailable", "all"]).optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+export const searchProductsSchema = z.object({
+  query: z.object({
+    category: productCategorySchema.optional(),
+    search: z.string().optional(),
+    deliveryArea: z.string().optional(),
+    minPrice: z
+      .string()
+      .transform((val) => (val ? parseFloat(val) : undefined))
+      .optional(),
+    maxPrice: z
+      .string()
+      .transform((val) => (val ? parseFloat(val) : undefined))
+      .optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+export const marketOrderSchema = z.object({
+  body: z
+    .object({
+      productId: z.string().min(1, "Product ID is required"),
+      quantity: z
+        .number()
+        .int("Quantity must be a whole number")
+        .min(1, "Quantity must be at least 1")
+        .max(100000, "Quantity is too high"),
+      requiresDelivery: z.boolean().optional().default(false),
+      deliveryAddress: z
+        .string()
+        .trim()
+        .max(500, "Delivery address cannot exceed 500 characters")
+        .optional(),
+      promoCode: z
+        .string()
+        .trim()
+        .min(3, "Promo code is too short")
+        .max(30, "Promo code is too long")
+        .optional(),
+    })
+    .refine(
+      (data) =>
+        !data.requiresDelivery ||
+        (data.deliveryAddress !== undefined &&
+          data.deliveryAddress.length >= 10),
+      {
+        message: "A complete delivery address is required for delivery",
+        path: ["deliveryAddress"],
+      }
+    ),
+});
+
+const quoteStatusSchema = z.enum([
+  "REQUESTED",
+  "QUOTED",
+  "ACCEPTED",
+  "REJECTED",
+  "CANCELLED",
+  "EXPIRED",
+]);
+
+const noteSchema = z
+  .string()
+  .trim()
+  .max(1000, "Note cannot exceed 1000 characters");
+
+export const requestQuoteSchema = z.object({
+  body: z
+    .object({
+      productId: z.string().min(1, "Product ID is required"),
+      quantity: z
+        .number()
+        .int("Quantity must be a whole number")
+        .min(1, "Quantity must be at least 1")
+        .max(100000, "Quantity is too high"),
+      requiresDelivery: z.boolean().optional().default(false),
+      deliveryAddress: z
+        .string()
+        .trim()
+        .max(500, "Delivery address cannot exceed 500 characters")
+        .optional(),
+      note: noteSchema.optional(),
+    })
+    .refine(
+      (data) =>
+        !data.requiresDelivery ||
+        (data.deliveryAddress !== undefined &&
+          data.deliveryAddress.length >= 10),
+      {
+        message: "A complete delivery address is required for delivery",
+        path: ["deliveryAddress"],
+      }
+    ),
+});
+
+export const respondQuoteSchema = z.object({
+  body: z.object({
+    unitPrice: z
+      .number({ message: "Unit price must be a number" })
+      .positive("Unit price must be greater than 0"),
+    validForHours: z
+      .number()
+      .int("Validity must be a whole number of hours")
+      .min(1, "Quote must be valid for at least 1 hour")
+      .max(168, "Quote cannot be valid for more than 7 days")
+      .optional()
+      .default(48),
+    note: noteSchema.optional(),
+  }),
+});
+
+export const rejectQuoteSchema = z.object({
+  body: z.object({
+    note: noteSchema.optional(),
+  }),
+});
+
+export const acceptQuoteSchema = z.object({
+  body: z
+    .object({
+      promoCode: z
+        .string()
+        .trim()
+        .min(3, "Promo code is too short")
+        .max(30, "Promo code is too long")
+        .optional(),
+    })
+    .optional()
+    .default({}),
+});
+
+export const quotesQuerySchema = z.object({
+  query: z.object({
+    status: quoteStatusSchema.optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
@@ -35,9 +35,26 @@ export const upload = multer({
 // Middleware for multiple hotel images
 export const uploadHotelImages = upload.array("images", 10); // Max 10 images
 
+// Middleware for multiple vehicle photos
+export const uploadVehicleImages = upload.array("images", 10); // Max 10 images
+
 // Middleware for single image
 export const uploadSingleImage = upload.single("image");
 
+// Single iCal file for importing a room's calendar from another channel
+export const uploadCalendarFile = multer({
+  storage: storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === ".ics") {
+      return cb(null, true);
+    }
+    cb(new Error("Only iCal (.ics) files are allowed!"));
+  },
+}).single("calendar");
+
 // Error handling middleware for multer
 export const handleMulterError = (
   error: any,
@@ -60,7 +77,10 @@ export const handleMulterError = (
     }
   }
 
-  if (error.message.includes("Only image files")) {
+  if (
+    error.message.includes("Only image files") ||
+    error.message.includes("Only iCal")
+  ) {
     return res.status(400).json({
       success: false,
       message: error.message,
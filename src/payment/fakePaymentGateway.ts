@@ -0,0 +1,314 @@
+import crypto from "crypto";
+import { signatureMatches } from "./paymentGateway.js";
+import type {
+  GatewayOrder,
+  GatewayOrderRequest,
+  GatewayRefund,
+  PaymentGateway,
+} from "./paymentGateway.js";
+
+// In-process stand-in for Razorpay. IDs are sequential and signatures are
+// HMACs with a local secret, so runs are repeatable without network access.
+// Paying an order or refunding a payment emits the same webhook events
+// Razorpay would, signed so the webhook module accepts them.
+
+export type FakeWebhookDelivery = {
+  eventId: string;
+  event: string;
+  rawBody: string;
+  headers: Record<string, string>;
+};
+
+type FakeOrder = GatewayOrder & {
+  notes: Record<string, string>;
+  paymentIds: string[];
+};
+
+type FakePayment = {
+  id: string;
+  orderId: string;
+  amount: number; // paise
+  status: "captured" | "failed";
+  amountRefunded: number; // paise
+};
+
+type FakeGatewayOptions = {
+  secret?: string;
+  webhookSecret?: string;
+  // Webhook events are POSTed here when set
+  webhookUrl?: string;
+};
+
+export const FAKE_GATEWAY_SECRET = "fake_gateway_secret";
+
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = "fake";
+  readonly keyId = "rzp_test_fake";
+
+  private readonly secret: string;
+  private readonly webhookSecret: string;
+  private readonly webhookUrl: string | null;
+
+  private sequence = 0;
+  private orders = new Map<string, FakeOrder>();
+  private payments = new Map<string, FakePayment>();
+  private listeners: Array<(delivery: FakeWebhookDelivery) => unknown> = [];
+
+  constructor(options: FakeGatewayOptions = {}) {
+    this.secret =
+      options.secret || process.env.FAKE_GATEWAY_SECRET || FAKE_GATEWAY_SECRET;
+    this.webhookSecret =
+      options.webhookSecret ||
+      process.env.RAZORPAY_WEBHOOK_SECRET ||
+      this.secret;
+    this.webhookUrl = options.webhookUrl || null;
+  }
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    const order: FakeOrder = {
+      id: this.nextId("order"),
+      amount: request.amount,
+      currency: request.currency,
+      receipt: request.receipt,
+      status: "created",
+      notes: request.notes,
+      paymentIds: [],
+    };
+    this.orders.set(order.id, order);
+
+    return this.toGatewayOrder(order);
+  }
+
+  async refundPayment(
+    paymentId: string,
+    amount: number,
+    notes: Record<string, string>
+  ): Promise<GatewayRefund> {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status !== "captured") {
+      throw new Error(`Payment ${paymentId} is not captured`);
+    }
+
+    if (amount <= 0 || payment.amountRefunded + amount > payment.amount) {
+      throw new Error("Refund amount exceeds the captured amount");
+    }
+
+    payment.amountRefunded += amount;
+
+    const refund: GatewayRefund = {
+      id: this.nextId("rfnd"),
+      paymentId,
+      amount,
+      status: "processed",
+    };
+
+    await this.emit("refund.processed", {
+      refund: {
+        entity: {
+          id: refund.id,
+          entity: "refund",
+          payment_id: paymentId,
+          amount,
+          currency: "INR",
+          notes,
+          status: "processed",
+        },
+      },
+      payment: { entity: this.toPaymentEntity(payment) },
+    });
+
+    return refund;
+  }
+
+  verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string
+  ): boolean {
+    return signatureMatches(this.secret, orderId + "|" + paymentId, signature);
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return signatureMatches(this.webhookSecret, rawBody, signature);
+  }
+
+  // ================================
+  // TEST CONTROLS
+  // ================================
+
+  // Simulate the customer completing (or failing) checkout. Returns what the
+  // checkout SDK hands the app for the verify endpoints
+  async payOrder(orderId: string, options: { fail?: boolean } = {}) {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    if (order.status === "paid") {
+      throw new Error(`Order ${orderId} is already paid`);
+    }
+
+    const payment: FakePayment = {
+      id: this.nextId("pay"),
+      orderId,
+      amount: order.amount,
+      status: options.fail ? "failed" : "captured",
+      amountRefunded: 0,
+    };
+    this.payments.set(payment.id, payment);
+    order.paymentIds.push(payment.id);
+    order.status = options.fail ? "attempted" : "paid";
+
+    const paymentPayload = {
+      payment: { entity: this.toPaymentEntity(payment) },
+    };
+
+    if (options.fail) {
+      await this.emit("payment.failed", paymentPayload);
+    } else {
+      await this.emit("payment.captured", paymentPayload);
+      await this.emit("order.paid", {
+        ...paymentPayload,
+        order: { entity: { ...this.toGatewayOrder(order), entity: "order" } },
+      });
+    }
+
+    return {
+      razorpay_order_id: orderId,
+      razorpay_payment_id: payment.id,
+      razorpay_signature: this.sign(orderId + "|" + payment.id, this.secret),
+      status: payment.status,
+    };
+  }
+
+  // Simulate a chargeback event on a captured payment
+  async raiseDispute(
+    paymentId: string,
+    event:
+      | "payment.dispute.created"
+      | "payment.dispute.won"
+      | "payment.dispute.lost" = "payment.dispute.created"
+  ) {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    const disputeId = `disp_${paymentId}`;
+    await this.emit(event, {
+      dispute: {
+        entity: {
+          id: disputeId,
+          entity: "dispute",
+          payment_id: paymentId,
+          amount: payment.amount,
+          currency: "INR",
+        },
+      },
+      payment: { entity: this.toPaymentEntity(payment) },
+    });
+
+    return { disputeId };
+  }
+
+  getOrder(orderId: string) {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return null;
+    }
+
+    return {
+      ...this.toGatewayOrder(order),
+      notes: order.notes,
+      payments: order.paymentIds.map((id) =>
+        this.toPaymentEntity(this.payments.get(id)!)
+      ),
+    };
+  }
+
+  // Receive webhook deliveries in-process (tests). Returns an unsubscribe function
+  onWebhook(listener: (delivery: FakeWebhookDelivery) => unknown) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  reset() {
+    this.sequence = 0;
+    this.orders.clear();
+    this.payments.clear();
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_fake${String(this.sequence).padStart(8, "0")}`;
+  }
+
+  private sign(payload: string, secret: string): string {
+    return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+  }
+
+  private toGatewayOrder(order: FakeOrder): GatewayOrder {
+    return {
+      id: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      receipt: order.receipt,
+      status: order.status,
+    };
+  }
+
+  private toPaymentEntity(payment: FakePayment) {
+    return {
+      id: payment.id,
+      entity: "payment",
+      order_id: payment.orderId,
+      amount: payment.amount,
+      currency: "INR",
+      status: payment.status,
+      amount_refunded: payment.amountRefunded,
+      method: "upi",
+    };
+  }
+
+  // Deliver a Razorpay-shaped webhook to listeners and the configured URL
+  private async emit(event: string, payload: Record<string, unknown>) {
+    const eventId = this.nextId("evt");
+    const rawBody = JSON.stringify({
+      entity: "event",
+      account_id: "acc_fake",
+      event,
+      contains: Object.keys(payload),
+      payload,
+    });
+    const headers = {
+      "content-type": "application/json",
+      "x-razorpay-event-id": eventId,
+      "x-razorpay-signature": this.sign(rawBody, this.webhookSecret),
+    };
+    const delivery = { eventId, event, rawBody, headers };
+
+    for (const listener of this.listeners) {
+      await listener(delivery);
+    }
+
+    if (this.webhookUrl) {
+      try {
+        await fetch(this.webhookUrl, {
+          method: "POST",
+          headers,
+          body: rawBody,
+        });
+      } catch (error) {
+        console.error(`Fake gateway webhook ${event} delivery failed:`, error);
+      }
+    }
+  }
+}
+
+export default FakePaymentGateway;
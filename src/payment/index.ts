@@ -0,0 +1,11 @@
+export { PaymentUtils } from "./paymentUtils.js";
+export {
+  RazorpayGateway,
+  getPaymentGateway,
+  setPaymentGateway,
+} from "./paymentGateway.js";
+export type { PaymentGateway } from "./paymentGateway.js";
+export { FakePaymentGateway } from "./fakePaymentGateway.js";
+export { paymentController } from "./paymentController.js";
+export { paymentRoutes, fakePaymentRoutes } from "./paymentRoutes.js";
+export * from "./validator.js";
@@ -0,0 +1,250 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import { getPaymentGateway } from "./paymentGateway.js";
+import { FakePaymentGateway } from "./fakePaymentGateway.js";
+import PaymentUtils from "./paymentUtils.js";
+
+const prisma = new PrismaClient();
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+// A refund recorded without a refund ID is only picked up once it is this
+// old, so a cancellation still waiting on the gateway is not refunded twice
+const UNSENT_REFUND_MINUTES = 10;
+
+let refundRetryTimer: NodeJS.Timeout | null = null;
+
+// Simple payment database utilities
+class PaymentDbUtils {
+  // Issue refunds the gateway rejected and refunds that were recorded but
+  // never sent (e.g. for a payment captured after its booking was cancelled)
+  static async retryRefunds(): Promise<{ issued: number; failed: number }> {
+    const payments = await prisma.payment.findMany({
+      where: {
+        razorpayPaymentId: { not: null },
+        refundAmount: { gt: 0 },
+        OR: [
+          { refundStatus: "FAILED" },
+          {
+            refundStatus: "PENDING",
+            refundId: null,
+            updatedAt: {
+              lt: new Date(Date.now() - UNSENT_REFUND_MINUTES * 60 * 1000),
+            },
+          },
+        ],
+      },
+      orderBy: { updatedAt: "asc" },
+      take: 100,
+    });
+
+    let issued = 0;
+    let failed = 0;
+
+    for (const payment of payments) {
+      // Skip payments that changed since they were read (refunded meanwhile)
+      const claim = await prisma.payment.updateMany({
+        where: { id: payment.id, updatedAt: payment.updatedAt },
+        data: { refundStatus: "PENDING" },
+      });
+      if (claim.count === 0) {
+        continue;
+      }
+
+      const result = await PaymentUtils.issueRefund(
+        prisma,
+        payment,
+        "Refund retry"
+      );
+      if (result.refundStatus === "FAILED") {
+        failed++;
+      } else {
+        issued++;
+      }
+    }
+
+    return { issued, failed };
+  }
+}
+
+export class PaymentController {
+  // ================================
+  // REFUND RETRIES
+  // ================================
+
+  // Admin: retry failed and unsent refunds now
+  static async retryRefunds(req: Request, res: Response) {
+    try {
+      const result = await PaymentDbUtils.retryRefunds();
+
+      return ResponseUtils.success(
+        res,
+        `${result.issued} refund(s) issued, ${result.failed} failed`,
+        result
+      );
+    } catch (error) {
+      console.error("Retry refunds error:", error);
+      return ResponseUtils.serverError(res, "Failed to retry refunds");
+    }
+  }
+
+  // Retries failed and unsent refunds periodically until the gateway accepts them
+  static startRefundRetry() {
+    if (refundRetryTimer || process.env.REFUND_RETRY === "off") {
+      return;
+    }
+
+    const minutes = Number(process.env.REFUND_RETRY_INTERVAL_MINUTES) || 15;
+    // Gateway calls can make a run outlast the interval; skip ticks until it has finished
+    let running = false;
+    const run = async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const result = await PaymentDbUtils.retryRefunds();
+        if (result.issued > 0 || result.failed > 0) {
+          console.log(
+            `Refund retry: ${result.issued} issued, ${result.failed} failed`
+          );
+        }
+      } catch (error) {
+        console.error("Refund retry error:", error);
+      } finally {
+        running = false;
+      }
+    };
+
+    refundRetryTimer = setInterval(run, minutes * 60 * 1000);
+    refundRetryTimer.unref();
+    void run();
+  }
+
+  static stopRefundRetry() {
+    if (refundRetryTimer) {
+      clearInterval(refundRetryTimer);
+      refundRetryTimer = null;
+    }
+  }
+
+  // ================================
+  // FAKE GATEWAY (development and CI)
+  // ================================
+
+  private static getFakeGateway(): FakePaymentGateway | null {
+    const gateway = getPaymentGateway();
+    return gateway instanceof FakePaymentGateway ? gateway : null;
+  }
+
+  // Complete or fail checkout for an order, as the customer would in the
+  // Razorpay form. The response is the verify endpoint body
+  static async payFakeOrder(req: ValidatedRequest, res: Response) {
+    try {
+      const gateway = PaymentController.getFakeGateway();
+      if (!gateway) {
+        return ResponseUtils.notFound(
+          res,
+          "Fake payment gateway is not enabled"
+        );
+      }
+
+      const { orderId } = req.params;
+      const { fail } = req.validatedData?.body || req.body || {};
+
+      if (!orderId) {
+        return ResponseUtils.badRequest(res, "Order ID is required");
+      }
+
+      const result = await gateway.payOrder(orderId, { fail: !!fail });
+
+      return ResponseUtils.success(
+        res,
+        fail ? "Payment failed" : "Payment captured",
+        result
+      );
+    } catch (error) {
+      return ResponseUtils.badRequest(
+        res,
+        error instanceof Error ? error.message : "Failed to pay order"
+      );
+    }
+  }
+
+  static async getFakeOrder(req: Request, res: Response) {
+    const gateway = PaymentController.getFakeGateway();
+    if (!gateway) {
+      return ResponseUtils.notFound(res, "Fake payment gateway is not enabled");
+    }
+
+    const order = gateway.getOrder(req.params.orderId || "");
+    if (!order) {
+      return ResponseUtils.notFound(res, "Order not found");
+    }
+
+    return ResponseUtils.success(res, "Order retrieved successfully", order);
+  }
+
+  static async raiseFakeDispute(req: ValidatedRequest, res: Response) {
+    try {
+      const gateway = PaymentController.getFakeGateway();
+      if (!gateway) {
+        return ResponseUtils.notFound(
+          res,
+          "Fake payment gateway is not enabled"
+        );
+      }
+
+      const { paymentId } = req.params;
+      const { event } = req.validatedData?.body || req.body;
+
+      if (!paymentId) {
+        return ResponseUtils.badRequest(res, "Payment ID is required");
+      }
+
+      const result = await gateway.raiseDispute(paymentId, event);
+
+      return ResponseUtils.success(res, "Dispute event sent", result);
+    } catch (error) {
+      return ResponseUtils.badRequest(
+        res,
+        error instanceof Error ? error.message : "Failed to raise dispute"
+      );
+    }
+  }
+}
+
+export const paymentController = PaymentController;
@@ -0,0 +1,159 @@
+import Razorpay from "razorpay";
+import crypto from "crypto";
+import { FakePaymentGateway } from "./fakePaymentGateway.js";
+
+// Payment provider used for orders, signature checks and refunds.
+// PAYMENT_GATEWAY=razorpay (default) talks to Razorpay; PAYMENT_GATEWAY=fake
+// uses an in-process gateway so booking and payment flows run offline.
+
+export interface GatewayOrderRequest {
+  amount: number; // paise
+  currency: string;
+  receipt: string;
+  notes: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  id: string;
+  amount: number; // paise
+  currency: string;
+  receipt: string;
+  status: string;
+}
+
+export interface GatewayRefund {
+  id: string;
+  paymentId: string;
+  amount: number; // paise
+  status: "pending" | "processed" | "failed";
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+  // Public key handed to the checkout SDK
+  readonly keyId: string;
+  createOrder(request: GatewayOrderRequest): Promise<GatewayOrder>;
+  refundPayment(
+    paymentId: string,
+    amount: number, // paise
+    notes: Record<string, string>
+  ): Promise<GatewayRefund>;
+  verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string
+  ): boolean;
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+}
+
+// Constant-time comparison of a received hex signature
+export const signatureMatches = (
+  secret: string,
+  payload: string | Buffer,
+  signature: string
+): boolean => {
+  const expected = Buffer.from(
+    crypto.createHmac("sha256", secret).update(payload).digest("hex")
+  );
+  const received = Buffer.from(signature);
+
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+};
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = "razorpay";
+  private client: Razorpay | null = null;
+
+  get keyId(): string {
+    return process.env.RAZOR_PAY_KEY_ID || "";
+  }
+
+  // Created on first use so the app can start without keys when using the fake gateway
+  private getClient(): Razorpay {
+    if (!this.client) {
+      this.client = new Razorpay({
+        key_id: process.env.RAZOR_PAY_KEY_ID!,
+        key_secret: process.env.RAZOR_PAY_KEY_SECRET!,
+      });
+    }
+    return this.client;
+  }
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    const order = await this.getClient().orders.create(request);
+
+    return {
+      id: order.id,
+      amount: Number(order.amount),
+      currency: order.currency,
+      receipt: order.receipt || request.receipt,
+      status: order.status,
+    };
+  }
+
+  async refundPayment(
+    paymentId: string,
+    amount: number,
+    notes: Record<string, string>
+  ): Promise<GatewayRefund> {
+    const refund = await this.getClient().payments.refund(paymentId, {
+      amount,
+      notes,
+    });
+
+    return {
+      id: refund.id,
+      paymentId,
+      amount: Number(refund.amount),
+      status: refund.status,
+    };
+  }
+
+  verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string
+  ): boolean {
+    return signatureMatches(
+      process.env.RAZOR_PAY_KEY_SECRET!,
+      orderId + "|" + paymentId,
+      signature
+    );
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return signatureMatches(
+      process.env.RAZORPAY_WEBHOOK_SECRET || "",
+      rawBody,
+      signature
+    );
+  }
+}
+
+const createConfiguredGateway = (): PaymentGateway => {
+  if (process.env.PAYMENT_GATEWAY === "fake") {
+    return new FakePaymentGateway({
+      webhookUrl:
+        process.env.FAKE_GATEWAY_WEBHOOK_URL ||
+        `http://localhost:${process.env.PORT || 3000}/api/webhooks/razorpay`,
+    });
+  }
+
+  return new RazorpayGateway();
+};
+
+let paymentGateway: PaymentGateway | null = null;
+
+export const getPaymentGateway = (): PaymentGateway => {
+  if (!paymentGateway) {
+    paymentGateway = createConfiguredGateway();
+  }
+  return paymentGateway;
+};
+
+export const setPaymentGateway = (gateway: PaymentGateway) => {
+  paymentGateway = gateway;
+};
@@ -0,0 +1,469 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { FakePaymentGateway } from "./fakePaymentGateway.js";
+import type { FakeWebhookDelivery } from "./fakePaymentGateway.js";
+import { setPaymentGateway } from "./paymentGateway.js";
+import WebhookUtils from "../webhook/webhookUtils.js";
+import type { RazorpayWebhookEvent } from "../webhook/webhookUtils.js";
+
+// Payment lifecycle against the offline fake gateway: order, checkout,
+// signature checks, webhooks and refunds. The HTTP suite also books a room
+// through the API and needs a migrated database in TEST_DATABASE_URL:
+//
+//   DATABASE_URL=$TEST_DATABASE_URL npx prisma migrate deploy
+//   TEST_DATABASE_URL=postgresql://... npm test
+
+const collectWebhooks = (gateway: FakePaymentGateway) => {
+  const deliveries: FakeWebhookDelivery[] = [];
+  gateway.onWebhook((delivery) => {
+    deliveries.push(delivery);
+  });
+  return deliveries;
+};
+
+const parseEvent = (delivery: FakeWebhookDelivery): RazorpayWebhookEvent =>
+  JSON.parse(delivery.rawBody);
+
+// Response body of the API controllers
+type ApiResponse<T> = {
+  success: boolean;
+  message: string;
+  data: T;
+};
+
+// Response body of the webhook endpoint
+type WebhookResponse = { status: string } | { error: string };
+
+type Checkout = Awaited<ReturnType<FakePaymentGateway["payOrder"]>>;
+
+describe("fake gateway payment lifecycle", () => {
+  const gateway = new FakePaymentGateway({
+    secret: "lifecycle_secret",
+    webhookSecret: "lifecycle_webhook_secret",
+  });
+  const deliveries = collectWebhooks(gateway);
+
+  before(() => {
+    setPaymentGateway(gateway);
+  });
+
+  test("a paid order verifies and sends signed payment webhooks", async () => {
+    const order = await gateway.createOrder({
+      amount: 250000,
+      currency: "INR",
+      receipt: "bk_lifecycle_1",
+      notes: { bookingId: "booking_1" },
+    });
+    assert.equal(order.status, "created");
+
+    const checkout = await gateway.payOrder(order.id);
+    assert.equal(checkout.status, "captured");
+    assert.equal(checkout.razorpay_order_id, order.id);
+    assert.ok(
+      gateway.verifyPaymentSignature(
+        checkout.razorpay_order_id,
+        checkout.razorpay_payment_id,
+        checkout.razorpay_signature
+      )
+    );
+    assert.ok(
+      !gateway.verifyPaymentSignature(
+        order.id,
+        "pay_someone_else",
+        checkout.razorpay_signature
+      )
+    );
+
+    assert.deepEqual(
+      deliveries.map((delivery) => delivery.event),
+      ["payment.captured", "order.paid"]
+    );
+    for (const delivery of deliveries) {
+      const signature = delivery.headers["x-razorpay-signature"]!;
+      assert.ok(
+        WebhookUtils.verifySignature(Buffer.from(delivery.rawBody), signature)
+      );
+      assert.ok(
+        !WebhookUtils.verifySignature(
+          Buffer.from(delivery.rawBody + " "),
+          signature
+        )
+      );
+      assert.ok(WebhookUtils.isSupportedEvent(delivery.event));
+      assert.equal(
+        WebhookUtils.getEventId(
+          delivery.headers["x-razorpay-event-id"],
+          Buffer.from(delivery.rawBody)
+        ),
+        delivery.eventId
+      );
+
+      const event = parseEvent(delivery);
+      assert.equal(
+        event.payload.payment?.entity.id,
+        checkout.razorpay_payment_id
+      );
+      assert.equal(event.payload.payment?.entity.order_id, order.id);
+    }
+
+    assert.equal(gateway.getOrder(order.id)?.status, "paid");
+    await assert.rejects(gateway.payOrder(order.id), /already paid/);
+  });
+
+  test("refunds stay within the captured amount", async () => {
+    deliveries.length = 0;
+    const order = await gateway.createOrder({
+      amount: 100000,
+      currency: "INR",
+      receipt: "bk_lifecycle_2",
+      notes: { bookingId: "booking_2" },
+    });
+    const { razorpay_payment_id: paymentId } = await gateway.payOrder(order.id);
+    deliveries.length = 0;
+
+    const refund = await gateway.refundPayment(paymentId, 40000, {
+      bookingId: "booking_2",
+      reason: "Cancelled by guest",
+    });
+    assert.equal(refund.status, "processed");
+    await assert.rejects(
+      gateway.refundPayment(paymentId, 60001, { bookingId: "booking_2" }),
+      /exceeds the captured amount/
+    );
+
+    assert.deepEqual(
+      deliveries.map((delivery) => delivery.event),
+      ["refund.processed"]
+    );
+    const event = parseEvent(deliveries[0]!);
+    assert.equal(event.payload.refund?.entity.id, refund.id);
+    assert.equal(event.payload.refund?.entity.payment_id, paymentId);
+    assert.equal(event.payload.refund?.entity.amount, 40000);
+    assert.deepEqual(event.payload.refund?.entity.notes, {
+      bookingId: "booking_2",
+      reason: "Cancelled by guest",
+    });
+    assert.equal(
+      gateway.getOrder(order.id)?.payments[0]?.amount_refunded,
+      40000
+    );
+  });
+
+  test("a failed checkout sends payment.failed and cannot be refunded", async () => {
+    deliveries.length = 0;
+    const order = await gateway.createOrder({
+      amount: 50000,
+      currency: "INR",
+      receipt: "bk_lifecycle_3",
+      notes: {},
+    });
+
+    const checkout = await gateway.payOrder(order.id, { fail: true });
+    assert.equal(checkout.status, "failed");
+    assert.deepEqual(
+      deliveries.map((delivery) => delivery.event),
+      ["payment.failed"]
+    );
+    await assert.rejects(
+      gateway.refundPayment(checkout.razorpay_payment_id, 50000, {}),
+      /is not captured/
+    );
+
+    // The order stays open for another attempt
+    const retry = await gateway.payOrder(order.id);
+    assert.equal(retry.status, "captured");
+  });
+});
+
+describe(
+  "hotel booking payment lifecycle over HTTP",
+  {
+    skip: process.env.TEST_DATABASE_URL
+      ? false
+      : "TEST_DATABASE_URL is not set",
+  },
+  () => {
+    const gateway = new FakePaymentGateway();
+    const deliveries = collectWebhooks(gateway);
+
+    let server: Server;
+    let baseUrl: string;
+    let token: string;
+    let prisma: import("@prisma/client").PrismaClient;
+    let hotelId: string;
+    let roomId: string;
+
+    // Removed in after(); bookings, payments and the hotel go with the users
+    const userIds: string[] = [];
+    const eventIds: string[] = [];
+
+    const api = async <T = unknown>(
+      method: string,
+      path: string,
+      body?: unknown
+    ) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          authorization: `Bearer ${token}`,
+          "content-type": "application/json",
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+      return {
+        status: response.status,
+        body: (await response.json()) as ApiResponse<T>,
+      };
+    };
+
+    // Post gateway webhooks (by default the queued ones) to the webhook
+    // endpoint, as Razorpay would
+    const deliverWebhooks = async (batch = deliveries.splice(0)) => {
+      const results = [];
+      for (const delivery of batch) {
+        eventIds.push(delivery.eventId);
+        const response = await fetch(`${baseUrl}/api/webhooks/razorpay`, {
+          method: "POST",
+          headers: delivery.headers,
+          body: delivery.rawBody,
+        });
+        results.push({
+          event: delivery.event,
+          status: response.status,
+          body: (await response.json()) as WebhookResponse,
+        });
+      }
+      return results;
+    };
+
+    before(async () => {
+      // Modules create their Prisma clients on import, so point them at the
+      // test database first
+      process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+      process.env.JWT_SECRET ||= "lifecycle-test-secret";
+      process.env.GOOGLE_GEMINI_API_KEY ||= "lifecycle-test-key";
+
+      const { default: express } = await import("express");
+      const { default: jwt } = await import("jsonwebtoken");
+      const { PrismaClient } = await import("@prisma/client");
+      const { webhookRoutes } = await import("../webhook/webhookRoutes.js");
+      const { hotelRoutes } = await import("../hotel/hotelRoutes.js");
+      const { fakePaymentRoutes } = await import("./paymentRoutes.js");
+
+      setPaymentGateway(gateway);
+      prisma = new PrismaClient();
+
+      // Same mounting order as src/index.ts: webhooks read the raw body
+      const app = express();
+      app.use("/api/webhooks", webhookRoutes);
+      app.use(express.json());
+      app.use("/api/hotels", hotelRoutes);
+      app.use("/api/payments", fakePaymentRoutes);
+
+      server = app.listen(0);
+      await new Promise((resolve) => server.once("listening", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const suffix = String(Date.now()).slice(-9);
+      const customer = await prisma.user.create({
+        data: { phoneNumber: `6${suffix}`, role: "CUSTOMER" },
+      });
+      const vendorUser = await prisma.user.create({
+        data: { phoneNumber: `7${suffix}`, role: "VENDOR" },
+      });
+      userIds.push(customer.id, vendorUser.id);
+      const vendor = await prisma.vendor.create({
+        data: {
+          userId: vendorUser.id,
+          businessName: "Lifecycle Test Stays",
+          ownerName: "Test Owner",
+          contactNumbers: [`7${suffix}`],
+          email: "stays@example.com",
+          businessAddress: "1 Test Road",
+          gstNumber: "29ABCDE1234F1Z5",
+          panNumber: "ABCDE1234F",
+          aadhaarNumber: "123412341234",
+          vendorType: "HOTEL",
+          status: "APPROVED",
+        },
+      });
+      const hotel = await prisma.hotelProfile.create({
+        data: {
+          vendorId: vendor.id,
+          hotelName: "Lifecycle Test Hotel",
+          category: "HOMESTAY",
+          totalRooms: 1,
+          amenities: [],
+          cancellationPolicy: "Full refund up to 24 hours before check-in",
+          cancellationPolicyType: "FLEXIBLE",
+          checkInTime: "14:00",
+          checkOutTime: "11:00",
+        },
+      });
+      const room = await prisma.room.create({
+        data: {
+          hotelProfileId: hotel.id,
+          roomType: "DELUXE",
+          capacity: 2,
+          basePrice: 3000,
+          amenities: [],
+        },
+      });
+
+      hotelId = hotel.id;
+      roomId = room.id;
+      token = jwt.sign(
+        { userId: customer.id, role: customer.role, type: "access" },
+        process.env.JWT_SECRET
+      );
+    });
+
+    after(async () => {
+      server?.close();
+      await prisma?.webhookEvent.deleteMany({
+        where: { eventId: { in: eventIds } },
+      });
+      await prisma?.user.deleteMany({ where: { id: { in: userIds } } });
+      await prisma?.$disconnect();
+    });
+
+    test("book, pay, verify, cancel and refund", async () => {
+      const checkIn = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      const checkOut = new Date(checkIn.getTime() + 2 * 24 * 60 * 60 * 1000);
+
+      const created = await api("POST", "/api/hotels/bookings", {
+        hotelId,
+        roomId,
+        checkInDate: checkIn.toISOString().slice(0, 10),
+        checkOutDate: checkOut.toISOString().slice(0, 10),
+        numberOfGuests: 1,
+        userDetails: { firstName: "Test", lastName: "Guest" },
+        guestDetails: [
+          {
+            firstName: "Test",
+            lastName: "Guest",
+            age: 30,
+            isPrimaryGuest: true,
+          },
+        ],
+      });
+      assert.equal(created.status, 200, JSON.stringify(created.body));
+
+      const hotelBooking = await prisma.hotelBooking.findFirstOrThrow({
+        where: { roomId },
+        include: { booking: true },
+      });
+      const bookingId = hotelBooking.bookingId;
+      assert.equal(hotelBooking.booking.status, "DRAFT");
+
+      // 1. Payment order
+      const order = await api<{ orderId: string; amount: number }>(
+        "POST",
+        `/api/hotels/bookings/${hotelBooking.id}/payment/create-order`
+      );
+      assert.equal(order.status, 200, JSON.stringify(order.body));
+      const { orderId } = order.body.data;
+      assert.equal(
+        order.body.data.amount,
+        Math.round(hotelBooking.booking.totalAmount * 100)
+      );
+
+      // 2. The guest pays; the webhooks confirm the booking
+      const paid = await api<Checkout>(
+        "POST",
+        `/api/payments/fake/orders/${orderId}/pay`,
+        {}
+      );
+      assert.equal(paid.status, 200, JSON.stringify(paid.body));
+      const checkout = paid.body.data;
+
+      const delivered = [...deliveries];
+      const paymentWebhooks = await deliverWebhooks();
+      assert.deepEqual(
+        paymentWebhooks.map(({ event, status }) => [event, status]),
+        [
+          ["payment.captured", 200],
+          ["order.paid", 200],
+        ]
+      );
+
+      let payment = await prisma.payment.findUniqueOrThrow({
+        where: { bookingId },
+        include: { booking: true },
+      });
+      assert.equal(payment.paymentStatus, "SUCCESS");
+      assert.equal(payment.razorpayPaymentId, checkout.razorpay_payment_id);
+      assert.equal(payment.booking.status, "CONFIRMED");
+
+      // A redelivered event is acknowledged without being applied again
+      const [redelivery] = await deliverWebhooks(
+        delivered.filter((delivery) => delivery.event === "order.paid")
+      );
+      assert.equal(redelivery?.status, 200);
+      assert.deepEqual(redelivery?.body, { status: "duplicate" });
+
+      // 3. The app verifies the checkout signature
+      const verified = await api(
+        "POST",
+        `/api/hotels/bookings/${hotelBooking.id}/payment/verify`,
+        {
+          razorpay_order_id: checkout.razorpay_order_id,
+          razorpay_payment_id: checkout.razorpay_payment_id,
+          razorpay_signature: checkout.razorpay_signature,
+        }
+      );
+      assert.equal(verified.status, 200, JSON.stringify(verified.body));
+
+      // A signature for another order does not confirm this booking
+      const otherOrder = await gateway.createOrder({
+        amount: 100,
+        currency: "INR",
+        receipt: "bk_other_order",
+        notes: {},
+      });
+      const otherCheckout = await gateway.payOrder(otherOrder.id);
+      deliveries.length = 0;
+      const mismatched = await api(
+        "POST",
+        `/api/hotels/bookings/${hotelBooking.id}/payment/verify`,
+        {
+          razorpay_order_id: otherCheckout.razorpay_order_id,
+          razorpay_payment_id: otherCheckout.razorpay_payment_id,
+          razorpay_signature: otherCheckout.razorpay_signature,
+        }
+      );
+      assert.equal(mismatched.status, 400);
+
+      // 4. Cancelling well before check-in refunds the full amount
+      const cancelled = await api<{ refund: { refundStatus: string | null } }>(
+        "PATCH",
+        `/api/hotels/bookings/${bookingId}/cancel`
+      );
+      assert.equal(cancelled.status, 200, JSON.stringify(cancelled.body));
+      assert.equal(cancelled.body.data.refund.refundStatus, "PROCESSED");
+
+      const refundWebhooks = await deliverWebhooks();
+      assert.deepEqual(
+        refundWebhooks.map(({ event, status }) => [event, status]),
+        [["refund.processed", 200]]
+      );
+
+      payment = await prisma.payment.findUniqueOrThrow({
+        where: { bookingId },
+        include: { booking: true },
+      });
+      assert.equal(payment.paymentStatus, "REFUNDED");
+      assert.equal(payment.refundStatus, "PROCESSED");
+      assert.equal(payment.refundAmount, payment.totalAmount);
+      assert.equal(payment.booking.status, "CANCELLED");
+      assert.ok(payment.booking.cancelledAt);
+
+      const hold = await prisma.roomHold.findFirst({
+        where: { hotelBookingId: hotelBooking.id, status: "ACTIVE" },
+      });
+      assert.equal(hold, null);
+    });
+  }
+);
@@ -0,0 +1,43 @@
+import express from "express";
+import { paymentController } from "./paymentController.js";
+import { validate } from "../middleware/validation.js";
+import { authMiddleware, simpleAdminAuth } from "../middleware/auth.js";
+import { fakePaymentSchema, fakeDisputeSchema } from "./validator.js";
+
+const router = express.Router();
+const fakeRouter = express.Router();
+
+// ================================
+// ADMIN REFUND ROUTES
+// ================================
+
+// Retry failed and unsent refunds now
+router.post(
+  "/admin/refunds/retry",
+  authMiddleware,
+  simpleAdminAuth,
+  paymentController.retryRefunds
+);
+
+// ================================
+// FAKE GATEWAY ROUTES (PAYMENT_GATEWAY=fake only)
+// ================================
+
+// Inspect a fake order and its payments
+fakeRouter.get("/fake/orders/:orderId", paymentController.getFakeOrder);
+
+// Pay (or fail) a fake order; sends payment webhooks
+fakeRouter.post(
+  "/fake/orders/:orderId/pay",
+  validate(fakePaymentSchema),
+  paymentController.payFakeOrder
+);
+
+// Send a dispute webhook for a fake payment
+fakeRouter.post(
+  "/fake/payments/:paymentId/dispute",
+  validate(fakeDisputeSchema),
+  paymentController.raiseFakeDispute
+);
+
+export { router as paymentRoutes, fakeRouter as fakePaymentRoutes };
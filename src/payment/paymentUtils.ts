@@ -0,0 +1,268 @@
+import type { BookingStatus, Payment, Prisma } from "@prisma/client";
+import { getPaymentGateway } from "./paymentGateway.js";
+import TaxUtils from "../tax/taxUtils.js";
+
+type BookingForPayment = {
+  id: string;
+  vendorId: string;
+  totalAmount: number;
+  commissionAmount: number;
+};
+
+export class PaymentUtils {
+  // Generate short receipt (max 40 chars) - use last 8 chars of booking ID + timestamp
+  static generateReceipt(bookingId: string): string {
+    const timestamp = Date.now().toString().slice(-8);
+    const shortBookingId = bookingId.slice(-8);
+    return `bk_${shortBookingId}_${timestamp}`;
+  }
+
+  // Create a Razorpay order for the full booking amount
+  static async createRazorpayOrder(
+    booking: BookingForPayment,
+    notes: Record<string, string>
+  ) {
+    return await this.createOrder(booking.id, booking.totalAmount, {
+      bookingId: booking.id,
+      vendorId: booking.vendorId,
+      ...notes,
+    });
+  }
+
+  // Create a gateway order for an amount in rupees
+  static async createOrder(
+    referenceId: string,
+    amount: number,
+    notes: Record<string, string>
+  ) {
+    return await getPaymentGateway().createOrder({
+      amount: Math.round(amount * 100), // Convert to paise
+      currency: "INR",
+      receipt: this.generateReceipt(referenceId),
+      notes,
+    });
+  }
+
+  // Refund part or all of a captured payment, amount in rupees
+  static async refundPayment(
+    razorpayPaymentId: string,
+    amount: number,
+    notes: Record<string, string>
+  ) {
+    return await getPaymentGateway().refundPayment(
+      razorpayPaymentId,
+      Math.round(amount * 100), // Convert to paise
+      notes
+    );
+  }
+
+  // Send the refund recorded on a payment (refundAmount with refundStatus
+  // PENDING) to the gateway. A rejected refund is marked FAILED so the refund
+  // retry job can issue it again
+  static async issueRefund(
+    client: Prisma.TransactionClient,
+    payment: Pick<
+      Payment,
+      "id" | "bookingId" | "razorpayPaymentId" | "totalAmount" | "refundAmount"
+    >,
+    reason: string
+  ): Promise<{ refundId: string | null; refundStatus: string }> {
+    const refundAmount = payment.refundAmount ?? payment.totalAmount;
+
+    let refund;
+    try {
+      refund = await this.refundPayment(
+        payment.razorpayPaymentId!,
+        refundAmount,
+        { bookingId: payment.bookingId, reason }
+      );
+    } catch (error) {
+      console.error("Gateway refund error:", error);
+      await client.payment.update({
+        where: { id: payment.id },
+        data: { refundStatus: "FAILED" },
+      });
+      return { refundId: null, refundStatus: "FAILED" };
+    }
+
+    const refundStatus =
+      refund.status === "processed" ? "PROCESSED" : "PENDING";
+    await client.payment.update({
+      where: { id: payment.id },
+      data: {
+        paymentStatus:
+          refundAmount < payment.totalAmount
+            ? "PARTIALLY_REFUNDED"
+            : "REFUNDED",
+        refundId: refund.id,
+        refundAmount,
+        refundStatus,
+        refundedAt: new Date(),
+      },
+    });
+
+    return { refundId: refund.id, refundStatus };
+  }
+
+  // Public key the checkout SDK needs to open the payment form
+  static getCheckoutKey(): string {
+    return getPaymentGateway().keyId;
+  }
+
+  // Verify the checkout signature returned by the payment gateway
+  static verifyPaymentSignature(
+    orderId: string,
+    paymentId: string,
+    signature: string
+  ): boolean {
+    return getPaymentGateway().verifyPaymentSignature(
+      orderId,
+      paymentId,
+      signature
+    );
+  }
+
+  // Create or reset the PENDING payment record for a booking's Razorpay
+  // order, with the TCS and TDS to withhold from the vendor's share
+  static async upsertPendingPayment(
+    tx: Prisma.TransactionClient,
+    booking: BookingForPayment,
+    razorpayOrderId: string
+  ) {
+    const withholding = await TaxUtils.calculateWithholding(tx, booking.id);
+
+    return await tx.payment.upsert({
+      where: { bookingId: booking.id },
+      update: {
+        razorpayOrderId,
+        paymentStatus: "PENDING",
+        ...withholding,
+      },
+      create: {
+        bookingId: booking.id,
+        vendorId: booking.vendorId,
+        totalAmount: booking.totalAmount,
+        commissionAmount: booking.commissionAmount,
+        vendorAmount: booking.totalAmount - booking.commissionAmount,
+        paymentMethod: "RAZORPAY",
+        paymentStatus: "PENDING",
+        razorpayOrderId,
+        ...withholding,
+      },
+    });
+  }
+
+  // Move a booking and all of its type-specific rows to the same status
+  static async updateBookingStatus(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    status: BookingStatus
+  ) {
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        status,
+        ...(status === "CANCELLED" && { cancelledAt: new Date() }),
+      },
+    });
+
+    await tx.hotelBooking.updateMany({
+      where: { bookingId },
+      data: { status },
+    });
+
+    // A paid or cancelled booking no longer needs its room hold
+    if (status === "CONFIRMED" || status === "CANCELLED") {
+      await tx.roomHold.updateMany({
+        where: { hotelBooking: { bookingId }, status: "ACTIVE" },
+        data: {
+          status: status === "CONFIRMED" ? "CONVERTED" : "RELEASED",
+          releasedAt: new Date(),
+        },
+      });
+    }
+
+    await tx.adventureBooking.updateMany({
+      where: { bookingId },
+      data: { status },
+    });
+
+    await tx.transportBooking.updateMany({
+      where: { bookingId },
+      data: { status },
+    });
+
+    await tx.marketBooking.updateMany({
+      where: { bookingId },
+      data: { status },
+    });
+  }
+
+  // Confirm the bookings paid with a Razorpay order. A trip cart order is shared
+  // by one payment per vendor booking. Only unpaid payments of bookings still
+  // awaiting payment are confirmed; settled payments are left alone, and a
+  // capture for a booking that was cancelled or expired meanwhile is recorded
+  // and queued for a full refund instead of reviving the booking
+  static async confirmOrderPayments(
+    tx: Prisma.TransactionClient,
+    razorpayOrderId: string,
+    razorpayPaymentId: string,
+    razorpaySignature?: string
+  ): Promise<{ confirmed: Payment[]; refundQueued: Payment[] }> {
+    const payments = await tx.payment.findMany({
+      where: { razorpayOrderId },
+      include: { booking: { select: { status: true } } },
+    });
+
+    const confirmed: Payment[] = [];
+    const refundQueued: Payment[] = [];
+
+    for (const { booking, ...payment } of payments) {
+      if (!["PENDING", "FAILED"].includes(payment.paymentStatus)) continue;
+
+      const capture = {
+        razorpayPaymentId,
+        ...(razorpaySignature && { razorpaySignature }),
+        processedAt: new Date(),
+      };
+
+      if (["DRAFT", "PENDING"].includes(booking.status)) {
+        confirmed.push(
+          await tx.payment.update({
+            where: { id: payment.id },
+            data: { ...capture, paymentStatus: "SUCCESS" },
+          })
+        );
+        await this.updateBookingStatus(tx, payment.bookingId, "CONFIRMED");
+      } else if (booking.status === "CANCELLED") {
+        // No refundId yet: the refund retry job issues it
+        refundQueued.push(
+          await tx.payment.update({
+            where: { id: payment.id },
+            data: {
+              ...capture,
+              paymentStatus: "SUCCESS",
+              refundAmount: payment.totalAmount,
+              refundStatus: "PENDING",
+            },
+          })
+        );
+      }
+    }
+
+    if (confirmed.length > 0) {
+      await tx.tripCart.updateMany({
+        where: { razorpayOrderId },
+        data: {
+          status: "PAID",
+          razorpayPaymentId,
+          paidAt: new Date(),
+        },
+      });
+    }
+
+    return { confirmed, refundQueued };
+  }
+}
+
+export default PaymentUtils;
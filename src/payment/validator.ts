@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const paymentVerificationSchema = z.object({
+  body: z.object({
+    razorpay_payment_id: z.string().min(1, "Payment ID is required"),
+    razorpay_order_id: z.string().min(1, "Order ID is required"),
+    razorpay_signature: z.string().min(1, "Payment signature is required"),
+  }),
+});
+
+export const fakePaymentSchema = z.object({
+  body: z
+    .object({
+      fail: z.boolean().optional().default(false),
+    })
+    .optional()
+    .default({ fail: false }),
+});
+
+export const fakeDisputeSchema = z.object({
+  body: z.object({
+    event: z
+      .enum([
+        "payment.dispute.created",
+        "payment.dispute.won",
+        "payment.dispute.lost",
+      ])
+      .optional()
+      .default("payment.dispute.created"),
+  }),
+});
@@ -0,0 +1,4 @@
+export { payoutController } from "./payoutController.js";
+export { payoutRoutes } from "./payoutRoutes.js";
+export { PayoutUtils } from "./payoutUtils.js";
+export * from "./validator.js";
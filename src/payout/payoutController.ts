@@ -0,0 +1,700 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import type { Prisma, PayoutStatus, Vendor } from "@prisma/client";
+import PayoutUtils, { PAYOUT_TRANSITIONS } from "./payoutUtils.js";
+
+const prisma = new PrismaClient();
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static created(res: Response, message: string, data?: any) {
+    return res.status(201).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+type SettlementRunResult = {
+  vendorId: string;
+  businessName: string;
+  status: "CREATED" | "SKIPPED" | "FAILED";
+  payoutId?: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+  netAmount?: number;
+  reason?: string;
+};
+
+// Simple payout database utilities
+class PayoutDbUtils {
+  static async findVendorByUserId(userId: string) {
+    return await prisma.vendor.findUnique({
+      where: { userId },
+    });
+  }
+
+  // Create the payout for the vendor's last closed cycle. One payout per
+  // vendor and cycle, so running again for the same cycle does nothing
+  static async settleVendor(
+    vendor: Vendor,
+    asOf: Date
+  ): Promise<SettlementRunResult> {
+    const period = PayoutUtils.getSettlementPeriod(
+      vendor.paymentFrequency,
+      asOf
+    );
+    const base = {
+      vendorId: vendor.id,
+      businessName: vendor.businessName,
+      periodStart: period.start,
+      periodEnd: period.end,
+    };
+
+    return await prisma.$transaction(
+      async (tx) => {
+        const existing = await tx.payout.findUnique({
+          where: {
+            vendorId_periodStart: {
+              vendorId: vendor.id,
+              periodStart: period.start,
+            },
+          },
+        });
+        if (existing) {
+          return {
+            ...base,
+            status: "SKIPPED" as const,
+            payoutId: existing.id,
+            reason: "Cycle already settled",
+          };
+        }
+
+        const settlement = await PayoutUtils.collectSettlement(
+          tx,
+          vendor.id,
+          period.end
+        );
+
+        // Record refund and chargeback deductions now, so they are carried
+        // forward even when this cycle pays nothing
+        for (const adjustment of settlement.newAdjustments) {
+          await tx.payoutAdjustment.create({
+            data: { vendorId: vendor.id, ...adjustment },
+          });
+        }
+
+        const { totals } = settlement;
+        const hasAdjustments =
+          settlement.openAdjustments.length > 0 ||
+          settlement.newAdjustments.length > 0;
+
+        if (settlement.items.length === 0 && !hasAdjustments) {
+          return {
+            ...base,
+            status: "SKIPPED" as const,
+            reason: "Nothing to settle",
+          };
+        }
+
+        if (totals.netAmount <= 0) {
+          return {
+            ...base,
+            status: "SKIPPED" as const,
+            netAmount: totals.netAmount,
+            reason:
+              "Deductions exceed earnings; carried forward to the next cycle",
+          };
+        }
+
+        const bankDetails = await tx.bankDetails.findUnique({
+          where: { vendorId: vendor.id },
+        });
+
+        const payout = await tx.payout.create({
+          data: {
+            vendorId: vendor.id,
+            frequency: period.frequency,
+            periodStart: period.start,
+            periodEnd: period.end,
+            ...totals,
+            bankSnapshot: bankDetails
+              ? JSON.stringify(PayoutUtils.toBankSnapshot(bankDetails))
+              : null,
+            items: {
+              create: settlement.items.map(
+                ({ refundDeduction, ...item }) => item
+              ),
+            },
+          },
+        });
+
+        await tx.payoutAdjustment.updateMany({
+          where: { vendorId: vendor.id, payoutId: null },
+          data: { payoutId: payout.id },
+        });
+
+        return {
+          ...base,
+          status: "CREATED" as const,
+          payoutId: payout.id,
+          netAmount: payout.netAmount,
+        };
+      },
+      { timeout: 30000 }
+    );
+  }
+
+  // Settle every approved vendor (or one vendor). A failure for one vendor
+  // does not stop the others
+  static async runSettlementCycle(asOf: Date, vendorId?: string) {
+    const vendors = await prisma.vendor.findMany({
+      where: { status: "APPROVED", ...(vendorId && { id: vendorId }) },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const results: SettlementRunResult[] = [];
+
+    for (const vendor of vendors) {
+      try {
+        results.push(await this.settleVendor(vendor, asOf));
+      } catch (error: any) {
+        // A concurrent run created this cycle's payout first
+        if (error?.code === "P2002") {
+          results.push({
+            vendorId: vendor.id,
+            businessName: vendor.businessName,
+            status: "SKIPPED",
+            reason: "Cycle already settled",
+          });
+          continue;
+        }
+
+        console.error(`Settlement failed for vendor ${vendor.id}:`, error);
+        results.push({
+          vendorId: vendor.id,
+          businessName: vendor.businessName,
+          status: "FAILED",
+          reason: error instanceof Error ? error.message : "Settlement failed",
+        });
+      }
+    }
+
+    return {
+      asOf,
+      created: results.filter((result) => result.status === "CREATED").length,
+      skipped: results.filter((result) => result.status === "SKIPPED").length,
+      failed: results.filter((result) => result.status === "FAILED").length,
+      results,
+    };
+  }
+
+  static async findPayoutDetails(where: Prisma.PayoutWhereInput) {
+    const payout = await prisma.payout.findFirst({
+      where,
+      include: {
+        vendor: {
+          select: {
+            id: true,
+            businessName: true,
+            vendorType: true,
+            paymentFrequency: true,
+          },
+        },
+        items: { orderBy: { serviceDate: "asc" } },
+        adjustments: { orderBy: { createdAt: "asc" } },
+      },
+    });
+
+    return payout ? this.sanitizePayout(payout) : null;
+  }
+
+  static sanitizePayout<T extends { bankSnapshot: string | null }>(payout: T) {
+    return {
+      ...payout,
+      bankSnapshot: PayoutUtils.parseBankSnapshot(payout.bankSnapshot),
+    };
+  }
+
+  // Move a payout to a new status if it is in one of the allowed states
+  static async transitionPayout(
+    payoutId: string,
+    status: keyof typeof PAYOUT_TRANSITIONS,
+    data: Prisma.PayoutUpdateManyMutationInput
+  ) {
+    const payout = await prisma.payout.findUnique({
+      where: { id: payoutId },
+    });
+    if (!payout) {
+      throw new Error("Payout not found");
+    }
+
+    const allowed: readonly PayoutStatus[] = PAYOUT_TRANSITIONS[status];
+    const result = await prisma.payout.updateMany({
+      where: { id: payoutId, status: { in: [...allowed] } },
+      data: { ...data, status },
+    });
+
+    if (result.count === 0) {
+      throw new Error(
+        `Payout is ${payout.status} and cannot be marked ${status}`
+      );
+    }
+
+    return await this.findPayoutDetails({ id: payoutId });
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+let settlementTimer: NodeJS.Timeout | null = null;
+
+export class PayoutController {
+  // ================================
+  // SETTLEMENT RUNS
+  // ================================
+
+  // Admin: run the settlement cycle now (optionally as of another date or
+  // for a single vendor)
+  static async runSettlement(req: ValidatedRequest, res: Response) {
+    try {
+      const { asOf, vendorId } = req.validatedData?.body || req.body || {};
+
+      const summary = await PayoutDbUtils.runSettlementCycle(
+        asOf ? new Date(asOf) : new Date(),
+        vendorId
+      );
+
+      return ResponseUtils.success(
+        res,
+        `Settlement run complete: ${summary.created} payout(s) created`,
+        summary
+      );
+    } catch (error) {
+      console.error("Run settlement error:", error);
+      return ResponseUtils.serverError(res, "Failed to run settlement");
+    }
+  }
+
+  // Runs the settlement cycle periodically. Each run only settles cycles that
+  // have ended and have no payout yet, so frequent runs are harmless
+  static startSettlementScheduler() {
+    if (settlementTimer || process.env.SETTLEMENT_SCHEDULER === "off") {
+      return;
+    }
+
+    const hours = Number(process.env.SETTLEMENT_INTERVAL_HOURS) || 6;
+    const run = async () => {
+      try {
+        const summary = await PayoutDbUtils.runSettlementCycle(new Date());
+        if (summary.created > 0 || summary.failed > 0) {
+          console.log(
+            `Settlement run: ${summary.created} payout(s) created, ${summary.failed} failed`
+          );
+        }
+      } catch (error) {
+        console.error("Scheduled settlement error:", error);
+      }
+    };
+
+    settlementTimer = setInterval(run, hours * 60 * 60 * 1000);
+    settlementTimer.unref();
+    void run();
+  }
+
+  static stopSettlementScheduler() {
+    if (settlementTimer) {
+      clearInterval(settlementTimer);
+      settlementTimer = null;
+    }
+  }
+
+  // ================================
+  // ADMIN PAYOUT MANAGEMENT
+  // ================================
+
+  static async getPayouts(req: ValidatedRequest, res: Response) {
+    try {
+      const {
+        status,
+        vendorId,
+        page = 1,
+        limit = 20,
+      } = req.validatedData?.query || req.query;
+
+      const where: Prisma.PayoutWhereInput = {
+        ...(status && { status }),
+        ...(vendorId && { vendorId }),
+      };
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const [payouts, total] = await Promise.all([
+        prisma.payout.findMany({
+          where,
+          include: {
+            vendor: { select: { id: true, businessName: true } },
+            _count: { select: { items: true, adjustments: true } },
+          },
+          orderBy: [{ periodStart: "desc" }, { createdAt: "desc" }],
+          skip,
+          take: Number(limit),
+        }),
+        prisma.payout.count({ where }),
+      ]);
+
+      return ResponseUtils.success(res, "Payouts retrieved successfully", {
+        payouts: payouts.map((payout) => PayoutDbUtils.sanitizePayout(payout)),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get payouts error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve payouts");
+    }
+  }
+
+  static async getPayoutDetails(req: Request, res: Response) {
+    try {
+      const { payoutId } = req.params;
+      if (!payoutId) {
+        return ResponseUtils.badRequest(res, "Payout ID is required");
+      }
+
+      const payout = await PayoutDbUtils.findPayoutDetails({ id: payoutId });
+      if (!payout) {
+        return ResponseUtils.notFound(res, "Payout not found");
+      }
+
+      return ResponseUtils.success(
+        res,
+        "Payout retrieved successfully",
+        payout
+      );
+    } catch (error) {
+      console.error("Get payout details error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve payout");
+    }
+  }
+
+  // Transfer started. Takes a fresh copy of the vendor's bank details
+  static async markPayoutProcessing(req: Request, res: Response) {
+    try {
+      const { payoutId } = req.params;
+      if (!payoutId) {
+        return ResponseUtils.badRequest(res, "Payout ID is required");
+      }
+
+      const payout = await prisma.payout.findUnique({
+        where: { id: payoutId },
+        include: { vendor: { include: { bankDetails: true } } },
+      });
+      if (!payout) {
+        return ResponseUtils.notFound(res, "Payout not found");
+      }
+
+      const bankDetails = payout.vendor.bankDetails;
+      if (!bankDetails) {
+        return ResponseUtils.badRequest(
+          res,
+          "Vendor has no bank details on file"
+        );
+      }
+
+      const updated = await PayoutDbUtils.transitionPayout(
+        payoutId,
+        "PROCESSING",
+        {
+          processingAt: new Date(),
+          failureReason: null,
+          bankSnapshot: JSON.stringify(PayoutUtils.toBankSnapshot(bankDetails)),
+        }
+      );
+
+      return ResponseUtils.success(res, "Payout marked as processing", updated);
+    } catch (error) {
+      return PayoutController.handleTransitionError(res, error);
+    }
+  }
+
+  static async markPayoutPaid(req: ValidatedRequest, res: Response) {
+    try {
+      const { payoutId } = req.params;
+      const { transferReference, paidAt } = req.validatedData?.body || req.body;
+
+      if (!payoutId) {
+        return ResponseUtils.badRequest(res, "Payout ID is required");
+      }
+
+      const updated = await PayoutDbUtils.transitionPayout(payoutId, "PAID", {
+        transferReference,
+        paidAt: paidAt ? new Date(paidAt) : new Date(),
+        failureReason: null,
+      });
+
+      return ResponseUtils.success(res, "Payout marked as paid", updated);
+    } catch (error) {
+      return PayoutController.handleTransitionError(res, error);
+    }
+  }
+
+  static async markPayoutFailed(req: ValidatedRequest, res: Response) {
+    try {
+      const { payoutId } = req.params;
+      const { reason } = req.validatedData?.body || req.body;
+
+      if (!payoutId) {
+        return ResponseUtils.badRequest(res, "Payout ID is required");
+      }
+
+      const updated = await PayoutDbUtils.transitionPayout(payoutId, "FAILED", {
+        failureReason: reason,
+      });
+
+      return ResponseUtils.success(res, "Payout marked as failed", updated);
+    } catch (error) {
+      return PayoutController.handleTransitionError(res, error);
+    }
+  }
+
+  // Manual credit or deduction, netted off in the vendor's next payout
+  static async createAdjustment(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { vendorId, amount, reason } = req.validatedData?.body || req.body;
+
+      const vendor = await prisma.vendor.findUnique({
+        where: { id: vendorId },
+      });
+      if (!vendor) {
+        return ResponseUtils.notFound(res, "Vendor not found");
+      }
+
+      const adjustment = await prisma.payoutAdjustment.create({
+        data: {
+          vendorId,
+          type: "MANUAL",
+          amount: PayoutUtils.roundAmount(amount),
+          reason,
+          createdById: userId || null,
+        },
+      });
+
+      return ResponseUtils.created(
+        res,
+        "Adjustment added to the vendor's next payout",
+        adjustment
+      );
+    } catch (error) {
+      console.error("Create payout adjustment error:", error);
+      return ResponseUtils.serverError(res, "Failed to create adjustment");
+    }
+  }
+
+  // ================================
+  // VENDOR STATEMENTS
+  // ================================
+
+  static async getVendorStatements(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await PayoutDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view payout statements"
+        );
+      }
+
+      const {
+        status,
+        page = 1,
+        limit = 20,
+      } = req.validatedData?.query || req.query;
+
+      const where: Prisma.PayoutWhereInput = {
+        vendorId: vendor.id,
+        ...(status && { status }),
+      };
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const [payouts, total, byStatus] = await Promise.all([
+        prisma.payout.findMany({
+          where,
+          include: { _count: { select: { items: true, adjustments: true } } },
+          orderBy: { periodStart: "desc" },
+          skip,
+          take: Number(limit),
+        }),
+        prisma.payout.count({ where }),
+        prisma.payout.groupBy({
+          by: ["status"],
+          where: { vendorId: vendor.id },
+          _sum: { netAmount: true },
+        }),
+      ]);
+
+      const totalFor = (...statuses: PayoutStatus[]) =>
+        PayoutUtils.roundAmount(
+          byStatus
+            .filter((group) => statuses.includes(group.status))
+            .reduce((sum, group) => sum + (group._sum.netAmount || 0), 0)
+        );
+
+      return ResponseUtils.success(res, "Statements retrieved successfully", {
+        paymentFrequency: vendor.paymentFrequency,
+        summary: {
+          totalPaid: totalFor("PAID"),
+          inTransit: totalFor("SCHEDULED", "PROCESSING"),
+          failed: totalFor("FAILED"),
+        },
+        payouts: payouts.map((payout) => PayoutDbUtils.sanitizePayout(payout)),
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get vendor statements error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve statements");
+    }
+  }
+
+  static async getVendorStatement(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await PayoutDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view payout statements"
+        );
+      }
+
+      const { payoutId } = req.params;
+      if (!payoutId) {
+        return ResponseUtils.badRequest(res, "Payout ID is required");
+      }
+
+      const payout = await PayoutDbUtils.findPayoutDetails({
+        id: payoutId,
+        vendorId: vendor.id,
+      });
+      if (!payout) {
+        return ResponseUtils.notFound(res, "Payout not found");
+      }
+
+      return ResponseUtils.success(
+        res,
+        "Statement retrieved successfully",
+        payout
+      );
+    } catch (error) {
+      console.error("Get vendor statement error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve statement");
+    }
+  }
+
+  // What the vendor has earned so far in the current cycle. Nothing is
+  // written; the actual payout is created when the cycle ends
+  static async getVendorBalance(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await PayoutDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view payout balances"
+        );
+      }
+
+      const now = new Date();
+      const period = PayoutUtils.getCurrentPeriod(vendor.paymentFrequency, now);
+      const settlement = await PayoutUtils.collectSettlement(
+        prisma,
+        vendor.id,
+        now
+      );
+
+      return ResponseUtils.success(res, "Balance retrieved successfully", {
+        paymentFrequency: vendor.paymentFrequency,
+        cycle: { start: period.start, end: period.end },
+        nextSettlementOn: period.end,
+        ...settlement.totals,
+        items: settlement.items,
+        pendingDeductions: settlement.newAdjustments,
+      });
+    } catch (error) {
+      console.error("Get vendor balance error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve balance");
+    }
+  }
+
+  // ================================
+  // HELPERS
+  // ================================
+
+  private static handleTransitionError(res: Response, error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+
+    if (message.includes("not found")) {
+      return ResponseUtils.notFound(res, message);
+    }
+    if (message.includes("cannot be marked")) {
+      return ResponseUtils.badRequest(res, message);
+    }
+
+    console.error("Update payout status error:", error);
+    return ResponseUtils.serverError(res, "Failed to update payout");
+  }
+}
+
+export const payoutController = PayoutController;
@@ -0,0 +1,112 @@
+import express from "express";
+import { payoutController } from "./payoutController.js";
+import {
+  authMiddleware,
+  authorizeVendor,
+  simpleAdminAuth,
+} from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import {
+  runSettlementSchema,
+  payoutListSchema,
+  vendorStatementsSchema,
+  markPayoutPaidSchema,
+  markPayoutFailedSchema,
+  payoutAdjustmentSchema,
+} from "./validator.js";
+
+const router = express.Router();
+
+// ================================
+// VENDOR STATEMENT ROUTES
+// ================================
+
+// Payouts for the vendor with paid / in-transit totals
+router.get(
+  "/vendor/statements",
+  authMiddleware,
+  authorizeVendor,
+  validate(vendorStatementsSchema),
+  payoutController.getVendorStatements
+);
+
+// One payout with its bookings and adjustments
+router.get(
+  "/vendor/statements/:payoutId",
+  authMiddleware,
+  authorizeVendor,
+  payoutController.getVendorStatement
+);
+
+// Earnings so far in the current cycle
+router.get(
+  "/vendor/balance",
+  authMiddleware,
+  authorizeVendor,
+  payoutController.getVendorBalance
+);
+
+// ================================
+// ADMIN PAYOUT ROUTES
+// ================================
+
+// Run the settlement cycle now
+router.post(
+  "/admin/run",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(runSettlementSchema),
+  payoutController.runSettlement
+);
+
+// Manual credit or deduction for the next payout
+router.post(
+  "/admin/adjustments",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(payoutAdjustmentSchema),
+  payoutController.createAdjustment
+);
+
+router.get(
+  "/admin",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(payoutListSchema),
+  payoutController.getPayouts
+);
+
+router.get(
+  "/admin/:payoutId",
+  authMiddleware,
+  simpleAdminAuth,
+  payoutController.getPayoutDetails
+);
+
+// Bank transfer started
+router.patch(
+  "/admin/:payoutId/processing",
+  authMiddleware,
+  simpleAdminAuth,
+  payoutController.markPayoutProcessing
+);
+
+// Bank transfer completed
+router.patch(
+  "/admin/:payoutId/paid",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(markPayoutPaidSchema),
+  payoutController.markPayoutPaid
+);
+
+// Bank transfer rejected; can be retried
+router.patch(
+  "/admin/:payoutId/failed",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(markPayoutFailedSchema),
+  payoutController.markPayoutFailed
+);
+
+export { router as payoutRoutes };
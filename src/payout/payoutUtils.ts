@@ -0,0 +1,405 @@
+import type {
+  BankDetails,
+  PaymentFrequency,
+  Prisma,
+  VendorType,
+} from "@prisma/client";
+import TaxUtils from "../tax/taxUtils.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A settlement cycle: [start, end) in UTC days
+export interface SettlementPeriod {
+  frequency: PaymentFrequency;
+  start: Date;
+  end: Date;
+}
+
+// One payment's contribution to a payout
+export interface SettlementLine {
+  paymentId: string;
+  bookingId: string;
+  bookingType: VendorType;
+  serviceDate: Date;
+  grossAmount: number;
+  commissionAmount: number;
+  refundAmount: number; // customer refund already processed
+  refundDeduction: number; // vendor share of that refund
+  tcsAmount: number; // withheld on the part not refunded
+  tdsAmount: number;
+  netAmount: number;
+}
+
+// Deduction for money that left after the payment was settled
+export interface PendingAdjustment {
+  paymentId: string;
+  type: "REFUND" | "CHARGEBACK";
+  amount: number;
+  refundAmount: number | null;
+  reason: string;
+}
+
+export interface VendorSettlement {
+  items: SettlementLine[];
+  newAdjustments: PendingAdjustment[];
+  openAdjustments: Array<{ id: string; amount: number }>;
+  totals: {
+    grossAmount: number;
+    commissionAmount: number;
+    refundAmount: number;
+    adjustmentAmount: number;
+    tcsAmount: number;
+    tdsAmount: number;
+    netAmount: number;
+  };
+}
+
+export interface BankSnapshot {
+  accountHolder: string;
+  accountNumber: string;
+  ifscCode: string;
+  bankName: string;
+  branchName: string;
+}
+
+type SettleablePayment = Prisma.PaymentGetPayload<{
+  include: {
+    booking: {
+      include: {
+        hotelBooking: { select: { checkOutDate: true } };
+        adventureBooking: { select: { bookingDate: true } };
+        transportBooking: { select: { dropTime: true } };
+        marketBooking: { select: { createdAt: true } };
+      };
+    };
+  };
+}>;
+
+// Payout status changes admins may make, keyed by the new status
+export const PAYOUT_TRANSITIONS = {
+  PROCESSING: ["SCHEDULED", "FAILED"],
+  PAID: ["SCHEDULED", "PROCESSING", "FAILED"],
+  FAILED: ["SCHEDULED", "PROCESSING"],
+} as const;
+
+// Disputes that no longer put the payment at risk
+const SETTLED_DISPUTE_STATUSES = ["WON", "CLOSED"];
+
+export class PayoutUtils {
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  // Cycle containing `asOf`. Weekly cycles run Monday to Sunday, monthly
+  // cycles follow the calendar month
+  static getCurrentPeriod(
+    frequency: PaymentFrequency,
+    asOf: Date
+  ): SettlementPeriod {
+    if (frequency === "WEEKLY") {
+      const today = Date.UTC(
+        asOf.getUTCFullYear(),
+        asOf.getUTCMonth(),
+        asOf.getUTCDate()
+      );
+      const daysSinceMonday = (asOf.getUTCDay() + 6) % 7;
+      const start = new Date(today - daysSinceMonday * DAY_MS);
+
+      return {
+        frequency,
+        start,
+        end: new Date(start.getTime() + 7 * DAY_MS),
+      };
+    }
+
+    return {
+      frequency,
+      start: new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  // Most recent cycle that has ended by `asOf`; this is what a run settles
+  static getSettlementPeriod(
+    frequency: PaymentFrequency,
+    asOf: Date
+  ): SettlementPeriod {
+    const current = this.getCurrentPeriod(frequency, asOf);
+    return this.getCurrentPeriod(
+      frequency,
+      new Date(current.start.getTime() - DAY_MS)
+    );
+  }
+
+  // When the service was delivered: hotel check-out, activity slot,
+  // transport drop-off, or the market order itself. A cancelled booking
+  // has no service, so it is settled on its cancellation date
+  static getServiceDate(booking: SettleablePayment["booking"]): Date {
+    if (booking.status === "CANCELLED") {
+      return booking.cancelledAt ?? booking.updatedAt;
+    }
+
+    const dates = [
+      ...booking.hotelBooking.map((row) => row.checkOutDate),
+      ...booking.adventureBooking.map((row) => row.bookingDate),
+      ...booking.transportBooking.map((row) => row.dropTime),
+      ...booking.marketBooking.map((row) => row.createdAt),
+    ];
+
+    if (dates.length === 0) {
+      return booking.bookingDate;
+    }
+
+    return new Date(Math.max(...dates.map((date) => date.getTime())));
+  }
+
+  // Vendor's part of each rupee paid, used to split refunds the same way
+  // the payment was split
+  static getVendorShare(payment: {
+    totalAmount: number;
+    vendorAmount: number;
+  }): number {
+    return payment.totalAmount > 0
+      ? payment.vendorAmount / payment.totalAmount
+      : 0;
+  }
+
+  static toSettlementLine(payment: SettleablePayment): SettlementLine {
+    const refundAmount =
+      payment.paymentStatus === "PARTIALLY_REFUNDED"
+        ? payment.refundAmount || 0
+        : 0;
+    const refundDeduction = this.roundAmount(
+      refundAmount * this.getVendorShare(payment)
+    );
+    const { tcsAmount, tdsAmount } = TaxUtils.getWithholdingFor(
+      payment,
+      payment.totalAmount - refundAmount
+    );
+
+    return {
+      paymentId: payment.id,
+      bookingId: payment.bookingId,
+      bookingType: payment.booking.bookingType,
+      serviceDate: this.getServiceDate(payment.booking),
+      grossAmount: payment.totalAmount,
+      commissionAmount: payment.commissionAmount,
+      refundAmount,
+      refundDeduction,
+      tcsAmount,
+      tdsAmount,
+      netAmount: this.roundAmount(
+        payment.vendorAmount - refundDeduction - tcsAmount - tdsAmount
+      ),
+    };
+  }
+
+  // Everything a payout for this vendor would contain if the cycle closed at
+  // `cutoff`: unsettled payments for services delivered before the cutoff,
+  // deductions for refunds and lost chargebacks on already settled payments,
+  // and adjustments not yet netted off. Reads only, so it also serves previews
+  static async collectSettlement(
+    client: Prisma.TransactionClient,
+    vendorId: string,
+    cutoff: Date
+  ): Promise<VendorSettlement> {
+    const payments = await client.payment.findMany({
+      where: {
+        vendorId,
+        payoutItem: { is: null },
+        paymentStatus: { in: ["SUCCESS", "PARTIALLY_REFUNDED"] },
+        AND: [
+          {
+            OR: [
+              // Refunds still in flight are settled once they complete
+              {
+                booking: { status: { in: ["CONFIRMED", "COMPLETED"] } },
+                OR: [
+                  { refundStatus: null },
+                  { refundStatus: { not: "PENDING" } },
+                ],
+              },
+              // The vendor keeps what the cancellation policy did not refund,
+              // once the refund is final (none, or processed)
+              {
+                booking: { status: "CANCELLED" },
+                OR: [{ refundStatus: null }, { refundStatus: "PROCESSED" }],
+              },
+            ],
+          },
+          // Disputed payments are held until the dispute is resolved
+          {
+            OR: [
+              { disputeStatus: null },
+              { disputeStatus: { in: SETTLED_DISPUTE_STATUSES } },
+            ],
+          },
+        ],
+      },
+      include: {
+        booking: {
+          include: {
+            hotelBooking: { select: { checkOutDate: true } },
+            adventureBooking: { select: { bookingDate: true } },
+            transportBooking: { select: { dropTime: true } },
+            marketBooking: { select: { createdAt: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const items = payments
+      .map((payment) => this.toSettlementLine(payment))
+      .filter((line) => line.serviceDate < cutoff);
+
+    const newAdjustments = await this.collectPostSettlementDeductions(
+      client,
+      vendorId
+    );
+
+    const openAdjustments = await client.payoutAdjustment.findMany({
+      where: { vendorId, payoutId: null },
+      select: { id: true, amount: true },
+    });
+
+    const sum = (values: number[]) =>
+      this.roundAmount(values.reduce((total, value) => total + value, 0));
+
+    const adjustmentAmount = sum([
+      ...openAdjustments.map((adjustment) => adjustment.amount),
+      ...newAdjustments.map((adjustment) => adjustment.amount),
+    ]);
+
+    return {
+      items,
+      newAdjustments,
+      openAdjustments,
+      totals: {
+        grossAmount: sum(items.map((item) => item.grossAmount)),
+        commissionAmount: sum(items.map((item) => item.commissionAmount)),
+        refundAmount: sum(items.map((item) => item.refundDeduction)),
+        adjustmentAmount,
+        tcsAmount: sum(items.map((item) => item.tcsAmount)),
+        tdsAmount: sum(items.map((item) => item.tdsAmount)),
+        netAmount: sum([
+          ...items.map((item) => item.netAmount),
+          adjustmentAmount,
+        ]),
+      },
+    };
+  }
+
+  // Refunds processed and chargebacks lost after a payment was paid out are
+  // recovered from the vendor's next payout
+  static async collectPostSettlementDeductions(
+    client: Prisma.TransactionClient,
+    vendorId: string
+  ): Promise<PendingAdjustment[]> {
+    const settled = await client.payment.findMany({
+      where: {
+        vendorId,
+        payoutItem: { isNot: null },
+        OR: [{ refundStatus: "PROCESSED" }, { disputeStatus: "LOST" }],
+      },
+      include: {
+        payoutItem: true,
+        payoutAdjustments: {
+          where: { type: { in: ["REFUND", "CHARGEBACK"] } },
+        },
+      },
+    });
+
+    const deductions: PendingAdjustment[] = [];
+
+    for (const payment of settled) {
+      const item = payment.payoutItem!;
+      const refundAdjustments = payment.payoutAdjustments.filter(
+        (adjustment) => adjustment.type === "REFUND"
+      );
+      const vendorShare = this.getVendorShare(payment);
+
+      const alreadyCovered =
+        item.refundAmount +
+        refundAdjustments.reduce(
+          (total, adjustment) => total + (adjustment.refundAmount || 0),
+          0
+        );
+      const newRefund =
+        payment.refundStatus === "PROCESSED"
+          ? this.roundAmount((payment.refundAmount || 0) - alreadyCovered)
+          : 0;
+
+      // The vendor's share of the refund, less the TCS and TDS withheld on
+      // it, which the refund reverses
+      let refundDeduction = 0;
+      if (newRefund > 0) {
+        const reversed = TaxUtils.getWithholdingFor(payment, newRefund);
+        refundDeduction = this.roundAmount(
+          newRefund * vendorShare - reversed.tcsAmount - reversed.tdsAmount
+        );
+      }
+
+      if (newRefund > 0) {
+        deductions.push({
+          paymentId: payment.id,
+          type: "REFUND",
+          amount: -refundDeduction,
+          refundAmount: newRefund,
+          reason: `Refund of ₹${newRefund} on booking ${payment.bookingId} after settlement`,
+        });
+      }
+
+      const chargedBack = payment.payoutAdjustments.some(
+        (adjustment) => adjustment.type === "CHARGEBACK"
+      );
+
+      if (payment.disputeStatus === "LOST" && !chargedBack) {
+        // Take back whatever the vendor still holds for this payment
+        const stillHeld =
+          item.netAmount +
+          refundAdjustments.reduce(
+            (total, adjustment) => total + adjustment.amount,
+            0
+          ) -
+          refundDeduction;
+
+        if (stillHeld > 0) {
+          deductions.push({
+            paymentId: payment.id,
+            type: "CHARGEBACK",
+            amount: -this.roundAmount(stillHeld),
+            refundAmount: null,
+            reason: `Chargeback lost on booking ${payment.bookingId}`,
+          });
+        }
+      }
+    }
+
+    return deductions;
+  }
+
+  static toBankSnapshot(bankDetails: BankDetails): BankSnapshot {
+    return {
+      accountHolder: bankDetails.accountHolder,
+      accountNumber: bankDetails.accountNumber,
+      ifscCode: bankDetails.ifscCode,
+      bankName: bankDetails.bankName,
+      branchName: bankDetails.branchName,
+    };
+  }
+
+  static parseBankSnapshot(bankSnapshot: string | null): BankSnapshot | null {
+    if (!bankSnapshot) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(bankSnapshot) as BankSnapshot;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export default PayoutUtils;
@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+const payoutStatusSchema = z.enum([
+  "SCHEDULED",
+  "PROCESSING",
+  "PAID",
+  "FAILED",
+]);
+
+const dateSchema = (label: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be in YYYY-MM-DD format`);
+
+const paginationQuery = {
+  page: z
+    .string()
+    .optional()
+    .default("1")
+    .transform((val) => parseInt(val) || 1),
+  limit: z
+    .string()
+    .optional()
+    .default("20")
+    .transform((val) => Math.min(parseInt(val) || 20, 100)),
+};
+
+export const runSettlementSchema = z.object({
+  body: z
+    .object({
+      // Settle the cycles that had ended by this date (defaults to today)
+      asOf: dateSchema("As-of date").optional(),
+      vendorId: z.string().min(1).optional(),
+    })
+    .optional()
+    .default({}),
+});
+
+export const payoutListSchema = z.object({
+  query: z.object({
+    status: payoutStatusSchema.optional(),
+    vendorId: z.string().min(1).optional(),
+    ...paginationQuery,
+  }),
+});
+
+export const vendorStatementsSchema = z.object({
+  query: z.object({
+    status: payoutStatusSchema.optional(),
+    ...paginationQuery,
+  }),
+});
+
+export const markPayoutPaidSchema = z.object({
+  body: z.object({
+    transferReference: z
+      .string()
+      .trim()
+      .min(4, "Transfer reference (UTR) is required")
+      .max(100),
+    paidAt: dateSchema("Paid date").optional(),
+  }),
+});
+
+export const markPayoutFailedSchema = z.object({
+  body: z.object({
+    reason: z.string().trim().min(3, "Failure reason is required").max(500),
+  }),
+});
+
+export const payoutAdjustmentSchema = z.object({
+  body: z.object({
+    vendorId: z.string().min(1, "Vendor ID is required"),
+    // Positive credits the vendor, negative deducts
+    amount: z
+      .number()
+      .refine((val) => val !== 0, "Amount cannot be zero")
+      .refine((val) => Math.abs(val) <= 10000000, "Amount is too large"),
+    reason: z.string().trim().min(3, "Reason is required").max(500),
+  }),
+});
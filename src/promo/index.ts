@@ -0,0 +1,4 @@
+export { promoController } from "./promoController.js";
+export { promoRoutes } from "./promoRoutes.js";
+export { PromoUtils } from "./promoUtils.js";
+export * from "./validator.js";
@@ -0,0 +1,539 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import type { DiscountFunder, Prisma, PromoCode } from "@prisma/client";
+import PromoUtils from "./promoUtils.js";
+import AgreementUtils from "../agreement/agreementUtils.js";
+import type { CreatePromoInput, UpdatePromoInput } from "./validator.js";
+
+const prisma = new PrismaClient();
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static created(res: Response, message: string, data?: any) {
+    return res.status(201).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static conflict(res: Response, message: string) {
+    return this.error(res, message, 409);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+// Uses that count towards the limits (bookings not cancelled)
+const COUNTED_REDEMPTIONS = {
+  _count: {
+    select: {
+      redemptions: { where: { booking: { status: { not: "CANCELLED" } } } },
+    },
+  },
+} satisfies Prisma.PromoCodeInclude;
+
+// Simple promo database utilities
+class PromoDbUtils {
+  static async findVendorByUserId(userId: string) {
+    return await prisma.vendor.findUnique({
+      where: { userId },
+    });
+  }
+
+  // An end date covers the whole day (UTC)
+  static toValidUntil(date: string | null | undefined) {
+    if (date === undefined) {
+      return undefined;
+    }
+    return date === null ? null : new Date(`${date}T23:59:59.999Z`);
+  }
+
+  static async createPromo(
+    body: CreatePromoInput,
+    owner: {
+      createdById: string;
+      vendorId: string | null;
+      fundedBy: DiscountFunder;
+    }
+  ) {
+    return await prisma.promoCode.create({
+      data: {
+        code: body.code,
+        description: body.description ?? null,
+        discountType: body.discountType,
+        discountValue: body.discountValue,
+        maxDiscountAmount: body.maxDiscountAmount ?? null,
+        minBookingAmount: body.minBookingAmount ?? null,
+        fundedBy: owner.fundedBy,
+        vendorId: owner.vendorId,
+        createdById: owner.createdById,
+        validFrom: body.validFrom ? new Date(body.validFrom) : new Date(),
+        validUntil: this.toValidUntil(body.validUntil) ?? null,
+        usageLimit: body.usageLimit ?? null,
+        ...(body.perUserLimit !== undefined && {
+          perUserLimit: body.perUserLimit,
+        }),
+        bookingTypes: body.bookingTypes || [],
+        vendorIds: owner.vendorId ? [] : body.vendorIds || [],
+        roomIds: body.roomIds || [],
+      },
+    });
+  }
+
+  static async updatePromo(promoId: string, body: UpdatePromoInput) {
+    const validUntil = this.toValidUntil(body.validUntil);
+
+    return await prisma.promoCode.update({
+      where: { id: promoId },
+      data: {
+        ...(body.description !== undefined && {
+          description: body.description,
+        }),
+        ...(body.isActive !== undefined && { isActive: body.isActive }),
+        ...(validUntil !== undefined && { validUntil }),
+        ...(body.usageLimit !== undefined && { usageLimit: body.usageLimit }),
+        ...(body.perUserLimit !== undefined && {
+          perUserLimit: body.perUserLimit,
+        }),
+      },
+      include: COUNTED_REDEMPTIONS,
+    });
+  }
+
+  static async findPromos(
+    where: Prisma.PromoCodeWhereInput,
+    page: number,
+    limit: number
+  ) {
+    const [promos, total] = await Promise.all([
+      prisma.promoCode.findMany({
+        where,
+        include: COUNTED_REDEMPTIONS,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.promoCode.count({ where }),
+    ]);
+
+    return {
+      promos: promos.map((promo) => this.sanitizePromo(promo)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // Promo code with the number of times it has been used
+  static sanitizePromo(promo: PromoCode & { _count: { redemptions: number } }) {
+    const { _count, ...rest } = promo;
+    return { ...rest, timesUsed: _count.redemptions };
+  }
+}
+
+export class PromoController {
+  // ================================
+  // ADMIN PROMO MANAGEMENT
+  // ================================
+
+  // Admin codes may target any vendors, rooms and categories and are
+  // platform funded unless stated otherwise
+  static async createPromo(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const body: CreatePromoInput = req.validatedData?.body || req.body;
+
+      if (body.vendorIds?.length) {
+        const vendors = await prisma.vendor.count({
+          where: { id: { in: body.vendorIds } },
+        });
+        if (vendors !== new Set(body.vendorIds).size) {
+          return ResponseUtils.badRequest(res, "Some vendors were not found");
+        }
+      }
+
+      if (body.roomIds?.length) {
+        const rooms = await prisma.room.count({
+          where: { id: { in: body.roomIds } },
+        });
+        if (rooms !== new Set(body.roomIds).size) {
+          return ResponseUtils.badRequest(res, "Some rooms were not found");
+        }
+      }
+
+      const promo = await PromoDbUtils.createPromo(body, {
+        createdById: userId,
+        vendorId: null,
+        fundedBy: body.fundedBy || "PLATFORM",
+      });
+
+      return ResponseUtils.created(res, "Promo code created successfully", {
+        ...promo,
+        timesUsed: 0,
+      });
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        return ResponseUtils.conflict(res, "Promo code already exists");
+      }
+
+      console.error("Create promo error:", error);
+      return ResponseUtils.serverError(res, "Failed to create promo code");
+    }
+  }
+
+  static async getPromos(req: ValidatedRequest, res: Response) {
+    try {
+      const {
+        isActive,
+        vendorId,
+        page = 1,
+        limit = 20,
+      } = req.validatedData?.query || req.query;
+
+      const result = await PromoDbUtils.findPromos(
+        {
+          ...(isActive !== undefined && { isActive }),
+          ...(vendorId && { vendorId }),
+        },
+        page,
+        limit
+      );
+
+      return ResponseUtils.success(
+        res,
+        "Promo codes retrieved successfully",
+        result
+      );
+    } catch (error) {
+      console.error("Get promos error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve promo codes");
+    }
+  }
+
+  // A code with its latest redemptions and the discount given so far
+  static async getPromoDetails(req: Request, res: Response) {
+    try {
+      const { promoId } = req.params;
+      if (!promoId) {
+        return ResponseUtils.badRequest(res, "Promo ID is required");
+      }
+
+      const promo = await prisma.promoCode.findUnique({
+        where: { id: promoId },
+        include: {
+          ...COUNTED_REDEMPTIONS,
+          redemptions: {
+            include: {
+              booking: {
+                select: {
+                  id: true,
+                  bookingType: true,
+                  status: true,
+                  totalAmount: true,
+                },
+              },
+            },
+            orderBy: { createdAt: "desc" },
+            take: 50,
+          },
+        },
+      });
+      if (!promo) {
+        return ResponseUtils.notFound(res, "Promo code not found");
+      }
+
+      const discountGiven = await prisma.promoRedemption.aggregate({
+        where: {
+          promoCodeId: promo.id,
+          booking: { status: { not: "CANCELLED" } },
+        },
+        _sum: { discountAmount: true },
+      });
+
+      return ResponseUtils.success(res, "Promo code retrieved successfully", {
+        ...PromoDbUtils.sanitizePromo(promo),
+        discountGiven: PromoUtils.roundAmount(
+          discountGiven._sum.discountAmount || 0
+        ),
+      });
+    } catch (error) {
+      console.error("Get promo details error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve promo code");
+    }
+  }
+
+  static async updatePromo(req: ValidatedRequest, res: Response) {
+    try {
+      const { promoId } = req.params;
+      const body: UpdatePromoInput = req.validatedData?.body || req.body;
+
+      if (!promoId) {
+        return ResponseUtils.badRequest(res, "Promo ID is required");
+      }
+
+      const promo = await prisma.promoCode.findUnique({
+        where: { id: promoId },
+      });
+      if (!promo) {
+        return ResponseUtils.notFound(res, "Promo code not found");
+      }
+
+      const updated = await PromoDbUtils.updatePromo(promoId, body);
+
+      return ResponseUtils.success(
+        res,
+        "Promo code updated successfully",
+        PromoDbUtils.sanitizePromo(updated)
+      );
+    } catch (error) {
+      console.error("Update promo error:", error);
+      return ResponseUtils.serverError(res, "Failed to update promo code");
+    }
+  }
+
+  // ================================
+  // VENDOR ROUTES
+  // ================================
+
+  // Vendor codes only apply to the vendor's own listings and the vendor
+  // bears the discount
+  static async createVendorPromo(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await PromoDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can create promo codes"
+        );
+      }
+
+      const body: CreatePromoInput = req.validatedData?.body || req.body;
+
+      if (body.roomIds?.length) {
+        const rooms = await prisma.room.count({
+          where: {
+            id: { in: body.roomIds },
+            hotelProfile: { vendorId: vendor.id },
+          },
+        });
+        if (rooms !== new Set(body.roomIds).size) {
+          return ResponseUtils.badRequest(
+            res,
+            "Promo codes can only target your own rooms"
+          );
+        }
+      }
+
+      const promo = await PromoDbUtils.createPromo(body, {
+        createdById: userId,
+        vendorId: vendor.id,
+        fundedBy: "VENDOR",
+      });
+
+      return ResponseUtils.created(res, "Promo code created successfully", {
+        ...promo,
+        timesUsed: 0,
+      });
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        return ResponseUtils.conflict(res, "Promo code already exists");
+      }
+
+      console.error("Create vendor promo error:", error);
+      return ResponseUtils.serverError(res, "Failed to create promo code");
+    }
+  }
+
+  static async getVendorPromos(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await PromoDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can view promo codes"
+        );
+      }
+
+      const {
+        isActive,
+        page = 1,
+        limit = 20,
+      } = req.validatedData?.query || req.query;
+
+      const result = await PromoDbUtils.findPromos(
+        {
+          vendorId: vendor.id,
+          ...(isActive !== undefined && { isActive }),
+        },
+        page,
+        limit
+      );
+
+      return ResponseUtils.success(
+        res,
+        "Promo codes retrieved successfully",
+        result
+      );
+    } catch (error) {
+      console.error("Get vendor promos error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve promo codes");
+    }
+  }
+
+  static async updateVendorPromo(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const vendor = await PromoDbUtils.findVendorByUserId(userId);
+      if (!vendor) {
+        return ResponseUtils.unauthorized(
+          res,
+          "Only vendors can update promo codes"
+        );
+      }
+
+      const { promoId } = req.params;
+      const body: UpdatePromoInput = req.validatedData?.body || req.body;
+
+      if (!promoId) {
+        return ResponseUtils.badRequest(res, "Promo ID is required");
+      }
+
+      const promo = await prisma.promoCode.findFirst({
+        where: { id: promoId, vendorId: vendor.id },
+      });
+      if (!promo) {
+        return ResponseUtils.notFound(res, "Promo code not found");
+      }
+
+      const updated = await PromoDbUtils.updatePromo(promoId, body);
+
+      return ResponseUtils.success(
+        res,
+        "Promo code updated successfully",
+        PromoDbUtils.sanitizePromo(updated)
+      );
+    } catch (error) {
+      console.error("Update vendor promo error:", error);
+      return ResponseUtils.serverError(res, "Failed to update promo code");
+    }
+  }
+
+  // ================================
+  // CUSTOMER ROUTES
+  // ================================
+
+  // Preview a code against a booking before creating it. Nothing is
+  // reserved; the code is checked again when the booking is made
+  static async validatePromo(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { code, bookingType, vendorId, roomId, amount } =
+        req.validatedData?.body || req.body;
+
+      const { promo, discountAmount: offeredDiscount } =
+        await PromoUtils.findApplicablePromo(prisma, code, userId, {
+          vendorId,
+          bookingType,
+          roomId,
+          amount,
+        });
+
+      // A platform-funded discount is capped at the commission, as it will be
+      // when the booking is made
+      let discountAmount = offeredDiscount;
+      const vendor =
+        promo.fundedBy === "VENDOR"
+          ? null
+          : await prisma.vendor.findUnique({
+              where: { id: vendorId },
+              select: { id: true, commissionRate: true },
+            });
+      if (vendor) {
+        const room = roomId
+          ? await prisma.room.findUnique({
+              where: { id: roomId },
+              select: { roomType: true },
+            })
+          : null;
+        const commission = await AgreementUtils.calculateBookingCommission(
+          prisma,
+          vendor,
+          [{ amount, category: room?.roomType ?? null }]
+        );
+        ({ discountAmount } = PromoUtils.applyPlatformDiscount(
+          amount,
+          offeredDiscount,
+          commission
+        ));
+      }
+
+      return ResponseUtils.success(res, "Promo code applied", {
+        code: promo.code,
+        description: promo.description,
+        discountType: promo.discountType,
+        discountValue: promo.discountValue,
+        discountAmount,
+        payableAmount: PromoUtils.roundAmount(amount - discountAmount),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Promo code")) {
+        return error.message === "Promo code not found"
+          ? ResponseUtils.notFound(res, error.message)
+          : ResponseUtils.badRequest(res, error.message);
+      }
+
+      console.error("Validate promo error:", error);
+      return ResponseUtils.serverError(res, "Failed to validate promo code");
+    }
+  }
+}
+
+export const promoController = PromoController;
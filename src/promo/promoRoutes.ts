@@ -0,0 +1,99 @@
+import express from "express";
+import { promoController } from "./promoController.js";
+import {
+  authMiddleware,
+  authorizeVendor,
+  simpleAdminAuth,
+} from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import {
+  createPromoSchema,
+  updatePromoSchema,
+  promoListSchema,
+  validatePromoSchema,
+} from "./validator.js";
+
+const router = express.Router();
+
+// ================================
+// CUSTOMER ROUTES
+// ================================
+
+// Check a code against a booking and preview the discount
+router.post(
+  "/validate",
+  authMiddleware,
+  validate(validatePromoSchema),
+  promoController.validatePromo
+);
+
+// ================================
+// VENDOR ROUTES
+// ================================
+
+// Create a vendor-funded code for the vendor's own listings
+router.post(
+  "/vendor",
+  authMiddleware,
+  authorizeVendor,
+  validate(createPromoSchema),
+  promoController.createVendorPromo
+);
+
+// The vendor's codes with usage counts
+router.get(
+  "/vendor",
+  authMiddleware,
+  authorizeVendor,
+  validate(promoListSchema),
+  promoController.getVendorPromos
+);
+
+// Pause, extend or limit one of the vendor's codes
+router.patch(
+  "/vendor/:promoId",
+  authMiddleware,
+  authorizeVendor,
+  validate(updatePromoSchema),
+  promoController.updateVendorPromo
+);
+
+// ================================
+// ADMIN ROUTES
+// ================================
+
+// Create a code for any vendors, rooms or categories
+router.post(
+  "/admin",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(createPromoSchema),
+  promoController.createPromo
+);
+
+// All codes, filterable by status and vendor
+router.get(
+  "/admin",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(promoListSchema),
+  promoController.getPromos
+);
+
+// One code with its latest redemptions
+router.get(
+  "/admin/:promoId",
+  authMiddleware,
+  simpleAdminAuth,
+  promoController.getPromoDetails
+);
+
+router.patch(
+  "/admin/:promoId",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(updatePromoSchema),
+  promoController.updatePromo
+);
+
+export { router as promoRoutes };
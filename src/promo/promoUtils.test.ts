@@ -0,0 +1,46 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import PromoUtils from "./promoUtils.js";
+import type { BookingCommission } from "../agreement/agreementUtils.js";
+
+// ₹4,000 booking at 15% commission
+const commission: BookingCommission = {
+  commissionAmount: 600,
+  commissionRate: 15,
+  commissionAgreementId: null,
+  commissionSource: "VENDOR",
+};
+
+describe("PromoUtils.applyPlatformDiscount", () => {
+  test("takes the discount out of the commission", () => {
+    const pricing = PromoUtils.applyPlatformDiscount(4000, 500, commission);
+
+    assert.equal(pricing.totalAmount, 3500);
+    assert.equal(pricing.discountAmount, 500);
+    assert.equal(pricing.commissionAmount, 100);
+    assert.equal(pricing.commissionRate, 15);
+    // Vendor share is what it would have been without the code
+    assert.equal(pricing.totalAmount - pricing.commissionAmount, 3400);
+  });
+
+  test("caps a discount larger than the commission", () => {
+    const pricing = PromoUtils.applyPlatformDiscount(4000, 800, commission);
+
+    assert.equal(pricing.discountAmount, 600);
+    assert.equal(pricing.totalAmount, 3400);
+    assert.equal(pricing.commissionAmount, 0);
+    assert.equal(pricing.totalAmount - pricing.commissionAmount, 3400);
+  });
+
+  test("gives no platform-funded discount on a 0% commission", () => {
+    const pricing = PromoUtils.applyPlatformDiscount(4000, 500, {
+      ...commission,
+      commissionAmount: 0,
+      commissionRate: 0,
+    });
+
+    assert.equal(pricing.discountAmount, 0);
+    assert.equal(pricing.totalAmount, 4000);
+    assert.equal(pricing.commissionAmount, 0);
+  });
+});
@@ -0,0 +1,284 @@
+import type {
+  DiscountFunder,
+  Prisma,
+  PromoCode,
+  VendorType,
+} from "@prisma/client";
+import AgreementUtils from "../agreement/agreementUtils.js";
+import type {
+  BookingCommission,
+  CommissionLine,
+} from "../agreement/agreementUtils.js";
+
+// What a promo code is checked against
+export interface PromoTarget {
+  vendorId: string;
+  bookingType: VendorType;
+  roomId?: string | null | undefined;
+  amount: number; // Booking value before the discount
+}
+
+// Booking fields for the amount charged, the discount and the commission
+export interface BookingPricing extends BookingCommission {
+  totalAmount: number;
+  discountAmount: number;
+  promoCodeId: string | null;
+  discountFundedBy: DiscountFunder | null;
+}
+
+export interface PricingInput {
+  userId: string;
+  vendor: { id: string; commissionRate: number | null };
+  bookingType: VendorType;
+  roomId?: string | null | undefined;
+  lines: CommissionLine[];
+  promoCode?: string | null | undefined;
+  at?: Date;
+}
+
+export class PromoUtils {
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  // Discount on a booking value: a flat amount, or a percentage up to the
+  // code's cap. Never more than the booking itself
+  static calculateDiscount(promo: PromoCode, amount: number): number {
+    let discount =
+      promo.discountType === "FLAT"
+        ? promo.discountValue
+        : (amount * promo.discountValue) / 100;
+
+    if (promo.maxDiscountAmount !== null) {
+      discount = Math.min(discount, promo.maxDiscountAmount);
+    }
+
+    return this.roundAmount(Math.min(discount, amount));
+  }
+
+  // Why the code cannot be used on this booking, or null if it can
+  static getIneligibilityReason(
+    promo: PromoCode,
+    target: PromoTarget,
+    at: Date = new Date()
+  ): string | null {
+    if (!promo.isActive) {
+      return "Promo code is no longer active";
+    }
+    if (promo.validFrom > at) {
+      return "Promo code is not valid yet";
+    }
+    if (promo.validUntil && promo.validUntil < at) {
+      return "Promo code has expired";
+    }
+
+    const outOfScope =
+      (promo.vendorId !== null && promo.vendorId !== target.vendorId) ||
+      (promo.vendorIds.length > 0 &&
+        !promo.vendorIds.includes(target.vendorId)) ||
+      (promo.bookingTypes.length > 0 &&
+        !promo.bookingTypes.includes(target.bookingType)) ||
+      (promo.roomIds.length > 0 &&
+        (!target.roomId || !promo.roomIds.includes(target.roomId)));
+    if (outOfScope) {
+      return "Promo code does not apply to this booking";
+    }
+
+    if (
+      promo.minBookingAmount !== null &&
+      target.amount < promo.minBookingAmount
+    ) {
+      return `Promo code needs a booking value of at least ₹${promo.minBookingAmount}`;
+    }
+
+    return null;
+  }
+
+  // Uses that count towards the limits: every booking made with the code
+  // except cancelled ones, including checkouts cancelled when their hold expired
+  static async countRedemptions(
+    client: Prisma.TransactionClient,
+    promoCodeId: string,
+    userId?: string
+  ): Promise<number> {
+    return await client.promoRedemption.count({
+      where: {
+        promoCodeId,
+        ...(userId && { userId }),
+        booking: { status: { not: "CANCELLED" } },
+      },
+    });
+  }
+
+  // Look up a code and check it against the booking and its usage limits.
+  // With `lock`, the code's row is locked first so concurrent bookings cannot
+  // both take the last use
+  static async findApplicablePromo(
+    client: Prisma.TransactionClient,
+    code: string,
+    userId: string,
+    target: PromoTarget,
+    options: { lock?: boolean; at?: Date } = {}
+  ) {
+    const at = options.at || new Date();
+    let promo = await client.promoCode.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+    if (!promo) {
+      throw new Error("Promo code not found");
+    }
+
+    if (options.lock) {
+      promo = await client.promoCode.update({
+        where: { id: promo.id },
+        data: { updatedAt: new Date() },
+      });
+    }
+
+    const reason = this.getIneligibilityReason(promo, target, at);
+    if (reason) {
+      throw new Error(reason);
+    }
+
+    if (promo.usageLimit !== null) {
+      const used = await this.countRedemptions(client, promo.id);
+      if (used >= promo.usageLimit) {
+        throw new Error("Promo code usage limit reached");
+      }
+    }
+
+    if (promo.perUserLimit !== null) {
+      const usedByUser = await this.countRedemptions(client, promo.id, userId);
+      if (usedByUser >= promo.perUserLimit) {
+        throw new Error(
+          "Promo code has already been used the maximum number of times on your account"
+        );
+      }
+    }
+
+    return {
+      promo,
+      discountAmount: this.calculateDiscount(promo, target.amount),
+    };
+  }
+
+  // Amount charged and commission for a new booking, with the promo code
+  // applied if one was given. A vendor-funded discount lowers the value the
+  // commission is charged on; a platform-funded one comes out of the
+  // commission, so the vendor's share (totalAmount - commissionAmount) is
+  // what it would have been without the discount
+  static async priceBooking(
+    tx: Prisma.TransactionClient,
+    input: PricingInput
+  ): Promise<BookingPricing> {
+    const at = input.at || new Date();
+    const grossAmount = this.roundAmount(
+      input.lines.reduce((sum, line) => sum + line.amount, 0)
+    );
+
+    if (!input.promoCode) {
+      return {
+        totalAmount: grossAmount,
+        discountAmount: 0,
+        promoCodeId: null,
+        discountFundedBy: null,
+        ...(await AgreementUtils.calculateBookingCommission(
+          tx,
+          input.vendor,
+          input.lines,
+          at
+        )),
+      };
+    }
+
+    const { promo, discountAmount } = await this.findApplicablePromo(
+      tx,
+      input.promoCode,
+      input.userId,
+      {
+        vendorId: input.vendor.id,
+        bookingType: input.bookingType,
+        roomId: input.roomId,
+        amount: grossAmount,
+      },
+      { lock: true, at }
+    );
+
+    const promoFields = {
+      promoCodeId: promo.id,
+      discountFundedBy: promo.fundedBy,
+    };
+
+    if (promo.fundedBy === "VENDOR") {
+      const totalAmount = this.roundAmount(grossAmount - discountAmount);
+      const ratio = grossAmount > 0 ? totalAmount / grossAmount : 0;
+      const commission = await AgreementUtils.calculateBookingCommission(
+        tx,
+        input.vendor,
+        input.lines.map((line) => ({ ...line, amount: line.amount * ratio })),
+        at
+      );
+      return { totalAmount, discountAmount, ...promoFields, ...commission };
+    }
+
+    const commission = await AgreementUtils.calculateBookingCommission(
+      tx,
+      input.vendor,
+      input.lines,
+      at
+    );
+    return {
+      ...promoFields,
+      ...this.applyPlatformDiscount(grossAmount, discountAmount, commission),
+    };
+  }
+
+  // Take a platform-funded discount out of the commission. The discount is
+  // capped at the commission, so commissionAmount never goes negative and
+  // the vendor's share stays what it would have been without the code
+  static applyPlatformDiscount(
+    grossAmount: number,
+    discountAmount: number,
+    commission: BookingCommission
+  ): Omit<BookingPricing, "promoCodeId" | "discountFundedBy"> {
+    const appliedDiscount = this.roundAmount(
+      Math.min(discountAmount, Math.max(commission.commissionAmount, 0))
+    );
+
+    return {
+      ...commission,
+      totalAmount: this.roundAmount(grossAmount - appliedDiscount),
+      discountAmount: appliedDiscount,
+      commissionAmount: this.roundAmount(
+        commission.commissionAmount - appliedDiscount
+      ),
+    };
+  }
+
+  // Record the use of the booking's promo code, if it had one
+  static async recordRedemption(
+    tx: Prisma.TransactionClient,
+    pricing: BookingPricing,
+    bookingId: string,
+    userId: string
+  ) {
+    if (!pricing.promoCodeId) {
+      return;
+    }
+
+    await tx.promoRedemption.create({
+      data: {
+        promoCodeId: pricing.promoCodeId,
+        userId,
+        bookingId,
+        discountAmount: pricing.discountAmount,
+      },
+    });
+  }
+}
+
+export default PromoUtils;
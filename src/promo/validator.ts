@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+const bookingTypeSchema = z.enum([
+  "HOTEL",
+  "ADVENTURE",
+  "TRANSPORT",
+  "LOCAL_MARKET",
+]);
+
+const dateSchema = (label: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be in YYYY-MM-DD format`);
+
+const codeSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^[A-Za-z0-9_-]{3,30}$/,
+    "Code must be 3-30 letters, numbers, dashes or underscores"
+  )
+  .transform((code) => code.toUpperCase());
+
+const limitSchema = z
+  .number()
+  .int("Limits must be whole numbers")
+  .min(1, "Limits must be at least 1");
+
+const idListSchema = z.array(z.string().min(1)).max(100);
+
+export const createPromoSchema = z.object({
+  body: z
+    .object({
+      code: codeSchema,
+      description: z.string().trim().max(500).optional(),
+      discountType: z.enum(["FLAT", "PERCENTAGE"]),
+      discountValue: z.number().positive("Discount must be greater than 0"),
+      maxDiscountAmount: z
+        .number()
+        .positive("Maximum discount must be greater than 0")
+        .optional(),
+      minBookingAmount: z
+        .number()
+        .min(0, "Minimum booking value cannot be negative")
+        .optional(),
+      // Admin codes only; vendor codes are always vendor funded
+      fundedBy: z.enum(["PLATFORM", "VENDOR"]).optional(),
+      validFrom: dateSchema("Start date").optional(),
+      validUntil: dateSchema("End date").optional(),
+      usageLimit: limitSchema.optional(),
+      // null = no per-customer limit
+      perUserLimit: limitSchema.nullable().optional(),
+      bookingTypes: z.array(bookingTypeSchema).max(4).optional(),
+      // Admin codes only; vendor codes apply to the vendor's own listings
+      vendorIds: idListSchema.optional(),
+      roomIds: idListSchema.optional(),
+    })
+    .refine(
+      (data) => data.discountType !== "PERCENTAGE" || data.discountValue <= 100,
+      {
+        message: "A percentage discount cannot exceed 100%",
+        path: ["discountValue"],
+      }
+    )
+    .refine(
+      (data) =>
+        !data.validFrom ||
+        !data.validUntil ||
+        data.validUntil >= data.validFrom,
+      {
+        message: "End date must be on or after the start date",
+        path: ["validUntil"],
+      }
+    ),
+});
+
+// Discount terms are fixed once a code exists; only its availability changes
+export const updatePromoSchema = z.object({
+  body: z.object({
+    description: z.string().trim().max(500).optional(),
+    isActive: z.boolean().optional(),
+    validUntil: dateSchema("End date").nullable().optional(),
+    usageLimit: limitSchema.nullable().optional(),
+    perUserLimit: limitSchema.nullable().optional(),
+  }),
+});
+
+export const promoListSchema = z.object({
+  query: z.object({
+    isActive: z
+      .enum(["true", "false"])
+      .transform((val) => val === "true")
+      .optional(),
+    vendorId: z.string().min(1).optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("20")
+      .transform((val) => Math.min(parseInt(val) || 20, 100)),
+  }),
+});
+
+export const validatePromoSchema = z.object({
+  body: z.object({
+    code: codeSchema,
+    bookingType: bookingTypeSchema,
+    vendorId: z.string().min(1, "Vendor ID is required"),
+    roomId: z.string().min(1).optional(),
+    amount: z.number().positive("Booking amount must be greater than 0"),
+  }),
+});
+
+export type CreatePromoInput = z.infer<typeof createPromoSchema>["body"];
+export type UpdatePromoInput = z.infer<typeof updatePromoSchema>["body"];
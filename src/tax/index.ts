@@ -0,0 +1,9 @@
+export { taxController } from "./taxController.js";
+export { taxRoutes } from "./taxRoutes.js";
+export {
+  TaxUtils,
+  GST_TCS_RATE,
+  TDS_RATE,
+  TDS_RATE_WITHOUT_PAN,
+} from "./taxUtils.js";
+export * from "./validator.js";
@@ -0,0 +1,181 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import TaxUtils, { GST_TCS_RATE } from "./taxUtils.js";
+
+const prisma = new PrismaClient();
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+
+  // Send a CSV file download
+  static csv(res: Response, filename: string, content: string) {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    return res.status(200).send(content);
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+const sum = (values: number[]) =>
+  TaxUtils.roundAmount(values.reduce((total, value) => total + value, 0));
+
+export class TaxController {
+  // ================================
+  // ADMIN COMPLIANCE REPORTS
+  // ================================
+
+  // GST TCS for the month, one row per supplier GSTIN. Refunds processed in
+  // the month are netted off as returned supplies
+  static async getTcsReport(req: ValidatedRequest, res: Response) {
+    try {
+      const { month, format, vendorId } = req.validatedData?.query || req.query;
+
+      const { sales, returns } = await TaxUtils.findReportPayments(
+        prisma,
+        month,
+        {
+          vendorGstin: { not: null },
+          tcsRate: { gt: 0 },
+          ...(vendorId && { vendorId }),
+        }
+      );
+      const rows = TaxUtils.buildTcsReport(sales, returns);
+
+      if (format === "json") {
+        return ResponseUtils.success(res, "TCS report generated", {
+          month,
+          rate: GST_TCS_RATE,
+          rows,
+          totals: {
+            grossValue: sum(rows.map((row) => row.grossValue)),
+            returnedValue: sum(rows.map((row) => row.returnedValue)),
+            netValue: sum(rows.map((row) => row.netValue)),
+            cgstAmount: sum(rows.map((row) => row.cgstAmount)),
+            sgstAmount: sum(rows.map((row) => row.sgstAmount)),
+            igstAmount: sum(rows.map((row) => row.igstAmount)),
+            tcsAmount: sum(rows.map((row) => row.tcsAmount)),
+          },
+        });
+      }
+
+      const csv = TaxUtils.toCsv(
+        [
+          "GSTIN of Supplier",
+          "Supplier Name",
+          "Gross Value of Supplies Made",
+          "Value of Supplies Returned",
+          "Net Amount Liable for TCS",
+          "Integrated Tax",
+          "Central Tax",
+          "State/UT Tax",
+          "Payments",
+          "Returns",
+        ],
+        rows.map((row) => [
+          row.gstin,
+          row.vendorName,
+          row.grossValue.toFixed(2),
+          row.returnedValue.toFixed(2),
+          row.netValue.toFixed(2),
+          row.igstAmount.toFixed(2),
+          row.cgstAmount.toFixed(2),
+          row.sgstAmount.toFixed(2),
+          row.payments,
+          row.returns,
+        ])
+      );
+
+      return ResponseUtils.csv(res, `tcs-${month}.csv`, csv);
+    } catch (error) {
+      console.error("TCS report error:", error);
+      return ResponseUtils.serverError(res, "Failed to generate TCS report");
+    }
+  }
+
+  // Income tax TDS for the month, one row per deductee PAN and rate.
+  // Vendors without a valid PAN are listed as PANNOTAVBL at the higher rate
+  static async getTdsReport(req: ValidatedRequest, res: Response) {
+    try {
+      const { month, format, vendorId } = req.validatedData?.query || req.query;
+
+      const { sales, returns } = await TaxUtils.findReportPayments(
+        prisma,
+        month,
+        {
+          tdsRate: { gt: 0 },
+          ...(vendorId && { vendorId }),
+        }
+      );
+      const rows = TaxUtils.buildTdsReport(sales, returns);
+
+      if (format === "json") {
+        return ResponseUtils.success(res, "TDS report generated", {
+          month,
+          rows,
+          totals: {
+            grossAmount: sum(rows.map((row) => row.grossAmount)),
+            reversedAmount: sum(rows.map((row) => row.reversedAmount)),
+            netAmount: sum(rows.map((row) => row.netAmount)),
+            tdsAmount: sum(rows.map((row) => row.tdsAmount)),
+          },
+        });
+      }
+
+      const csv = TaxUtils.toCsv(
+        [
+          "PAN of Deductee",
+          "Name of Deductee",
+          "Section",
+          "Gross Amount Credited",
+          "Amount Reversed",
+          "Net Amount",
+          "Rate (%)",
+          "TDS Amount",
+          "Payments",
+          "Returns",
+        ],
+        rows.map((row) => [
+          row.pan,
+          row.vendorName,
+          row.section,
+          row.grossAmount.toFixed(2),
+          row.reversedAmount.toFixed(2),
+          row.netAmount.toFixed(2),
+          row.tdsRate,
+          row.tdsAmount.toFixed(2),
+          row.payments,
+          row.returns,
+        ])
+      );
+
+      return ResponseUtils.csv(res, `tds-${month}.csv`, csv);
+    } catch (error) {
+      console.error("TDS report error:", error);
+      return ResponseUtils.serverError(res, "Failed to generate TDS report");
+    }
+  }
+}
+
+export const taxController = TaxController;
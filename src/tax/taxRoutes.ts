@@ -0,0 +1,31 @@
+import express from "express";
+import { taxController } from "./taxController.js";
+import { authMiddleware, simpleAdminAuth } from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import { monthlyReportSchema } from "./validator.js";
+
+const router = express.Router();
+
+// ================================
+// ADMIN COMPLIANCE REPORTS
+// ================================
+
+// GST TCS collected per supplier GSTIN for a month (GSTR-8)
+router.get(
+  "/admin/reports/tcs",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(monthlyReportSchema),
+  taxController.getTcsReport
+);
+
+// Income tax TDS deducted per vendor PAN for a month (section 194-O)
+router.get(
+  "/admin/reports/tds",
+  authMiddleware,
+  simpleAdminAuth,
+  validate(monthlyReportSchema),
+  taxController.getTdsReport
+);
+
+export { router as taxRoutes };
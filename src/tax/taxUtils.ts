@@ -0,0 +1,358 @@
+import type { Payment, Prisma } from "@prisma/client";
+import InvoiceUtils, {
+  INVOICE_BOOKING_INCLUDE,
+} from "../invoice/invoiceUtils.js";
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// GST collected at source by the e-commerce operator (CGST Act section 52):
+// 0.5% of the net taxable value, split equally between CGST and SGST
+export const GST_TCS_RATE = 0.5;
+
+// Income tax deducted by the e-commerce operator (section 194-O) on the
+// value of sales excluding GST; 5% when the vendor has not furnished a PAN
+export const TDS_RATE = 0.1;
+export const TDS_RATE_WITHOUT_PAN = 5;
+
+export const TDS_SECTION = "194-O";
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+// Payment fields snapshotting the withholding on a booking
+export interface PaymentWithholding {
+  taxableValue: number;
+  vendorGstin: string | null;
+  vendorPan: string | null;
+  tcsRate: number;
+  tcsAmount: number;
+  tdsRate: number;
+  tdsAmount: number;
+}
+
+type WithholdingPayment = Pick<
+  Payment,
+  "totalAmount" | "tcsAmount" | "tdsAmount"
+>;
+
+type ReportPayment = Pick<
+  Payment,
+  | "id"
+  | "bookingId"
+  | "vendorId"
+  | "totalAmount"
+  | "taxableValue"
+  | "vendorGstin"
+  | "vendorPan"
+  | "tcsRate"
+  | "tcsAmount"
+  | "tdsRate"
+  | "tdsAmount"
+  | "refundAmount"
+  | "processedAt"
+  | "refundedAt"
+> & { vendor: { businessName: string } };
+
+// One row of the GST TCS report, per supplier GSTIN
+export interface TcsReportRow {
+  gstin: string;
+  vendorId: string;
+  vendorName: string;
+  grossValue: number;
+  returnedValue: number;
+  netValue: number;
+  igstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  tcsAmount: number;
+  payments: number;
+  returns: number;
+}
+
+// One row of the TDS report, per deductee PAN and rate
+export interface TdsReportRow {
+  pan: string;
+  vendorId: string;
+  vendorName: string;
+  section: string;
+  grossAmount: number;
+  reversedAmount: number;
+  netAmount: number;
+  tdsRate: number;
+  tdsAmount: number;
+  payments: number;
+  returns: number;
+}
+
+export class TaxUtils {
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  static isValidGstin(gstin: string | null | undefined): gstin is string {
+    return !!gstin && GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+  }
+
+  static isValidPan(pan: string | null | undefined): pan is string {
+    return !!pan && PAN_PATTERN.test(pan.trim().toUpperCase());
+  }
+
+  // TCS and TDS for a booking's payment. The base is the booking's value
+  // before GST, worked out line by line as on the customer tax invoice
+  static async calculateWithholding(
+    client: Prisma.TransactionClient,
+    bookingId: string
+  ): Promise<PaymentWithholding> {
+    const booking = await client.booking.findUnique({
+      where: { id: bookingId },
+      include: INVOICE_BOOKING_INCLUDE,
+    });
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+
+    const lines = InvoiceUtils.buildCustomerLines(booking).map((line) =>
+      InvoiceUtils.buildLine(line, false)
+    );
+    // Bookings without priced lines fall back to the full amount
+    const taxableValue =
+      lines.length > 0
+        ? InvoiceUtils.calculateTotals(lines).taxableAmount
+        : booking.totalAmount;
+
+    const vendorGstin = this.isValidGstin(booking.vendor.gstNumber)
+      ? booking.vendor.gstNumber.trim().toUpperCase()
+      : null;
+    const vendorPan = this.isValidPan(booking.vendor.panNumber)
+      ? booking.vendor.panNumber.trim().toUpperCase()
+      : null;
+
+    // Only registered suppliers sell through the operator with TCS
+    const tcsRate = vendorGstin ? GST_TCS_RATE : 0;
+    const tdsRate = vendorPan ? TDS_RATE : TDS_RATE_WITHOUT_PAN;
+
+    return {
+      taxableValue,
+      vendorGstin,
+      vendorPan,
+      tcsRate,
+      tcsAmount: this.roundAmount((taxableValue * tcsRate) / 100),
+      tdsRate,
+      tdsAmount: this.roundAmount((taxableValue * tdsRate) / 100),
+    };
+  }
+
+  // Withholding on `amount` rupees of the payment. Refunds reverse TCS and
+  // TDS in proportion, so only the part the vendor keeps is taxed
+  static getWithholdingFor(payment: WithholdingPayment, amount: number) {
+    const ratio =
+      payment.totalAmount > 0 ? Math.min(amount / payment.totalAmount, 1) : 0;
+
+    return {
+      tcsAmount: this.roundAmount(payment.tcsAmount * ratio),
+      tdsAmount: this.roundAmount(payment.tdsAmount * ratio),
+    };
+  }
+
+  // [start, end) of a calendar month in IST, from "YYYY-MM"
+  static getMonthRange(month: string): { start: Date; end: Date } {
+    const [year, monthIndex] = month.split("-").map(Number) as [number, number];
+
+    return {
+      start: new Date(Date.UTC(year, monthIndex - 1, 1) - IST_OFFSET_MS),
+      end: new Date(Date.UTC(year, monthIndex, 1) - IST_OFFSET_MS),
+    };
+  }
+
+  // Payments captured in the month and payments refunded in the month. A
+  // refund is reported in the month it was processed, not the month of sale
+  static async findReportPayments(
+    client: Prisma.TransactionClient,
+    month: string,
+    where: Prisma.PaymentWhereInput
+  ) {
+    const { start, end } = this.getMonthRange(month);
+    const select = {
+      id: true,
+      bookingId: true,
+      vendorId: true,
+      totalAmount: true,
+      taxableValue: true,
+      vendorGstin: true,
+      vendorPan: true,
+      tcsRate: true,
+      tcsAmount: true,
+      tdsRate: true,
+      tdsAmount: true,
+      refundAmount: true,
+      processedAt: true,
+      refundedAt: true,
+      vendor: { select: { businessName: true } },
+    } satisfies Prisma.PaymentSelect;
+
+    const [sales, returns] = await Promise.all([
+      client.payment.findMany({
+        where: {
+          ...where,
+          paymentStatus: {
+            in: ["SUCCESS", "PARTIALLY_REFUNDED", "REFUNDED"],
+          },
+          processedAt: { gte: start, lt: end },
+        },
+        select,
+        orderBy: { processedAt: "asc" },
+      }),
+      client.payment.findMany({
+        where: {
+          ...where,
+          refundStatus: "PROCESSED",
+          refundAmount: { gt: 0 },
+          refundedAt: { gte: start, lt: end },
+        },
+        select,
+        orderBy: { refundedAt: "asc" },
+      }),
+    ]);
+
+    return { sales, returns };
+  }
+
+  // Taxable value of the refunded part of a payment
+  static getReturnedValue(payment: ReportPayment): number {
+    const taxableValue = payment.taxableValue ?? payment.totalAmount;
+    return payment.totalAmount > 0
+      ? this.roundAmount(
+          ((payment.refundAmount || 0) * taxableValue) / payment.totalAmount
+        )
+      : 0;
+  }
+
+  // GST TCS per supplier GSTIN, laid out like GSTR-8 table 3. Supplies are
+  // intra-state (place of supply is the vendor's state), so TCS is CGST + SGST
+  static buildTcsReport(sales: ReportPayment[], returns: ReportPayment[]) {
+    const rows = new Map<string, TcsReportRow>();
+
+    const rowFor = (payment: ReportPayment) => {
+      const gstin = payment.vendorGstin!;
+      let row = rows.get(gstin);
+      if (!row) {
+        row = {
+          gstin,
+          vendorId: payment.vendorId,
+          vendorName: payment.vendor.businessName,
+          grossValue: 0,
+          returnedValue: 0,
+          netValue: 0,
+          igstAmount: 0,
+          cgstAmount: 0,
+          sgstAmount: 0,
+          tcsAmount: 0,
+          payments: 0,
+          returns: 0,
+        };
+        rows.set(gstin, row);
+      }
+      return row;
+    };
+
+    for (const payment of sales) {
+      const row = rowFor(payment);
+      row.grossValue += payment.taxableValue ?? payment.totalAmount;
+      row.tcsAmount += payment.tcsAmount;
+      row.payments += 1;
+    }
+
+    for (const payment of returns) {
+      const row = rowFor(payment);
+      row.returnedValue += this.getReturnedValue(payment);
+      row.tcsAmount -= this.getWithholdingFor(
+        payment,
+        payment.refundAmount || 0
+      ).tcsAmount;
+      row.returns += 1;
+    }
+
+    return [...rows.values()].map((row) => {
+      const tcsAmount = this.roundAmount(row.tcsAmount);
+      const cgstAmount = this.roundAmount(tcsAmount / 2);
+
+      return {
+        ...row,
+        grossValue: this.roundAmount(row.grossValue),
+        returnedValue: this.roundAmount(row.returnedValue),
+        netValue: this.roundAmount(row.grossValue - row.returnedValue),
+        cgstAmount,
+        sgstAmount: this.roundAmount(tcsAmount - cgstAmount),
+        tcsAmount,
+      };
+    });
+  }
+
+  // Income tax TDS per deductee PAN (or vendor, when no PAN was furnished)
+  // and rate, for the 26Q deductee details
+  static buildTdsReport(sales: ReportPayment[], returns: ReportPayment[]) {
+    const rows = new Map<string, TdsReportRow>();
+
+    const rowFor = (payment: ReportPayment) => {
+      const key = `${payment.vendorPan || payment.vendorId}:${payment.tdsRate}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          pan: payment.vendorPan || "PANNOTAVBL",
+          vendorId: payment.vendorId,
+          vendorName: payment.vendor.businessName,
+          section: TDS_SECTION,
+          grossAmount: 0,
+          reversedAmount: 0,
+          netAmount: 0,
+          tdsRate: payment.tdsRate,
+          tdsAmount: 0,
+          payments: 0,
+          returns: 0,
+        };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    for (const payment of sales) {
+      const row = rowFor(payment);
+      row.grossAmount += payment.taxableValue ?? payment.totalAmount;
+      row.tdsAmount += payment.tdsAmount;
+      row.payments += 1;
+    }
+
+    for (const payment of returns) {
+      const row = rowFor(payment);
+      row.reversedAmount += this.getReturnedValue(payment);
+      row.tdsAmount -= this.getWithholdingFor(
+        payment,
+        payment.refundAmount || 0
+      ).tdsAmount;
+      row.returns += 1;
+    }
+
+    return [...rows.values()].map((row) => ({
+      ...row,
+      grossAmount: this.roundAmount(row.grossAmount),
+      reversedAmount: this.roundAmount(row.reversedAmount),
+      netAmount: this.roundAmount(row.grossAmount - row.reversedAmount),
+      tdsAmount: this.roundAmount(row.tdsAmount),
+    }));
+  }
+
+  // RFC 4180 CSV with a header row
+  static toCsv(headers: string[], rows: Array<Array<string | number>>) {
+    const escape = (value: string | number) => {
+      const text = String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [headers, ...rows]
+      .map((row) => row.map(escape).join(","))
+      .join("\r\n")
+      .concat("\r\n");
+  }
+}
+
+export default TaxUtils;
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const monthlyReportSchema = z.object({
+  query: z.object({
+    month: z
+      .string()
+      .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format"),
+    format: z.enum(["csv", "json"]).optional().default("csv"),
+    vendorId: z.string().min(1).optional(),
+  }),
+});
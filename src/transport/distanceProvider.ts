@@ -0,0 +1,95 @@
+// Road distance lookup used for fare estimation and trip windows.
+// The default provider reads a static table of common Kashmir routes; a maps
+// API backed provider can be plugged in with setDistanceProvider().
+
+export interface RouteEstimate {
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface DistanceProvider {
+  readonly name: string;
+  getRoute(from: string, to: string): Promise<RouteEstimate | null>;
+}
+
+// Approximate road distance (km) and drive time (minutes) between destinations
+const KASHMIR_ROUTES: Array<[string, string, number, number]> = [
+  ["srinagar", "srinagar airport", 14, 35],
+  ["srinagar", "gulmarg", 50, 90],
+  ["srinagar", "pahalgam", 95, 150],
+  ["srinagar", "sonamarg", 80, 150],
+  ["srinagar", "doodhpathri", 42, 90],
+  ["srinagar", "yusmarg", 47, 90],
+  ["srinagar", "kokernag", 80, 120],
+  ["srinagar", "aru", 107, 180],
+  ["srinagar", "gurez", 125, 270],
+  ["srinagar", "jammu", 265, 480],
+  ["srinagar airport", "gulmarg", 57, 100],
+  ["srinagar airport", "pahalgam", 100, 160],
+  ["srinagar airport", "sonamarg", 92, 170],
+  ["srinagar airport", "doodhpathri", 35, 80],
+  ["srinagar airport", "yusmarg", 40, 80],
+  ["gulmarg", "pahalgam", 145, 240],
+  ["gulmarg", "sonamarg", 130, 240],
+  ["gulmarg", "doodhpathri", 65, 120],
+  ["pahalgam", "sonamarg", 170, 270],
+  ["pahalgam", "aru", 12, 30],
+  ["pahalgam", "chandanwari", 16, 40],
+  ["pahalgam", "betaab valley", 15, 35],
+  ["pahalgam", "kokernag", 60, 100],
+  ["sonamarg", "baltal", 15, 30],
+];
+
+// Common alternative names customers type for the same place
+const LOCATION_ALIASES: Record<string, string> = {
+  sxr: "srinagar airport",
+  airport: "srinagar airport",
+  "srinagar international airport": "srinagar airport",
+  "dal lake": "srinagar",
+  "lal chowk": "srinagar",
+  betaab: "betaab valley",
+  "aru valley": "aru",
+};
+
+export class StaticDistanceProvider implements DistanceProvider {
+  readonly name = "static";
+
+  private routes = new Map<string, RouteEstimate>();
+
+  constructor(routes = KASHMIR_ROUTES) {
+    for (const [from, to, distanceKm, durationMinutes] of routes) {
+      this.routes.set(`${from}|${to}`, { distanceKm, durationMinutes });
+      this.routes.set(`${to}|${from}`, { distanceKm, durationMinutes });
+    }
+  }
+
+  // "Gulmarg, Baramulla" and "  GULMARG " both resolve to "gulmarg"
+  static normalizeLocation(location: string): string {
+    const name = location
+      .split(",")[0]!
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    return LOCATION_ALIASES[name] || name;
+  }
+
+  async getRoute(from: string, to: string): Promise<RouteEstimate | null> {
+    const origin = StaticDistanceProvider.normalizeLocation(from);
+    const destination = StaticDistanceProvider.normalizeLocation(to);
+
+    if (origin === destination) {
+      return { distanceKm: 0, durationMinutes: 0 };
+    }
+
+    return this.routes.get(`${origin}|${destination}`) || null;
+  }
+}
+
+let distanceProvider: DistanceProvider = new StaticDistanceProvider();
+
+export const getDistanceProvider = (): DistanceProvider => distanceProvider;
+
+export const setDistanceProvider = (provider: DistanceProvider) => {
+  distanceProvider = provider;
+};
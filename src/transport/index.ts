@@ -0,0 +1,5 @@
+export { transportController } from "./transportController.js";
+export { transportRoutes } from "./transportRoutes.js";
+export * from "./validator.js";
+export { TransportUtils } from "./transportUtils.js";
+export * from "./distanceProvider.js";
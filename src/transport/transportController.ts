@@ -0,0 +1,1342 @@
+import type { Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import ImageKit from "imagekit";
+import TransportUtils from "./transportUtils.js";
+import { getDistanceProvider } from "./distanceProvider.js";
+import PaymentUtils from "../payment/paymentUtils.js";
+import PromoUtils from "../promo/promoUtils.js";
+
+const prisma = new PrismaClient();
+
+const imagekit = new ImageKit({
+  publicKey: process.env.IMAGE_KIT_PUBLIC_KEY!,
+  privateKey: process.env.IMAGE_KIT_PRIVATE_KEY!,
+  urlEndpoint: "https://ik.imagekit.io/sojourn",
+});
+
+// Mask phone number to show only last 2 digits
+class SecurityUtils {
+  static maskPhoneNumber(phoneNumber: string): string {
+    if (!phoneNumber || phoneNumber.length <= 2) return phoneNumber;
+    return "*".repeat(phoneNumber.length - 2) + phoneNumber.slice(-2);
+  }
+}
+
+// Simple response utilities
+class ResponseUtils {
+  static success(res: Response, message: string, data?: any) {
+    return res.status(200).json({
+      success: true,
+      message,
+      data,
+    });
+  }
+
+  static error(res: Response, message: string, statusCode = 400) {
+    return res.status(statusCode).json({
+      success: false,
+      message,
+    });
+  }
+
+  static badRequest(res: Response, message: string) {
+    return this.error(res, message, 400);
+  }
+
+  static unauthorized(res: Response, message: string) {
+    return this.error(res, message, 401);
+  }
+
+  static forbidden(res: Response, message: string) {
+    return this.error(res, message, 403);
+  }
+
+  static notFound(res: Response, message: string) {
+    return this.error(res, message, 404);
+  }
+
+  static conflict(res: Response, message: string) {
+    return this.error(res, message, 409);
+  }
+
+  static serverError(res: Response, message: string) {
+    return this.error(res, message, 500);
+  }
+}
+
+// Simple auth utilities
+class AuthUtils {
+  static getUserIdFromToken(req: Request): string {
+    // The auth middleware sets req.user.userId (not req.user.id)
+    return (req as any).user?.userId || "";
+  }
+}
+
+// Simple vendor database utilities
+class VendorDbUtils {
+  static async findVendorByUserId(userId: string) {
+    return await prisma.vendor.findUnique({
+      where: { userId },
+    });
+  }
+
+  // Get (or lazily create) the transport profile of an approved TRANSPORT vendor
+  static async findTransportVendor(userId: string) {
+    const vendor = await this.findVendorByUserId(userId);
+    if (!vendor) {
+      return { error: "Only vendors can manage vehicles" } as const;
+    }
+
+    if (vendor.status !== "APPROVED") {
+      return { error: "Vendor approval required to manage vehicles" } as const;
+    }
+
+    if (vendor.vendorType !== "TRANSPORT") {
+      return {
+        error: "Vendor type must be TRANSPORT to manage vehicles",
+      } as const;
+    }
+
+    const transportProfile = await prisma.transportProfile.upsert({
+      where: { vendorId: vendor.id },
+      update: {},
+      create: { vendorId: vendor.id },
+    });
+
+    return { vendor, transportProfile } as const;
+  }
+
+  static async findVendorVehicle(
+    vehicleId: string,
+    transportProfileId: string
+  ) {
+    return await prisma.vehicle.findFirst({
+      where: {
+        id: vehicleId,
+        transportProfileId,
+      },
+    });
+  }
+}
+
+// Extend Request interface to include validated data
+interface ValidatedRequest extends Request {
+  validatedData?: any;
+}
+
+export class TransportController {
+  // ================================
+  // FLEET MANAGEMENT
+  // ================================
+
+  static async registerVehicle(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+
+      // Use validated data from middleware
+      const {
+        vehicleType,
+        seatingCapacity,
+        registrationNumber,
+        driverName,
+        driverLicense,
+        driverContact,
+        pricePerKm,
+        pricePerHour,
+        pricePerRide,
+        availability,
+        insuranceDetails,
+      } = req.validatedData?.body || req.body;
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      // Registration numbers are unique across all vendors
+      const existingVehicle = await prisma.vehicle.findUnique({
+        where: { registrationNumber },
+      });
+
+      if (existingVehicle) {
+        return ResponseUtils.conflict(
+          res,
+          `Vehicle with registration number ${registrationNumber} is already registered`
+        );
+      }
+
+      const vehicle = await prisma.vehicle.create({
+        data: {
+          transportProfileId: result.transportProfile.id,
+          vehicleType,
+          seatingCapacity,
+          registrationNumber,
+          driverName,
+          driverLicense,
+          driverContact,
+          pricePerKm: pricePerKm ?? null,
+          pricePerHour: pricePerHour ?? null,
+          pricePerRide: pricePerRide ?? null,
+          availability: availability || "{}",
+          insuranceDetails,
+        },
+      });
+
+      const { uploadedImages, imageUploadErrors } =
+        await TransportController.uploadVehicleImageFiles(
+          req,
+          result.vendor.id,
+          vehicle.id
+        );
+
+      return ResponseUtils.success(
+        res,
+        imageUploadErrors.length > 0
+          ? "Vehicle registered successfully with some image upload errors"
+          : "Vehicle registered successfully",
+        {
+          ...vehicle,
+          uploadedImages,
+          ...(imageUploadErrors.length > 0 && {
+            imageErrors: imageUploadErrors,
+          }),
+        }
+      );
+    } catch (error) {
+      console.error("Register vehicle error:", error);
+      return ResponseUtils.serverError(res, "Failed to register vehicle");
+    }
+  }
+
+  static async updateVehicle(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { vehicleId } = req.params;
+      const updateData = req.validatedData?.body || req.body;
+
+      if (!vehicleId) {
+        return ResponseUtils.badRequest(res, "Vehicle ID is required");
+      }
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const vehicle = await VendorDbUtils.findVendorVehicle(
+        vehicleId,
+        result.transportProfile.id
+      );
+
+      if (!vehicle) {
+        return ResponseUtils.notFound(res, "Vehicle not found");
+      }
+
+      if (
+        updateData.registrationNumber &&
+        updateData.registrationNumber !== vehicle.registrationNumber
+      ) {
+        const existingVehicle = await prisma.vehicle.findUnique({
+          where: { registrationNumber: updateData.registrationNumber },
+        });
+
+        if (existingVehicle) {
+          return ResponseUtils.conflict(
+            res,
+            `Vehicle with registration number ${updateData.registrationNumber} is already registered`
+          );
+        }
+      }
+
+      // Make sure the vehicle keeps at least one pricing option
+      const nextPrices = ["pricePerKm", "pricePerHour", "pricePerRide"].map(
+        (field) =>
+          updateData[field] === undefined
+            ? vehicle[field as keyof typeof vehicle]
+            : updateData[field]
+      );
+
+      if (!nextPrices.some((price) => typeof price === "number" && price > 0)) {
+        return ResponseUtils.badRequest(
+          res,
+          "At least one of price per km, per hour or per ride is required"
+        );
+      }
+
+      const updatedVehicle = await prisma.vehicle.update({
+        where: { id: vehicleId },
+        data: updateData,
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Vehicle updated successfully",
+        updatedVehicle
+      );
+    } catch (error) {
+      console.error("Update vehicle error:", error);
+      return ResponseUtils.serverError(res, "Failed to update vehicle");
+    }
+  }
+
+  static async assignDriver(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { vehicleId } = req.params;
+      const { driverName, driverLicense, driverContact } =
+        req.validatedData?.body || req.body;
+
+      if (!vehicleId) {
+        return ResponseUtils.badRequest(res, "Vehicle ID is required");
+      }
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const vehicle = await VendorDbUtils.findVendorVehicle(
+        vehicleId,
+        result.transportProfile.id
+      );
+
+      if (!vehicle) {
+        return ResponseUtils.notFound(res, "Vehicle not found");
+      }
+
+      const updatedVehicle = await prisma.vehicle.update({
+        where: { id: vehicleId },
+        data: { driverName, driverLicense, driverContact },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Driver assigned successfully",
+        updatedVehicle
+      );
+    } catch (error) {
+      console.error("Assign driver error:", error);
+      return ResponseUtils.serverError(res, "Failed to assign driver");
+    }
+  }
+
+  static async toggleVehicleAvailability(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { vehicleId } = req.params;
+
+      if (!vehicleId) {
+        return ResponseUtils.badRequest(res, "Vehicle ID is required");
+      }
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const vehicle = await VendorDbUtils.findVendorVehicle(
+        vehicleId,
+        result.transportProfile.id
+      );
+
+      if (!vehicle) {
+        return ResponseUtils.notFound(res, "Vehicle not found");
+      }
+
+      const updatedVehicle = await prisma.vehicle.update({
+        where: { id: vehicleId },
+        data: { isAvailable: !vehicle.isAvailable },
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Vehicle availability updated",
+        updatedVehicle
+      );
+    } catch (error) {
+      console.error("Toggle vehicle availability error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to update vehicle availability"
+      );
+    }
+  }
+
+  static async getVendorVehicles(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        vehicleType,
+        isAvailable,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        transportProfileId: result.transportProfile.id,
+      };
+
+      if (vehicleType) {
+        where.vehicleType = vehicleType;
+      }
+
+      if (isAvailable) {
+        where.isAvailable = isAvailable === "true";
+      }
+
+      const vehicles = await prisma.vehicle.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          images: {
+            orderBy: [
+              { isPrimary: "desc" }, // Primary images first
+              { uploadedAt: "desc" }, // Then by upload date
+            ],
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.vehicle.count({ where });
+
+      return ResponseUtils.success(res, "Vehicles retrieved successfully", {
+        vehicles,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get vendor vehicles error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve vehicles");
+    }
+  }
+
+  // ================================
+  // VEHICLE PHOTOS
+  // ================================
+
+  static async uploadVehicleImages(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { vehicleId } = req.params;
+      const files = req.files as Express.Multer.File[];
+
+      if (!vehicleId) {
+        return ResponseUtils.badRequest(res, "Vehicle ID is required");
+      }
+
+      if (!files || files.length === 0) {
+        return ResponseUtils.badRequest(res, "At least one image is required");
+      }
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const vehicle = await VendorDbUtils.findVendorVehicle(
+        vehicleId,
+        result.transportProfile.id
+      );
+
+      if (!vehicle) {
+        return ResponseUtils.notFound(res, "Vehicle not found");
+      }
+
+      // If setting a new primary image, update existing ones to non-primary
+      const hasPrimaryInRequest = Array.isArray(req.body.isPrimary)
+        ? req.body.isPrimary.some((p: string) => p === "true")
+        : req.body.isPrimary === "true";
+
+      if (hasPrimaryInRequest) {
+        await prisma.vendorImage.updateMany({
+          where: { vehicleId, isPrimary: true },
+          data: { isPrimary: false },
+        });
+      }
+
+      const { uploadedImages, imageUploadErrors } =
+        await TransportController.uploadVehicleImageFiles(
+          req,
+          result.vendor.id,
+          vehicleId
+        );
+
+      if (uploadedImages.length === 0) {
+        return ResponseUtils.serverError(res, "Failed to upload images");
+      }
+
+      return ResponseUtils.success(
+        res,
+        imageUploadErrors.length > 0
+          ? "Images uploaded with some errors"
+          : "Images uploaded successfully",
+        {
+          uploadedImages,
+          ...(imageUploadErrors.length > 0 && {
+            imageErrors: imageUploadErrors,
+          }),
+        }
+      );
+    } catch (error) {
+      console.error("Upload vehicle images error:", error);
+      return ResponseUtils.serverError(res, "Failed to upload vehicle images");
+    }
+  }
+
+  static async deleteVehicleImage(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { vehicleId, imageId } = req.params;
+
+      if (!vehicleId || !imageId) {
+        return ResponseUtils.badRequest(
+          res,
+          "Vehicle ID and image ID are required"
+        );
+      }
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const image = await prisma.vendorImage.findFirst({
+        where: {
+          id: imageId,
+          vehicleId,
+          vendorId: result.vendor.id,
+        },
+      });
+
+      if (!image) {
+        return ResponseUtils.notFound(res, "Image not found");
+      }
+
+      // Delete from ImageKit
+      try {
+        const fileIdWithExt = image.imageUrl.split("/").pop();
+        const fileId = fileIdWithExt?.split(".")[0];
+        if (fileId) {
+          await imagekit.deleteFile(fileId);
+        }
+      } catch (error) {
+        console.error("ImageKit deletion error:", error);
+        // Continue with database deletion even if ImageKit deletion fails
+      }
+
+      await prisma.vendorImage.delete({
+        where: { id: imageId },
+      });
+
+      return ResponseUtils.success(res, "Image deleted successfully");
+    } catch (error) {
+      console.error("Delete vehicle image error:", error);
+      return ResponseUtils.serverError(res, "Failed to delete image");
+    }
+  }
+
+  // ================================
+  // CUSTOMER VEHICLE SEARCH & FARES
+  // ================================
+
+  static async searchVehicles(req: ValidatedRequest, res: Response) {
+    try {
+      const {
+        vehicleType,
+        passengers,
+        page = 1,
+        limit = 10,
+      } = req.validatedData?.query || req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        isAvailable: true,
+        transportProfile: {
+          vendor: {
+            status: "APPROVED",
+          },
+        },
+      };
+
+      if (vehicleType) {
+        where.vehicleType = vehicleType;
+      }
+
+      if (passengers) {
+        where.seatingCapacity = { gte: Number(passengers) };
+      }
+
+      const vehicles = await prisma.vehicle.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        select: {
+          id: true,
+          vehicleType: true,
+          seatingCapacity: true,
+          pricePerKm: true,
+          pricePerHour: true,
+          pricePerRide: true,
+          images: {
+            orderBy: [{ isPrimary: "desc" }, { uploadedAt: "desc" }],
+            take: 1,
+          },
+          transportProfile: {
+            select: {
+              vendor: {
+                select: {
+                  businessName: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { seatingCapacity: "asc" },
+      });
+
+      const total = await prisma.vehicle.count({ where });
+
+      return ResponseUtils.success(res, "Vehicles retrieved successfully", {
+        vehicles,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Search vehicles error:", error);
+      return ResponseUtils.serverError(res, "Failed to search vehicles");
+    }
+  }
+
+  static async getFareEstimate(req: ValidatedRequest, res: Response) {
+    try {
+      const { vehicleId, pickupLocation, dropLocation, rentalHours } =
+        req.validatedData?.query || req.query;
+
+      const vehicle = await prisma.vehicle.findUnique({
+        where: { id: vehicleId },
+        include: {
+          transportProfile: {
+            include: {
+              vendor: true,
+            },
+          },
+        },
+      });
+
+      if (
+        !vehicle ||
+        !vehicle.isAvailable ||
+        vehicle.transportProfile.vendor.status !== "APPROVED"
+      ) {
+        return ResponseUtils.notFound(
+          res,
+          "Vehicle not found or not available"
+        );
+      }
+
+      const route = await TransportUtils.estimateRoute(
+        pickupLocation,
+        dropLocation
+      );
+      const fareOptions = TransportUtils.calculateFareOptions(
+        vehicle,
+        route,
+        rentalHours
+      );
+
+      if (fareOptions.length === 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "Vehicle has no pricing available for this trip"
+        );
+      }
+
+      return ResponseUtils.success(res, "Fare estimated successfully", {
+        vehicleId: vehicle.id,
+        pickupLocation,
+        dropLocation,
+        distanceKm: route.distanceKm,
+        durationMinutes: TransportUtils.getTripMinutes(route, rentalHours),
+        distanceSource: getDistanceProvider().name,
+        fareOptions,
+        recommendedFare: TransportUtils.selectFare(fareOptions),
+      });
+    } catch (error) {
+      console.error("Fare estimate error:", error);
+
+      if (error instanceof Error && error.message.startsWith("Route ")) {
+        return ResponseUtils.badRequest(res, error.message);
+      }
+
+      return ResponseUtils.serverError(res, "Failed to estimate fare");
+    }
+  }
+
+  // ================================
+  // BOOKING MANAGEMENT
+  // ================================
+
+  static async createTransportBooking(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const {
+        vehicleId,
+        pickupLocation,
+        dropLocation,
+        pickupDate,
+        pickupTime,
+        numberOfPassengers,
+        rentalHours,
+        pricingType,
+        promoCode,
+      } = req.validatedData?.body || req.body;
+
+      const pickupAt = TransportUtils.buildPickupTime(pickupDate, pickupTime);
+      if (isNaN(pickupAt.getTime())) {
+        return ResponseUtils.badRequest(res, "Invalid pickup date or time");
+      }
+
+      if (pickupAt < new Date()) {
+        return ResponseUtils.badRequest(
+          res,
+          "Pickup time cannot be in the past"
+        );
+      }
+
+      // Resolve the route before opening the transaction, providers may call external APIs
+      const route = await TransportUtils.estimateRoute(
+        pickupLocation,
+        dropLocation
+      );
+      const tripMinutes = TransportUtils.getTripMinutes(route, rentalHours);
+      const dropAt = new Date(
+        pickupAt.getTime() + Math.max(tripMinutes, 1) * 60 * 1000
+      );
+
+      // Use a transaction so the overlap check and booking creation are atomic.
+      // The vehicle lock makes concurrent bookings of the vehicle wait their turn
+      const result = await prisma.$transaction(async (tx) => {
+        await TransportUtils.lockVehicle(tx, vehicleId);
+
+        const vehicle = await tx.vehicle.findUnique({
+          where: { id: vehicleId },
+          include: {
+            transportProfile: {
+              include: {
+                vendor: true,
+              },
+            },
+          },
+        });
+
+        if (
+          !vehicle ||
+          !vehicle.isAvailable ||
+          vehicle.transportProfile.vendor.status !== "APPROVED"
+        ) {
+          throw new Error("Vehicle not found or not available");
+        }
+
+        if (numberOfPassengers > vehicle.seatingCapacity) {
+          throw new Error(
+            `Seating capacity exceeded. Maximum ${vehicle.seatingCapacity} passengers allowed`
+          );
+        }
+
+        const conflictingBooking = await TransportUtils.findConflictingBooking(
+          vehicle.id,
+          pickupAt,
+          dropAt,
+          tx
+        );
+
+        if (conflictingBooking) {
+          throw new Error(
+            "Vehicle is not available for the selected time. It is already booked for an overlapping trip."
+          );
+        }
+
+        const fare = TransportUtils.selectFare(
+          TransportUtils.calculateFareOptions(vehicle, route, rentalHours),
+          pricingType
+        );
+        const vendor = vehicle.transportProfile.vendor;
+        const pricing = await PromoUtils.priceBooking(tx, {
+          userId,
+          vendor,
+          bookingType: "TRANSPORT",
+          lines: [{ amount: fare.totalAmount, category: vehicle.vehicleType }],
+          promoCode,
+        });
+
+        const booking = await tx.booking.create({
+          data: {
+            userId,
+            vendorId: vendor.id,
+            bookingType: "TRANSPORT",
+            ...pricing,
+            status: "DRAFT",
+          },
+        });
+
+        await PromoUtils.recordRedemption(tx, pricing, booking.id, userId);
+
+        const transportBooking = await tx.transportBooking.create({
+          data: {
+            bookingId: booking.id,
+            transportProfileId: vehicle.transportProfileId,
+            vehicleId: vehicle.id,
+            pickupLocation,
+            dropLocation,
+            bookingDate: TransportUtils.buildPickupTime(pickupDate, "00:00"),
+            pickupTime: pickupAt,
+            dropTime: dropAt,
+            numberOfPassengers,
+            distanceKm: route.distanceKm,
+            durationMinutes: tripMinutes,
+            pricingType: fare.pricingType,
+            totalAmount: fare.totalAmount,
+            status: "DRAFT",
+          },
+        });
+
+        return await tx.transportBooking.findUnique({
+          where: { id: transportBooking.id },
+          include: {
+            booking: true,
+            vehicle: {
+              select: {
+                vehicleType: true,
+                seatingCapacity: true,
+                registrationNumber: true,
+              },
+            },
+          },
+        });
+      });
+
+      return ResponseUtils.success(
+        res,
+        "Transport booking created successfully",
+        result
+      );
+    } catch (error) {
+      console.error("Create transport booking error:", error);
+
+      // Handle specific transaction errors
+      if (error instanceof Error) {
+        if (
+          error.message.startsWith("Route ") ||
+          error.message.startsWith("Promo code") ||
+          error.message.includes("not available") ||
+          error.message.includes("not found") ||
+          error.message.includes("exceeded") ||
+          error.message.includes("no pricing") ||
+          error.message.includes("Invalid")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to create booking");
+    }
+  }
+
+  static async getCustomerBookings(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { status, page = 1, limit = 10 } = req.query;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        booking: {
+          userId,
+          bookingType: "TRANSPORT",
+        },
+        status: { not: "DRAFT" }, // Exclude DRAFT bookings from customer view
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const bookings = await prisma.transportBooking.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          booking: {
+            include: {
+              payment: {
+                select: {
+                  paymentStatus: true,
+                  paymentMethod: true,
+                  totalAmount: true,
+                  processedAt: true,
+                  refundAmount: true,
+                },
+              },
+            },
+          },
+          vehicle: {
+            select: {
+              vehicleType: true,
+              registrationNumber: true,
+              driverName: true,
+              driverContact: true,
+            },
+          },
+          transportProfile: {
+            select: {
+              vendor: {
+                select: {
+                  businessName: true,
+                  contactNumbers: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      const total = await prisma.transportBooking.count({ where });
+
+      return ResponseUtils.success(res, "Bookings retrieved successfully", {
+        bookings,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          totalPages: Math.ceil(total / Number(limit)),
+        },
+      });
+    } catch (error) {
+      console.error("Get customer transport bookings error:", error);
+      return ResponseUtils.serverError(res, "Failed to retrieve bookings");
+    }
+  }
+
+  static async getVendorBookings(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { status, page = 1, limit = 10 } = req.query;
+
+      const result = await VendorDbUtils.findTransportVendor(userId);
+      if ("error" in result) {
+        return ResponseUtils.forbidden(res, result.error);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = {
+        transportProfileId: result.transportProfile.id,
+        status: { not: "DRAFT" },
+      };
+
+      if (status) {
+        where.status = status;
+      }
+
+      const bookings = await prisma.transportBooking.findMany({
+        where,
+        skip,
+        take: Number(limit),
+        include: {
+          booking: {
+            include: {
+              user: {
+                select: {
+                  phoneNumber: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+              payment: {
+                select: {
+                  paymentStatus: true,
+                  paymentMethod: true,
+                },
+              },
+            },
+          },
+          vehicle: {
+            select: {
+              vehicleType: true,
+              registrationNumber: true,
+              driverName: true,
+            },
+          },
+        },
+        orderBy: { pickupTime: "asc" },
+      });
+
+      const total = await prisma.transportBooking.count({ where });
+
+      const sanitizedBookings = bookings.map((booking) => ({
+        bookingId: booking.id,
+        status: booking.status,
+        pickupLocation: booking.pickupLocation,
+        dropLocation: booking.dropLocation,
+        pickupTime: booking.pickupTime,
+        dropTime: booking.dropTime,
+        numberOfPassengers: booking.numberOfPassengers,
+        distanceKm: booking.distanceKm,
+        pricingType: booking.pricingType,
+        totalAmount: booking.totalAmount,
+        createdAt: booking.createdAt,
+        vehicle: booking.vehicle,
+        customer: {
+          phoneNumber: SecurityUtils.maskPhoneNumber(
+            booking.booking.user.phoneNumber
+          ),
+          firstName: booking.booking.user.firstName || "N/A",
+          lastName: booking.booking.user.lastName || "N/A",
+        },
+        payment: {
+          status: booking.booking.payment?.paymentStatus || "PENDING",
+          method: booking.booking.payment?.paymentMethod,
+        },
+      }));
+
+      return ResponseUtils.success(
+        res,
+        "Vendor bookings retrieved successfully",
+        {
+          bookings: sanitizedBookings,
+          pagination: {
+            page: Number(page),
+            limit: Number(limit),
+            total,
+            totalPages: Math.ceil(total / Number(limit)),
+          },
+        }
+      );
+    } catch (error) {
+      console.error("Get vendor transport bookings error:", error);
+      return ResponseUtils.serverError(
+        res,
+        "Failed to retrieve vendor bookings"
+      );
+    }
+  }
+
+  // ================================
+  // PAYMENT METHODS
+  // ================================
+
+  static async createPaymentOrder(req: Request, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { bookingId } = req.params;
+
+      if (!bookingId) {
+        return ResponseUtils.badRequest(res, "Booking ID is required");
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        // bookingId is the transport booking ID from URL
+        const transportBooking = await tx.transportBooking.findUnique({
+          where: { id: bookingId },
+          include: {
+            booking: {
+              include: {
+                user: {
+                  select: {
+                    phoneNumber: true,
+                  },
+                },
+                payment: true,
+              },
+            },
+            vehicle: {
+              select: {
+                vehicleType: true,
+              },
+            },
+          },
+        });
+
+        if (!transportBooking || transportBooking.booking.userId !== userId) {
+          throw new Error("Booking not found or access denied");
+        }
+
+        const booking = transportBooking.booking;
+
+        if (!["DRAFT", "PENDING"].includes(booking.status)) {
+          throw new Error(
+            `Cannot create payment for booking with status: ${booking.status}`
+          );
+        }
+
+        if (booking.payment && booking.payment.paymentStatus === "SUCCESS") {
+          throw new Error("Payment already completed for this booking");
+        }
+
+        // Drafts and lapsed checkouts do not hold the vehicle, so check the
+        // trip window again before this booking starts holding it
+        await TransportUtils.lockVehicle(tx, transportBooking.vehicleId);
+        const conflictingBooking = await TransportUtils.findConflictingBooking(
+          transportBooking.vehicleId,
+          transportBooking.pickupTime,
+          transportBooking.dropTime,
+          tx,
+          transportBooking.id
+        );
+        if (conflictingBooking) {
+          throw new Error(
+            "Cannot create payment: the vehicle has since been booked for an overlapping trip"
+          );
+        }
+
+        const razorpayOrder = await PaymentUtils.createRazorpayOrder(booking, {
+          userId,
+          pickupLocation: transportBooking.pickupLocation,
+          dropLocation: transportBooking.dropLocation,
+        });
+
+        // Update booking status to PENDING when payment is initiated
+        await PaymentUtils.updateBookingStatus(tx, booking.id, "PENDING");
+
+        const payment = await PaymentUtils.upsertPendingPayment(
+          tx,
+          booking,
+          razorpayOrder.id
+        );
+
+        return { booking, transportBooking, payment, razorpayOrder };
+      });
+
+      return ResponseUtils.success(res, "Payment order created successfully", {
+        orderId: result.razorpayOrder.id,
+        amount: Math.round(result.booking.totalAmount * 100), // Amount in paise for Razorpay
+        currency: "INR",
+        key: PaymentUtils.getCheckoutKey(),
+        name: "Sojourn",
+        description: `Transport Booking - ${result.transportBooking.pickupLocation} to ${result.transportBooking.dropLocation}`,
+        prefill: {
+          contact: result.booking.user?.phoneNumber || "",
+        },
+        timeout: 900, // 15 minutes
+        payment: result.payment,
+        booking: {
+          id: result.booking.id,
+          status: "PENDING",
+          totalAmount: result.booking.totalAmount,
+          vehicleType: result.transportBooking.vehicle.vehicleType,
+          pickupLocation: result.transportBooking.pickupLocation,
+          dropLocation: result.transportBooking.dropLocation,
+          pickupTime: result.transportBooking.pickupTime,
+        },
+      });
+    } catch (error) {
+      console.error("Create transport payment order error:", error);
+
+      if (error instanceof Error) {
+        if (
+          error.message.includes("not found") ||
+          error.message.includes("access denied")
+        ) {
+          return ResponseUtils.notFound(
+            res,
+            "Booking not found or access denied"
+          );
+        }
+        if (
+          error.message.includes("Payment already completed") ||
+          error.message.includes("Cannot create payment")
+        ) {
+          return ResponseUtils.badRequest(res, error.message);
+        }
+      }
+
+      return ResponseUtils.serverError(res, "Failed to create payment order");
+    }
+  }
+
+  static async verifyPayment(req: ValidatedRequest, res: Response) {
+    try {
+      const userId = AuthUtils.getUserIdFromToken(req);
+      const { bookingId } = req.params;
+      const { razorpay_payment_id, razorpay_order_id, razorpay_signature } =
+        req.validatedData?.body || req.body;
+
+      if (!bookingId) {
+        return ResponseUtils.badRequest(res, "Booking ID is required");
+      }
+
+      const transportBooking = await prisma.transportBooking.findUnique({
+        where: { id: bookingId },
+        include: {
+          booking: {
+            include: {
+              payment: true,
+            },
+          },
+        },
+      });
+
+      if (!transportBooking) {
+        return ResponseUtils.notFound(res, "Transport booking not found");
+      }
+
+      const booking = transportBooking.booking;
+
+      if (booking.userId !== userId) {
+        return ResponseUtils.unauthorized(res, "Access denied");
+      }
+
+      if (!booking.payment) {
+        return ResponseUtils.notFound(res, "Payment record not found");
+      }
+
+      // The signature only proves the payment belongs to the order, so the
+      // order must be the one created for this booking
+      if (booking.payment.razorpayOrderId !== razorpay_order_id) {
+        return ResponseUtils.badRequest(
+          res,
+          "Order does not match this booking"
+        );
+      }
+
+      if (booking.payment.paymentStatus === "SUCCESS") {
+        return ResponseUtils.success(res, "Payment already verified");
+      }
+
+      if (!["DRAFT", "PENDING"].includes(booking.status)) {
+        return ResponseUtils.badRequest(
+          res,
+          `Cannot verify payment for booking with status: ${booking.status}`
+        );
+      }
+
+      const isValidSignature = PaymentUtils.verifyPaymentSignature(
+        razorpay_order_id,
+        razorpay_payment_id,
+        razorpay_signature
+      );
+
+      if (!isValidSignature) {
+        await prisma.payment.updateMany({
+          where: { bookingId: booking.id, paymentStatus: "PENDING" },
+          data: { paymentStatus: "FAILED" },
+        });
+
+        return ResponseUtils.badRequest(res, "Payment verification failed");
+      }
+
+      // Confirms only while the booking still awaits payment; one cancelled
+      // meanwhile keeps its status and the payment is queued for a refund
+      const { refundQueued } = await prisma.$transaction(
+        async (tx) =>
+          await PaymentUtils.confirmOrderPayments(
+            tx,
+            razorpay_order_id,
+            razorpay_payment_id,
+            razorpay_signature
+          )
+      );
+
+      if (refundQueued.length > 0) {
+        return ResponseUtils.badRequest(
+          res,
+          "This booking was cancelled before the payment completed. The amount will be refunded."
+        );
+      }
+
+      return ResponseUtils.success(res, "Payment verified successfully");
+    } catch (error) {
+      console.error("Verify transport payment error:", error);
+      return ResponseUtils.serverError(res, "Failed to verify payment");
+    }
+  }
+
+  // Helper method to upload multer files to ImageKit as vehicle photos
+  private static async uploadVehicleImageFiles(
+    req: Request,
+    vendorId: string,
+    vehicleId: string
+  ) {
+    const uploadedImages: any[] = [];
+    const imageUploadErrors: any[] = [];
+    const files = req.files as Express.Multer.File[];
+
+    if (!files || files.length === 0) {
+      return { uploadedImages, imageUploadErrors };
+    }
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (!file) continue;
+
+      const description = Array.isArray(req.body.descriptions)
+        ? req.body.descriptions[i]
+        : req.body.descriptions || `Vehicle image ${i + 1}`;
+      const isPrimary = Array.isArray(req.body.isPrimary)
+        ? req.body.isPrimary[i] === "true"
+        : req.body.isPrimary === "true" && i === 0; // Only first image can be primary if single value
+
+      try {
+        // Upload to ImageKit
+        const uploadResult = await imagekit.upload({
+          file: file.buffer,
+          fileName:
+            file.originalname || `vehicle_${vehicleId}_${Date.now()}_${i}`,
+          folder: `/transport/${vendorId}/vehicles`,
+          useUniqueFileName: true,
+        });
+
+        // Save to database
+        const vendorImage = await prisma.vendorImage.create({
+          data: {
+            vendorId,
+            imageUrl: uploadResult.url,
+            imageType: "vehicle",
+            description,
+            isPrimary,
+            vehicleId,
+          },
+        });
+
+        uploadedImages.push({
+          ...vendorImage,
+          fileId: uploadResult.fileId,
+          thumbnailUrl: uploadResult.thumbnailUrl,
+        });
+      } catch (uploadError) {
+        console.error("Image upload error:", uploadError);
+        imageUploadErrors.push({
+          index: i,
+          fileName: file.originalname,
+          error:
+            uploadError instanceof Error
+              ? uploadError.message
+              : "Unknown upload error",
+        });
+      }
+    }
+
+    return { uploadedImages, imageUploadErrors };
+  }
+}
+
+export const transportController = TransportController;
@@ -0,0 +1,160 @@
+import express from "express";
+import { transportController } from "./transportController.js";
+import { authMiddleware, authorizeVendor } from "../middleware/auth.js";
+import { validate } from "../middleware/validation.js";
+import {
+  uploadVehicleImages,
+  handleMulterError,
+} from "../middleware/upload.js";
+import {
+  registerVehicleSchema,
+  updateVehicleSchema,
+  assignDriverSchema,
+  vehicleImageUploadSchema,
+  vendorVehiclesQuerySchema,
+  searchVehiclesSchema,
+  fareEstimateSchema,
+  transportBookingSchema,
+} from "./validator.js";
+import { paymentVerificationSchema } from "../payment/validator.js";
+
+const router = express.Router();
+
+// ================================
+// VENDOR FLEET MANAGEMENT ROUTES
+// ================================
+
+// Register vehicle (approved transport vendor only)
+router.post(
+  "/vehicles",
+  authMiddleware,
+  authorizeVendor,
+  uploadVehicleImages,
+  handleMulterError,
+  validate(registerVehicleSchema),
+  transportController.registerVehicle
+);
+
+// Update vehicle details
+router.put(
+  "/vehicles/:vehicleId",
+  authMiddleware,
+  authorizeVendor,
+  validate(updateVehicleSchema),
+  transportController.updateVehicle
+);
+
+// Assign driver to vehicle
+router.patch(
+  "/vehicles/:vehicleId/driver",
+  authMiddleware,
+  authorizeVendor,
+  validate(assignDriverSchema),
+  transportController.assignDriver
+);
+
+// Toggle vehicle availability
+router.patch(
+  "/vehicles/:vehicleId/availability",
+  authMiddleware,
+  authorizeVendor,
+  transportController.toggleVehicleAvailability
+);
+
+// Get vendor's vehicles
+router.get(
+  "/vehicles",
+  authMiddleware,
+  authorizeVendor,
+  validate(vendorVehiclesQuerySchema),
+  transportController.getVendorVehicles
+);
+
+// ================================
+// VEHICLE PHOTO ROUTES
+// ================================
+
+// Upload vehicle photos
+router.post(
+  "/vehicles/:vehicleId/images",
+  authMiddleware,
+  authorizeVendor,
+  uploadVehicleImages,
+  handleMulterError,
+  validate(vehicleImageUploadSchema),
+  transportController.uploadVehicleImages
+);
+
+// Delete vehicle photo
+router.delete(
+  "/vehicles/:vehicleId/images/:imageId",
+  authMiddleware,
+  authorizeVendor,
+  transportController.deleteVehicleImage
+);
+
+// ================================
+// PUBLIC VEHICLE SEARCH & FARE ROUTES
+// ================================
+
+// Search available vehicles
+router.get(
+  "/search",
+  validate(searchVehiclesSchema),
+  transportController.searchVehicles
+);
+
+// Estimate the fare of a trip for a vehicle
+router.get(
+  "/fare-estimate",
+  validate(fareEstimateSchema),
+  transportController.getFareEstimate
+);
+
+// ================================
+// BOOKING ROUTES
+// ================================
+
+// Create transport booking
+router.post(
+  "/bookings",
+  authMiddleware,
+  validate(transportBookingSchema),
+  transportController.createTransportBooking
+);
+
+// Get customer bookings
+router.get(
+  "/customer/bookings",
+  authMiddleware,
+  transportController.getCustomerBookings
+);
+
+// Get vendor bookings
+router.get(
+  "/vendor/bookings",
+  authMiddleware,
+  authorizeVendor,
+  transportController.getVendorBookings
+);
+
+// ================================
+// PAYMENT ROUTES
+// ================================
+
+// Create payment order
+router.post(
+  "/bookings/:bookingId/payment/create-order",
+  authMiddleware,
+  transportController.createPaymentOrder
+);
+
+// Verify payment
+router.post(
+  "/bookings/:bookingId/payment/verify",
+  authMiddleware,
+  validate(paymentVerificationSchema),
+  transportController.verifyPayment
+);
+
+export { router as transportRoutes };
@@ -0,0 +1,192 @@
+import { PrismaClient } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+import { getDistanceProvider, type RouteEstimate } from "./distanceProvider.js";
+
+const prisma = new PrismaClient();
+
+// Pickups in Kashmir are scheduled in Indian Standard Time
+const IST_OFFSET = "+05:30";
+
+export type TransportPricingType = "PER_KM" | "PER_HOUR" | "PER_RIDE";
+
+export type FareOption = {
+  pricingType: TransportPricingType;
+  rate: number;
+  units: number;
+  totalAmount: number;
+};
+
+type VehiclePricing = {
+  pricePerKm: number | null;
+  pricePerHour: number | null;
+  pricePerRide: number | null;
+};
+
+export class TransportUtils {
+  // Build the pickup time from a "YYYY-MM-DD" date and an "HH:MM" time
+  static buildPickupTime(date: string, time: string): Date {
+    return new Date(`${date}T${time}:00${IST_OFFSET}`);
+  }
+
+  // Look up the route with the configured distance provider
+  static async estimateRoute(
+    pickupLocation: string,
+    dropLocation: string
+  ): Promise<RouteEstimate> {
+    const route = await getDistanceProvider().getRoute(
+      pickupLocation,
+      dropLocation
+    );
+
+    if (!route) {
+      throw new Error(
+        `Route distance not available between ${pickupLocation} and ${dropLocation}`
+      );
+    }
+
+    return route;
+  }
+
+  // Trip length used for hourly fares and the booking window. Hourly rentals
+  // reserve the vehicle for at least the requested hours
+  static getTripMinutes(route: RouteEstimate, rentalHours?: number): number {
+    return Math.max(route.durationMinutes, (rentalHours || 0) * 60);
+  }
+
+  // Fare for every pricing model the vehicle supports
+  static calculateFareOptions(
+    vehicle: VehiclePricing,
+    route: RouteEstimate,
+    rentalHours?: number
+  ): FareOption[] {
+    const options: FareOption[] = [];
+    const tripMinutes = this.getTripMinutes(route, rentalHours);
+
+    if (vehicle.pricePerKm && vehicle.pricePerKm > 0 && route.distanceKm > 0) {
+      options.push({
+        pricingType: "PER_KM",
+        rate: vehicle.pricePerKm,
+        units: route.distanceKm,
+        totalAmount: this.roundAmount(vehicle.pricePerKm * route.distanceKm),
+      });
+    }
+
+    if (vehicle.pricePerHour && vehicle.pricePerHour > 0 && tripMinutes > 0) {
+      // Hours are billed in full, with a minimum of one hour
+      const hours = Math.max(1, Math.ceil(tripMinutes / 60));
+      options.push({
+        pricingType: "PER_HOUR",
+        rate: vehicle.pricePerHour,
+        units: hours,
+        totalAmount: this.roundAmount(vehicle.pricePerHour * hours),
+      });
+    }
+
+    if (vehicle.pricePerRide && vehicle.pricePerRide > 0) {
+      options.push({
+        pricingType: "PER_RIDE",
+        rate: vehicle.pricePerRide,
+        units: 1,
+        totalAmount: this.roundAmount(vehicle.pricePerRide),
+      });
+    }
+
+    return options;
+  }
+
+  // Pick the requested pricing model, or the cheapest one the vehicle supports
+  static selectFare(
+    options: FareOption[],
+    pricingType?: TransportPricingType
+  ): FareOption {
+    if (pricingType) {
+      const requested = options.find(
+        (option) => option.pricingType === pricingType
+      );
+      if (!requested) {
+        throw new Error(
+          `Invalid pricing type. This vehicle does not offer ${pricingType} pricing for this trip`
+        );
+      }
+      return requested;
+    }
+
+    const cheapest = options.reduce<FareOption | null>(
+      (best, option) =>
+        !best || option.totalAmount < best.totalAmount ? option : best,
+      null
+    );
+
+    if (!cheapest) {
+      throw new Error("Vehicle has no pricing available for this trip");
+    }
+
+    return cheapest;
+  }
+
+  // Bookings that hold a vehicle - mirrors the hotel room conflict rules
+  static activeBookingFilter(): Prisma.TransportBookingWhereInput {
+    return {
+      OR: [
+        { status: "CONFIRMED" }, // Always count confirmed bookings
+        {
+          // Only count PENDING bookings that have successful payments
+          status: "PENDING",
+          booking: {
+            payment: {
+              paymentStatus: "SUCCESS",
+            },
+          },
+        },
+        {
+          // Count PENDING bookings that are very recent (within 30 minutes) to allow payment completion
+          status: "PENDING",
+          createdAt: {
+            gt: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
+          },
+        },
+      ],
+    };
+  }
+
+  // Lock the vehicle row until the transaction ends, so bookings for it are
+  // checked for overlaps and created one at a time
+  static async lockVehicle(
+    client: Prisma.TransactionClient,
+    vehicleId: string
+  ) {
+    await client.$queryRaw`SELECT "id" FROM "public"."vehicles" WHERE "id" = ${vehicleId} FOR UPDATE`;
+  }
+
+  // Find an active booking of the vehicle whose trip window overlaps the
+  // requested one, optionally leaving out the booking being checked
+  static async findConflictingBooking(
+    vehicleId: string,
+    pickupTime: Date,
+    dropTime: Date,
+    client: Prisma.TransactionClient = prisma,
+    excludeBookingId?: string
+  ) {
+    return await client.transportBooking.findFirst({
+      where: {
+        vehicleId,
+        ...(excludeBookingId && { id: { not: excludeBookingId } }),
+        // Existing trip starts before the new one ends and ends after it starts
+        pickupTime: { lt: dropTime },
+        dropTime: { gt: pickupTime },
+        ...this.activeBookingFilter(),
+      },
+      select: {
+        id: true,
+        pickupTime: true,
+        dropTime: true,
+      },
+    });
+  }
+
+  static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default TransportUtils;
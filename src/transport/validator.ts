@@ -0,0 +1,241 @@
+import { z } from "zod";
+
+// Vehicle Type enum
+const vehicleTypeSchema = z.enum([
+  "SEDAN",
+  "SUV",
+  "HATCHBACK",
+  "SHIKARA",
+  "TEMPO",
+  "BUS",
+]);
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
+
+const pricingTypeSchema = z.enum(["PER_KM", "PER_HOUR", "PER_RIDE"]);
+
+const locationSchema = (label: string) =>
+  z
+    .string()
+    .trim()
+    .min(2, `${label} is required`)
+    .max(200, `${label} cannot exceed 200 characters`);
+
+// Hourly rentals (e.g. a full day of sightseeing) reserve the vehicle for longer than the drive
+const rentalHoursSchema = z
+  .union([z.number(), z.string()])
+  .transform((val) => (typeof val === "string" ? parseFloat(val) : val))
+  .refine(
+    (val) => !isNaN(val) && val >= 1 && val <= 24,
+    "Rental hours must be between 1 and 24"
+  );
+
+// Indian registration numbers, e.g. "JK01AB1234", "JK 02 C 4567" or Bharat series "22BH1234AA".
+// Spaces and hyphens are removed and letters upper-cased before checking.
+const registrationNumberSchema = z
+  .string()
+  .transform((val) => val.replace(/[\s-]/g, "").toUpperCase())
+  .refine(
+    (val) =>
+      /^[A-Z]{2}[0-9]{1,2}[A-Z]{0,3}[0-9]{4}$/.test(val) ||
+      /^[0-9]{2}BH[0-9]{4}[A-Z]{1,2}$/.test(val),
+    "Invalid registration number. Expected format like JK01AB1234 or 22BH1234AA"
+  );
+
+// Indian driving licence numbers: state code, 2-digit RTO code, 4-digit year of issue
+// and 7-digit serial, e.g. "JK01 20110012345" or "JK-0120110012345"
+const driverLicenseSchema = z
+  .string()
+  .transform((val) => val.replace(/[\s-]/g, "").toUpperCase())
+  .refine(
+    (val) => /^[A-Z]{2}[0-9]{2}(19|20)[0-9]{2}[0-9]{7}$/.test(val),
+    "Invalid driving licence number. Expected format like JK0120110012345"
+  );
+
+// Phone number schema - Indian 10-digit numbers starting with 6-9
+const driverContactSchema = z
+  .string()
+  .regex(
+    /^[6-9]\d{9}$/,
+    "Please provide a valid 10-digit phone number starting with 6-9"
+  );
+
+// Numbers may arrive as strings from multipart/form-data requests
+const numericSchema = (label: string, options: { integer?: boolean } = {}) =>
+  z.union([z.number(), z.string()]).transform((val, ctx) => {
+    const parsed =
+      typeof val === "string"
+        ? options.integer
+          ? parseInt(val, 10)
+          : parseFloat(val)
+        : val;
+    if (isNaN(parsed)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `${label} must be a valid number`,
+      });
+      return z.NEVER;
+    }
+    return parsed;
+  });
+
+const seatingCapacitySchema = numericSchema("Seating capacity", {
+  integer: true,
+}).refine(
+  (val) => Number.isInteger(val) && val >= 1 && val <= 60,
+  "Seating capacity must be a whole number between 1 and 60"
+);
+
+const vehiclePriceSchema = (label: string) =>
+  z
+    .union([z.literal(""), numericSchema(label)])
+    .transform((val) => (val === "" ? undefined : val))
+    .refine(
+      (val) => val === undefined || (val >= 0 && val <= 1000000),
+      `${label} must be between 0 and 1000000`
+    );
+
+const imageFieldsSchema = {
+  descriptions: z.union([z.string(), z.array(z.string())]).optional(),
+  isPrimary: z.union([z.string(), z.array(z.string())]).optional(),
+};
+
+export const registerVehicleSchema = z.object({
+  body: z
+    .object({
+      vehicleType: vehicleTypeSchema,
+      seatingCapacity: seatingCapacitySchema,
+      registrationNumber: registrationNumberSchema,
+      driverName: z
+        .string()
+        .min(2, "Driver name must be at least 2 characters")
+        .max(100, "Driver name cannot exceed 100 characters"),
+      driverLicense: driverLicenseSchema,
+      driverContact: driverContactSchema,
+      pricePerKm: vehiclePriceSchema("Price per km").optional(),
+      pricePerHour: vehiclePriceSchema("Price per hour").optional(),
+      pricePerRide: vehiclePriceSchema("Price per ride").optional(),
+      availability: z.string().max(5000).optional(),
+      insuranceDetails: z
+        .string()
+        .min(3, "Insurance details are required")
+        .max(1000, "Insurance details cannot exceed 1000 characters"),
+      ...imageFieldsSchema,
+    })
+    .refine(
+      (data) =>
+        [data.pricePerKm, data.pricePerHour, data.pricePerRide].some(
+          (price) => price !== undefined && price > 0
+        ),
+      {
+        message:
+          "At least one of price per km, per hour or per ride is required",
+        path: ["pricePerKm"],
+      }
+    ),
+});
+
+export const updateVehicleSchema = z.object({
+  body: z
+    .object({
+      vehicleType: vehicleTypeSchema.optional(),
+      seatingCapacity: seatingCapacitySchema.optional(),
+      registrationNumber: registrationNumberSchema.optional(),
+      pricePerKm: vehiclePriceSchema("Price per km").nullable().optional(),
+      pricePerHour: vehiclePriceSchema("Price per hour").nullable().optional(),
+      pricePerRide: vehiclePriceSchema("Price per ride").nullable().optional(),
+      availability: z.string().max(5000).optional(),
+      insuranceDetails: z.string().min(3).max(1000).optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field is required for update",
+    }),
+});
+
+export const assignDriverSchema = z.object({
+  body: z.object({
+    driverName: z
+      .string()
+      .min(2, "Driver name must be at least 2 characters")
+      .max(100, "Driver name cannot exceed 100 characters"),
+    driverLicense: driverLicenseSchema,
+    driverContact: driverContactSchema,
+  }),
+});
+
+export const vehicleImageUploadSchema = z.object({
+  body: z.object(imageFieldsSchema),
+});
+
+export const vendorVehiclesQuerySchema = z.object({
+  query: z.object({
+    vehicleType: vehicleTypeSchema.optional(),
+    isAvailable: z.enum(["true", "false"]).optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+export const searchVehiclesSchema = z.object({
+  query: z.object({
+    vehicleType: vehicleTypeSchema.optional(),
+    passengers: z
+      .string()
+      .transform((val) => (val ? parseInt(val) : undefined))
+      .optional(),
+    page: z
+      .string()
+      .optional()
+      .default("1")
+      .transform((val) => parseInt(val) || 1),
+    limit: z
+      .string()
+      .optional()
+      .default("10")
+      .transform((val) => parseInt(val) || 10),
+  }),
+});
+
+export const fareEstimateSchema = z.object({
+  query: z.object({
+    vehicleId: z.string().min(1, "Vehicle ID is required"),
+    pickupLocation: locationSchema("Pickup location"),
+    dropLocation: locationSchema("Drop location"),
+    rentalHours: rentalHoursSchema.optional(),
+  }),
+});
+
+export const transportBookingSchema = z.object({
+  body: z.object({
+    vehicleId: z.string().min(1, "Vehicle ID is required"),
+    pickupLocation: locationSchema("Pickup location"),
+    dropLocation: locationSchema("Drop location"),
+    pickupDate: z
+      .string()
+      .regex(datePattern, "Pickup date must be in YYYY-MM-DD format"),
+    pickupTime: z
+      .string()
+      .regex(timePattern, "Invalid pickup time format (HH:MM)"),
+    numberOfPassengers: z
+      .number()
+      .int("Number of passengers must be a whole number")
+      .min(1, "At least 1 passenger is required"),
+    rentalHours: rentalHoursSchema.optional(),
+    pricingType: pricingTypeSchema.optional(),
+    promoCode: z
+      .string()
+      .trim()
+      .min(3, "Promo code is too short")
+      .max(30, "Promo code is too long")
+      .optional(),
+  }),
+});
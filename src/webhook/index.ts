@@ -0,0 +1,3 @@
+export { webhookController } from "./webhookController.js";
+export { webhookRoutes, razorpayWebhook } from "./webhookRoutes.js";
+export { WebhookUtils } from "./webhookUtils.js";
@@ -0,0 +1,126 @@
+import type { Request, Response } from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import WebhookUtils from "./webhookUtils.js";
+import type { RazorpayWebhookEvent } from "./webhookUtils.js";
+
+const prisma = new PrismaClient();
+
+export class WebhookController {
+  // ================================
+  // RAZORPAY WEBHOOK
+  // ================================
+
+  static async handleRazorpayWebhook(req: Request, res: Response) {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const signature = req.headers["x-razorpay-signature"];
+
+    if (
+      typeof signature !== "string" ||
+      !WebhookUtils.verifySignature(rawBody, signature)
+    ) {
+      return res.status(400).json({ error: "Invalid signature" });
+    }
+
+    let event: RazorpayWebhookEvent;
+    try {
+      event = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      return res.status(400).json({ error: "Invalid payload" });
+    }
+
+    const eventId = WebhookUtils.getEventId(
+      req.headers["x-razorpay-event-id"],
+      rawBody
+    );
+    const eventType = typeof event.event === "string" ? event.event : "unknown";
+
+    try {
+      const existing = await prisma.webhookEvent.findUnique({
+        where: { eventId },
+      });
+
+      // Razorpay retries deliveries; anything already handled is acknowledged
+      if (existing && existing.status !== "FAILED") {
+        return res.status(200).json({ status: "duplicate" });
+      }
+
+      const supported = WebhookUtils.isSupportedEvent(eventType);
+
+      // Recording the event and applying it commit together, so a retry of a
+      // failed event is processed again and a handled one never twice
+      const result = await prisma.$transaction(async (tx) => {
+        const record = {
+          status: supported ? "PROCESSED" : "IGNORED",
+          error: null,
+          processedAt: new Date(),
+        };
+
+        if (existing) {
+          const claim = await tx.webhookEvent.updateMany({
+            where: { eventId, status: "FAILED" },
+            data: { ...record, attempts: { increment: 1 } },
+          });
+          if (claim.count === 0) {
+            return null;
+          }
+        } else {
+          await tx.webhookEvent.create({
+            data: {
+              eventId,
+              eventType,
+              payload: rawBody.toString("utf8"),
+              ...record,
+            },
+          });
+        }
+
+        return supported
+          ? await WebhookUtils.handleEvent(tx, event)
+          : `Ignored ${eventType}`;
+      });
+
+      if (result === null) {
+        return res.status(200).json({ status: "duplicate" });
+      }
+
+      console.log(`Razorpay webhook ${eventId} (${eventType}): ${result}`);
+      return res.status(200).json({ status: "ok" });
+    } catch (error) {
+      // A concurrent delivery of the same event already recorded it
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return res.status(200).json({ status: "duplicate" });
+      }
+
+      console.error("Webhook error:", error);
+
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.webhookEvent
+        .upsert({
+          where: { eventId },
+          create: {
+            eventId,
+            eventType,
+            payload: rawBody.toString("utf8"),
+            status: "FAILED",
+            error: message,
+          },
+          update: {
+            status: "FAILED",
+            error: message,
+            attempts: { increment: 1 },
+          },
+        })
+        .catch((recordError) =>
+          console.error("Failed to record webhook event:", recordError)
+        );
+
+      // Non-2xx makes Razorpay retry the delivery
+      return res.status(500).json({ error: "Webhook processing failed" });
+    }
+  }
+}
+
+export const webhookController = WebhookController;
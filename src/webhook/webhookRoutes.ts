@@ -0,0 +1,20 @@
+import express from "express";
+import { webhookController } from "./webhookController.js";
+
+const router = express.Router();
+
+// Signatures are computed over the exact bytes Razorpay sent, so these routes
+// read the raw body and must be mounted before the JSON body parser
+const rawJsonBody = express.raw({ type: "application/json", limit: "1mb" });
+
+// ================================
+// PAYMENT GATEWAY WEBHOOKS
+// ================================
+
+// Razorpay payment, order, refund and dispute events
+router.post("/razorpay", rawJsonBody, webhookController.handleRazorpayWebhook);
+
+// Handler for the old /api/hotels/payment-webhook URL configured in Razorpay
+const razorpayWebhook = [rawJsonBody, webhookController.handleRazorpayWebhook];
+
+export { router as webhookRoutes, razorpayWebhook };
@@ -0,0 +1,200 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { RazorpayWebhookEvent } from "./webhookUtils.js";
+
+// The handleEvent suite applies events to payment rows and needs a migrated
+// database in TEST_DATABASE_URL
+
+// Modules create their Prisma clients on import
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
+const { WebhookUtils } = await import("./webhookUtils.js");
+
+describe("WebhookUtils.getFailedRefundUpdate", () => {
+  test("puts a payment back to SUCCESS when our refund fails", () => {
+    assert.deepEqual(
+      WebhookUtils.getFailedRefundUpdate(
+        {
+          refundId: "rfnd_ours",
+          refundStatus: "PENDING",
+          refundAmount: 2000,
+          totalAmount: 2000,
+        },
+        "rfnd_ours"
+      ),
+      {
+        paymentStatus: "SUCCESS",
+        refundId: "rfnd_ours",
+        refundStatus: "FAILED",
+        refundedAt: null,
+      }
+    );
+  });
+
+  test("keeps an earlier processed partial refund", () => {
+    assert.deepEqual(
+      WebhookUtils.getFailedRefundUpdate(
+        {
+          refundId: "rfnd_first",
+          refundStatus: "PROCESSED",
+          refundAmount: 500,
+          totalAmount: 2000,
+        },
+        "rfnd_second"
+      ),
+      { paymentStatus: "PARTIALLY_REFUNDED" }
+    );
+  });
+
+  test("keeps an earlier processed full refund", () => {
+    assert.deepEqual(
+      WebhookUtils.getFailedRefundUpdate(
+        {
+          refundId: "rfnd_first",
+          refundStatus: "PROCESSED",
+          refundAmount: 2000,
+          totalAmount: 2000,
+        },
+        "rfnd_second"
+      ),
+      { paymentStatus: "REFUNDED" }
+    );
+  });
+});
+
+describe(
+  "WebhookUtils.handleEvent refunds",
+  {
+    skip: process.env.TEST_DATABASE_URL
+      ? false
+      : "TEST_DATABASE_URL is not set",
+  },
+  () => {
+    let prisma: import("@prisma/client").PrismaClient;
+    const userIds: string[] = [];
+
+    const refundEvent = (
+      event: "refund.processed" | "refund.failed",
+      refundId: string,
+      paymentId: string,
+      amount: number
+    ): RazorpayWebhookEvent => ({
+      event,
+      payload: {
+        refund: { entity: { id: refundId, payment_id: paymentId, amount } },
+      },
+    });
+
+    const handle = (event: RazorpayWebhookEvent) =>
+      prisma.$transaction((tx) => WebhookUtils.handleEvent(tx, event));
+
+    // A confirmed ₹2,000 booking paid with `paymentId`
+    const createPayment = async (paymentId: string) => {
+      const suffix = String(Date.now()).slice(-8) + userIds.length;
+      const customer = await prisma.user.create({
+        data: { phoneNumber: `4${suffix}`, role: "CUSTOMER" },
+      });
+      const vendorUser = await prisma.user.create({
+        data: { phoneNumber: `3${suffix}`, role: "VENDOR" },
+      });
+      userIds.push(customer.id, vendorUser.id);
+
+      const vendor = await prisma.vendor.create({
+        data: {
+          userId: vendorUser.id,
+          businessName: "Webhook Test Stays",
+          ownerName: "Test Owner",
+          contactNumbers: [],
+          email: "webhook@example.com",
+          businessAddress: "1 Test Road",
+          gstNumber: "29ABCDE1234F1Z5",
+          panNumber: "ABCDE1234F",
+          aadhaarNumber: "123412341234",
+          vendorType: "HOTEL",
+          status: "APPROVED",
+        },
+      });
+      const booking = await prisma.booking.create({
+        data: {
+          userId: customer.id,
+          vendorId: vendor.id,
+          bookingType: "HOTEL",
+          totalAmount: 2000,
+          commissionAmount: 300,
+          status: "CONFIRMED",
+        },
+      });
+      return await prisma.payment.create({
+        data: {
+          bookingId: booking.id,
+          vendorId: vendor.id,
+          totalAmount: 2000,
+          commissionAmount: 300,
+          vendorAmount: 1700,
+          razorpayOrderId: `order_${paymentId}`,
+          razorpayPaymentId: paymentId,
+          paymentStatus: "SUCCESS",
+        },
+      });
+    };
+
+    before(async () => {
+      const { PrismaClient } = await import("@prisma/client");
+      prisma = new PrismaClient();
+    });
+
+    after(async () => {
+      // Vendors, bookings and payments go with their users
+      await prisma?.user.deleteMany({ where: { id: { in: userIds } } });
+      await prisma?.$disconnect();
+    });
+
+    test("a failed refund after a processed partial refund keeps it", async () => {
+      const paymentId = `pay_wh${Date.now()}a`;
+      const payment = await createPayment(paymentId);
+
+      await handle(
+        refundEvent("refund.processed", `rfnd_${paymentId}_1`, paymentId, 50000)
+      );
+      await handle(
+        refundEvent("refund.failed", `rfnd_${paymentId}_2`, paymentId, 30000)
+      );
+
+      const updated = await prisma.payment.findUniqueOrThrow({
+        where: { id: payment.id },
+      });
+      assert.equal(updated.paymentStatus, "PARTIALLY_REFUNDED");
+      assert.equal(updated.refundStatus, "PROCESSED");
+      assert.equal(updated.refundAmount, 500);
+      assert.equal(updated.refundId, `rfnd_${paymentId}_1`);
+    });
+
+    test("a failed refund we issued is queued for a retry", async () => {
+      const paymentId = `pay_wh${Date.now()}b`;
+      const payment = await createPayment(paymentId);
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          paymentStatus: "REFUNDED",
+          refundId: `rfnd_${paymentId}_1`,
+          refundAmount: 2000,
+          refundStatus: "PENDING",
+          refundedAt: new Date(),
+        },
+      });
+
+      await handle(
+        refundEvent("refund.failed", `rfnd_${paymentId}_1`, paymentId, 200000)
+      );
+
+      const updated = await prisma.payment.findUniqueOrThrow({
+        where: { id: payment.id },
+      });
+      assert.equal(updated.paymentStatus, "SUCCESS");
+      assert.equal(updated.refundStatus, "FAILED");
+      assert.equal(updated.refundAmount, 2000);
+      assert.equal(updated.refundedAt, null);
+    });
+  }
+);
@@ -0,0 +1,294 @@
+import crypto from "crypto";
+import type { Payment, Prisma } from "@prisma/client";
+import PaymentUtils from "../payment/paymentUtils.js";
+import { getPaymentGateway } from "../payment/paymentGateway.js";
+
+// Razorpay webhook body, only the parts we use
+export type RazorpayWebhookEvent = {
+  event: string;
+  payload: {
+    payment?: { entity: { id: string; order_id?: string | null } };
+    order?: { entity: { id: string } };
+    refund?: {
+      entity: {
+        id: string;
+        payment_id: string;
+        amount: number; // paise
+        notes?: Record<string, string> | unknown[];
+      };
+    };
+    dispute?: { entity: { id: string; payment_id: string } };
+  };
+};
+
+// Dispute status recorded on the payment for each dispute event
+const DISPUTE_STATUSES: Record<string, string> = {
+  "payment.dispute.created": "OPEN",
+  "payment.dispute.under_review": "UNDER_REVIEW",
+  "payment.dispute.action_required": "ACTION_REQUIRED",
+  "payment.dispute.won": "WON",
+  "payment.dispute.lost": "LOST",
+  "payment.dispute.closed": "CLOSED",
+};
+
+export class WebhookUtils {
+  // Razorpay signs the exact request body, so verify against the raw bytes
+  static verifySignature(rawBody: Buffer, signature: string): boolean {
+    return getPaymentGateway().verifyWebhookSignature(rawBody, signature);
+  }
+
+  // Razorpay sends a unique x-razorpay-event-id; fall back to a body hash
+  static getEventId(headerEventId: unknown, rawBody: Buffer): string {
+    if (typeof headerEventId === "string" && headerEventId.length > 0) {
+      return headerEventId;
+    }
+    return `sha256:${crypto.createHash("sha256").update(rawBody).digest("hex")}`;
+  }
+
+  static isSupportedEvent(eventType: string): boolean {
+    return (
+      [
+        "payment.captured",
+        "payment.failed",
+        "order.paid",
+        "refund.processed",
+        "refund.failed",
+      ].includes(eventType) || eventType in DISPUTE_STATUSES
+    );
+  }
+
+  // Apply an event to payments and bookings. Runs inside the transaction that
+  // records the event, so a failure leaves nothing half-updated
+  static async handleEvent(
+    tx: Prisma.TransactionClient,
+    event: RazorpayWebhookEvent
+  ): Promise<string> {
+    switch (event.event) {
+      case "payment.captured":
+      case "order.paid":
+        return await this.handlePaymentSuccess(tx, event);
+      case "payment.failed":
+        return await this.handlePaymentFailed(tx, event);
+      case "refund.processed":
+        return await this.handleRefundProcessed(tx, event);
+      case "refund.failed":
+        return await this.handleRefundFailed(tx, event);
+      default:
+        return await this.handleDispute(tx, event);
+    }
+  }
+
+  private static async handlePaymentSuccess(
+    tx: Prisma.TransactionClient,
+    event: RazorpayWebhookEvent
+  ): Promise<string> {
+    const payment = event.payload.payment?.entity;
+    const orderId = event.payload.order?.entity.id || payment?.order_id;
+
+    if (!payment || !orderId) {
+      throw new Error(`Missing payment or order in ${event.event} payload`);
+    }
+
+    // Confirm every booking paid with this order (trip carts pay several vendors at once)
+    const { confirmed, refundQueued } = await PaymentUtils.confirmOrderPayments(
+      tx,
+      orderId,
+      payment.id
+    );
+
+    if (refundQueued.length > 0) {
+      console.warn(
+        `Payment ${payment.id} captured for ${refundQueued.length} cancelled booking(s) of order ${orderId}; refund queued`
+      );
+    }
+
+    return `Confirmed ${confirmed.length} booking(s) for order ${orderId}${
+      refundQueued.length > 0
+        ? `, queued refund for ${refundQueued.length} cancelled booking(s)`
+        : ""
+    }`;
+  }
+
+  // The order stays open so the customer can retry while the booking is held;
+  // only the payment attempt is marked as failed
+  private static async handlePaymentFailed(
+    tx: Prisma.TransactionClient,
+    event: RazorpayWebhookEvent
+  ): Promise<string> {
+    const payment = event.payload.payment?.entity;
+    if (!payment?.order_id) {
+      throw new Error("Missing payment order in payment.failed payload");
+    }
+
+    const result = await tx.payment.updateMany({
+      where: {
+        razorpayOrderId: payment.order_id,
+        paymentStatus: "PENDING",
+      },
+      data: {
+        paymentStatus: "FAILED",
+        razorpayPaymentId: payment.id,
+      },
+    });
+
+    return `Marked ${result.count} payment(s) failed for order ${payment.order_id}`;
+  }
+
+  private static async handleRefundProcessed(
+    tx: Prisma.TransactionClient,
+    event: RazorpayWebhookEvent
+  ): Promise<string> {
+    const refund = event.payload.refund?.entity;
+    if (!refund) {
+      throw new Error("Missing refund in refund.processed payload");
+    }
+
+    const payment = await this.findRefundedPayment(tx, refund);
+    if (!payment) {
+      return `No payment found for refund ${refund.id}`;
+    }
+
+    // refundAmount keeps the running total of processed refunds. A refund we
+    // issued is already counted in it; any other refund (e.g. from the Razorpay
+    // dashboard) is added to what was processed before
+    const alreadyRefunded =
+      payment.refundStatus === "PROCESSED" ? (payment.refundAmount ?? 0) : 0;
+    const refundAmount = Math.min(
+      payment.totalAmount,
+      payment.refundId === refund.id
+        ? (payment.refundAmount ?? refund.amount / 100)
+        : alreadyRefunded + refund.amount / 100
+    );
+    const isFullRefund = refundAmount >= payment.totalAmount;
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        paymentStatus: isFullRefund ? "REFUNDED" : "PARTIALLY_REFUNDED",
+        refundId: refund.id,
+        refundAmount,
+        refundStatus: "PROCESSED",
+        refundedAt: new Date(),
+      },
+    });
+
+    // A fully refunded booking is no longer valid
+    if (isFullRefund) {
+      await PaymentUtils.updateBookingStatus(
+        tx,
+        payment.bookingId,
+        "CANCELLED"
+      );
+    }
+
+    return `Refund ${refund.id} processed for booking ${payment.bookingId}`;
+  }
+
+  // Payment fields after a refund fails. A refund we issued was the only
+  // refund of the payment, so it goes back to SUCCESS and the refund is
+  // retried. Any other refund (e.g. from the Razorpay dashboard) did not
+  // change the payment, so refunds processed before it stand
+  static getFailedRefundUpdate(
+    payment: Pick<
+      Payment,
+      "refundId" | "refundStatus" | "refundAmount" | "totalAmount"
+    >,
+    refundId: string
+  ): Prisma.PaymentUpdateInput {
+    if (payment.refundId !== refundId && payment.refundStatus === "PROCESSED") {
+      return {
+        paymentStatus:
+          (payment.refundAmount ?? 0) >= payment.totalAmount
+            ? "REFUNDED"
+            : "PARTIALLY_REFUNDED",
+      };
+    }
+
+    return {
+      paymentStatus: "SUCCESS",
+      refundId,
+      refundStatus: "FAILED",
+      refundedAt: null,
+    };
+  }
+
+  // Money stays with us, so the payment returns to its state before the refund
+  private static async handleRefundFailed(
+    tx: Prisma.TransactionClient,
+    event: RazorpayWebhookEvent
+  ): Promise<string> {
+    const refund = event.payload.refund?.entity;
+    if (!refund) {
+      throw new Error("Missing refund in refund.failed payload");
+    }
+
+    const payment = await this.findRefundedPayment(tx, refund);
+    if (!payment) {
+      return `No payment found for refund ${refund.id}`;
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: this.getFailedRefundUpdate(payment, refund.id),
+    });
+
+    return `Refund ${refund.id} failed for booking ${payment.bookingId}`;
+  }
+
+  private static async handleDispute(
+    tx: Prisma.TransactionClient,
+    event: RazorpayWebhookEvent
+  ): Promise<string> {
+    const dispute = event.payload.dispute?.entity;
+    const paymentId = dispute?.payment_id || event.payload.payment?.entity.id;
+    if (!dispute || !paymentId) {
+      throw new Error(`Missing dispute in ${event.event} payload`);
+    }
+
+    // A trip cart payment is shared by every vendor booking of the order
+    const result = await tx.payment.updateMany({
+      where: { razorpayPaymentId: paymentId },
+      data: {
+        disputeId: dispute.id,
+        disputeStatus: DISPUTE_STATUSES[event.event]!,
+      },
+    });
+
+    return `Dispute ${dispute.id} ${DISPUTE_STATUSES[event.event]} on ${result.count} payment(s)`;
+  }
+
+  // Match by refund ID first (refunds we issued), then by the booking in the
+  // refund notes, then by the Razorpay payment when it belongs to one booking
+  private static async findRefundedPayment(
+    tx: Prisma.TransactionClient,
+    refund: NonNullable<RazorpayWebhookEvent["payload"]["refund"]>["entity"]
+  ) {
+    const byRefundId = await tx.payment.findFirst({
+      where: { refundId: refund.id },
+    });
+    if (byRefundId) {
+      return byRefundId;
+    }
+
+    const notes = Array.isArray(refund.notes) ? {} : refund.notes || {};
+    if (notes.bookingId) {
+      const byBooking = await tx.payment.findFirst({
+        where: {
+          bookingId: notes.bookingId,
+          razorpayPaymentId: refund.payment_id,
+        },
+      });
+      if (byBooking) {
+        return byBooking;
+      }
+    }
+
+    const payments = await tx.payment.findMany({
+      where: { razorpayPaymentId: refund.payment_id },
+    });
+
+    return payments.length === 1 ? payments[0]! : null;
+  }
+}
+
+export default WebhookUtils;